@@ -1,48 +1,13 @@
 import React, { Suspense } from 'react'
-import { Routes, Route, Navigate } from 'react-router-dom'
+import { Routes, Route, Navigate, useLocation } from 'react-router-dom'
 import { useAuthStore } from '@/app/store/authStore'
 import { useThemeStore } from '@/app/store/themeStore'
 import Layout from '@/components/Layout/Layout'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import RouteGuard from '@/components/auth/RouteGuard'
+import { appRoutes } from '@/app/router'
 
-// Lazy load pages for better performance
-const Dashboard = React.lazy(() => import('@/pages/Dashboard'))
-const Games = React.lazy(() => import('@/pages/Games'))
-const GameDetail = React.lazy(() => import('@/pages/GameDetail'))
-const Players = React.lazy(() => import('@/pages/Players'))
-const PlayerDetail = React.lazy(() => import('@/pages/PlayerDetail'))
-const Recommendations = React.lazy(() => import('@/pages/Recommendations'))
-const RecommendationsDashboard = React.lazy(() => import('@/pages/RecommendationsDashboard'))
-const PlayerAnalytics = React.lazy(() => import('@/pages/PlayerAnalytics'))
-const ABTestingManagement = React.lazy(() => import('@/pages/ABTestingManagement'))
-const Analytics = React.lazy(() => import('@/pages/Analytics'))
-const ABTesting = React.lazy(() => import('@/pages/ABTesting'))
-const Models = React.lazy(() => import('@/pages/Models'))
-const ModelDetail = React.lazy(() => import('@/pages/ModelDetail'))
-const Settings = React.lazy(() => import('@/pages/Settings'))
-// Admin routes
-const UserManagement = React.lazy(() => import('@/pages/admin/UserManagement'))
-const RoleManagement = React.lazy(() => import('@/pages/admin/RoleManagement'))
-const PermissionManagement = React.lazy(() => import('@/pages/admin/PermissionManagement'))
-const UserActivity = React.lazy(() => import('@/pages/admin/UserActivity'))
-const UIShowcase = React.lazy(() => import('@/pages/UIShowcase'))
-const AuthTest = React.lazy(() => import('@/components/test/AuthTest'))
-const Phase1Testing = React.lazy(() => import('@/pages/Phase1Testing'))
-const JWTTesting = React.lazy(() => import('@/pages/JWTTesting'))
-const GamesManagement = React.lazy(() => import('@/pages/GamesManagement'))
-const GamesTestingSuite = React.lazy(() => import('@/pages/GamesTestingSuite'))
-const AnalyticsDashboard = React.lazy(() => import('@/pages/AnalyticsDashboard'))
-const GameRecommendations = React.lazy(() => import('@/pages/GameRecommendations'))
-const RecommendationAnalytics = React.lazy(() => import('@/pages/RecommendationAnalytics'))
-const SystemTestingSuite = React.lazy(() => import('@/pages/SystemTestingSuite'))
-const PerformanceDashboard = React.lazy(() => import('@/pages/PerformanceDashboard'))
-const FinalTestingSuite = React.lazy(() => import('@/pages/FinalTestingSuite'))
-const FeatureEnhancementPlanner = React.lazy(() => import('@/pages/FeatureEnhancementPlanner'))
-const AIInnovationLab = React.lazy(() => import('@/pages/AIInnovationLab'))
-const BusinessIntelligenceDashboard = React.lazy(() => import('@/pages/BusinessIntelligenceDashboard'))
-const NextGenAILab = React.lazy(() => import('@/pages/NextGenAILab'))
-const AdvancedAnalyticsPlatform = React.lazy(() => import('@/pages/AdvancedAnalyticsPlatform'))
-const AIModelLaboratory = React.lazy(() => import('@/pages/AIModelLaboratory'))
+// Lazy load pages for better performance; pages inside the layout live in the route manifest
 const Login = React.lazy(() => import('@/pages/Login'))
 const NotFound = React.lazy(() => import('@/pages/NotFound'))
 
@@ -53,13 +18,21 @@ const PageLoader = () => (
   </div>
 )
 
+const ACCOUNT_SECURITY_PATH = '/account/security'
+
 // Protected route wrapper
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { isAuthenticated } = useAuthStore()
+  const { isAuthenticated, twoFactorSetupRequired } = useAuthStore()
+  const location = useLocation()
   
   if (!isAuthenticated) {
     return <Navigate to="/login" replace />
   }
+
+  // Roles that require two-factor can only reach the setup page until it is done
+  if (twoFactorSetupRequired && location.pathname !== ACCOUNT_SECURITY_PATH) {
+    return <Navigate to={ACCOUNT_SECURITY_PATH} replace />
+  }
   
   return <>{children}</>
 }
@@ -116,88 +89,19 @@ function App() {
               </ProtectedRoute>
             }
           >
-            {/* Dashboard */}
             <Route index element={<Navigate to="/dashboard" replace />} />
-            <Route path="dashboard" element={<Dashboard />} />
-
-            {/* Games */}
-            <Route path="games" element={<Games />} />
-            <Route path="games/:gameId" element={<GameDetail />} />
-            <Route path="games-management" element={<GamesManagement />} />
-            <Route path="games-testing" element={<GamesTestingSuite />} />
-
-            {/* Players */}
-            <Route path="players" element={<Players />} />
-            <Route path="players/:playerId" element={<PlayerDetail />} />
-            <Route path="players/analytics" element={<PlayerAnalytics />} />
-
-            {/* Recommendations */}
-            <Route path="recommendations" element={<Recommendations />} />
-            <Route path="recommendations/dashboard" element={<RecommendationsDashboard />} />
-
-            {/* Analytics */}
-            <Route path="analytics" element={<Analytics />} />
-            <Route path="analytics-dashboard" element={<AnalyticsDashboard />} />
-
-            {/* Recommendations */}
-            <Route path="recommendations" element={<GameRecommendations />} />
-            <Route path="recommendation-analytics" element={<RecommendationAnalytics />} />
-
-            {/* A/B Testing */}
-            <Route path="ab-testing" element={<ABTesting />} />
-            <Route path="ab-testing/management" element={<ABTestingManagement />} />
-
-            {/* Models */}
-            <Route path="models" element={<Models />} />
-            <Route path="models/:modelId" element={<ModelDetail />} />
-
-            {/* Settings */}
-            <Route path="settings" element={<Settings />} />
-
-            {/* UI Showcase */}
-            <Route path="ui-showcase" element={<UIShowcase />} />
-
-            {/* Auth Test */}
-            <Route path="auth-test" element={<AuthTest />} />
-
-            {/* Phase 1 Testing */}
-            <Route path="phase1-testing" element={<Phase1Testing />} />
-
-            {/* JWT Testing */}
-            <Route path="jwt-testing" element={<JWTTesting />} />
-
-            {/* System Testing */}
-            <Route path="system-testing" element={<SystemTestingSuite />} />
-
-            {/* Performance Dashboard */}
-            <Route path="performance" element={<PerformanceDashboard />} />
-
-            {/* Final Testing Suite */}
-            <Route path="final-testing" element={<FinalTestingSuite />} />
-
-            {/* Feature Enhancement Planner */}
-            <Route path="feature-planner" element={<FeatureEnhancementPlanner />} />
-
-            {/* AI Innovation Lab */}
-            <Route path="ai-lab" element={<AIInnovationLab />} />
-
-            {/* Business Intelligence Dashboard */}
-            <Route path="business-intelligence" element={<BusinessIntelligenceDashboard />} />
-
-            {/* Next-Gen AI Lab */}
-            <Route path="nextgen-ai" element={<NextGenAILab />} />
-
-            {/* Advanced Analytics Platform */}
-            <Route path="advanced-analytics" element={<AdvancedAnalyticsPlatform />} />
-
-            {/* AI Model Laboratory */}
-            <Route path="ai-models" element={<AIModelLaboratory />} />
-
-            {/* Admin Routes */}
-            <Route path="admin/users" element={<UserManagement />} />
-            <Route path="admin/roles" element={<RoleManagement />} />
-            <Route path="admin/permissions" element={<PermissionManagement />} />
-            <Route path="admin/activity" element={<UserActivity />} />
+            {/* Pages from the route manifest, each guarded by its access rule */}
+            {appRoutes.map((route) => (
+              <Route
+                key={route.id}
+                path={route.path}
+                element={
+                  <RouteGuard route={route}>
+                    <route.component />
+                  </RouteGuard>
+                }
+              />
+            ))}
           </Route>
 
           {/* 404 page */}
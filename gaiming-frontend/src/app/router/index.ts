@@ -0,0 +1,5 @@
+// Route manifest and access helpers
+export { appRoutes } from './routeManifest'
+export type { AppRoute } from './routeManifest'
+export { canAccessRoute, findRoute, getBreadcrumbs } from './routeAccess'
+export type { RouteAccessRule, RouteDefinition, Breadcrumb } from './routeAccess'
@@ -0,0 +1,78 @@
+/**
+ * Route access and lookup helpers
+ * Pure functions over a route list, shared by the router, the sidebar and breadcrumbs
+ */
+
+import { matchPath } from 'react-router-dom'
+import type { User } from '@/app/store/authStore'
+
+export interface RouteAccessRule {
+  permissions?: string[]
+  roles?: string[]
+  // Require every listed permission instead of any one of them
+  requireAll?: boolean
+}
+
+export interface RouteDefinition extends RouteAccessRule {
+  id: string
+  path: string
+  title: string
+  // Route id shown before this one in breadcrumbs
+  parent?: string
+}
+
+export interface Breadcrumb {
+  id: string
+  title: string
+  path: string
+}
+
+// Admins have every permission, as in authService.hasPermission
+const ADMIN_ROLE = 'Admin'
+
+/**
+ * Whether a user may open a route; routes without rules are open to every signed-in user
+ */
+export function canAccessRoute(rule: RouteAccessRule, user: Pick<User, 'role' | 'permissions'> | null): boolean {
+  if (!user) return false
+  if (user.role === ADMIN_ROLE) return true
+
+  const { permissions = [], roles = [], requireAll = false } = rule
+  if (roles.length > 0 && !roles.includes(user.role)) return false
+  if (permissions.length === 0) return true
+
+  return requireAll
+    ? permissions.every(permission => user.permissions.includes(permission))
+    : permissions.some(permission => user.permissions.includes(permission))
+}
+
+/**
+ * The route rendered for a pathname. Static paths win over parameterised ones,
+ * so /players/analytics is not taken for a player id.
+ */
+export function findRoute<T extends RouteDefinition>(pathname: string, routes: readonly T[]): T | undefined {
+  const matches = routes.filter(route => matchPath({ path: route.path, end: true }, pathname))
+  return matches.find(route => !route.path.includes(':')) ?? matches[0]
+}
+
+/**
+ * Breadcrumb trail for a pathname, following each route's parent
+ */
+export function getBreadcrumbs(pathname: string, routes: readonly RouteDefinition[]): Breadcrumb[] {
+  const current = findRoute(pathname, routes)
+  if (!current) return []
+
+  const trail: Breadcrumb[] = [{ id: current.id, title: current.title, path: pathname }]
+  const seen = new Set([current.id])
+  let parentId = current.parent
+
+  while (parentId && !seen.has(parentId)) {
+    const parent = routes.find(route => route.id === parentId)
+    if (!parent) break
+    trail.unshift({ id: parent.id, title: parent.title, path: parent.path })
+    seen.add(parent.id)
+    parentId = parent.parent
+  }
+
+  return trail
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import manifestSource from './routeManifest.tsx?raw'
+import { appRoutes } from './routeManifest'
+import { canAccessRoute, findRoute } from './routeAccess'
+
+// Pages rendered outside the app layout
+const PAGES_OUTSIDE_LAYOUT = ['Login', 'NotFound']
+// Pages no route points at
+const UNROUTED_PAGES = ['DarkModeDemo', 'ThemeSettings']
+// Routes every signed-in user may open
+const OPEN_ROUTE_IDS = ['dashboard', 'settings', 'account-security', 'ui-showcase']
+
+const pages = Object.keys(import.meta.glob('/src/pages/**/*.tsx'))
+  .map(file => file.replace('/src/pages/', '').replace(/\.tsx$/, ''))
+
+const unprivilegedUser = { role: 'Viewer', permissions: [] }
+
+// A concrete URL for a route path, e.g. /games/:gameId -> /games/1
+const toUrl = (path: string) => path.replace(/:[^/]+/g, '1')
+
+describe('route manifest', () => {
+  it('routes every page inside the layout', () => {
+    const routed = pages.filter(page => manifestSource.includes(`import('@/pages/${page}')`))
+    const expected = pages.filter(page => ![...PAGES_OUTSIDE_LAYOUT, ...UNROUTED_PAGES].includes(page))
+
+    expect(routed.sort()).toEqual(expected.sort())
+  })
+
+  it('has unique ids and paths, and known parents', () => {
+    const ids = appRoutes.map(route => route.id)
+    const paths = appRoutes.map(route => route.path)
+
+    expect(new Set(ids).size).toBe(ids.length)
+    expect(new Set(paths).size).toBe(paths.length)
+    appRoutes
+      .filter(route => route.parent)
+      .forEach(route => expect(ids, route.id).toContain(route.parent))
+  })
+
+  it('resolves each path to its own route', () => {
+    appRoutes.forEach(route => {
+      expect(findRoute(toUrl(route.path), appRoutes)?.id, route.path).toBe(route.id)
+    })
+  })
+
+  it('declares an access rule for every route that is not deliberately open', () => {
+    const open = appRoutes
+      .filter(route => !route.permissions?.length && !route.roles?.length)
+      .map(route => route.id)
+
+    expect(open.sort()).toEqual([...OPEN_ROUTE_IDS].sort())
+  })
+
+  it('guards each route by its rule', () => {
+    appRoutes.forEach(route => {
+      const isOpen = OPEN_ROUTE_IDS.includes(route.id)
+      const qualifiedUser = {
+        role: route.roles?.[0] ?? 'Viewer',
+        permissions: route.permissions ?? []
+      }
+
+      expect(canAccessRoute(route, null), route.id).toBe(false)
+      expect(canAccessRoute(route, unprivilegedUser), route.id).toBe(isOpen)
+      expect(canAccessRoute(route, qualifiedUser), route.id).toBe(true)
+      expect(canAccessRoute(route, { role: 'Admin', permissions: [] }), route.id).toBe(true)
+    })
+  })
+})
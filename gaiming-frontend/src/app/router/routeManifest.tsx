@@ -0,0 +1,346 @@
+/**
+ * Route manifest
+ * Every page inside the app layout, with the permissions and roles it needs.
+ * The router, the sidebar and breadcrumbs are all built from this list.
+ */
+
+import React from 'react'
+import {
+  LayoutDashboard,
+  Gamepad2,
+  Users,
+  Target,
+  BarChart3,
+  FlaskConical,
+  Brain,
+  Settings,
+  Shield,
+  Key,
+  Activity,
+  Palette,
+  TrendingUp,
+  Sparkles,
+  Cpu,
+  ScrollText,
+} from 'lucide-react'
+import type { RouteDefinition } from './routeAccess'
+
+export interface AppRoute extends RouteDefinition {
+  component: React.LazyExoticComponent<React.ComponentType>
+  // Routes with a nav entry appear in the sidebar, in manifest order
+  nav?: {
+    icon: React.ComponentType<{ className?: string }>
+    label?: string // Defaults to the title
+    badge?: string
+  }
+}
+
+// Roles allowed into test and diagnostics pages
+const DEVELOPER_ROLES = ['Admin']
+
+export const appRoutes: AppRoute[] = [
+  {
+    id: 'dashboard',
+    path: '/dashboard',
+    title: 'Dashboard',
+    component: React.lazy(() => import('@/pages/Dashboard')),
+    nav: { icon: LayoutDashboard },
+  },
+  {
+    id: 'games',
+    path: '/games',
+    title: 'Games',
+    permissions: ['games.view'],
+    component: React.lazy(() => import('@/pages/Games')),
+    nav: { icon: Gamepad2 },
+  },
+  {
+    id: 'game-detail',
+    path: '/games/:gameId',
+    title: 'Game Details',
+    parent: 'games',
+    permissions: ['games.view'],
+    component: React.lazy(() => import('@/pages/GameDetail')),
+  },
+  {
+    id: 'games-management',
+    path: '/games-management',
+    title: 'Games Management',
+    permissions: ['games.manage'],
+    component: React.lazy(() => import('@/pages/GamesManagement')),
+    nav: { icon: Settings, badge: 'Pro' },
+  },
+  {
+    id: 'games-testing',
+    path: '/games-testing',
+    title: 'Games Testing',
+    roles: DEVELOPER_ROLES,
+    component: React.lazy(() => import('@/pages/GamesTestingSuite')),
+    nav: { icon: FlaskConical, badge: 'Test' },
+  },
+  {
+    id: 'system-testing',
+    path: '/system-testing',
+    title: 'System Testing',
+    roles: DEVELOPER_ROLES,
+    component: React.lazy(() => import('@/pages/SystemTestingSuite')),
+    nav: { icon: Activity, badge: 'E2E' },
+  },
+  {
+    id: 'performance',
+    path: '/performance',
+    title: 'Performance',
+    permissions: ['system.admin'],
+    component: React.lazy(() => import('@/pages/PerformanceDashboard')),
+    nav: { icon: TrendingUp, badge: 'Live' },
+  },
+  {
+    id: 'final-testing',
+    path: '/final-testing',
+    title: 'Final Testing',
+    roles: DEVELOPER_ROLES,
+    component: React.lazy(() => import('@/pages/FinalTestingSuite')),
+    nav: { icon: Target, badge: 'Final' },
+  },
+  {
+    id: 'feature-planner',
+    path: '/feature-planner',
+    title: 'Feature Planner',
+    roles: ['Admin', 'Manager'],
+    component: React.lazy(() => import('@/pages/FeatureEnhancementPlanner')),
+    nav: { icon: Brain, badge: 'Strategy' },
+  },
+  {
+    id: 'ai-lab',
+    path: '/ai-lab',
+    title: 'AI Innovation Lab',
+    permissions: ['models.view'],
+    component: React.lazy(() => import('@/pages/AIInnovationLab')),
+    nav: { icon: Cpu, badge: 'AI' },
+  },
+  {
+    id: 'business-intelligence',
+    path: '/business-intelligence',
+    title: 'Business Intelligence',
+    permissions: ['analytics.view'],
+    component: React.lazy(() => import('@/pages/BusinessIntelligenceDashboard')),
+    nav: { icon: BarChart3, badge: 'KPI' },
+  },
+  {
+    id: 'nextgen-ai',
+    path: '/nextgen-ai',
+    title: 'Next-Gen AI Lab',
+    permissions: ['models.view'],
+    component: React.lazy(() => import('@/pages/NextGenAILab')),
+    nav: { icon: Sparkles, badge: 'Future' },
+  },
+  {
+    id: 'advanced-analytics',
+    path: '/advanced-analytics',
+    title: 'Advanced Analytics',
+    permissions: ['analytics.view'],
+    component: React.lazy(() => import('@/pages/AdvancedAnalyticsPlatform')),
+    nav: { icon: TrendingUp, badge: 'Deep' },
+  },
+  {
+    id: 'ai-models',
+    path: '/ai-models',
+    title: 'AI Model Lab',
+    permissions: ['models.view'],
+    component: React.lazy(() => import('@/pages/AIModelLaboratory')),
+    nav: { icon: FlaskConical, badge: 'Code' },
+  },
+  {
+    id: 'players',
+    path: '/players',
+    title: 'Players',
+    permissions: ['players.view'],
+    component: React.lazy(() => import('@/pages/Players')),
+    nav: { icon: Users },
+  },
+  {
+    id: 'player-detail',
+    path: '/players/:playerId',
+    title: 'Player Details',
+    parent: 'players',
+    permissions: ['players.view'],
+    component: React.lazy(() => import('@/pages/PlayerDetail')),
+  },
+  {
+    id: 'player-analytics',
+    path: '/players/analytics',
+    title: 'Player Analytics',
+    parent: 'players',
+    permissions: ['players.view', 'analytics.view'],
+    requireAll: true,
+    component: React.lazy(() => import('@/pages/PlayerAnalytics')),
+    nav: { icon: BarChart3, badge: 'Pro' },
+  },
+  {
+    id: 'recommendations',
+    path: '/recommendations',
+    title: 'Recommendations',
+    permissions: ['recommendations.view'],
+    component: React.lazy(() => import('@/pages/Recommendations')),
+    nav: { icon: Sparkles, label: 'Game Recommendations', badge: 'AI' },
+  },
+  {
+    id: 'recommendations-dashboard',
+    path: '/recommendations/dashboard',
+    title: 'Recommendations Dashboard',
+    parent: 'recommendations',
+    permissions: ['recommendations.view'],
+    component: React.lazy(() => import('@/pages/RecommendationsDashboard')),
+  },
+  {
+    id: 'player-recommendations',
+    path: '/recommendations/players/:playerId',
+    title: 'Player Recommendations',
+    parent: 'recommendations',
+    permissions: ['recommendations.view'],
+    component: React.lazy(() => import('@/pages/GameRecommendations')),
+  },
+  {
+    id: 'analytics',
+    path: '/analytics',
+    title: 'Analytics',
+    permissions: ['analytics.view'],
+    component: React.lazy(() => import('@/pages/Analytics')),
+    nav: { icon: BarChart3 },
+  },
+  {
+    id: 'analytics-dashboard',
+    path: '/analytics-dashboard',
+    title: 'Analytics Dashboard',
+    permissions: ['analytics.view'],
+    component: React.lazy(() => import('@/pages/AnalyticsDashboard')),
+    nav: { icon: TrendingUp, badge: 'Live' },
+  },
+  {
+    id: 'recommendation-analytics',
+    path: '/recommendation-analytics',
+    title: 'Recommendation Analytics',
+    permissions: ['recommendations.view'],
+    component: React.lazy(() => import('@/pages/RecommendationAnalytics')),
+    nav: { icon: Brain, badge: 'ML' },
+  },
+  {
+    id: 'ab-testing',
+    path: '/ab-testing',
+    title: 'A/B Testing',
+    permissions: ['recommendations.view'],
+    component: React.lazy(() => import('@/pages/ABTesting')),
+    nav: { icon: FlaskConical, badge: 'Beta' },
+  },
+  {
+    id: 'ab-testing-management',
+    path: '/ab-testing/management',
+    title: 'A/B Test Management',
+    parent: 'ab-testing',
+    permissions: ['recommendations.manage'],
+    component: React.lazy(() => import('@/pages/ABTestingManagement')),
+    nav: { icon: Settings, label: 'AB Management', badge: 'Pro' },
+  },
+  {
+    id: 'models',
+    path: '/models',
+    title: 'ML Models',
+    permissions: ['models.view'],
+    component: React.lazy(() => import('@/pages/Models')),
+    nav: { icon: Brain },
+  },
+  {
+    id: 'model-detail',
+    path: '/models/:modelId',
+    title: 'Model Details',
+    parent: 'models',
+    permissions: ['models.view'],
+    component: React.lazy(() => import('@/pages/ModelDetail')),
+  },
+  {
+    // Also hosts personal panels such as My Sessions, so it is open to everyone;
+    // the settings API enforces who may change system settings
+    id: 'settings',
+    path: '/settings',
+    title: 'Settings',
+    component: React.lazy(() => import('@/pages/Settings')),
+    nav: { icon: Settings },
+  },
+  {
+    id: 'account-security',
+    path: '/account/security',
+    title: 'Account Security',
+    component: React.lazy(() => import('@/pages/AccountSecurity')),
+  },
+  {
+    id: 'ui-showcase',
+    path: '/ui-showcase',
+    title: 'UI Showcase',
+    component: React.lazy(() => import('@/pages/UIShowcase')),
+    nav: { icon: Palette, badge: 'New' },
+  },
+  {
+    id: 'auth-test',
+    path: '/auth-test',
+    title: 'Auth Test',
+    roles: DEVELOPER_ROLES,
+    component: React.lazy(() => import('@/components/test/AuthTest')),
+    nav: { icon: Shield, badge: 'Test' },
+  },
+  {
+    id: 'phase1-testing',
+    path: '/phase1-testing',
+    title: 'Phase 1 Testing',
+    roles: DEVELOPER_ROLES,
+    component: React.lazy(() => import('@/pages/Phase1Testing')),
+    nav: { icon: FlaskConical, badge: 'New' },
+  },
+  {
+    id: 'jwt-testing',
+    path: '/jwt-testing',
+    title: 'JWT Testing',
+    roles: DEVELOPER_ROLES,
+    component: React.lazy(() => import('@/pages/JWTTesting')),
+    nav: { icon: Shield, badge: 'Security' },
+  },
+  {
+    id: 'admin-users',
+    path: '/admin/users',
+    title: 'User Management',
+    permissions: ['users.read'],
+    component: React.lazy(() => import('@/pages/admin/UserManagement')),
+    nav: { icon: Shield },
+  },
+  {
+    id: 'admin-roles',
+    path: '/admin/roles',
+    title: 'Role Management',
+    permissions: ['roles.read'],
+    component: React.lazy(() => import('@/pages/admin/RoleManagement')),
+    nav: { icon: Shield },
+  },
+  {
+    id: 'admin-permissions',
+    path: '/admin/permissions',
+    title: 'Permissions',
+    permissions: ['permissions.read'],
+    component: React.lazy(() => import('@/pages/admin/PermissionManagement')),
+    nav: { icon: Key },
+  },
+  {
+    id: 'admin-activity',
+    path: '/admin/activity',
+    title: 'User Activity',
+    permissions: ['users.read'],
+    component: React.lazy(() => import('@/pages/admin/UserActivity')),
+    nav: { icon: Activity },
+  },
+  {
+    id: 'admin-audit',
+    path: '/admin/audit',
+    title: 'Audit Log',
+    permissions: ['audit.read'],
+    component: React.lazy(() => import('@/pages/admin/AuditLog')),
+    nav: { icon: ScrollText },
+  },
+]
@@ -1,6 +1,10 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { authService } from '@/shared/services/authService'
+import {
+  authService,
+  type TwoFactorChallenge,
+  type TwoFactorVerifyOptions,
+} from '@/shared/services/authService'
 import { tokenService } from '@/shared/services/tokenService'
 
 // Simple user interface for testing
@@ -20,11 +24,21 @@ interface AuthState {
   isAuthenticated: boolean
   isLoading: boolean
   error: string | null
+  // Set while login waits for an authenticator or backup code
+  twoFactorChallenge: TwoFactorChallenge | null
+  // The user's role requires two-factor authentication and it is not set up yet
+  twoFactorSetupRequired: boolean
+  // Signed out for inactivity; the user stays on the page until they sign back in
+  sessionLocked: boolean
 }
 
 interface AuthActions {
   login: (username: string, password: string, rememberMe?: boolean) => Promise<void>
+  verifyTwoFactor: (code: string, options?: TwoFactorVerifyOptions) => Promise<void>
+  cancelTwoFactor: () => void
+  completeTwoFactorSetup: () => void
   logout: () => Promise<void>
+  lockSession: () => Promise<void>
   refreshToken: () => Promise<void>
   checkSession: () => boolean
   updateLastActivity: () => void
@@ -46,13 +60,49 @@ export const useAuthStore = create<AuthStore>()(
       isAuthenticated: false,
       isLoading: false,
       error: null,
+      twoFactorChallenge: null,
+      twoFactorSetupRequired: false,
+      sessionLocked: false,
 
       // Actions
       login: async (username: string, password: string, rememberMe = false) => {
+        set({ isLoading: true, error: null, twoFactorChallenge: null })
+
+        try {
+          const result = await authService.login({ username, password, rememberMe })
+
+          if (result.status === 'two-factor-required') {
+            set({ twoFactorChallenge: result.challenge, isLoading: false })
+            return
+          }
+
+          set({
+            user: result.user,
+            token: tokenService.getAccessToken(),
+            isAuthenticated: true,
+            isLoading: false,
+            error: null,
+            twoFactorSetupRequired: result.requiresTwoFactorSetup,
+            sessionLocked: false,
+          })
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Login failed',
+            isLoading: false,
+          })
+          throw error
+        }
+      },
+
+      verifyTwoFactor: async (code: string, options?: TwoFactorVerifyOptions) => {
+        const challenge = get().twoFactorChallenge
+        if (!challenge) {
+          throw new Error('No two-factor challenge in progress')
+        }
         set({ isLoading: true, error: null })
 
         try {
-          const user = await authService.login({ username, password, rememberMe })
+          const user = await authService.verifyTwoFactor(challenge, code, options)
 
           set({
             user,
@@ -60,16 +110,27 @@ export const useAuthStore = create<AuthStore>()(
             isAuthenticated: true,
             isLoading: false,
             error: null,
+            twoFactorChallenge: null,
+            twoFactorSetupRequired: false,
+            sessionLocked: false,
           })
         } catch (error) {
           set({
-            error: error instanceof Error ? error.message : 'Login failed',
+            error: error instanceof Error ? error.message : 'Verification failed',
             isLoading: false,
           })
           throw error
         }
       },
 
+      cancelTwoFactor: () => {
+        set({ twoFactorChallenge: null, error: null })
+      },
+
+      completeTwoFactorSetup: () => {
+        set({ twoFactorSetupRequired: false })
+      },
+
       logout: async () => {
         set({ isLoading: true })
 
@@ -81,6 +142,8 @@ export const useAuthStore = create<AuthStore>()(
             isAuthenticated: false,
             isLoading: false,
             error: null,
+            twoFactorSetupRequired: false,
+            sessionLocked: false,
           })
         } catch (error) {
           // Even if logout fails, clear local state
@@ -90,10 +153,19 @@ export const useAuthStore = create<AuthStore>()(
             isAuthenticated: false,
             isLoading: false,
             error: null,
+            twoFactorSetupRequired: false,
+            sessionLocked: false,
           })
         }
       },
 
+      lockSession: async () => {
+        // Tokens are cleared, but the user and the mounted pages are kept so
+        // unsaved work survives signing back in
+        set({ sessionLocked: true, token: null })
+        await authService.logout('idle')
+      },
+
       refreshToken: async () => {
         try {
           const newToken = await authService.refreshToken()
@@ -123,6 +195,12 @@ export const useAuthStore = create<AuthStore>()(
       },
 
       setUser: (user: User) => {
+        // Stored so other tabs pick up role and permission changes too
+        tokenService.updateStoredUser(user).catch((error) => {
+          // The in-memory user is still current; only other tabs and reloads miss the change
+          console.error('Failed to store updated user:', error)
+          set({ error: error instanceof Error ? error.message : 'Failed to store updated user' })
+        })
         set({ user, isAuthenticated: true })
       },
 
@@ -142,25 +220,56 @@ export const useAuthStore = create<AuthStore>()(
         // Initialize auth service
         authService.initialize()
 
-        // Check for existing session
-        const sessionInfo = authService.getSessionInfo()
-        if (sessionInfo.isValid && sessionInfo.user) {
-          set({
-            user: sessionInfo.user,
-            token: tokenService.getAccessToken(),
-            isAuthenticated: true,
-            isLoading: false,
-            error: null,
+        // Tokens are decrypted asynchronously; restore the session once they are loaded
+        tokenService.initialize()
+          .then(async () => {
+            // Access tokens are not kept across reloads, so resume with the refresh token
+            if (!authService.getSessionInfo().isValid && tokenService.hasSession()) {
+              await tokenService.refreshAccessToken()
+            }
+
+            const sessionInfo = authService.getSessionInfo()
+            if (sessionInfo.isValid && sessionInfo.user) {
+              set({
+                user: sessionInfo.user,
+                token: tokenService.getAccessToken(),
+                isAuthenticated: true,
+                isLoading: false,
+                error: null,
+              })
+            } else if (get().isAuthenticated) {
+              set({ user: null, token: null, isAuthenticated: false })
+            }
           })
-        }
+          .catch((error) => {
+            console.error('Failed to restore session:', error)
+            set({ user: null, token: null, isAuthenticated: false })
+          })
+
+        // Follow logins, token refreshes, permission changes and logouts in other tabs
+        tokenService.subscribe((event) => {
+          // Another tab timed out; lock this one too rather than dropping its page
+          if (event.type === 'logout' && event.reason === 'idle' && get().user) {
+            set({ sessionLocked: true, token: null })
+            return
+          }
+
+          const { user } = authService.getSessionInfo()
+          if (!tokenService.hasSession() || !user) {
+            set({ user: null, token: null, isAuthenticated: false, sessionLocked: false })
+            return
+          }
+          set({ user, token: tokenService.getAccessToken(), isAuthenticated: true, sessionLocked: false })
+        })
       },
     }),
     {
       name: 'auth-storage',
       partialize: (state) => ({
+        // The access token is kept in memory only, never in persisted state
         user: state.user,
-        token: state.token,
         isAuthenticated: state.isAuthenticated,
+        twoFactorSetupRequired: state.twoFactorSetupRequired,
       }),
     }
   )
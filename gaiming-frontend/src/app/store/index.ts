@@ -2,6 +2,7 @@
 export { useAuthStore, authSelectors } from './authStore'
 export { useThemeStore } from './themeStore'
 export { useNotificationStore, notificationSelectors } from './notificationStore'
+export { useSavedViewsStore, savedViewsSelectors, getSavedViewUrl } from './savedViewsStore'
 
 // Re-export store utilities for feature stores
 export * from '@/shared/utils/storeUtils'
@@ -0,0 +1,108 @@
+/**
+ * Named list views saved per user
+ * A view is the list's query string, so applying one is just navigating to it
+ */
+
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+
+export type SavedViewList = 'games' | 'players'
+
+export interface SavedView {
+  id: string
+  list: SavedViewList
+  name: string
+  // Query string without the leading '?' and without the page number
+  query: string
+  pinned: boolean
+  createdAt: string
+}
+
+interface SavedViewsState {
+  viewsByUser: Record<string, SavedView[]>
+}
+
+interface SavedViewsActions {
+  // Saving under an existing name for the same list replaces that view
+  saveView: (userId: string, view: Pick<SavedView, 'list' | 'name' | 'query'>) => SavedView
+  deleteView: (userId: string, viewId: string) => void
+  togglePinned: (userId: string, viewId: string) => void
+}
+
+type SavedViewsStore = SavedViewsState & SavedViewsActions
+
+export const SAVED_VIEW_PATHS: Record<SavedViewList, string> = {
+  games: '/games',
+  players: '/players',
+}
+
+const NO_VIEWS: SavedView[] = []
+
+export const getSavedViewUrl = (view: SavedView) =>
+  view.query ? `${SAVED_VIEW_PATHS[view.list]}?${view.query}` : SAVED_VIEW_PATHS[view.list]
+
+// Page numbers are not part of a view; applying one always starts on the first page
+export const toSavedViewQuery = (queryString: string) => {
+  const params = new URLSearchParams(queryString)
+  params.delete('page')
+  return params.toString()
+}
+
+export const useSavedViewsStore = create<SavedViewsStore>()(
+  persist(
+    (set, get) => ({
+      viewsByUser: {},
+
+      saveView: (userId, { list, name, query }) => {
+        const views = get().viewsByUser[userId] ?? NO_VIEWS
+        const existing = views.find(v => v.list === list && v.name.toLowerCase() === name.toLowerCase())
+        const view: SavedView = {
+          id: existing?.id ?? `view_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+          list,
+          name,
+          query: toSavedViewQuery(query),
+          pinned: existing?.pinned ?? false,
+          createdAt: existing?.createdAt ?? new Date().toISOString(),
+        }
+
+        set((state) => ({
+          viewsByUser: {
+            ...state.viewsByUser,
+            [userId]: existing
+              ? views.map(v => (v.id === existing.id ? view : v))
+              : [...views, view],
+          },
+        }))
+        return view
+      },
+
+      deleteView: (userId, viewId) => {
+        set((state) => ({
+          viewsByUser: {
+            ...state.viewsByUser,
+            [userId]: (state.viewsByUser[userId] ?? NO_VIEWS).filter(v => v.id !== viewId),
+          },
+        }))
+      },
+
+      togglePinned: (userId, viewId) => {
+        set((state) => ({
+          viewsByUser: {
+            ...state.viewsByUser,
+            [userId]: (state.viewsByUser[userId] ?? NO_VIEWS).map(v =>
+              v.id === viewId ? { ...v, pinned: !v.pinned } : v
+            ),
+          },
+        }))
+      },
+    }),
+    {
+      name: 'saved-views-storage',
+    }
+  )
+)
+
+export const savedViewsSelectors = {
+  forUser: (userId: string | undefined) => (state: SavedViewsStore) =>
+    (userId && state.viewsByUser[userId]) || NO_VIEWS,
+}
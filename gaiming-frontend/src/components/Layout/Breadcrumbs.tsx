@@ -0,0 +1,38 @@
+import React from 'react'
+import { Link, useLocation } from 'react-router-dom'
+import { ChevronRight } from 'lucide-react'
+import { appRoutes, getBreadcrumbs } from '@/app/router'
+
+const Breadcrumbs: React.FC = () => {
+  const location = useLocation()
+  const crumbs = getBreadcrumbs(location.pathname, appRoutes)
+
+  // A single crumb would only repeat the page heading
+  if (crumbs.length < 2) return null
+
+  return (
+    <nav aria-label="Breadcrumb" className="mb-4">
+      <ol className="flex items-center space-x-1 text-sm text-gray-500 dark:text-gray-400">
+        {crumbs.map((crumb, index) => {
+          const isLast = index === crumbs.length - 1
+          return (
+            <li key={crumb.id} className="flex items-center space-x-1">
+              {index > 0 && <ChevronRight className="w-4 h-4" />}
+              {isLast ? (
+                <span className="font-medium text-gray-900 dark:text-white" aria-current="page">
+                  {crumb.title}
+                </span>
+              ) : (
+                <Link to={crumb.path} className="hover:text-primary-500 transition-colors">
+                  {crumb.title}
+                </Link>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+    </nav>
+  )
+}
+
+export default Breadcrumbs
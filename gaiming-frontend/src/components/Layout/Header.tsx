@@ -5,13 +5,16 @@ import {
   User,
   LogOut,
   Settings,
+  ShieldCheck,
   ChevronDown
 } from 'lucide-react'
+import { useNavigate } from 'react-router-dom'
 import { useAuthStore } from '@/stores/authStore'
 import { ThemeToggle } from '@/components/ui/ThemeToggle'
 
 const Header: React.FC = () => {
   const { user, logout } = useAuthStore()
+  const navigate = useNavigate()
   const [showUserMenu, setShowUserMenu] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
 
@@ -97,6 +100,17 @@ const Header: React.FC = () => {
                   <span>Settings</span>
                 </button>
 
+                <button
+                  onClick={() => {
+                    setShowUserMenu(false)
+                    navigate('/account/security')
+                  }}
+                  className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  <span>Security</span>
+                </button>
+
                 <div className="border-t border-gray-200 dark:border-gray-700 my-1"></div>
 
                 <button
@@ -3,6 +3,8 @@ import { Outlet } from 'react-router-dom'
 import { useThemeStore } from '@/stores/themeStore'
 import Sidebar from './Sidebar'
 import Header from './Header'
+import Breadcrumbs from './Breadcrumbs'
+import IdleSessionManager from '@/components/auth/IdleSessionManager'
 import { cn } from '@/lib/utils'
 
 const Layout: React.FC = () => {
@@ -26,10 +28,14 @@ const Layout: React.FC = () => {
         {/* Page content */}
         <main className="p-6">
           <div className="w-full">
+            <Breadcrumbs />
             <Outlet />
           </div>
         </main>
       </div>
+
+      {/* Inactivity warning and in-place sign-in */}
+      <IdleSessionManager />
     </div>
   )
 }
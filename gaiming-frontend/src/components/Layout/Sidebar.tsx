@@ -1,248 +1,31 @@
 import React from 'react'
 import { NavLink, useLocation } from 'react-router-dom'
-import {
-  LayoutDashboard,
-  Gamepad2,
-  Users,
-  Target,
-  BarChart3,
-  FlaskConical,
-  Brain,
-  Settings,
-  Shield,
-  Key,
-  Activity,
-  ChevronLeft,
-  ChevronRight,
-  Palette,
-  TrendingUp,
-  Sparkles,
-  Cpu
-} from 'lucide-react'
+import { ChevronLeft, ChevronRight, Bookmark } from 'lucide-react'
 import { useThemeStore } from '@/stores/themeStore'
+import { useAuthStore } from '@/app/store/authStore'
+import {
+  useSavedViewsStore,
+  savedViewsSelectors,
+  getSavedViewUrl,
+  toSavedViewQuery,
+  SAVED_VIEW_PATHS,
+} from '@/app/store/savedViewsStore'
+import { appRoutes, canAccessRoute } from '@/app/router'
 import { cn } from '@/lib/utils'
 
-interface NavigationItem {
-  id: string
-  label: string
-  path: string
-  icon: React.ComponentType<{ className?: string }>
-  badge?: string
-}
-
-const navigationItems: NavigationItem[] = [
-  {
-    id: 'dashboard',
-    label: 'Dashboard',
-    path: '/dashboard',
-    icon: LayoutDashboard,
-  },
-  {
-    id: 'games',
-    label: 'Games',
-    path: '/games',
-    icon: Gamepad2,
-  },
-  {
-    id: 'games-management',
-    label: 'Games Management',
-    path: '/games-management',
-    icon: Settings,
-    badge: 'Pro',
-  },
-  {
-    id: 'games-testing',
-    label: 'Games Testing',
-    path: '/games-testing',
-    icon: FlaskConical,
-    badge: 'Test',
-  },
-  {
-    id: 'system-testing',
-    label: 'System Testing',
-    path: '/system-testing',
-    icon: Activity,
-    badge: 'E2E',
-  },
-  {
-    id: 'performance',
-    label: 'Performance',
-    path: '/performance',
-    icon: TrendingUp,
-    badge: 'Live',
-  },
-  {
-    id: 'final-testing',
-    label: 'Final Testing',
-    path: '/final-testing',
-    icon: Target,
-    badge: 'Final',
-  },
-  {
-    id: 'feature-planner',
-    label: 'Feature Planner',
-    path: '/feature-planner',
-    icon: Brain,
-    badge: 'Strategy',
-  },
-  {
-    id: 'ai-lab',
-    label: 'AI Innovation Lab',
-    path: '/ai-lab',
-    icon: Cpu,
-    badge: 'AI',
-  },
-  {
-    id: 'business-intelligence',
-    label: 'Business Intelligence',
-    path: '/business-intelligence',
-    icon: BarChart3,
-    badge: 'KPI',
-  },
-  {
-    id: 'nextgen-ai',
-    label: 'Next-Gen AI Lab',
-    path: '/nextgen-ai',
-    icon: Sparkles,
-    badge: 'Future',
-  },
-  {
-    id: 'advanced-analytics',
-    label: 'Advanced Analytics',
-    path: '/advanced-analytics',
-    icon: TrendingUp,
-    badge: 'Deep',
-  },
-  {
-    id: 'ai-models',
-    label: 'AI Model Lab',
-    path: '/ai-models',
-    icon: FlaskConical,
-    badge: 'Code',
-  },
-  {
-    id: 'players',
-    label: 'Players',
-    path: '/players',
-    icon: Users,
-  },
-  {
-    id: 'player-analytics',
-    label: 'Player Analytics',
-    path: '/players/analytics',
-    icon: BarChart3,
-    badge: 'Pro',
-  },
-  {
-    id: 'recommendations',
-    label: 'Game Recommendations',
-    path: '/recommendations',
-    icon: Sparkles,
-    badge: 'AI',
-  },
-  {
-    id: 'analytics',
-    label: 'Analytics',
-    path: '/analytics',
-    icon: BarChart3,
-  },
-  {
-    id: 'analytics-dashboard',
-    label: 'Analytics Dashboard',
-    path: '/analytics-dashboard',
-    icon: TrendingUp,
-    badge: 'Live',
-  },
-  {
-    id: 'recommendation-analytics',
-    label: 'Recommendation Analytics',
-    path: '/recommendation-analytics',
-    icon: Brain,
-    badge: 'ML',
-  },
-  {
-    id: 'ab-testing',
-    label: 'A/B Testing',
-    path: '/ab-testing',
-    icon: FlaskConical,
-    badge: 'Beta',
-  },
-  {
-    id: 'ab-testing-management',
-    label: 'AB Management',
-    path: '/ab-testing/management',
-    icon: Settings,
-    badge: 'Pro',
-  },
-  {
-    id: 'models',
-    label: 'ML Models',
-    path: '/models',
-    icon: Brain,
-  },
-  {
-    id: 'settings',
-    label: 'Settings',
-    path: '/settings',
-    icon: Settings,
-  },
-  {
-    id: 'ui-showcase',
-    label: 'UI Showcase',
-    path: '/ui-showcase',
-    icon: Palette,
-    badge: 'New',
-  },
-  {
-    id: 'auth-test',
-    label: 'Auth Test',
-    path: '/auth-test',
-    icon: Shield,
-    badge: 'Test',
-  },
-  {
-    id: 'phase1-testing',
-    label: 'Phase 1 Testing',
-    path: '/phase1-testing',
-    icon: FlaskConical,
-    badge: 'New',
-  },
-  {
-    id: 'jwt-testing',
-    label: 'JWT Testing',
-    path: '/jwt-testing',
-    icon: Shield,
-    badge: 'Security',
-  },
-  {
-    id: 'admin-users',
-    label: 'User Management',
-    path: '/admin/users',
-    icon: Shield,
-  },
-  {
-    id: 'admin-roles',
-    label: 'Role Management',
-    path: '/admin/roles',
-    icon: Shield,
-  },
-  {
-    id: 'admin-permissions',
-    label: 'Permissions',
-    path: '/admin/permissions',
-    icon: Key,
-  },
-  {
-    id: 'admin-activity',
-    label: 'User Activity',
-    path: '/admin/activity',
-    icon: Activity,
-  },
-]
-
 const Sidebar: React.FC = () => {
   const { sidebarCollapsed, toggleSidebar } = useThemeStore()
   const location = useLocation()
+  const user = useAuthStore((state) => state.user)
+  const userId = user?.id
+  const savedViews = useSavedViewsStore(savedViewsSelectors.forUser(userId))
+  const pinnedViews = savedViews.filter((view) => view.pinned)
+  // Only link to pages the router would let this user open
+  const navigationItems = appRoutes.flatMap((route) =>
+    route.nav && canAccessRoute(route, user)
+      ? [{ id: route.id, path: route.path, label: route.nav.label ?? route.title, ...route.nav }]
+      : []
+  )
 
   return (
     <div
@@ -330,6 +113,52 @@ const Sidebar: React.FC = () => {
         })}
       </nav>
 
+      {/* Pinned saved views */}
+      {pinnedViews.length > 0 && (
+        <div className="px-4 pb-4 space-y-2">
+          {!sidebarCollapsed && (
+            <p className="px-3 text-xs font-semibold uppercase tracking-wider text-gray-500">
+              Pinned Views
+            </p>
+          )}
+          {pinnedViews.map((view) => {
+            const isActive = location.pathname === SAVED_VIEW_PATHS[view.list] &&
+                            toSavedViewQuery(location.search) === view.query
+
+            return (
+              <NavLink
+                key={view.id}
+                to={getSavedViewUrl(view)}
+                className={cn(
+                  'flex items-center space-x-3 px-3 py-2 rounded-lg transition-all duration-200 group relative',
+                  isActive
+                    ? 'bg-primary-500/20 text-primary-400 border border-primary-500/30'
+                    : 'text-gray-300 hover:bg-primary-500/10 hover:text-white'
+                )}
+              >
+                <Bookmark className={cn(
+                  'w-4 h-4 flex-shrink-0',
+                  isActive ? 'text-primary-400' : 'group-hover:text-primary-400'
+                )} />
+
+                {!sidebarCollapsed && (
+                  <>
+                    <span className="text-sm truncate">{view.name}</span>
+                    <span className="ml-auto text-xs text-gray-500 capitalize">{view.list}</span>
+                  </>
+                )}
+
+                {sidebarCollapsed && (
+                  <div className="absolute left-full ml-2 px-3 py-2 bg-gradient-to-r from-gray-900 to-gray-800 text-white text-sm rounded-lg opacity-0 group-hover:opacity-100 transition-all duration-200 pointer-events-none whitespace-nowrap z-50 shadow-xl shadow-primary-500/20 border border-primary-500/20">
+                    {view.name}
+                  </div>
+                )}
+              </NavLink>
+            )
+          })}
+        </div>
+      )}
+
       {/* Footer */}
       {!sidebarCollapsed && (
         <div className="absolute bottom-0 left-0 right-0 p-4 border-t border-primary-500/20 bg-gradient-to-r from-primary-500/5 to-purple-500/5">
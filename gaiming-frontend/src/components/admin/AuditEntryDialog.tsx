@@ -0,0 +1,150 @@
+import { useQuery } from '@tanstack/react-query'
+import { Link2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/Badge'
+import { Button } from '@/components/ui/Button'
+import { auditLogApi, AuditLogEntry } from '@/services/auditLogApi'
+import { diffSnapshots, hasSnapshotDiff, type AuditChange } from '@/services/auditTrail'
+import { cn } from '@/lib/utils'
+
+interface AuditEntryDialogProps {
+  entry: AuditLogEntry | null
+  onOpenChange: (open: boolean) => void
+  onSelectEntry: (entry: AuditLogEntry) => void
+  onFilterByRequest: (requestId: string) => void
+}
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value)
+
+const CHANGE_STYLES: Record<AuditChange['kind'], string> = {
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+  changed: 'bg-amber-50 text-amber-900',
+}
+
+function AuditDiffView({ entry }: { entry: AuditLogEntry }) {
+  const changes = diffSnapshots(entry.before, entry.after)
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500">The before and after snapshots are identical.</p>
+  }
+
+  return (
+    <div className="border rounded-md divide-y text-sm font-mono">
+      {changes.map(change => (
+        <div key={change.path || '(root)'} className={cn('grid grid-cols-[minmax(120px,1fr)_2fr] gap-3 px-3 py-2', CHANGE_STYLES[change.kind])}>
+          <span className="font-semibold break-all">{change.path || '(whole entity)'}</span>
+          <span className="break-all">
+            {change.kind !== 'added' && <span className="line-through opacity-70">{formatValue(change.before)}</span>}
+            {change.kind === 'changed' && ' → '}
+            {change.kind !== 'removed' && <span>{formatValue(change.after)}</span>}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function AuditEntryDialog({ entry, onOpenChange, onSelectEntry, onFilterByRequest }: AuditEntryDialogProps) {
+  const requestId = entry?.requestId
+
+  // Everything else the same API request did
+  const { data: related = [], isLoading: relatedLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: ['audit-request', requestId],
+    queryFn: () => auditLogApi.getByRequestId(requestId!),
+    enabled: !!requestId,
+  })
+  const otherEntries = related.filter(candidate => candidate.id !== entry?.id)
+
+  return (
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {entry && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <span className="capitalize">{entry.action}</span>
+                <span className="text-gray-500 font-normal">
+                  {entry.entityType}{entry.entityName ? ` · ${entry.entityName}` : entry.entityId ? ` · ${entry.entityId}` : ''}
+                </span>
+              </DialogTitle>
+              <DialogDescription>
+                {entry.actorName} · {new Date(entry.timestamp).toLocaleString()}
+              </DialogDescription>
+            </DialogHeader>
+
+            <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
+              <dt className="text-gray-500">Status</dt>
+              <dd>
+                <Badge variant={entry.success ? 'default' : 'error'}>{entry.success ? 'Success' : 'Failed'}</Badge>
+              </dd>
+              <dt className="text-gray-500">Request ID</dt>
+              <dd className="font-mono break-all">{entry.requestId ?? '—'}</dd>
+              <dt className="text-gray-500">IP address</dt>
+              <dd>{entry.ipAddress ?? '—'}</dd>
+              <dt className="text-gray-500">User agent</dt>
+              <dd className="truncate" title={entry.userAgent}>{entry.userAgent ?? '—'}</dd>
+              {entry.details && (
+                <>
+                  <dt className="text-gray-500">Details</dt>
+                  <dd>{entry.details}</dd>
+                </>
+              )}
+            </dl>
+
+            {hasSnapshotDiff(entry) && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Changes</h3>
+                <AuditDiffView entry={entry} />
+              </div>
+            )}
+
+            {requestId && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-medium flex items-center gap-2">
+                    <Link2 className="h-4 w-4" />
+                    Same request
+                  </h3>
+                  <Button variant="outline" size="sm" onClick={() => onFilterByRequest(requestId)}>
+                    Show in list
+                  </Button>
+                </div>
+                {relatedLoading ? (
+                  <p className="text-sm text-gray-500">Loading…</p>
+                ) : otherEntries.length === 0 ? (
+                  <p className="text-sm text-gray-500">No other entries were recorded for this request.</p>
+                ) : (
+                  <ul className="border rounded-md divide-y text-sm">
+                    {otherEntries.map(other => (
+                      <li key={other.id}>
+                        <button
+                          type="button"
+                          className="w-full text-left px-3 py-2 hover:bg-gray-50 flex justify-between gap-4"
+                          onClick={() => onSelectEntry(other)}
+                        >
+                          <span>
+                            <span className="capitalize font-medium">{other.action}</span>{' '}
+                            {other.entityType}{other.entityName ? ` · ${other.entityName}` : ''}
+                          </span>
+                          <span className="text-gray-500">{new Date(other.timestamp).toLocaleTimeString()}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
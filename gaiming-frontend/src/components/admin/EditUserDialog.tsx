@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { useQuery, useMutation } from '@tanstack/react-query'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import * as z from 'zod'
@@ -27,6 +27,8 @@ import { Switch } from '@/components/ui/switch'
 import { Checkbox } from '@/components/ui/checkbox'
 import { toast } from 'sonner'
 import { userManagementApi, UpdateUserRequest, Role, User } from '@/services/userManagementApi'
+import type { ActiveSession } from '@/shared/services/authService'
+import SessionsList from '@/components/auth/SessionsList'
 
 const updateUserSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -43,6 +45,13 @@ const updateUserSchema = z.object({
 
 type UpdateUserFormData = z.infer<typeof updateUserSchema>
 
+type EditUserTab = 'details' | 'sessions'
+
+const TABS: { id: EditUserTab; label: string }[] = [
+  { id: 'details', label: 'Details' },
+  { id: 'sessions', label: 'Sessions' },
+]
+
 interface EditUserDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
@@ -52,6 +61,8 @@ interface EditUserDialogProps {
 
 export function EditUserDialog({ open, onOpenChange, user, onSuccess }: EditUserDialogProps) {
   const [selectedRoles, setSelectedRoles] = useState<string[]>([])
+  const [activeTab, setActiveTab] = useState<EditUserTab>('details')
+  const queryClient = useQueryClient()
 
   const form = useForm<UpdateUserFormData>({
     resolver: zodResolver(updateUserSchema),
@@ -87,6 +98,36 @@ export function EditUserDialog({ open, onOpenChange, user, onSuccess }: EditUser
     },
   })
 
+  // Fetch sessions only once the tab is opened
+  const { data: sessions = [], isLoading: sessionsLoading, error: sessionsError } = useQuery<ActiveSession[]>({
+    queryKey: ['user-sessions', user.userId],
+    queryFn: () => userManagementApi.getUserSessions(user.userId),
+    enabled: open && activeTab === 'sessions',
+  })
+
+  // Terminate session mutations
+  const terminateSessionMutation = useMutation({
+    mutationFn: (sessionId: string) => userManagementApi.terminateUserSession(user.userId, sessionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-sessions', user.userId] })
+      toast.success('Session terminated')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to terminate session')
+    },
+  })
+
+  const terminateAllSessionsMutation = useMutation({
+    mutationFn: () => userManagementApi.terminateUserSessions(user.userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-sessions', user.userId] })
+      toast.success('All sessions terminated')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to terminate sessions')
+    },
+  })
+
   // Initialize selected roles when roles data is loaded
   useEffect(() => {
     if (roles.length > 0 && user.roles.length > 0) {
@@ -127,7 +168,24 @@ export function EditUserDialog({ open, onOpenChange, user, onSuccess }: EditUser
     )
   }
 
+  const handleTerminateSession = (session: ActiveSession) => {
+    if (confirm(`Sign ${user.displayName} out of ${session.deviceName || 'this device'}?`)) {
+      terminateSessionMutation.mutate(session.sessionId)
+    }
+  }
+
+  const handleTerminateAllSessions = () => {
+    // Admins editing their own account would end the session they are using
+    const message = sessions.some(session => session.isCurrent)
+      ? 'This includes your current session, so you will be signed out too. Continue?'
+      : `Sign ${user.displayName} out of every device?`
+    if (confirm(message)) {
+      terminateAllSessionsMutation.mutate()
+    }
+  }
+
   const handleClose = () => {
+    setActiveTab('details')
     onOpenChange(false)
   }
 
@@ -141,6 +199,55 @@ export function EditUserDialog({ open, onOpenChange, user, onSuccess }: EditUser
           </DialogDescription>
         </DialogHeader>
 
+        <div className="flex gap-1 border-b border-gray-200 dark:border-gray-700">
+          {TABS.map((tab) => (
+            <button
+              key={tab.id}
+              type="button"
+              onClick={() => setActiveTab(tab.id)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                activeTab === tab.id
+                  ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'sessions' ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium">Active Sessions</h3>
+              <Button
+                type="button"
+                variant="destructive"
+                size="sm"
+                onClick={handleTerminateAllSessions}
+                disabled={sessions.length === 0 || terminateAllSessionsMutation.isPending}
+              >
+                Terminate all sessions
+              </Button>
+            </div>
+            {sessionsError ? (
+              <p className="text-sm text-red-600 dark:text-red-400">Failed to load sessions.</p>
+            ) : (
+              <SessionsList
+                sessions={sessions}
+                isLoading={sessionsLoading}
+                onRevoke={handleTerminateSession}
+                revokingId={terminateSessionMutation.isPending ? terminateSessionMutation.variables : null}
+                emptyMessage="This user has no active sessions."
+              />
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleClose}>
+                Close
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             {/* Basic Information */}
@@ -382,6 +489,7 @@ export function EditUserDialog({ open, onOpenChange, user, onSuccess }: EditUser
             </DialogFooter>
           </form>
         </Form>
+        )}
       </DialogContent>
     </Dialog>
   )
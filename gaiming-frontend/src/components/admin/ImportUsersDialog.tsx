@@ -0,0 +1,414 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { AlertCircle, CheckCircle, Download, Upload } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Button } from '@/components/ui/Button'
+import { Badge } from '@/components/ui/Badge'
+import { parseImportFile, type ParsedTable } from '@/services/import/tabularParser'
+import { settingsApi, SystemSettings } from '@/services/settingsApi'
+import { userManagementApi, Role, User } from '@/services/userManagementApi'
+import {
+  USER_IMPORT_FIELDS,
+  DEFAULT_PASSWORD_POLICY,
+  autoMapUserColumns,
+  buildUserImportPlan,
+  buildFailedRowsCsv,
+  type UserImportColumnMapping,
+  type UserImportFailure,
+  type UserImportField,
+} from '@/services/userImport'
+
+interface ImportUsersDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess: () => void
+}
+
+type ImportStep = 'upload' | 'mapping' | 'review' | 'importing' | 'done'
+
+// Keeps the preview responsive for large files; counts still cover every row
+const MAX_PREVIEW_ROWS = 100
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:ring-2 focus:ring-blue-500'
+
+const downloadCsv = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+export function ImportUsersDialog({ open, onOpenChange, onSuccess }: ImportUsersDialogProps) {
+  const [step, setStep] = useState<ImportStep>('upload')
+  const [fileName, setFileName] = useState('')
+  const [table, setTable] = useState<ParsedTable | null>(null)
+  const [mapping, setMapping] = useState<UserImportColumnMapping>({})
+  const [progress, setProgress] = useState(0)
+  const [created, setCreated] = useState(0)
+  // Everything that was not imported, kept once the import has run
+  const [importFailures, setImportFailures] = useState<UserImportFailure[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [parsing, setParsing] = useState(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setStep('upload')
+    setFileName('')
+    setTable(null)
+    setMapping({})
+    setProgress(0)
+    setCreated(0)
+    setImportFailures([])
+    setError(null)
+  }, [open])
+
+  const { data: roles = [] } = useQuery<Role[]>({
+    queryKey: ['roles'],
+    queryFn: userManagementApi.getRoles,
+    enabled: open,
+  })
+
+  // Existing users, so taken usernames and emails are caught before uploading
+  const { data: existingUsers, isError: usersError } = useQuery<User[]>({
+    queryKey: ['users', 'all'],
+    queryFn: () => userManagementApi.getAllUsers(),
+    enabled: open,
+  })
+
+  const { data: settings } = useQuery<SystemSettings>({
+    queryKey: ['settings'],
+    queryFn: settingsApi.getSettings,
+    enabled: open,
+    retry: false,
+  })
+  const passwordPolicy = settings?.security ?? DEFAULT_PASSWORD_POLICY
+
+  const plan = useMemo(() => {
+    if (!table || !existingUsers || step !== 'review') return null
+    return buildUserImportPlan(table.records, mapping, { roles, existingUsers, passwordPolicy })
+  }, [table, existingUsers, mapping, roles, passwordPolicy, step])
+
+  const invalidRows = useMemo<UserImportFailure[]>(() => (plan?.invalid ?? []).map(row => ({
+    rowNumber: row.rowNumber,
+    reasons: row.errors.map(issue => issue.message),
+  })), [plan])
+  const failures = step === 'done' ? importFailures : invalidRows
+
+  const missingRequired = USER_IMPORT_FIELDS.filter(definition => definition.required && !mapping[definition.field])
+
+  const handleFile = async (file: File) => {
+    setParsing(true)
+    setError(null)
+    try {
+      const parsed = await parseImportFile(file)
+      if (parsed.records.length === 0) {
+        throw new Error('The file does not contain any rows')
+      }
+      setFileName(file.name)
+      setTable(parsed)
+      setMapping(autoMapUserColumns(parsed.headers))
+      setStep('mapping')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file')
+    } finally {
+      setParsing(false)
+    }
+  }
+
+  const handleMappingChange = (field: UserImportField, header: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (header) {
+        next[field] = header
+      } else {
+        delete next[field]
+      }
+      return next
+    })
+  }
+
+  // Users are created one at a time so each failure can be tied to its row
+  const handleImport = async () => {
+    if (!plan) return
+    setStep('importing')
+    setProgress(0)
+    const failed: UserImportFailure[] = []
+    let succeeded = 0
+
+    for (const [index, row] of plan.valid.entries()) {
+      try {
+        await userManagementApi.createUser(row.request)
+        succeeded++
+      } catch (err: any) {
+        failed.push({
+          rowNumber: row.rowNumber,
+          reasons: [err.response?.data?.message || err.message || 'Failed to create user'],
+        })
+      }
+      setProgress(Math.round(((index + 1) / plan.valid.length) * 100))
+    }
+
+    setCreated(succeeded)
+    setImportFailures([...invalidRows, ...failed].sort((a, b) => a.rowNumber - b.rowNumber))
+    setStep('done')
+    if (succeeded > 0) onSuccess()
+  }
+
+  const handleDownloadFailures = () => {
+    if (!table) return
+    const baseName = fileName.replace(/\.[^.]+$/, '') || 'users'
+    downloadCsv(buildFailedRowsCsv(table, failures), `${baseName}-failed-rows.csv`)
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (step === 'importing') return
+    onOpenChange(nextOpen)
+  }
+
+  const sampleRecord = table?.records[0]?.values
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Users</DialogTitle>
+          <DialogDescription>
+            {fileName
+              ? `${fileName} · ${table?.records.length.toLocaleString()} rows`
+              : 'CSV, Excel (.xlsx) or JSON. Nothing is created until you confirm the import.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="flex items-start gap-2 p-3 rounded-md bg-red-50 text-sm text-red-700">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {step === 'upload' && (
+          <div
+            className="border-2 border-dashed border-gray-300 rounded-lg p-10 text-center"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault()
+              const file = e.dataTransfer.files[0]
+              if (file) handleFile(file)
+            }}
+          >
+            <Upload className="h-10 w-10 mx-auto text-gray-400 mb-3" />
+            <p className="text-sm text-gray-600 mb-4">
+              Drop a file here or choose one. Roles are matched by name; separate several with commas.
+            </p>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleFile(file)
+                e.target.value = ''
+              }}
+            />
+            <Button loading={parsing} onClick={() => fileInput.current?.click()}>
+              Choose File
+            </Button>
+          </div>
+        )}
+
+        {step === 'mapping' && table && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Match the columns in your file to user fields. Display Name defaults to the first and last name.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {USER_IMPORT_FIELDS.map(definition => {
+                const header = mapping[definition.field]
+                const sample = header && sampleRecord ? sampleRecord[header] : undefined
+                return (
+                  <div key={definition.field}>
+                    <label className="block text-sm font-medium mb-1">
+                      {definition.label}
+                      {definition.required && <span className="text-red-500"> *</span>}
+                    </label>
+                    <select
+                      value={header ?? ''}
+                      onChange={(e) => handleMappingChange(definition.field, e.target.value)}
+                      className={selectClassName}
+                    >
+                      <option value="">Not mapped</option>
+                      {table.headers.map(column => (
+                        <option key={column} value={column}>{column}</option>
+                      ))}
+                    </select>
+                    {sample !== undefined && sample !== null && definition.field !== 'password' && (
+                      <p className="text-xs text-gray-500 mt-1 truncate">e.g. {String(sample)}</p>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+            {missingRequired.length > 0 && (
+              <p className="text-xs text-amber-600">
+                Not mapped: {missingRequired.map(definition => definition.label).join(', ')}. Every row will be rejected without these fields.
+              </p>
+            )}
+            {usersError && (
+              <p className="text-xs text-red-600">
+                Failed to load the existing users, so taken usernames and emails cannot be checked. Close the dialog and try again.
+              </p>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setStep('upload')}>Back</Button>
+              <Button
+                disabled={!existingUsers}
+                loading={!existingUsers && !usersError}
+                onClick={() => setStep('review')}
+              >
+                Preview import
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === 'review' && plan && (
+          <div className="space-y-4">
+            <div className="flex gap-2 text-sm">
+              <Badge variant="success">{plan.valid.length} ready</Badge>
+              <Badge variant={plan.invalid.length > 0 ? 'error' : 'secondary'}>{plan.invalid.length} invalid</Badge>
+              <span className="text-gray-500">Dry run: no users have been created yet</span>
+            </div>
+
+            <div className="border rounded-md overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Roles</TableHead>
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.rows.slice(0, MAX_PREVIEW_ROWS).map(row => (
+                    <TableRow key={row.rowNumber} className="align-top">
+                      <TableCell className="text-gray-500">{row.rowNumber}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{row.request.username || '—'}</div>
+                        <div className="text-xs text-gray-500">{row.request.email}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {row.roleNames.map(name => (
+                            <Badge key={name} variant="secondary">{name}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <span className="inline-flex items-center gap-1 text-green-600">
+                            <CheckCircle className="h-3.5 w-3.5" />
+                            Ready
+                          </span>
+                        ) : (
+                          row.errors.map((issue, index) => (
+                            <div key={index} className="flex items-start gap-1 text-red-600">
+                              <AlertCircle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+                              <span>{issue.message}</span>
+                            </div>
+                          ))
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {plan.rows.length > MAX_PREVIEW_ROWS && (
+                <p className="px-3 py-2 text-xs text-gray-500 bg-gray-50">
+                  Showing the first {MAX_PREVIEW_ROWS} of {plan.rows.length.toLocaleString()} rows
+                </p>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setStep('mapping')}>Back</Button>
+              {plan.invalid.length > 0 && (
+                <Button variant="outline" onClick={handleDownloadFailures}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Invalid rows
+                </Button>
+              )}
+              <Button disabled={plan.valid.length === 0} onClick={handleImport}>
+                Create {plan.valid.length} user{plan.valid.length === 1 ? '' : 's'}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === 'importing' && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>Creating users</span>
+              <span>{progress}%</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="h-2 rounded-full bg-blue-500 transition-all duration-300"
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              {failures.length === 0
+                ? <CheckCircle className="h-5 w-5 text-green-500" />
+                : <AlertCircle className="h-5 w-5 text-amber-500" />}
+              <span>
+                {created} user{created === 1 ? '' : 's'} created
+                {failures.length > 0 && `, ${failures.length} row${failures.length === 1 ? '' : 's'} not imported`}
+              </span>
+            </div>
+            {failures.length > 0 && (
+              <p className="text-sm text-gray-600">
+                Download the failed rows, fix them and import the file again. Each row lists why it was rejected.
+              </p>
+            )}
+            <DialogFooter>
+              {failures.length > 0 && (
+                <Button variant="outline" onClick={handleDownloadFailures}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download failed rows
+                </Button>
+              )}
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,322 @@
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import { useQuery, useMutation } from '@tanstack/react-query'
+import { Eye, RotateCcw, Save, TrendingDown, TrendingUp } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/Badge'
+import { toast } from 'sonner'
+import { userManagementApi, Permission, Role, User } from '@/services/userManagementApi'
+import {
+  buildPermissionMatrix,
+  computePermissionImpact,
+  diffPermissionMatrix,
+  setMatrixCells,
+  toggleMatrixCell,
+  type PermissionMatrix,
+} from '@/services/rolePermissionMatrix'
+import { cn } from '@/lib/utils'
+
+interface RolePermissionMatrixProps {
+  roles: Role[]
+  onSaved: () => void
+}
+
+export function RolePermissionMatrix({ roles, onSaved }: RolePermissionMatrixProps) {
+  const [draft, setDraft] = useState<PermissionMatrix>(() => buildPermissionMatrix(roles))
+  const [isReviewOpen, setIsReviewOpen] = useState(false)
+
+  // Start again from the saved roles whenever they are reloaded
+  useEffect(() => {
+    setDraft(buildPermissionMatrix(roles))
+  }, [roles])
+
+  const { data: permissions = [], isLoading: permissionsLoading } = useQuery<Permission[]>({
+    queryKey: ['permissions'],
+    queryFn: userManagementApi.getPermissions,
+  })
+
+  // Only needed for the impact preview
+  const { data: users = [], isLoading: usersLoading } = useQuery<User[]>({
+    queryKey: ['users', 'all'],
+    queryFn: () => userManagementApi.getAllUsers(),
+    enabled: isReviewOpen,
+  })
+
+  const changes = useMemo(
+    () => diffPermissionMatrix(roles, permissions, draft),
+    [roles, permissions, draft]
+  )
+  const impact = useMemo(
+    () => (isReviewOpen ? computePermissionImpact(users, roles, permissions, draft) : []),
+    [isReviewOpen, users, roles, permissions, draft]
+  )
+
+  const saveMutation = useMutation({
+    mutationFn: () => Promise.all(changes.map(({ role }) =>
+      userManagementApi.updateRole(role.roleId, {
+        name: role.name,
+        description: role.description,
+        isActive: role.isActive,
+        permissionIds: draft[role.roleId] ?? [],
+      })
+    )),
+    onSuccess: () => {
+      toast.success(`Permissions updated for ${changes.length} role${changes.length === 1 ? '' : 's'}`)
+      setIsReviewOpen(false)
+      onSaved()
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to update role permissions')
+    },
+  })
+
+  // Group permissions by resource
+  const groupedPermissions = permissions.reduce((groups, permission) => {
+    const resource = permission.resource
+    if (!groups[resource]) {
+      groups[resource] = []
+    }
+    groups[resource].push(permission)
+    return groups
+  }, {} as Record<string, Permission[]>)
+
+  const roleIds = roles.map(role => role.roleId)
+  const isGranted = (roleId: string, permissionId: string) =>
+    (draft[roleId] ?? []).includes(permissionId)
+  const isSaved = (role: Role, permissionId: string) =>
+    role.permissions.some(permission => permission.permissionId === permissionId)
+
+  // Bulk toggles grant to everything unless everything already has it
+  const toggleAll = (targetRoleIds: string[], permissionIds: string[]) => {
+    const allGranted = targetRoleIds.every(roleId =>
+      permissionIds.every(permissionId => isGranted(roleId, permissionId))
+    )
+    setDraft(current => setMatrixCells(current, targetRoleIds, permissionIds, !allGranted))
+  }
+
+  if (permissionsLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Permission Matrix</CardTitle>
+            <CardDescription>
+              {changes.length > 0
+                ? `${changes.length} role${changes.length === 1 ? '' : 's'} with unsaved changes`
+                : 'Click a permission or role name to toggle it for the whole row or column'}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={changes.length === 0}
+              onClick={() => setDraft(buildPermissionMatrix(roles))}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Discard
+            </Button>
+            <Button disabled={changes.length === 0} onClick={() => setIsReviewOpen(true)}>
+              <Eye className="h-4 w-4 mr-2" />
+              Review changes
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[220px]">Permission</TableHead>
+                {roles.map(role => (
+                  <TableHead key={role.roleId} className="text-center whitespace-nowrap">
+                    <button
+                      type="button"
+                      className="font-medium hover:text-blue-600"
+                      title={`Toggle every permission for ${role.name}`}
+                      onClick={() => toggleAll([role.roleId], permissions.map(p => p.permissionId))}
+                    >
+                      {role.name}
+                    </button>
+                    {!role.isActive && (
+                      <div className="text-xs font-normal text-gray-400">inactive</div>
+                    )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {Object.entries(groupedPermissions).map(([resource, resourcePermissions]) => (
+                <Fragment key={resource}>
+                  <TableRow className="bg-gray-50">
+                    <TableCell colSpan={roles.length + 1}>
+                      <button
+                        type="button"
+                        className="text-sm font-semibold capitalize hover:text-blue-600"
+                        title={`Toggle all ${resource} permissions for every role`}
+                        onClick={() => toggleAll(roleIds, resourcePermissions.map(p => p.permissionId))}
+                      >
+                        {resource}
+                      </button>
+                    </TableCell>
+                  </TableRow>
+                  {resourcePermissions.map(permission => (
+                    <TableRow key={permission.permissionId}>
+                      <TableCell>
+                        <button
+                          type="button"
+                          className="text-left hover:text-blue-600"
+                          title="Toggle for every role"
+                          onClick={() => toggleAll(roleIds, [permission.permissionId])}
+                        >
+                          <div className="font-medium">{permission.name}</div>
+                          {permission.description && (
+                            <div className="text-xs text-gray-500">{permission.description}</div>
+                          )}
+                        </button>
+                      </TableCell>
+                      {roles.map(role => {
+                        const granted = isGranted(role.roleId, permission.permissionId)
+                        const changed = granted !== isSaved(role, permission.permissionId)
+                        return (
+                          <TableCell
+                            key={role.roleId}
+                            className={cn(
+                              'text-center',
+                              changed && (granted ? 'bg-green-50' : 'bg-red-50')
+                            )}
+                          >
+                            <Checkbox
+                              checked={granted}
+                              aria-label={`${permission.name} for ${role.name}`}
+                              onCheckedChange={(checked) => setDraft(current =>
+                                toggleMatrixCell(current, role.roleId, permission.permissionId, checked === true)
+                              )}
+                            />
+                          </TableCell>
+                        )
+                      })}
+                    </TableRow>
+                  ))}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Pending changes */}
+        {changes.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">Pending changes</h3>
+            {changes.map(({ role, added, removed }) => (
+              <div key={role.roleId} className="rounded-lg border p-3">
+                <div className="font-medium mb-2">{role.name}</div>
+                <div className="flex flex-wrap gap-1">
+                  {added.map(permission => (
+                    <Badge key={permission.permissionId} className="bg-green-100 text-green-800">
+                      + {permission.name}
+                    </Badge>
+                  ))}
+                  {removed.map(permission => (
+                    <Badge key={permission.permissionId} className="bg-red-100 text-red-800">
+                      − {permission.name}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Impact preview */}
+      <Dialog open={isReviewOpen} onOpenChange={setIsReviewOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Review permission changes</DialogTitle>
+            <DialogDescription>
+              Users affected if the changes to {changes.length} role{changes.length === 1 ? '' : 's'} are saved.
+              Users who keep a permission through another role or a direct grant are not counted.
+            </DialogDescription>
+          </DialogHeader>
+
+          {usersLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Permission</TableHead>
+                  <TableHead className="text-right">Users gaining</TableHead>
+                  <TableHead className="text-right">Users losing</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {impact.map(({ permission, gained, lost }) => (
+                  <TableRow key={permission.permissionId}>
+                    <TableCell>
+                      <div className="font-medium">{permission.name}</div>
+                      <div className="text-xs text-gray-500 capitalize">{permission.resource}</div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <span className={cn('inline-flex items-center gap-1', gained > 0 ? 'text-green-600' : 'text-gray-400')}>
+                        <TrendingUp className="h-4 w-4" />
+                        {gained}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <span className={cn('inline-flex items-center gap-1', lost > 0 ? 'text-red-600' : 'text-gray-400')}>
+                        <TrendingDown className="h-4 w-4" />
+                        {lost}
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsReviewOpen(false)}>
+              Keep editing
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={usersLoading || saveMutation.isPending}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saveMutation.isPending ? 'Saving...' : 'Save changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
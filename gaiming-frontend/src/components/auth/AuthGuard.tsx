@@ -168,6 +168,8 @@ export const usePermissions = () => {
     canManageModels: hasPermission('models.manage') || user?.role === 'Admin',
     canDeployModels: hasPermission('models.deploy') || user?.role === 'Admin',
     canExportModels: hasPermission('models.export') || user?.role === 'Admin',
+    canExportGames: hasPermission('games.export') || user?.role === 'Admin',
+    canImportGames: hasPermission('games.import') || user?.role === 'Admin',
     isAdmin: user?.role === 'Admin',
     isManager: user?.role === 'Manager',
   };
@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Clock, Lock } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/input'
+import { useAuthStore } from '@/app/store/authStore'
+import { authService, type SessionPolicy } from '@/shared/services/authService'
+import { idleTracker, type IdleSnapshot } from '@/shared/services/idleTracker'
+import TwoFactorChallengeForm from './TwoFactorChallengeForm'
+
+// The lock can only be lifted by signing in again or signing out
+const LOCKED_DIALOG_CLASS = '[&>button:last-child]:hidden'
+
+const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+const useSecondsUntil = (timestamp: number, enabled: boolean) => {
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    if (!enabled) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [enabled])
+
+  return Math.max(0, Math.ceil((timestamp - now) / 1000))
+}
+
+/**
+ * Enforces the server's session timeout for the signed-in user: warns with a
+ * countdown before it runs out, then locks the session behind a password
+ * prompt. Pages stay mounted while locked, so unsaved form state survives.
+ */
+const IdleSessionManager: React.FC = () => {
+  const queryClient = useQueryClient()
+  const { user, sessionLocked, lockSession, logout } = useAuthStore()
+  const [idle, setIdle] = useState<IdleSnapshot>(() => idleTracker.getSnapshot())
+  const wasLocked = useRef(sessionLocked)
+
+  const { data: policy } = useQuery<SessionPolicy>({
+    queryKey: ['session-policy'],
+    queryFn: () => authService.getSessionPolicy(),
+    staleTime: Infinity,
+    retry: false,
+  })
+
+  useEffect(() => {
+    if (policy?.sessionTimeout) {
+      idleTracker.configure(policy.sessionTimeout * 60 * 1000)
+    }
+  }, [policy])
+
+  useEffect(() => {
+    idleTracker.start()
+    const unsubscribe = idleTracker.subscribe(setIdle)
+    return () => {
+      unsubscribe()
+      idleTracker.stop()
+    }
+  }, [])
+
+  useEffect(() => {
+    if (wasLocked.current && !sessionLocked) {
+      // Signed back in, here or in another tab: restart the countdown and retry what failed meanwhile
+      idleTracker.extend()
+      queryClient.refetchQueries({ predicate: (query) => query.state.status === 'error' })
+    }
+    wasLocked.current = sessionLocked
+
+    // Read the tracker directly; extending above has not reached `idle` yet
+    if (!sessionLocked && idleTracker.isExpired()) {
+      void lockSession()
+    }
+  }, [idle.state, sessionLocked, lockSession, queryClient])
+
+  const warning = idle.state === 'warning' && !sessionLocked
+  const secondsLeft = useSecondsUntil(idle.expiresAt, warning)
+
+  if (!user) return null
+
+  return (
+    <>
+      <Dialog open={warning} onOpenChange={(open) => !open && idleTracker.extend()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5 text-amber-500" />
+              Are you still there?
+            </DialogTitle>
+            <DialogDescription>
+              You will be signed out for inactivity in{' '}
+              <span className="font-mono font-semibold">{formatCountdown(secondsLeft)}</span>.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => logout()}>
+              Sign out
+            </Button>
+            <Button onClick={() => idleTracker.extend()}>
+              Stay signed in
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={sessionLocked}>
+        <DialogContent
+          className={`sm:max-w-md ${LOCKED_DIALOG_CLASS}`}
+          onEscapeKeyDown={(event) => event.preventDefault()}
+          onInteractOutside={(event) => event.preventDefault()}
+        >
+          <SessionLockPrompt email={user.email} onSignOut={() => logout()} />
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
+
+interface SessionLockPromptProps {
+  email: string
+  onSignOut: () => void
+}
+
+const SessionLockPrompt: React.FC<SessionLockPromptProps> = ({ email, onSignOut }) => {
+  const { login, twoFactorChallenge, isLoading, error, clearError } = useAuthStore()
+  const [password, setPassword] = useState('')
+
+  // Start without the previous session's error
+  useEffect(() => {
+    clearError()
+  }, [clearError])
+
+  if (twoFactorChallenge) {
+    // Signing in again unlocks the session from the store; nothing to do here
+    return <TwoFactorChallengeForm onVerified={() => setPassword('')} />
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    try {
+      await login(email, password)
+    } catch {
+      // The store keeps the error for display
+    }
+    setPassword('')
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Session locked
+        </DialogTitle>
+        <DialogDescription>
+          You were signed out after a period of inactivity. Enter the password for {email} to carry on where you left off.
+        </DialogDescription>
+      </DialogHeader>
+
+      <Input
+        type="password"
+        autoComplete="current-password"
+        autoFocus
+        placeholder="Password"
+        value={password}
+        onChange={(event) => setPassword(event.target.value)}
+      />
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      <DialogFooter>
+        <Button type="button" variant="ghost" onClick={onSignOut}>
+          Sign out instead
+        </Button>
+        <Button type="submit" loading={isLoading} disabled={!password}>
+          Unlock
+        </Button>
+      </DialogFooter>
+    </form>
+  )
+}
+
+export default IdleSessionManager
@@ -0,0 +1,87 @@
+import React from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { authService, type ActiveSession } from '@/shared/services/authService'
+import SessionsList from './SessionsList'
+
+const MySessionsPanel: React.FC = () => {
+  const queryClient = useQueryClient()
+
+  const { data: sessions = [], isLoading, error } = useQuery<ActiveSession[]>({
+    queryKey: ['my-sessions'],
+    queryFn: () => authService.getActiveSessions(),
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: (sessionId: string) => authService.revokeSession(sessionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-sessions'] })
+      toast.success('Session signed out')
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to sign out session')
+    },
+  })
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: () => authService.revokeOtherSessions(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-sessions'] })
+      toast.success('All other sessions signed out')
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to sign out other sessions')
+    },
+  })
+
+  const handleRevoke = (session: ActiveSession) => {
+    if (confirm(`Sign out ${session.deviceName || 'this device'}?`)) {
+      revokeMutation.mutate(session.sessionId)
+    }
+  }
+
+  const handleRevokeOthers = () => {
+    if (confirm('Sign out every other device? This browser stays signed in.')) {
+      revokeOthersMutation.mutate()
+    }
+  }
+
+  const otherSessions = sessions.filter(session => !session.isCurrent)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>My Sessions</CardTitle>
+            <CardDescription>Devices signed in to your account</CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRevokeOthers}
+            disabled={otherSessions.length === 0 || revokeOthersMutation.isPending}
+          >
+            Sign out other sessions
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-red-600 dark:text-red-400">Failed to load sessions. Please try again later.</p>
+        ) : (
+          <SessionsList
+            sessions={sessions}
+            isLoading={isLoading}
+            onRevoke={handleRevoke}
+            revokingId={revokeMutation.isPending ? revokeMutation.variables : null}
+          />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default MySessionsPanel
@@ -0,0 +1,37 @@
+import React from 'react'
+import { Shield } from 'lucide-react'
+import { useAuthStore } from '@/app/store/authStore'
+import { canAccessRoute, type RouteDefinition } from '@/app/router'
+
+interface RouteGuardProps {
+  route: RouteDefinition
+  children: React.ReactNode
+}
+
+/**
+ * Renders a manifest route only if the signed-in user meets its access rule.
+ * Sign-in itself is handled by ProtectedRoute around the layout.
+ */
+const RouteGuard: React.FC<RouteGuardProps> = ({ route, children }) => {
+  const user = useAuthStore((state) => state.user)
+
+  if (canAccessRoute(route, user)) {
+    return <>{children}</>
+  }
+
+  return (
+    <div className="flex items-center justify-center h-64">
+      <div className="text-center">
+        <Shield className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+          Access Denied
+        </h3>
+        <p className="text-gray-600 dark:text-gray-400">
+          You don't have access to {route.title}.
+        </p>
+      </div>
+    </div>
+  )
+}
+
+export default RouteGuard
@@ -0,0 +1,99 @@
+import React from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Monitor, Smartphone, Tablet, LogOut } from 'lucide-react'
+import type { ActiveSession } from '@/shared/services/authService'
+import { Button } from '@/components/ui/Button'
+import { Badge } from '@/components/ui/Badge'
+
+interface SessionsListProps {
+  sessions: ActiveSession[]
+  isLoading?: boolean
+  onRevoke: (session: ActiveSession) => void
+  // Session currently being revoked, if any
+  revokingId?: string | null
+  emptyMessage?: string
+}
+
+const getDeviceIcon = (userAgent: string) => {
+  if (/ipad|tablet/i.test(userAgent)) return Tablet
+  if (/mobile|android|iphone/i.test(userAgent)) return Smartphone
+  return Monitor
+}
+
+const formatLastActivity = (lastActivity: string) => {
+  const date = new Date(lastActivity)
+  return isNaN(date.getTime()) ? 'Unknown' : formatDistanceToNow(date, { addSuffix: true })
+}
+
+/**
+ * Signed-in sessions with per-session revoke. The current session is listed
+ * first and cannot be revoked here, so nobody signs themselves out by accident.
+ */
+const SessionsList: React.FC<SessionsListProps> = ({
+  sessions,
+  isLoading = false,
+  onRevoke,
+  revokingId = null,
+  emptyMessage = 'No active sessions.',
+}) => {
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (sessions.length === 0) {
+    return <p className="text-sm text-gray-600 dark:text-gray-400 py-4">{emptyMessage}</p>
+  }
+
+  const sorted = [...sessions].sort((a, b) =>
+    Number(b.isCurrent) - Number(a.isCurrent) ||
+    new Date(b.lastActivity).getTime() - new Date(a.lastActivity).getTime()
+  )
+
+  return (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+      {sorted.map((session) => {
+        const DeviceIcon = getDeviceIcon(session.userAgent)
+        return (
+          <li key={session.sessionId} className="flex items-center gap-4 py-3">
+            <DeviceIcon className="h-5 w-5 text-gray-400 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-900 dark:text-white truncate" title={session.userAgent}>
+                  {session.deviceName || 'Unknown device'}
+                </span>
+                {session.isCurrent && (
+                  <Badge variant="success" size="sm">This device</Badge>
+                )}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {[session.ipAddress, session.location].filter(Boolean).join(' · ')}
+                {' · '}
+                {session.isCurrent ? 'Active now' : `Last active ${formatLastActivity(session.lastActivity)}`}
+              </div>
+            </div>
+            {session.isCurrent ? (
+              <span className="text-xs text-gray-500 dark:text-gray-400">Use Sign out to end this session</span>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRevoke(session)}
+                loading={revokingId === session.sessionId}
+                disabled={!!revokingId}
+                icon={<LogOut className="h-4 w-4" />}
+              >
+                Revoke
+              </Button>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default SessionsList
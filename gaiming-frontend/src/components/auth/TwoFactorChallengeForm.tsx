@@ -0,0 +1,159 @@
+import React, { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { ShieldCheck, KeyRound } from 'lucide-react'
+import { useAuthStore } from '@/app/store/authStore'
+
+import Button from '@/components/ui/Button'
+
+interface TwoFactorForm {
+  code: string
+  rememberDevice: boolean
+}
+
+interface TwoFactorChallengeFormProps {
+  onVerified: () => void
+}
+
+const TOTP_PATTERN = /^\d{6}$/
+// Backup codes are shown in groups, e.g. "ABCD-1234"; accept them with or without the dash
+const BACKUP_CODE_PATTERN = /^[A-Za-z0-9]{4}-?[A-Za-z0-9]{4}$/
+
+const TwoFactorChallengeForm: React.FC<TwoFactorChallengeFormProps> = ({ onVerified }) => {
+  const { verifyTwoFactor, cancelTwoFactor, twoFactorChallenge, isLoading, error } = useAuthStore()
+  const [useBackupCode, setUseBackupCode] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    clearErrors,
+    formState: { errors },
+  } = useForm<TwoFactorForm>({
+    defaultValues: {
+      code: '',
+      rememberDevice: false,
+    },
+  })
+
+  const onSubmit = async (data: TwoFactorForm) => {
+    try {
+      await verifyTwoFactor(data.code.trim(), {
+        isBackupCode: useBackupCode,
+        rememberDevice: data.rememberDevice,
+      })
+      onVerified()
+    } catch {
+      // The store keeps the error for display; let the user try another code
+      setValue('code', '')
+    }
+  }
+
+  const toggleBackupCode = () => {
+    setUseBackupCode(!useBackupCode)
+    setValue('code', '')
+    clearErrors('code')
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <div className="text-center">
+        <div className="mx-auto w-12 h-12 rounded-xl bg-primary-500/20 flex items-center justify-center mb-3">
+          {useBackupCode ? (
+            <KeyRound className="w-6 h-6 text-primary-400" />
+          ) : (
+            <ShieldCheck className="w-6 h-6 text-primary-400" />
+          )}
+        </div>
+        <h3 className="text-lg font-semibold text-white">Two-factor authentication</h3>
+        <p className="text-sm text-gray-400 mt-1">
+          {useBackupCode
+            ? 'Enter one of the backup codes you saved when you set up two-factor authentication.'
+            : `Enter the 6-digit code from your authenticator app for ${twoFactorChallenge?.username ?? 'your account'}.`}
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor="code" className="block text-sm font-medium text-gray-300 mb-2">
+          {useBackupCode ? 'Backup code' : 'Authentication code'}
+        </label>
+        <input
+          {...register('code', {
+            required: 'Code is required',
+            validate: (value) => {
+              const code = value.trim()
+              if (useBackupCode) {
+                return BACKUP_CODE_PATTERN.test(code) || 'Backup codes look like ABCD-1234'
+              }
+              return TOTP_PATTERN.test(code.replace(/\s+/g, '')) || 'Enter the 6-digit code'
+            },
+          })}
+          id="code"
+          type="text"
+          inputMode={useBackupCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          autoFocus
+          className="w-full px-4 py-3 border border-primary-500/30 rounded-lg bg-gray-800/50 text-white text-center tracking-widest placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all duration-200 backdrop-blur-sm"
+          placeholder={useBackupCode ? 'ABCD-1234' : '123456'}
+        />
+        {errors.code && (
+          <p className="mt-1 text-sm text-error-400">
+            {errors.code.message}
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <input
+            {...register('rememberDevice')}
+            id="rememberDevice"
+            type="checkbox"
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-primary-500/30 bg-gray-800/50 rounded"
+          />
+          <label htmlFor="rememberDevice" className="ml-2 block text-sm text-gray-300">
+            Remember this device
+          </label>
+        </div>
+        <button
+          type="button"
+          onClick={toggleBackupCode}
+          className="text-sm text-primary-400 hover:text-primary-300 transition-colors"
+        >
+          {useBackupCode ? 'Use authenticator app' : 'Use a backup code'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-error-900/20 border border-error-500/30 rounded-lg p-4 backdrop-blur-sm">
+          <p className="text-sm text-error-400">
+            {error}
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <Button
+          type="submit"
+          variant="gaming"
+          size="lg"
+          fullWidth
+          loading={isLoading}
+          className="font-semibold"
+        >
+          {isLoading ? 'Verifying...' : 'Verify'}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          fullWidth
+          onClick={cancelTwoFactor}
+          className="text-gray-300 hover:bg-gray-800/50"
+        >
+          Back to sign in
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+export default TwoFactorChallengeForm
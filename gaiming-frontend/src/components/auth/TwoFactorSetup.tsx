@@ -0,0 +1,185 @@
+import React, { useState } from 'react'
+import { Copy, Download, ShieldCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import { twoFactorService, type TwoFactorSetupResponse } from '@/shared/services/twoFactorService'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/input'
+
+type SetupStep = 'password' | 'verify' | 'backup-codes'
+
+interface TwoFactorSetupProps {
+  onComplete: () => void
+}
+
+/**
+ * Backup codes with copy and download; each code works once in place of an authenticator code
+ */
+export const BackupCodesList: React.FC<{ codes: string[] }> = ({ codes }) => {
+  const text = codes.join('\n')
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text)
+      toast.success('Backup codes copied')
+    } catch (err) {
+      console.error('Failed to copy backup codes:', err)
+    }
+  }
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`GAIming backup codes\n\n${text}\n`], { type: 'text/plain' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'gaiming-backup-codes.txt'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="grid grid-cols-2 gap-2 p-4 bg-gray-50 dark:bg-gray-900 rounded-lg font-mono text-sm text-gray-900 dark:text-gray-100">
+        {codes.map(code => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={handleCopy} icon={<Copy className="h-4 w-4" />}>
+          Copy
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleDownload} icon={<Download className="h-4 w-4" />}>
+          Download
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Enrol an authenticator app: confirm the password, scan the QR code, confirm
+ * a first code, then save the backup codes
+ */
+const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ onComplete }) => {
+  const [step, setStep] = useState<SetupStep>('password')
+  const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null)
+  const [backupCodes, setBackupCodes] = useState<string[]>([])
+  const [savedCodes, setSavedCodes] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (task: () => Promise<void>) => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await task()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleBegin = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      const response = await twoFactorService.beginSetup({ password })
+      setSetup(response)
+      setPassword('')
+      setStep('verify')
+    })
+  }
+
+  const handleVerify = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      const response = await twoFactorService.confirmSetup({ code: code.replace(/\s+/g, '') })
+      setBackupCodes(response.backupCodes ?? setup?.backupCodes ?? [])
+      setCode('')
+      setStep('backup-codes')
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {step === 'password' && (
+        <form onSubmit={handleBegin} className="space-y-4 max-w-sm">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Confirm your password to start setting up an authenticator app.
+          </p>
+          <Input
+            type="password"
+            value={password}
+            autoComplete="current-password"
+            placeholder="Current password"
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <Button type="submit" variant="primary" loading={isSubmitting} disabled={!password}>
+            Continue
+          </Button>
+        </form>
+      )}
+
+      {step === 'verify' && setup && (
+        <form onSubmit={handleVerify} className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Scan this QR code with an authenticator app such as Google Authenticator or 1Password,
+            then enter the 6-digit code it shows.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-6 items-start">
+            <img
+              src={setup.qrCode}
+              alt="QR code for your authenticator app"
+              className="w-44 h-44 rounded-lg border border-gray-200 dark:border-gray-700 bg-white p-2"
+            />
+            <div className="space-y-2 min-w-0">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Can't scan it? Enter this key instead:</p>
+              <code className="block break-all px-3 py-2 bg-gray-50 dark:bg-gray-900 rounded text-sm text-gray-900 dark:text-gray-100">
+                {setup.secret.match(/.{1,4}/g)?.join(' ')}
+              </code>
+            </div>
+          </div>
+          <div className="flex gap-2 max-w-sm">
+            <Input
+              value={code}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              onChange={(e) => setCode(e.target.value)}
+            />
+            <Button type="submit" variant="primary" loading={isSubmitting} disabled={!/^\d{6}$/.test(code.replace(/\s+/g, ''))}>
+              Verify
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {step === 'backup-codes' && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 text-green-700 dark:text-green-400">
+            <ShieldCheck className="h-5 w-5" />
+            <span className="font-medium">Two-factor authentication is on</span>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Save these backup codes somewhere safe. Each one signs you in once if you lose access to your
+            authenticator app. They will not be shown again.
+          </p>
+          <BackupCodesList codes={backupCodes} />
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input type="checkbox" checked={savedCodes} onChange={(e) => setSavedCodes(e.target.checked)} />
+            I have saved my backup codes
+          </label>
+          <Button variant="primary" onClick={onComplete} disabled={!savedCodes}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  )
+}
+
+export default TwoFactorSetup
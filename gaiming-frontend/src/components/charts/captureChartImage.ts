@@ -0,0 +1,59 @@
+import type { PdfImage } from '../../services/export/pdfWriter';
+
+/**
+ * Rasterize the chart SVG rendered inside a container (BarChart, LineChart,
+ * PieChart) to a JPEG suitable for embedding in PDF exports.
+ * Returns null when the container holds no rendered chart.
+ */
+export async function captureChartImage(
+  container: HTMLElement | null,
+  title?: string,
+  scale = 2
+): Promise<PdfImage | null> {
+  const svg = container?.querySelector('svg.recharts-surface') ?? container?.querySelector('svg');
+  if (!svg) return null;
+
+  const { width, height } = svg.getBoundingClientRect();
+  if (!width || !height) return null;
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+
+  const svgUrl = URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml;charset=utf-8' })
+  );
+
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Failed to rasterize chart'));
+      img.src = svgUrl;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    // JPEG has no alpha channel, so paint a white background first
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const jpeg = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+    if (!jpeg) return null;
+
+    return {
+      title,
+      data: new Uint8Array(await jpeg.arrayBuffer()),
+      width: canvas.width,
+      height: canvas.height,
+    };
+  } finally {
+    URL.revokeObjectURL(svgUrl);
+  }
+}
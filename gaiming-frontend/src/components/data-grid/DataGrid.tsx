@@ -0,0 +1,501 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import {
+  flexRender,
+  getCoreRowModel,
+  getSortedRowModel,
+  useReactTable,
+  type Column,
+  type ColumnDef,
+  type ColumnOrderState,
+  type ColumnSizingState,
+  type OnChangeFn,
+  type RowSelectionState,
+  type SortingState,
+  type VisibilityState,
+} from '@tanstack/react-table';
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useVirtualScrolling } from '@/shared/hooks/usePerformanceOptimization';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+
+export interface DataGridProps<T> {
+  data: T[];
+  columns: ColumnDef<T, any>[];
+  getRowId: (row: T) => string;
+  // Height of the scrolling area in pixels; only the rows inside it are rendered
+  height?: number;
+  rowHeight?: number;
+  isLoading?: boolean;
+  emptyMessage?: string;
+  // Remember column order, visibility and widths in localStorage under this key
+  storageKey?: string;
+  // Rendered at the left of the toolbar, e.g. bulk action buttons
+  toolbar?: React.ReactNode;
+  enableRowSelection?: boolean;
+  rowSelection?: RowSelectionState;
+  onRowSelectionChange?: (selection: RowSelectionState) => void;
+  // With manualSorting the caller sorts the data itself, e.g. on the server
+  sorting?: SortingState;
+  onSortingChange?: (sorting: SortingState) => void;
+  manualSorting?: boolean;
+  enableMultiSort?: boolean;
+  // Called on row click and when Enter is pressed on the active row
+  onRowActivate?: (row: T) => void;
+  className?: string;
+}
+
+interface GridLayout {
+  columnOrder?: ColumnOrderState;
+  columnVisibility?: VisibilityState;
+  columnSizing?: ColumnSizingState;
+}
+
+interface ActiveCell {
+  row: number;
+  col: number;
+}
+
+const SELECT_COLUMN_ID = '__select';
+const STORAGE_PREFIX = 'data-grid:';
+const OVERSCAN_ROWS = 10;
+
+const loadLayout = (storageKey?: string): GridLayout => {
+  if (!storageKey) return {};
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_PREFIX + storageKey) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const getColumnLabel = <T,>(column: Column<T, unknown>) =>
+  typeof column.columnDef.header === 'string' ? column.columnDef.header : column.id;
+
+const resolveUpdater = <S,>(updater: S | ((old: S) => S), current: S): S =>
+  typeof updater === 'function' ? (updater as (old: S) => S)(current) : updater;
+
+const IndeterminateCheckbox: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { indeterminate?: boolean }> = ({
+  indeterminate = false,
+  ...props
+}) => {
+  const ref = useRef<HTMLInputElement>(null);
+  useEffect(() => {
+    if (ref.current) ref.current.indeterminate = indeterminate;
+  }, [indeterminate]);
+  return <input ref={ref} type="checkbox" className="rounded border-gray-300" {...props} />;
+};
+
+function DataGrid<T>({
+  data,
+  columns,
+  getRowId,
+  height = 600,
+  rowHeight = 48,
+  isLoading = false,
+  emptyMessage = 'No rows to display',
+  storageKey,
+  toolbar,
+  enableRowSelection = false,
+  rowSelection,
+  onRowSelectionChange,
+  sorting,
+  onSortingChange,
+  manualSorting = false,
+  enableMultiSort = true,
+  onRowActivate,
+  className,
+}: DataGridProps<T>) {
+  const gridId = useId();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLTableSectionElement>(null);
+  const lastSelectedIndex = useRef<number | null>(null);
+  const draggedColumnId = useRef<string | null>(null);
+
+  const [layout, setLayout] = useState<GridLayout>(() => loadLayout(storageKey));
+  const [internalSorting, setInternalSorting] = useState<SortingState>([]);
+  const [internalSelection, setInternalSelection] = useState<RowSelectionState>({});
+  const [activeCell, setActiveCell] = useState<ActiveCell | null>(null);
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+
+  const currentSorting = sorting ?? internalSorting;
+  const currentSelection = rowSelection ?? internalSelection;
+
+  useEffect(() => {
+    if (storageKey) {
+      localStorage.setItem(STORAGE_PREFIX + storageKey, JSON.stringify(layout));
+    }
+  }, [storageKey, layout]);
+
+  const allColumns = useMemo<ColumnDef<T, any>[]>(() => {
+    if (!enableRowSelection) return columns;
+    const selectColumn: ColumnDef<T, any> = {
+      id: SELECT_COLUMN_ID,
+      size: 44,
+      enableSorting: false,
+      enableHiding: false,
+      enableResizing: false,
+      header: ({ table }) => (
+        <IndeterminateCheckbox
+          aria-label="Select all rows"
+          checked={table.getIsAllRowsSelected()}
+          indeterminate={table.getIsSomeRowsSelected()}
+          onChange={table.getToggleAllRowsSelectedHandler()}
+        />
+      ),
+      cell: ({ row }) => (
+        <IndeterminateCheckbox
+          aria-label="Select row"
+          checked={row.getIsSelected()}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => handleRowCheckbox(row.id, e.nativeEvent instanceof MouseEvent && e.nativeEvent.shiftKey)}
+        />
+      ),
+    };
+    return [selectColumn, ...columns];
+  }, [columns, enableRowSelection]);
+
+  const setSorting: OnChangeFn<SortingState> = (updater) => {
+    const next = resolveUpdater(updater, currentSorting);
+    if (onSortingChange) onSortingChange(next);
+    if (!sorting) setInternalSorting(next);
+  };
+
+  const setSelection: OnChangeFn<RowSelectionState> = (updater) => {
+    const next = resolveUpdater(updater, currentSelection);
+    if (onRowSelectionChange) onRowSelectionChange(next);
+    if (!rowSelection) setInternalSelection(next);
+  };
+
+  const table = useReactTable({
+    data,
+    columns: allColumns,
+    getRowId,
+    state: {
+      sorting: currentSorting,
+      rowSelection: currentSelection,
+      columnOrder: layout.columnOrder ?? [],
+      columnVisibility: layout.columnVisibility ?? {},
+      columnSizing: layout.columnSizing ?? {},
+    },
+    onSortingChange: setSorting,
+    onRowSelectionChange: setSelection,
+    onColumnOrderChange: (updater) =>
+      setLayout(prev => ({ ...prev, columnOrder: resolveUpdater(updater, prev.columnOrder ?? []) })),
+    onColumnVisibilityChange: (updater) =>
+      setLayout(prev => ({ ...prev, columnVisibility: resolveUpdater(updater, prev.columnVisibility ?? {}) })),
+    onColumnSizingChange: (updater) =>
+      setLayout(prev => ({ ...prev, columnSizing: resolveUpdater(updater, prev.columnSizing ?? {}) })),
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: manualSorting ? undefined : getSortedRowModel(),
+    manualSorting,
+    enableMultiSort,
+    enableRowSelection,
+    columnResizeMode: 'onChange',
+  });
+
+  const rows = table.getRowModel().rows;
+  const visibleColumns = table.getVisibleLeafColumns();
+  const { visibleItems, handleScroll, totalHeight, offsetY } = useVirtualScrolling(rows, rowHeight, height, OVERSCAN_ROWS);
+  const bottomSpacer = totalHeight - offsetY - visibleItems.items.length * rowHeight;
+  const selectedCount = Object.keys(currentSelection).filter(id => currentSelection[id]).length;
+
+  // Shift-click selects every row between the last clicked row and this one.
+  // Goes through `table` only, since the select column's cells keep the first
+  // render's copy of this function
+  function handleRowCheckbox(rowId: string, shiftKey: boolean) {
+    const modelRows = table.getRowModel().rows;
+    const index = modelRows.findIndex(r => r.id === rowId);
+    const row = modelRows[index];
+    if (!row) return;
+    const select = !row.getIsSelected();
+    if (shiftKey && lastSelectedIndex.current !== null) {
+      const from = Math.min(lastSelectedIndex.current, index);
+      const to = Math.max(lastSelectedIndex.current, index);
+      table.setRowSelection(prev => {
+        const next = { ...prev };
+        modelRows.slice(from, to + 1).forEach(r => {
+          if (select) next[r.id] = true;
+          else delete next[r.id];
+        });
+        return next;
+      });
+    } else {
+      row.toggleSelected(select);
+    }
+    lastSelectedIndex.current = index;
+  }
+
+  const scrollRowIntoView = (index: number) => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const headerHeight = headerRef.current?.offsetHeight ?? 0;
+    const top = index * rowHeight;
+    const viewport = container.clientHeight - headerHeight;
+    if (top < container.scrollTop) {
+      container.scrollTop = top;
+    } else if (top + rowHeight > container.scrollTop + viewport) {
+      container.scrollTop = top + rowHeight - viewport;
+    }
+  };
+
+  const moveActiveCell = (row: number, col: number) => {
+    if (rows.length === 0 || visibleColumns.length === 0) return;
+    const next = {
+      row: Math.max(0, Math.min(row, rows.length - 1)),
+      col: Math.max(0, Math.min(col, visibleColumns.length - 1)),
+    };
+    setActiveCell(next);
+    scrollRowIntoView(next.row);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const current = activeCell ?? { row: 0, col: 0 };
+    const activeRow = activeCell ? rows[activeCell.row] : undefined;
+    const pageRows = Math.max(1, Math.floor(height / rowHeight) - 1);
+    const fromGrid = e.target === e.currentTarget;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        moveActiveCell(activeCell ? current.row + 1 : 0, current.col);
+        break;
+      case 'ArrowUp':
+        moveActiveCell(current.row - 1, current.col);
+        break;
+      case 'ArrowRight':
+        moveActiveCell(current.row, current.col + 1);
+        break;
+      case 'ArrowLeft':
+        moveActiveCell(current.row, current.col - 1);
+        break;
+      case 'PageDown':
+        moveActiveCell(current.row + pageRows, current.col);
+        break;
+      case 'PageUp':
+        moveActiveCell(current.row - pageRows, current.col);
+        break;
+      case 'Home':
+        moveActiveCell(e.ctrlKey ? 0 : current.row, 0);
+        break;
+      case 'End':
+        moveActiveCell(e.ctrlKey ? rows.length - 1 : current.row, visibleColumns.length - 1);
+        break;
+      case ' ':
+        // Let focused checkboxes and buttons handle their own keys
+        if (!fromGrid || !enableRowSelection || !activeRow) return;
+        handleRowCheckbox(activeRow.id, e.shiftKey);
+        break;
+      case 'Enter':
+        if (!fromGrid || !onRowActivate || !activeRow) return;
+        onRowActivate(activeRow.original);
+        break;
+      case 'Escape':
+        if (!enableRowSelection) return;
+        setSelection({});
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const handleDrop = (targetId: string) => {
+    const draggedId = draggedColumnId.current;
+    draggedColumnId.current = null;
+    if (!draggedId || draggedId === targetId) return;
+
+    const defined = table.getAllLeafColumns().map(column => column.id).filter(id => id !== SELECT_COLUMN_ID);
+    const saved = (layout.columnOrder ?? []).filter(id => defined.includes(id));
+    const order = [...saved, ...defined.filter(id => !saved.includes(id))];
+    order.splice(order.indexOf(draggedId), 1);
+    order.splice(order.indexOf(targetId), 0, draggedId);
+    table.setColumnOrder(enableRowSelection ? [SELECT_COLUMN_ID, ...order] : order);
+  };
+
+  const activeDescendant = activeCell ? `${gridId}-r${activeCell.row}-c${activeCell.col}` : undefined;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2 px-4 pt-3">
+        <div className="flex flex-wrap items-center gap-2">{toolbar}</div>
+        <div className="flex items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+          <span>
+            {rows.length.toLocaleString()} rows
+            {enableRowSelection && selectedCount > 0 && ` · ${selectedCount.toLocaleString()} selected`}
+          </span>
+          <div className="relative">
+            <button
+              onClick={() => setShowColumnMenu(!showColumnMenu)}
+              className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+              aria-expanded={showColumnMenu}
+            >
+              <Columns className="h-4 w-4" />
+              Columns
+            </button>
+            {showColumnMenu && (
+              <div className="absolute right-0 top-full mt-1 w-56 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-30 p-2 space-y-1">
+                {table.getAllLeafColumns().filter(column => column.getCanHide()).map(column => (
+                  <label key={column.id} className="flex items-center gap-2 px-2 py-1 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={column.getIsVisible()}
+                      onChange={column.getToggleVisibilityHandler()}
+                      className="rounded border-gray-300"
+                    />
+                    {getColumnLabel(column)}
+                  </label>
+                ))}
+                <button
+                  onClick={() => setLayout({})}
+                  className="w-full px-2 py-1 text-left text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Reset columns
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        onKeyDown={handleKeyDown}
+        tabIndex={0}
+        aria-activedescendant={activeDescendant}
+        className="relative overflow-auto focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+        style={{ height }}
+      >
+        <table
+          role="grid"
+          aria-rowcount={rows.length + 1}
+          aria-colcount={visibleColumns.length}
+          aria-multiselectable={enableRowSelection || undefined}
+          className="table-fixed text-sm"
+          style={{ width: table.getTotalSize(), minWidth: '100%' }}
+        >
+          <thead ref={headerRef} className="sticky top-0 z-20 bg-gray-50 dark:bg-gray-800">
+            {table.getHeaderGroups().map(headerGroup => (
+              <tr key={headerGroup.id} aria-rowindex={1}>
+                {headerGroup.headers.map(header => {
+                  const column = header.column;
+                  const sorted = column.getIsSorted();
+                  const sortIndex = column.getSortIndex();
+                  const movable = column.id !== SELECT_COLUMN_ID;
+
+                  return (
+                    <th
+                      key={header.id}
+                      scope="col"
+                      aria-sort={sorted === 'asc' ? 'ascending' : sorted === 'desc' ? 'descending' : undefined}
+                      draggable={movable}
+                      onDragStart={() => { draggedColumnId.current = column.id; }}
+                      onDragOver={(e) => movable && e.preventDefault()}
+                      onDrop={() => handleDrop(column.id)}
+                      className="relative px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider select-none border-b border-gray-200 dark:border-gray-700"
+                      style={{ width: header.getSize() }}
+                    >
+                      {header.isPlaceholder ? null : column.getCanSort() ? (
+                        <button
+                          onClick={column.getToggleSortingHandler()}
+                          className="flex items-center gap-1 uppercase tracking-wider hover:text-gray-900 dark:hover:text-white"
+                          title={enableMultiSort ? 'Click to sort, shift-click to add a sort' : 'Click to sort'}
+                        >
+                          <span className="truncate">{flexRender(column.columnDef.header, header.getContext())}</span>
+                          {sorted === 'asc' ? (
+                            <ArrowUp className="h-3 w-3 flex-shrink-0" />
+                          ) : sorted === 'desc' ? (
+                            <ArrowDown className="h-3 w-3 flex-shrink-0" />
+                          ) : (
+                            <ArrowUpDown className="h-3 w-3 flex-shrink-0 opacity-40" />
+                          )}
+                          {sorted && currentSorting.length > 1 && (
+                            <span className="text-[10px] text-blue-600 dark:text-blue-400">{sortIndex + 1}</span>
+                          )}
+                        </button>
+                      ) : (
+                        flexRender(column.columnDef.header, header.getContext())
+                      )}
+                      {column.getCanResize() && (
+                        <div
+                          onMouseDown={header.getResizeHandler()}
+                          onTouchStart={header.getResizeHandler()}
+                          onDoubleClick={() => column.resetSize()}
+                          draggable={false}
+                          onDragStart={(e) => e.preventDefault()}
+                          className={cn(
+                            'absolute right-0 top-0 h-full w-1 cursor-col-resize hover:bg-blue-400',
+                            column.getIsResizing() && 'bg-blue-500'
+                          )}
+                        />
+                      )}
+                    </th>
+                  );
+                })}
+              </tr>
+            ))}
+          </thead>
+          <tbody className="bg-white dark:bg-gray-900">
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={visibleColumns.length} className="px-4 py-12 text-center text-gray-500 dark:text-gray-400">
+                  {isLoading ? 'Loading…' : emptyMessage}
+                </td>
+              </tr>
+            ) : (
+              <>
+                {offsetY > 0 && <tr aria-hidden style={{ height: offsetY }} />}
+                {visibleItems.items.map((row, i) => {
+                  const rowIndex = visibleItems.startIndex + i;
+                  return (
+                    <tr
+                      key={row.id}
+                      aria-rowindex={rowIndex + 2}
+                      aria-selected={enableRowSelection ? row.getIsSelected() : undefined}
+                      onClick={() => {
+                        setActiveCell(prev => ({ row: rowIndex, col: prev?.col ?? 0 }));
+                        onRowActivate?.(row.original);
+                      }}
+                      className={cn(
+                        'border-b border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800',
+                        onRowActivate && 'cursor-pointer',
+                        row.getIsSelected() && 'bg-blue-50 dark:bg-blue-900/20'
+                      )}
+                      style={{ height: rowHeight }}
+                    >
+                      {row.getVisibleCells().map((cell, colIndex) => {
+                        const isActive = activeCell?.row === rowIndex && activeCell.col === colIndex;
+                        return (
+                          <td
+                            key={cell.id}
+                            id={`${gridId}-r${rowIndex}-c${colIndex}`}
+                            role="gridcell"
+                            className={cn(
+                              'px-4 overflow-hidden whitespace-nowrap text-ellipsis text-gray-900 dark:text-white',
+                              isActive && 'outline outline-2 -outline-offset-2 outline-blue-500'
+                            )}
+                            style={{ width: cell.column.getSize() }}
+                          >
+                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+                {bottomSpacer > 0 && <tr aria-hidden style={{ height: bottomSpacer }} />}
+              </>
+            )}
+          </tbody>
+        </table>
+
+        {isLoading && rows.length > 0 && (
+          <div className="absolute inset-0 flex items-center justify-center bg-white/50 dark:bg-gray-900/50 z-30">
+            <LoadingSpinner size="lg" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default DataGrid;
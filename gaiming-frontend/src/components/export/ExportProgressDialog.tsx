@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
-import { X, Download, AlertCircle, CheckCircle, Clock, FileText } from 'lucide-react';
-import { ExportProgress } from '../../services/exportService';
+import { X, Download, AlertCircle, CheckCircle, Clock, FileText, Ban } from 'lucide-react';
+import { exportService, ExportProgress } from '../../services/exportService';
 import Button from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 
@@ -19,8 +19,10 @@ const ExportProgressDialog: React.FC<ExportProgressDialogProps> = ({
 }) => {
   const [timeElapsed, setTimeElapsed] = useState(0);
 
+  const isFinished = progress?.stage === 'completed' || progress?.stage === 'error' || progress?.stage === 'cancelled';
+
   useEffect(() => {
-    if (!isOpen || !progress || progress.stage === 'completed' || progress.stage === 'error') {
+    if (!isOpen || !progress || isFinished) {
       return;
     }
 
@@ -29,7 +31,7 @@ const ExportProgressDialog: React.FC<ExportProgressDialogProps> = ({
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [isOpen, progress]);
+  }, [isOpen, progress, isFinished]);
 
   useEffect(() => {
     if (isOpen && progress?.stage === 'preparing') {
@@ -39,6 +41,16 @@ const ExportProgressDialog: React.FC<ExportProgressDialogProps> = ({
 
   if (!isOpen || !progress) return null;
 
+  const canCancel = Boolean(progress.jobId || onCancel) &&
+    (progress.stage === 'preparing' || progress.stage === 'processing' || progress.stage === 'generating');
+
+  const handleCancel = () => {
+    if (progress.jobId) {
+      exportService.cancelJob(progress.jobId);
+    }
+    onCancel?.();
+  };
+
   const getStageIcon = () => {
     switch (progress.stage) {
       case 'preparing':
@@ -51,6 +63,8 @@ const ExportProgressDialog: React.FC<ExportProgressDialogProps> = ({
         return <CheckCircle className="h-5 w-5 text-green-500" />;
       case 'error':
         return <AlertCircle className="h-5 w-5 text-red-500" />;
+      case 'cancelled':
+        return <Ban className="h-5 w-5 text-gray-500" />;
       default:
         return <FileText className="h-5 w-5 text-gray-500" />;
     }
@@ -62,6 +76,8 @@ const ExportProgressDialog: React.FC<ExportProgressDialogProps> = ({
         return 'bg-green-500';
       case 'error':
         return 'bg-red-500';
+      case 'cancelled':
+        return 'bg-gray-400';
       default:
         return 'bg-blue-500';
     }
@@ -94,7 +110,7 @@ const ExportProgressDialog: React.FC<ExportProgressDialogProps> = ({
                 Exporting Data
               </h3>
             </div>
-            {progress.stage !== 'completed' && progress.stage !== 'error' && (
+            {!isFinished && (
               <Button
                 variant="ghost"
                 size="sm"
@@ -154,15 +170,15 @@ const ExportProgressDialog: React.FC<ExportProgressDialogProps> = ({
               </Button>
             )}
             
-            {progress.stage === 'error' && (
+            {(progress.stage === 'error' || progress.stage === 'cancelled') && (
               <Button variant="outline" onClick={onClose}>
                 Close
               </Button>
             )}
             
-            {(progress.stage === 'preparing' || progress.stage === 'processing' || progress.stage === 'generating') && onCancel && (
+            {canCancel && (
               <>
-                <Button variant="outline" onClick={onCancel}>
+                <Button variant="outline" onClick={handleCancel}>
                   Cancel
                 </Button>
                 <Button variant="ghost" onClick={onClose}>
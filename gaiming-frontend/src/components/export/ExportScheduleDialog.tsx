@@ -0,0 +1,447 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Clock, AlertCircle, AlertTriangle, CalendarClock } from 'lucide-react';
+import {
+  exportSchedulingService,
+  type CreateScheduleRequest,
+  type ExportFormat,
+  type ExportSchedule,
+  type ExportType,
+  type ScheduleConfig,
+  type ScheduleFrequency,
+} from '../../services/exportSchedulingService';
+import { formatDate, isValidEmail } from '../../lib/utils';
+import Button from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+
+interface ExportScheduleDialogProps {
+  isOpen: boolean;
+  // Schedule being edited; a new schedule is created when omitted
+  schedule?: ExportSchedule | null;
+  onClose: () => void;
+  onSaved: (schedule: ExportSchedule) => void;
+}
+
+interface ScheduleFormState {
+  name: string;
+  description: string;
+  exportType: ExportType;
+  format: ExportFormat;
+  frequency: ScheduleFrequency;
+  scheduleConfig: ScheduleConfig;
+  recipients: string;
+}
+
+const PREVIEW_RUNS = 5;
+
+const DAYS_OF_WEEK = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const QUARTER_MONTHS = ['Jan, Apr, Jul, Oct', 'Feb, May, Aug, Nov', 'Mar, Jun, Sep, Dec'];
+
+const LOCAL_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const TIMEZONES: string[] = (() => {
+  const supported = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone');
+  const zones = supported && supported.length > 0
+    ? supported
+    : ['America/New_York', 'America/Chicago', 'America/Los_Angeles', 'Europe/London', 'Europe/Berlin', 'Asia/Singapore', 'Asia/Tokyo', 'Australia/Sydney'];
+  return [...new Set(['UTC', LOCAL_TIMEZONE, ...zones])];
+})();
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500';
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+const createInitialState = (schedule?: ExportSchedule | null): ScheduleFormState => ({
+  name: schedule?.name ?? '',
+  description: schedule?.description ?? '',
+  exportType: schedule?.exportType ?? 'players',
+  format: schedule?.format ?? 'csv',
+  frequency: schedule?.frequency ?? 'daily',
+  scheduleConfig: schedule?.scheduleConfig ?? { hour: 6, dayOfWeek: 1, dayOfMonth: 1, month: 1, timezone: LOCAL_TIMEZONE },
+  recipients: schedule?.deliveryConfig.emailDelivery?.recipients.join(', ') ?? '',
+});
+
+const formatRun = (date: Date, timeZone: string) =>
+  formatDate(date, { timeZone, weekday: 'short', hour: '2-digit', minute: '2-digit', timeZoneName: 'short' });
+
+const ExportScheduleDialog: React.FC<ExportScheduleDialogProps> = ({
+  isOpen,
+  schedule,
+  onClose,
+  onSaved,
+}) => {
+  const [form, setForm] = useState<ScheduleFormState>(() => createInitialState(schedule));
+  const [peers, setPeers] = useState<ExportSchedule[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(createInitialState(schedule));
+      setSaveError(null);
+    }
+  }, [isOpen, schedule]);
+
+  // Other schedules of the same export type, for overlap warnings
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    exportSchedulingService
+      .getSchedules({ exportType: form.exportType, isActive: true, pageSize: 100 })
+      .then(response => {
+        if (!cancelled) setPeers(response.items);
+      })
+      .catch(err => {
+        console.error('Error loading schedules for overlap check:', err);
+        if (!cancelled) setPeers([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, form.exportType]);
+
+  const recipients = useMemo(
+    () => form.recipients.split(/[,;\s]+/).map(email => email.trim()).filter(Boolean),
+    [form.recipients]
+  );
+
+  const scheduleErrors = useMemo(
+    () => exportSchedulingService.validateScheduleConfig(form.frequency, form.scheduleConfig),
+    [form.frequency, form.scheduleConfig]
+  );
+
+  const errors = useMemo(() => {
+    const invalidRecipients = recipients.filter(email => !isValidEmail(email));
+    return [
+      ...(form.name.trim() ? [] : ['Name is required']),
+      ...scheduleErrors,
+      ...(invalidRecipients.length > 0 ? [`Invalid recipient email: ${invalidRecipients.join(', ')}`] : []),
+    ];
+  }, [form.name, scheduleErrors, recipients]);
+
+  const previewRuns = useMemo(
+    () => (scheduleErrors.length > 0
+      ? []
+      : exportSchedulingService.getNextRunDates(form.frequency, form.scheduleConfig, PREVIEW_RUNS)),
+    [form.frequency, form.scheduleConfig, scheduleErrors]
+  );
+
+  const overlaps = useMemo(
+    () => (scheduleErrors.length > 0
+      ? []
+      : exportSchedulingService.findOverlappingSchedules(
+          { id: schedule?.id, exportType: form.exportType, frequency: form.frequency, scheduleConfig: form.scheduleConfig },
+          peers
+        )),
+    [schedule?.id, form.exportType, form.frequency, form.scheduleConfig, peers, scheduleErrors]
+  );
+
+  if (!isOpen) return null;
+
+  const updateConfig = (changes: Partial<ScheduleConfig>) => {
+    setForm(prev => ({ ...prev, scheduleConfig: { ...prev.scheduleConfig, ...changes } }));
+  };
+
+  const handleFrequencyChange = (frequency: ScheduleFrequency) => {
+    setForm(prev => ({
+      ...prev,
+      frequency,
+      // Seed the expression from the current simple schedule when switching to cron
+      scheduleConfig: frequency === 'cron' && !prev.scheduleConfig.cronExpression && prev.frequency !== 'cron'
+        ? { ...prev.scheduleConfig, cronExpression: exportSchedulingService.generateCronExpression(prev.frequency, prev.scheduleConfig) }
+        : prev.scheduleConfig,
+    }));
+  };
+
+  const handleSave = async () => {
+    if (errors.length > 0) return;
+
+    const request: CreateScheduleRequest = {
+      name: form.name.trim(),
+      description: form.description.trim() || undefined,
+      exportType: form.exportType,
+      format: form.format,
+      frequency: form.frequency,
+      scheduleConfig: form.scheduleConfig,
+      exportConfig: schedule?.exportConfig ?? { includeMetadata: true },
+      deliveryConfig: {
+        ...schedule?.deliveryConfig,
+        emailDelivery: {
+          ...schedule?.deliveryConfig.emailDelivery,
+          enabled: recipients.length > 0,
+          recipients,
+        },
+      },
+    };
+
+    try {
+      setSaving(true);
+      setSaveError(null);
+      const saved = schedule
+        ? await exportSchedulingService.updateSchedule(schedule.id, request)
+        : await exportSchedulingService.createSchedule(request);
+      onSaved(saved);
+    } catch (err) {
+      setSaveError('Failed to save schedule');
+      console.error('Error saving schedule:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const { scheduleConfig } = form;
+  const showsLocalTime = scheduleConfig.timezone !== LOCAL_TIMEZONE;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {schedule ? 'Edit Export Schedule' : 'New Export Schedule'}
+            </h3>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className={labelClassName}>Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label className={labelClassName}>Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label className={labelClassName}>Export Type</label>
+                <select
+                  value={form.exportType}
+                  onChange={(e) => setForm(prev => ({ ...prev, exportType: e.target.value as ExportType }))}
+                  className={inputClassName}
+                >
+                  <option value="players">Players</option>
+                  <option value="analytics">Analytics</option>
+                  <option value="models">Models</option>
+                  <option value="comprehensive">Comprehensive</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClassName}>Format</label>
+                <select
+                  value={form.format}
+                  onChange={(e) => setForm(prev => ({ ...prev, format: e.target.value as ExportFormat }))}
+                  className={inputClassName}
+                >
+                  <option value="csv">CSV</option>
+                  <option value="excel">Excel</option>
+                  <option value="pdf">PDF</option>
+                  <option value="parquet">Parquet</option>
+                  <option value="ndjson">NDJSON</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClassName}>Frequency</label>
+                <select
+                  value={form.frequency}
+                  onChange={(e) => handleFrequencyChange(e.target.value as ScheduleFrequency)}
+                  className={inputClassName}
+                >
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="monthly">Monthly</option>
+                  <option value="quarterly">Quarterly</option>
+                  <option value="cron">Custom (cron)</option>
+                </select>
+              </div>
+            </div>
+
+            {/* Schedule */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {form.frequency === 'cron' ? (
+                <div className="sm:col-span-2">
+                  <label className={labelClassName}>Cron Expression</label>
+                  <input
+                    type="text"
+                    value={scheduleConfig.cronExpression || ''}
+                    placeholder="0 6 * * MON-FRI"
+                    onChange={(e) => updateConfig({ cronExpression: e.target.value })}
+                    className={`${inputClassName} font-mono`}
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    minute hour day-of-month month day-of-week
+                  </p>
+                </div>
+              ) : (
+                <>
+                  {form.frequency === 'quarterly' && (
+                    <div>
+                      <label className={labelClassName}>Months</label>
+                      <select
+                        value={((scheduleConfig.month ?? 1) - 1) % 3 + 1}
+                        onChange={(e) => updateConfig({ month: Number(e.target.value) })}
+                        className={inputClassName}
+                      >
+                        {QUARTER_MONTHS.map((months, index) => (
+                          <option key={months} value={index + 1}>{months}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  {form.frequency === 'weekly' && (
+                    <div>
+                      <label className={labelClassName}>Day of Week</label>
+                      <select
+                        value={scheduleConfig.dayOfWeek ?? 0}
+                        onChange={(e) => updateConfig({ dayOfWeek: Number(e.target.value) })}
+                        className={inputClassName}
+                      >
+                        {DAYS_OF_WEEK.map((day, index) => (
+                          <option key={day} value={index}>{day}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  {(form.frequency === 'monthly' || form.frequency === 'quarterly') && (
+                    <div>
+                      <label className={labelClassName}>Day of Month</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={31}
+                        value={scheduleConfig.dayOfMonth ?? 1}
+                        onChange={(e) => updateConfig({ dayOfMonth: Number(e.target.value) })}
+                        className={inputClassName}
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <label className={labelClassName}>Hour</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={23}
+                      value={scheduleConfig.hour ?? 0}
+                      onChange={(e) => updateConfig({ hour: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </>
+              )}
+              <div>
+                <label className={labelClassName}>Timezone</label>
+                <select
+                  value={scheduleConfig.timezone}
+                  onChange={(e) => updateConfig({ timezone: e.target.value })}
+                  className={inputClassName}
+                >
+                  {TIMEZONES.map(zone => (
+                    <option key={zone} value={zone}>{zone}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClassName}>Email Recipients</label>
+              <input
+                type="text"
+                value={form.recipients}
+                placeholder="ops@example.com, analytics@example.com"
+                onChange={(e) => setForm(prev => ({ ...prev, recipients: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+
+            {/* Next runs preview */}
+            <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+              <div className="flex items-center text-sm font-medium text-gray-900 dark:text-white mb-3">
+                <CalendarClock className="h-4 w-4 mr-2 text-blue-500" />
+                Next {PREVIEW_RUNS} runs
+              </div>
+              {previewRuns.length > 0 ? (
+                <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                  {previewRuns.map(run => (
+                    <li key={run.getTime()} className="flex justify-between">
+                      <span className="flex items-center">
+                        <Clock className="h-3 w-3 mr-2 text-gray-400" />
+                        {formatRun(run, scheduleConfig.timezone)}
+                      </span>
+                      {showsLocalTime && (
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {formatRun(run, LOCAL_TIMEZONE)}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {scheduleErrors.length > 0 ? 'Fix the schedule to preview its runs.' : 'This schedule has no upcoming runs.'}
+                </p>
+              )}
+            </div>
+
+            {overlaps.length > 0 && (
+              <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
+                {overlaps.map(overlap => (
+                  <div key={overlap.scheduleId} className="flex items-start text-sm text-yellow-800 dark:text-yellow-200">
+                    <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                    <span>
+                      Overlaps with "{overlap.scheduleName}" {overlap.conflictCount} time{overlap.conflictCount === 1 ? '' : 's'} in
+                      the next 90 days, first on {formatRun(overlap.firstConflict, scheduleConfig.timezone)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {(errors.length > 0 || saveError) && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 space-y-1">
+                {[...errors, ...(saveError ? [saveError] : [])].map(message => (
+                  <div key={message} className="flex items-center text-sm text-red-700 dark:text-red-300">
+                    <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+                    {message}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex justify-end space-x-3 mt-6">
+            <Button variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleSave} disabled={saving || errors.length > 0}>
+              {saving ? 'Saving...' : schedule ? 'Save Changes' : 'Create Schedule'}
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default ExportScheduleDialog;
@@ -24,6 +24,7 @@ import { Card } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Badge from '@/components/ui/Badge';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ExportScheduleDialog from './ExportScheduleDialog';
 
 interface ExportScheduleManagerProps {
   className?: string;
@@ -34,9 +35,7 @@ const ExportScheduleManager: React.FC<ExportScheduleManagerProps> = ({ className
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
-
-  // Suppress unused variable warning for future use
-  console.log('Show create dialog:', showCreateDialog);
+  const [editingSchedule, setEditingSchedule] = useState<ExportSchedule | null>(null);
   
   const [filters, setFilters] = useState<ScheduleListRequest>({
     page: 1,
@@ -111,6 +110,16 @@ const ExportScheduleManager: React.FC<ExportScheduleManagerProps> = ({ className
     }
   };
 
+  const closeScheduleDialog = () => {
+    setShowCreateDialog(false);
+    setEditingSchedule(null);
+  };
+
+  const handleScheduleSaved = async () => {
+    closeScheduleDialog();
+    await loadSchedules();
+  };
+
   const getFrequencyBadgeColor = (frequency: ScheduleFrequency) => {
     switch (frequency) {
       case 'daily':
@@ -121,6 +130,8 @@ const ExportScheduleManager: React.FC<ExportScheduleManagerProps> = ({ className
         return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200';
       case 'quarterly':
         return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
+      case 'cron':
+        return 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200';
       default:
         return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200';
     }
@@ -240,6 +251,7 @@ const ExportScheduleManager: React.FC<ExportScheduleManagerProps> = ({ className
               <option value="weekly">Weekly</option>
               <option value="monthly">Monthly</option>
               <option value="quarterly">Quarterly</option>
+              <option value="cron">Custom (cron)</option>
             </select>
 
             <select
@@ -292,8 +304,17 @@ const ExportScheduleManager: React.FC<ExportScheduleManagerProps> = ({ className
                   </Badge>
                   <Badge className={getFrequencyBadgeColor(schedule.frequency)}>
                     <Clock className="h-3 w-3 mr-1" />
-                    {schedule.frequency}
+                    {schedule.frequency === 'cron' ? (
+                      <span className="font-mono">{schedule.scheduleConfig.cronExpression}</span>
+                    ) : (
+                      schedule.frequency
+                    )}
                   </Badge>
+                  {schedule.scheduleConfig.timezone && (
+                    <Badge variant="outline">
+                      {schedule.scheduleConfig.timezone}
+                    </Badge>
+                  )}
                   <Badge variant="outline">
                     {schedule.format.toUpperCase()}
                   </Badge>
@@ -345,7 +366,7 @@ const ExportScheduleManager: React.FC<ExportScheduleManagerProps> = ({ className
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => {/* Handle edit */}}
+                  onClick={() => setEditingSchedule(schedule)}
                   title="Edit Schedule"
                 >
                   <Edit className="h-4 w-4" />
@@ -416,6 +437,13 @@ const ExportScheduleManager: React.FC<ExportScheduleManagerProps> = ({ className
           </Button>
         </Card>
       )}
+
+      <ExportScheduleDialog
+        isOpen={showCreateDialog || editingSchedule !== null}
+        schedule={editingSchedule}
+        onClose={closeScheduleDialog}
+        onSaved={handleScheduleSaved}
+      />
     </div>
   );
 };
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bookmark, Link2, Pin, PinOff, Trash2 } from 'lucide-react';
+import { useAuthStore } from '@/app/store/authStore';
+import {
+  useSavedViewsStore,
+  savedViewsSelectors,
+  getSavedViewUrl,
+  toSavedViewQuery,
+  type SavedViewList,
+} from '@/app/store/savedViewsStore';
+import Button from '@/components/ui/Button';
+
+interface SavedViewsMenuProps {
+  list: SavedViewList;
+  // The list's current query string, as kept in the URL
+  queryString: string;
+  className?: string;
+}
+
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ list, queryString, className = '' }) => {
+  const navigate = useNavigate();
+  const userId = useAuthStore((state) => state.user?.id);
+  const views = useSavedViewsStore(savedViewsSelectors.forUser(userId));
+  const { saveView, deleteView, togglePinned } = useSavedViewsStore();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const listViews = views.filter(view => view.list === list);
+  const currentQuery = toSavedViewQuery(queryString);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId || !name.trim()) return;
+    saveView(userId, { list, name: name.trim(), query: queryString });
+    setName('');
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <Button variant="outline" size="sm" onClick={() => setOpen(!open)} icon={<Bookmark className="h-4 w-4" />}>
+        Views
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-72 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-20 p-3 space-y-3">
+          {userId ? (
+            <form onSubmit={handleSave} className="flex gap-2">
+              <input
+                type="text"
+                value={name}
+                placeholder="Name this view"
+                onChange={(e) => setName(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+              />
+              <Button type="submit" variant="primary" size="sm" disabled={!name.trim()}>
+                Save
+              </Button>
+            </form>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Sign in to save views.</p>
+          )}
+
+          {listViews.length > 0 ? (
+            <ul className="space-y-1 max-h-64 overflow-y-auto">
+              {listViews.map(view => (
+                <li key={view.id} className="flex items-center gap-1">
+                  <button
+                    onClick={() => {
+                      navigate(getSavedViewUrl(view));
+                      setOpen(false);
+                    }}
+                    className={`flex-1 min-w-0 truncate text-left px-2 py-1 text-sm rounded hover:bg-gray-100 dark:hover:bg-gray-700 ${
+                      view.query === currentQuery ? 'text-blue-600 dark:text-blue-400 font-medium' : 'text-gray-700 dark:text-gray-300'
+                    }`}
+                    title={view.query || 'No filters'}
+                  >
+                    {view.name}
+                  </button>
+                  <button
+                    onClick={() => userId && togglePinned(userId, view.id)}
+                    className="p-1 text-gray-400 hover:text-blue-500"
+                    title={view.pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+                  >
+                    {view.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                  </button>
+                  <button
+                    onClick={() => userId && deleteView(userId, view.id)}
+                    className="p-1 text-gray-400 hover:text-red-500"
+                    title="Delete view"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No saved views yet.</p>
+          )}
+
+          <button
+            onClick={handleCopyLink}
+            className="flex items-center gap-2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <Link2 className="h-4 w-4" />
+            {copied ? 'Link copied' : 'Copy link to this view'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewsMenu;
@@ -0,0 +1,243 @@
+/**
+ * Bulk actions bar and results for the games table
+ * Shows batch progress, per-game failures and undo for recent operations
+ */
+
+import React, { useState } from 'react'
+import { AlertCircle, CheckCircle, RotateCcw, X } from 'lucide-react'
+import {
+  BULK_OPERATIONS,
+  canUndoBulkOperation,
+  summarizeBulkOperation,
+  type BulkOperationRecord,
+  type BulkRunProgress,
+  type GameReferenceData,
+} from '../services'
+import type { BulkOperationType } from '../types'
+import Button from '@/components/ui/Button'
+import { Card, CardContent } from '@/components/ui/Card'
+
+interface BulkOperationPanelProps {
+  selectedCount: number
+  reference: GameReferenceData
+  isRunning: boolean
+  progress: BulkRunProgress | null
+  history: BulkOperationRecord[]
+  onRun: (operation: BulkOperationType, data?: Record<string, number>) => void
+  onUndo: (recordId: string) => void
+  onCancel: () => void
+  onClearSelection: () => void
+}
+
+const QUICK_OPERATIONS: BulkOperationType[] = ['activate', 'deactivate', 'hideLobby', 'showLobby']
+const MORE_OPERATIONS: BulkOperationType[] = [
+  'toggleMobile',
+  'toggleDesktop',
+  'updateProvider',
+  'updateGameType',
+  'updateVolatility',
+  'updateTheme',
+  'updateOrder',
+  'delete',
+]
+const MAX_LISTED_FAILURES = 20
+const MAX_HISTORY = 5
+
+const selectClassName = 'px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white'
+
+const BulkOperationPanel: React.FC<BulkOperationPanelProps> = ({
+  selectedCount,
+  reference,
+  isRunning,
+  progress,
+  history,
+  onRun,
+  onUndo,
+  onCancel,
+  onClearSelection,
+}) => {
+  const [moreOperation, setMoreOperation] = useState<BulkOperationType | ''>('')
+  const [value, setValue] = useState('')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const dataKey = moreOperation ? BULK_OPERATIONS[moreOperation].dataKey : undefined
+
+  const valueOptions = (() => {
+    switch (moreOperation) {
+      case 'updateProvider':
+        return reference.providers.map(p => ({ id: p.providerId, name: p.providerName }))
+      case 'updateGameType':
+        return reference.gameTypes.map(t => ({ id: t.gameTypeId, name: t.gameTypeName }))
+      case 'updateVolatility':
+        return reference.volatilities.map(v => ({ id: v.volatilityID, name: v.volatilityName }))
+      case 'updateTheme':
+        return reference.themes.map(t => ({ id: t.themeID, name: t.themeName }))
+      default:
+        return null
+    }
+  })()
+
+  const handleApplyMore = () => {
+    if (!moreOperation) return
+    if (moreOperation === 'delete' &&
+      !confirm(`Delete ${selectedCount} game(s)? Deleted games cannot be restored with undo.`)) {
+      return
+    }
+    onRun(moreOperation, dataKey ? { [dataKey]: Number(value) } : undefined)
+    setMoreOperation('')
+    setValue('')
+  }
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0
+  const canApplyMore = moreOperation !== '' && (!dataKey || (value !== '' && Number.isFinite(Number(value))))
+
+  return (
+    <>
+      {(selectedCount > 0 || isRunning) && (
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="text-sm text-gray-600">
+                {selectedCount} game(s) selected
+              </span>
+              <div className="flex flex-wrap items-center gap-2">
+                {QUICK_OPERATIONS.map(operation => (
+                  <Button
+                    key={operation}
+                    variant="outline"
+                    size="sm"
+                    disabled={isRunning || selectedCount === 0}
+                    onClick={() => onRun(operation)}
+                  >
+                    {BULK_OPERATIONS[operation].label}
+                  </Button>
+                ))}
+                <select
+                  value={moreOperation}
+                  disabled={isRunning}
+                  onChange={(e) => {
+                    setMoreOperation(e.target.value as BulkOperationType | '')
+                    setValue('')
+                  }}
+                  className={selectClassName}
+                >
+                  <option value="">More actions…</option>
+                  {MORE_OPERATIONS.map(operation => (
+                    <option key={operation} value={operation}>{BULK_OPERATIONS[operation].label}</option>
+                  ))}
+                </select>
+                {dataKey && (valueOptions ? (
+                  <select value={value} onChange={(e) => setValue(e.target.value)} className={selectClassName}>
+                    <option value="">Choose…</option>
+                    {valueOptions.map(option => (
+                      <option key={option.id} value={option.id}>{option.name}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="number"
+                    min={0}
+                    value={value}
+                    placeholder="Order"
+                    onChange={(e) => setValue(e.target.value)}
+                    className={`${selectClassName} w-24`}
+                  />
+                ))}
+                {moreOperation && (
+                  <Button
+                    variant={moreOperation === 'delete' ? 'destructive' : 'primary'}
+                    size="sm"
+                    disabled={isRunning || selectedCount === 0 || !canApplyMore}
+                    onClick={handleApplyMore}
+                  >
+                    Apply
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" disabled={isRunning} onClick={onClearSelection}>
+                  Clear Selection
+                </Button>
+              </div>
+            </div>
+
+            {isRunning && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+                  <span>
+                    {progress
+                      ? `${progress.processed} of ${progress.total} processed · ${progress.failed} failed`
+                      : 'Starting…'}
+                  </span>
+                  <button onClick={onCancel} className="text-red-600 hover:underline">Cancel</button>
+                </div>
+                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                  <div className="h-2 rounded-full bg-blue-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {history.length > 0 && (
+        <Card>
+          <CardContent className="p-4 space-y-2">
+            {history.slice(0, MAX_HISTORY).map(record => {
+              const failures = record.outcomes.filter(outcome => !outcome.success)
+              const expanded = expandedId === record.id
+              return (
+                <div key={record.id} className="text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center space-x-2">
+                      {failures.length === 0
+                        ? <CheckCircle className="h-4 w-4 text-green-500" />
+                        : <AlertCircle className="h-4 w-4 text-amber-500" />}
+                      <span className="text-gray-900 dark:text-white">{summarizeBulkOperation(record)}</span>
+                      <span className="text-xs text-gray-500">{new Date(record.completedAt).toLocaleTimeString()}</span>
+                      {record.undoneBy && <span className="text-xs text-gray-500">(undone)</span>}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {failures.length > 0 && (
+                        <button
+                          onClick={() => setExpandedId(expanded ? null : record.id)}
+                          className="text-xs text-blue-600 hover:underline"
+                        >
+                          {expanded ? 'Hide failures' : 'Show failures'}
+                        </button>
+                      )}
+                      {canUndoBulkOperation(record) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isRunning}
+                          onClick={() => onUndo(record.id)}
+                          icon={<RotateCcw className="h-3.5 w-3.5" />}
+                        >
+                          Undo
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {expanded && (
+                    <ul className="mt-2 ml-6 space-y-1">
+                      {failures.slice(0, MAX_LISTED_FAILURES).map(outcome => (
+                        <li key={outcome.gameId} className="flex items-start space-x-1 text-red-600 dark:text-red-400">
+                          <X className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+                          <span>{outcome.gameName}: {outcome.error}</span>
+                        </li>
+                      ))}
+                      {failures.length > MAX_LISTED_FAILURES && (
+                        <li className="text-gray-500">and {failures.length - MAX_LISTED_FAILURES} more</li>
+                      )}
+                    </ul>
+                  )}
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </>
+  )
+}
+
+export default BulkOperationPanel
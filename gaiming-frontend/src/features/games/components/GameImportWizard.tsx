@@ -0,0 +1,414 @@
+/**
+ * Game import wizard
+ * Parses the file in the browser, maps its columns to game fields and shows
+ * what will be created or updated before anything is uploaded
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { X, Upload, AlertCircle, AlertTriangle, CheckCircle, ArrowRight } from 'lucide-react'
+import { parseImportFile, type ParsedTable } from '@/services/import/tabularParser'
+import { gameService, GAME_IMPORT_FIELDS, autoMapColumns, buildGameImportPlan } from '../services'
+import type { GameReferenceData } from '../services'
+import type { Game, GameImportAction, GameImportColumnMapping, GameImportField, ImportResult } from '../types'
+import Button from '@/components/ui/Button'
+import Badge from '@/components/ui/Badge'
+import { Card } from '@/components/ui/Card'
+
+interface GameImportWizardProps {
+  isOpen: boolean
+  reference: GameReferenceData
+  onClose: () => void
+  onImported: (result: ImportResult) => void
+}
+
+type WizardStep = 'upload' | 'mapping' | 'review' | 'uploading' | 'done'
+
+const CATALOG_PAGE_SIZE = 200
+// Keeps the review table responsive for large files; counts still cover every row
+const MAX_PREVIEW_ROWS = 200
+
+const ACTION_BADGES: Record<GameImportAction, { label: string; variant: 'success' | 'default' | 'secondary' | 'error' }> = {
+  create: { label: 'Create', variant: 'success' },
+  update: { label: 'Update', variant: 'default' },
+  skip: { label: 'Skip', variant: 'secondary' },
+  invalid: { label: 'Invalid', variant: 'error' },
+}
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500'
+
+const loadCatalog = async (): Promise<Game[]> => {
+  const games: Game[] = []
+  for (let page = 1; ; page++) {
+    const response = await gameService.getGames({ page, pageSize: CATALOG_PAGE_SIZE })
+    games.push(...response.items)
+    if (page >= response.totalPages || response.items.length === 0) return games
+  }
+}
+
+const GameImportWizard: React.FC<GameImportWizardProps> = ({ isOpen, reference, onClose, onImported }) => {
+  const [step, setStep] = useState<WizardStep>('upload')
+  const [fileName, setFileName] = useState('')
+  const [table, setTable] = useState<ParsedTable | null>(null)
+  const [mapping, setMapping] = useState<GameImportColumnMapping>({})
+  const [updateExisting, setUpdateExisting] = useState(true)
+  const [catalog, setCatalog] = useState<Game[] | null>(null)
+  const [actionFilter, setActionFilter] = useState<GameImportAction | 'all'>('all')
+  const [uploadProgress, setUploadProgress] = useState(0)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [parsing, setParsing] = useState(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setStep('upload')
+    setFileName('')
+    setTable(null)
+    setMapping({})
+    setResult(null)
+    setError(null)
+    setActionFilter('all')
+    setCatalog(null)
+
+    let cancelled = false
+    loadCatalog()
+      .then(games => !cancelled && setCatalog(games))
+      .catch(() => !cancelled && setError('Failed to load the existing games, so duplicates cannot be checked. Close the wizard and try again.'))
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen])
+
+  const plan = useMemo(() => {
+    if (!table || !catalog || step === 'upload' || step === 'mapping') return null
+    return buildGameImportPlan(table.records, mapping, reference, catalog, { updateExisting })
+  }, [table, catalog, mapping, reference, updateExisting, step])
+
+  const counts = useMemo(() => {
+    const totals: Record<GameImportAction, number> = { create: 0, update: 0, skip: 0, invalid: 0 }
+    plan?.rows.forEach(row => totals[row.action]++)
+    return totals
+  }, [plan])
+
+  const missingRequired = GAME_IMPORT_FIELDS.filter(definition => definition.required && !mapping[definition.field])
+
+  if (!isOpen) return null
+
+  const handleFile = async (file: File) => {
+    setParsing(true)
+    setError(null)
+    try {
+      const parsed = await parseImportFile(file)
+      if (parsed.records.length === 0) {
+        throw new Error('The file does not contain any rows')
+      }
+      setFileName(file.name)
+      setTable(parsed)
+      setMapping(autoMapColumns(parsed.headers))
+      setStep('mapping')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file')
+    } finally {
+      setParsing(false)
+    }
+  }
+
+  const handleMappingChange = (field: GameImportField, header: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (header) {
+        next[field] = header
+      } else {
+        delete next[field]
+      }
+      return next
+    })
+  }
+
+  const handleImport = async () => {
+    if (!plan) return
+    setStep('uploading')
+    setUploadProgress(0)
+    setError(null)
+    try {
+      const importResult = await gameService.importGames(
+        { creates: plan.creates, updates: plan.updates },
+        setUploadProgress
+      )
+      setResult(importResult)
+      setStep('done')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed')
+      setStep('review')
+    }
+  }
+
+  const handleClose = () => {
+    if (step === 'uploading') return
+    if (result) onImported(result)
+    onClose()
+  }
+
+  const visibleRows = (plan?.rows ?? []).filter(row => actionFilter === 'all' || row.action === actionFilter)
+  const sampleRecord = table?.records[0]?.values
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-4xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-5">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Import Games</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {fileName ? `${fileName} · ${table?.records.length.toLocaleString()} rows` : 'CSV, Excel (.xlsx) or JSON'}
+              </p>
+            </div>
+            {step !== 'uploading' && (
+              <Button variant="ghost" size="sm" onClick={handleClose} className="text-gray-400 hover:text-gray-600">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+
+          {error && (
+            <div className="flex items-start space-x-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-400">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <div
+              className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-10 text-center"
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault()
+                const file = e.dataTransfer.files[0]
+                if (file) handleFile(file)
+              }}
+            >
+              <Upload className="h-10 w-10 mx-auto text-gray-400 mb-3" />
+              <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+                Drop a file here or choose one. Nothing is uploaded until you confirm the import.
+              </p>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,.tsv,.txt,.xlsx,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleFile(file)
+                  e.target.value = ''
+                }}
+              />
+              <Button variant="primary" loading={parsing} onClick={() => fileInput.current?.click()}>
+                Choose File
+              </Button>
+            </div>
+          )}
+
+          {step === 'mapping' && table && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Match the columns in your file to game fields. Provider, type, volatility and theme accept either a name or an ID.
+                Rows with a Game ID, or with the same name and provider as an existing game, update that game.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {GAME_IMPORT_FIELDS.map(definition => {
+                  const header = mapping[definition.field]
+                  const sample = header && sampleRecord ? sampleRecord[header] : undefined
+                  return (
+                    <div key={definition.field}>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        {definition.label}
+                        {definition.required && <span className="text-red-500"> *</span>}
+                      </label>
+                      <select
+                        value={header ?? ''}
+                        onChange={(e) => handleMappingChange(definition.field, e.target.value)}
+                        className={selectClassName}
+                      >
+                        <option value="">Not mapped</option>
+                        {table.headers.map(column => (
+                          <option key={column} value={column}>{column}</option>
+                        ))}
+                      </select>
+                      {sample !== undefined && sample !== null && (
+                        <p className="text-xs text-gray-500 mt-1 truncate">e.g. {String(sample)}</p>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={updateExisting}
+                  onChange={(e) => setUpdateExisting(e.target.checked)}
+                />
+                <span>Update games that already exist</span>
+              </label>
+              {missingRequired.length > 0 && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">
+                  Not mapped: {missingRequired.map(definition => definition.label).join(', ')}. New games without these fields will be rejected.
+                </p>
+              )}
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setStep('upload')}>Back</Button>
+                <Button
+                  variant="primary"
+                  disabled={!catalog || (!mapping.gameName && !mapping.gameId)}
+                  loading={!catalog && !error}
+                  onClick={() => setStep('review')}
+                  icon={<ArrowRight className="h-4 w-4" />}
+                  iconPosition="right"
+                >
+                  Review
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'review' && plan && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {(['all', 'create', 'update', 'skip', 'invalid'] as const).map(action => (
+                  <button
+                    key={action}
+                    onClick={() => setActionFilter(action)}
+                    className={`px-3 py-1 rounded-full text-sm border ${
+                      actionFilter === action
+                        ? 'bg-blue-600 text-white border-blue-600'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    {action === 'all' ? `All (${plan.rows.length})` : `${ACTION_BADGES[action].label} (${counts[action]})`}
+                  </button>
+                ))}
+              </div>
+
+              <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-800 text-left text-gray-600 dark:text-gray-300">
+                    <tr>
+                      <th className="px-3 py-2 w-16">Row</th>
+                      <th className="px-3 py-2 w-24">Action</th>
+                      <th className="px-3 py-2">Game</th>
+                      <th className="px-3 py-2">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {visibleRows.slice(0, MAX_PREVIEW_ROWS).map(row => (
+                      <tr key={row.rowNumber} className="align-top">
+                        <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-3 py-2">
+                          <Badge variant={ACTION_BADGES[row.action].variant} size="sm">
+                            {ACTION_BADGES[row.action].label}
+                          </Badge>
+                        </td>
+                        <td className="px-3 py-2 text-gray-900 dark:text-white">
+                          {row.values.gameName ?? row.existingGame?.gameName ?? '—'}
+                          {row.existingGame && (
+                            <span className="block text-xs text-gray-500">ID {row.existingGame.gameId}</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 space-y-1">
+                          {row.validation.errors.map((issue, index) => (
+                            <div key={`e${index}`} className="flex items-start space-x-1 text-red-600 dark:text-red-400">
+                              <AlertCircle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+                              <span>{issue.message}</span>
+                            </div>
+                          ))}
+                          {row.validation.warnings.map((issue, index) => (
+                            <div key={`w${index}`} className="flex items-start space-x-1 text-amber-600 dark:text-amber-400">
+                              <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+                              <span title={issue.suggestion}>{issue.message}</span>
+                            </div>
+                          ))}
+                          {row.changes.map(change => (
+                            <div key={change.field} className="text-gray-700 dark:text-gray-300">
+                              <span className="font-medium">{change.label}:</span>{' '}
+                              <span className="line-through text-gray-400">{change.before || '—'}</span>
+                              {' → '}
+                              <span>{change.after || '—'}</span>
+                            </div>
+                          ))}
+                          {row.action === 'skip' && row.changes.length === 0 && (
+                            <span className="text-gray-500">No changes</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {visibleRows.length > MAX_PREVIEW_ROWS && (
+                  <p className="px-3 py-2 text-xs text-gray-500 bg-gray-50 dark:bg-gray-800">
+                    Showing the first {MAX_PREVIEW_ROWS} of {visibleRows.length.toLocaleString()} rows
+                  </p>
+                )}
+              </div>
+
+              {counts.invalid > 0 && (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  {counts.invalid} invalid row(s) will not be imported. Fix them in the file and upload it again to include them.
+                </p>
+              )}
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setStep('mapping')}>Back</Button>
+                <Button
+                  variant="primary"
+                  disabled={plan.creates.length + plan.updates.length === 0}
+                  onClick={handleImport}
+                >
+                  Create {plan.creates.length}, update {plan.updates.length}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'uploading' && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+                <span>{uploadProgress < 100 ? 'Uploading' : 'Processing on the server'}</span>
+                <span>{uploadProgress}%</span>
+              </div>
+              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                <div
+                  className="h-2 rounded-full bg-blue-500 transition-all duration-300"
+                  style={{ width: `${uploadProgress}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && result && (
+            <div className="space-y-3">
+              <div className="flex items-center space-x-2">
+                {result.success
+                  ? <CheckCircle className="h-5 w-5 text-green-500" />
+                  : <AlertCircle className="h-5 w-5 text-red-500" />}
+                <span className="text-gray-900 dark:text-white">
+                  {result.created} created, {result.updated} updated
+                  {result.duplicates > 0 && `, ${result.duplicates} duplicates skipped by the server`}
+                </span>
+              </div>
+              {[...result.errors.map(message => ({ message, isError: true })), ...result.warnings.map(message => ({ message, isError: false }))]
+                .map(({ message, isError }, index) => (
+                  <p key={index} className={`text-sm ${isError ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                    {message}
+                  </p>
+                ))}
+              <div className="flex justify-end">
+                <Button variant="primary" onClick={handleClose}>Done</Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  )
+}
+
+export default GameImportWizard
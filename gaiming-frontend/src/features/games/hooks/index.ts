@@ -1 +1,2 @@
 export * from './useGames';
+export * from './useBulkGameOperations';
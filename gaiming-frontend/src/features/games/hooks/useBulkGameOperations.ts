@@ -0,0 +1,79 @@
+import { useCallback, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  runBulkOperation,
+  undoBulkOperation,
+  type BulkOperationRecord,
+  type BulkRunProgress,
+} from '../services';
+import type { BulkGameOperation, Game } from '../types';
+import { gameKeys } from './useGames';
+
+interface UseBulkGameOperationsOptions {
+  batchSize?: number;
+  onComplete?: (record: BulkOperationRecord) => void;
+}
+
+// Hook for running bulk game operations with progress, cancellation and undo.
+// History lives for the session only; newest records come first.
+export const useBulkGameOperations = (options: UseBulkGameOperationsOptions = {}) => {
+  const { batchSize, onComplete } = options;
+  const queryClient = useQueryClient();
+  const [history, setHistory] = useState<BulkOperationRecord[]>([]);
+  const [progress, setProgress] = useState<BulkRunProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const execute = useCallback(async (
+    run: (signal: AbortSignal) => Promise<BulkOperationRecord>
+  ): Promise<BulkOperationRecord> => {
+    if (controllerRef.current) {
+      throw new Error('Another bulk operation is still running');
+    }
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setProgress(null);
+
+    try {
+      const record = await run(controller.signal);
+      setHistory(prev => [
+        record,
+        ...prev.map(entry => (entry.id === record.undoOf ? { ...entry, undoneBy: record.id } : entry)),
+      ]);
+      queryClient.invalidateQueries({ queryKey: gameKeys.all });
+      onComplete?.(record);
+      return record;
+    } finally {
+      controllerRef.current = null;
+      setIsRunning(false);
+    }
+  }, [queryClient, onComplete]);
+
+  const run = useCallback((operation: BulkGameOperation, games: Game[]) =>
+    execute(signal => runBulkOperation(operation, games, { batchSize, signal, onProgress: setProgress })),
+  [execute, batchSize]);
+
+  const undo = useCallback((recordId: string) => {
+    const record = history.find(entry => entry.id === recordId);
+    if (!record) {
+      return Promise.reject(new Error('Bulk operation not found'));
+    }
+    return execute(signal => undoBulkOperation(record, { batchSize, signal, onProgress: setProgress }));
+  }, [execute, history, batchSize]);
+
+  // Stops before the next batch; requests already sent still complete
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return {
+    history,
+    lastRecord: history[0] ?? null,
+    progress,
+    isRunning,
+    run,
+    undo,
+    cancel,
+  };
+};
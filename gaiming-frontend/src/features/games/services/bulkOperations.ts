@@ -0,0 +1,319 @@
+// Bulk game operations
+// Turns a BulkGameOperation into per-game changes, sends them in batches and
+// records each game's prior values so the whole batch can be undone.
+
+import { gameService } from './gameService';
+import type {
+  BulkGameField,
+  BulkGameOperation,
+  BulkGameResult,
+  BulkGameUpdate,
+  BulkOperationType,
+  Game,
+  GamePatch,
+} from '../types';
+
+export interface BulkOperationDefinition {
+  label: string;
+  // Past-tense verb used in result summaries
+  verb: string;
+  // Key in BulkGameOperation.data holding the new value
+  dataKey?: BulkGameField;
+  undoable: boolean;
+}
+
+export interface BulkGameOutcome {
+  gameId: number;
+  gameName: string;
+  success: boolean;
+  // The game already had the requested values, so nothing was sent
+  unchanged?: boolean;
+  error?: string;
+  before?: GamePatch;
+  after?: GamePatch;
+}
+
+export interface BulkOperationRecord {
+  id: string;
+  kind: 'apply' | 'undo';
+  operation: BulkGameOperation;
+  // For undo records, the record that was rolled back
+  undoOf?: string;
+  // Set on an applied record once it has been rolled back
+  undoneBy?: string;
+  startedAt: string;
+  completedAt: string;
+  cancelled: boolean;
+  outcomes: BulkGameOutcome[];
+}
+
+export interface BulkRunProgress {
+  processed: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface BulkRunOptions {
+  batchSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: BulkRunProgress) => void;
+}
+
+export const BULK_OPERATIONS: Record<BulkOperationType, BulkOperationDefinition> = {
+  activate: { label: 'Activate', verb: 'Activated', undoable: true },
+  deactivate: { label: 'Deactivate', verb: 'Deactivated', undoable: true },
+  hideLobby: { label: 'Hide in lobby', verb: 'Hid', undoable: true },
+  showLobby: { label: 'Show in lobby', verb: 'Showed', undoable: true },
+  toggleMobile: { label: 'Toggle mobile', verb: 'Toggled mobile for', undoable: true },
+  toggleDesktop: { label: 'Toggle desktop', verb: 'Toggled desktop for', undoable: true },
+  updateProvider: { label: 'Change provider', verb: 'Changed provider of', dataKey: 'providerId', undoable: true },
+  updateGameType: { label: 'Change game type', verb: 'Changed game type of', dataKey: 'gameTypeId', undoable: true },
+  updateVolatility: { label: 'Change volatility', verb: 'Changed volatility of', dataKey: 'volatilityId', undoable: true },
+  updateTheme: { label: 'Change theme', verb: 'Changed theme of', dataKey: 'themeId', undoable: true },
+  updateOrder: { label: 'Set display order', verb: 'Reordered', dataKey: 'gameOrder', undoable: true },
+  // The server has no restore endpoint, so deleted games cannot be brought back
+  delete: { label: 'Delete', verb: 'Deleted', undoable: false },
+};
+
+const DEFAULT_BATCH_SIZE = 50;
+
+let recordCounter = 0;
+const nextRecordId = () => `bulk_${Date.now()}_${++recordCounter}`;
+
+/**
+ * Changes an operation makes to one game, or null for delete
+ */
+export function getBulkPatch(game: Game, operation: BulkGameOperation): GamePatch | null {
+  const definition = BULK_OPERATIONS[operation.operation];
+  if (definition.dataKey) {
+    const value = operation.data?.[definition.dataKey];
+    if (typeof value !== 'number') {
+      throw new Error(`${definition.label} requires a numeric data.${definition.dataKey}`);
+    }
+    return { [definition.dataKey]: value };
+  }
+
+  switch (operation.operation) {
+    case 'activate':
+      return { isActive: true };
+    case 'deactivate':
+      return { isActive: false };
+    case 'hideLobby':
+      return { hideInLobby: true };
+    case 'showLobby':
+      return { hideInLobby: false };
+    case 'toggleMobile':
+      return { isMobile: !game.isMobile };
+    case 'toggleDesktop':
+      return { isDesktop: !game.isDesktop };
+    default:
+      return null;
+  }
+}
+
+function pickBefore(game: Game, patch: GamePatch): GamePatch {
+  const before: Record<string, unknown> = {};
+  (Object.keys(patch) as BulkGameField[]).forEach(field => {
+    // hideInLobby is optional on Game; absent means shown
+    before[field] = game[field] ?? (field === 'hideInLobby' ? false : null);
+  });
+  return before as GamePatch;
+}
+
+function isNoOp(before: GamePatch, after: GamePatch): boolean {
+  return (Object.keys(after) as BulkGameField[]).every(field => before[field] === after[field]);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Send pending outcomes batch by batch, filling in success or failure for each
+ * game. Stops between batches when the signal is aborted.
+ */
+async function runBatches(
+  pending: BulkGameOutcome[],
+  send: (batch: BulkGameOutcome[]) => Promise<BulkGameResult[]>,
+  alreadyDone: BulkGameOutcome[],
+  options: BulkRunOptions
+): Promise<boolean> {
+  const total = pending.length + alreadyDone.length;
+  const progress: BulkRunProgress = {
+    processed: alreadyDone.length,
+    total,
+    succeeded: alreadyDone.filter(outcome => outcome.success).length,
+    failed: alreadyDone.filter(outcome => !outcome.success).length,
+  };
+  options.onProgress?.({ ...progress });
+
+  let cancelled = false;
+  for (const batch of chunk(pending, options.batchSize ?? DEFAULT_BATCH_SIZE)) {
+    if (options.signal?.aborted) {
+      cancelled = true;
+      batch.forEach(outcome => {
+        outcome.success = false;
+        outcome.error = 'Not attempted: the operation was cancelled';
+      });
+      continue;
+    }
+
+    try {
+      const results = new Map((await send(batch)).map(result => [result.gameId, result]));
+      batch.forEach(outcome => {
+        const result = results.get(outcome.gameId);
+        outcome.success = result?.success ?? false;
+        outcome.error = result ? result.error : 'The server did not report a result for this game';
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Request failed';
+      batch.forEach(outcome => {
+        outcome.success = false;
+        outcome.error = message;
+      });
+    }
+
+    progress.processed += batch.length;
+    progress.succeeded += batch.filter(outcome => outcome.success).length;
+    progress.failed += batch.filter(outcome => !outcome.success).length;
+    options.onProgress?.({ ...progress });
+  }
+  return cancelled;
+}
+
+function toUpdates(batch: BulkGameOutcome[], values: 'before' | 'after'): BulkGameUpdate[] {
+  return batch.map(outcome => ({ gameId: outcome.gameId, changes: outcome[values]! }));
+}
+
+/**
+ * Apply an operation to the given games. `games` supplies the current state
+ * of every game in operation.gameIds; it is what undo restores.
+ */
+export async function runBulkOperation(
+  operation: BulkGameOperation,
+  games: Game[],
+  options: BulkRunOptions = {}
+): Promise<BulkOperationRecord> {
+  const startedAt = new Date().toISOString();
+  const gamesById = new Map(games.map(game => [game.gameId, game]));
+  const outcomes: BulkGameOutcome[] = [];
+  const done: BulkGameOutcome[] = [];
+  const pending: BulkGameOutcome[] = [];
+
+  operation.gameIds.forEach(gameId => {
+    const game = gamesById.get(gameId);
+    if (!game) {
+      const outcome = { gameId, gameName: `Game ${gameId}`, success: false, error: 'Game details are not loaded' };
+      outcomes.push(outcome);
+      done.push(outcome);
+      return;
+    }
+
+    const after = getBulkPatch(game, operation);
+    const outcome: BulkGameOutcome = { gameId, gameName: game.gameName, success: false };
+    if (after) {
+      outcome.before = pickBefore(game, after);
+      outcome.after = after;
+      if (isNoOp(outcome.before, after)) {
+        outcome.success = true;
+        outcome.unchanged = true;
+        done.push(outcome);
+      } else {
+        pending.push(outcome);
+      }
+    } else {
+      pending.push(outcome);
+    }
+    outcomes.push(outcome);
+  });
+
+  const send = operation.operation === 'delete'
+    ? (batch: BulkGameOutcome[]) => gameService.bulkGameOperation({
+        ...operation,
+        gameIds: batch.map(outcome => outcome.gameId),
+      })
+    : (batch: BulkGameOutcome[]) => gameService.bulkUpdateGames(toUpdates(batch, 'after'));
+
+  const cancelled = await runBatches(pending, send, done, options);
+
+  return {
+    id: nextRecordId(),
+    kind: 'apply',
+    operation,
+    startedAt,
+    completedAt: new Date().toISOString(),
+    cancelled,
+    outcomes,
+  };
+}
+
+/**
+ * Whether a record can still be rolled back
+ */
+export function canUndoBulkOperation(record: BulkOperationRecord): boolean {
+  return record.kind === 'apply'
+    && !record.undoneBy
+    && BULK_OPERATIONS[record.operation.operation].undoable
+    && record.outcomes.some(outcome => outcome.success && !outcome.unchanged);
+}
+
+/**
+ * Restore the prior values of every game the record changed. Games that failed
+ * or were already in the requested state are left alone.
+ */
+export async function undoBulkOperation(
+  record: BulkOperationRecord,
+  options: BulkRunOptions = {}
+): Promise<BulkOperationRecord> {
+  if (!canUndoBulkOperation(record)) {
+    throw new Error('This bulk operation cannot be undone');
+  }
+
+  const startedAt = new Date().toISOString();
+  const outcomes: BulkGameOutcome[] = record.outcomes
+    .filter(outcome => outcome.success && !outcome.unchanged && outcome.before)
+    .map(outcome => ({
+      gameId: outcome.gameId,
+      gameName: outcome.gameName,
+      success: false,
+      before: outcome.after,
+      after: outcome.before,
+    }));
+
+  const cancelled = await runBatches(
+    outcomes,
+    batch => gameService.bulkUpdateGames(toUpdates(batch, 'after')),
+    [],
+    options
+  );
+
+  return {
+    id: nextRecordId(),
+    kind: 'undo',
+    operation: { ...record.operation, gameIds: outcomes.map(outcome => outcome.gameId) },
+    undoOf: record.id,
+    startedAt,
+    completedAt: new Date().toISOString(),
+    cancelled,
+    outcomes,
+  };
+}
+
+/**
+ * One-line description such as "Hid 240 of 250 games (10 failed)"
+ */
+export function summarizeBulkOperation(record: BulkOperationRecord): string {
+  const total = record.outcomes.length;
+  const succeeded = record.outcomes.filter(outcome => outcome.success).length;
+  const failed = total - succeeded;
+  const verb = record.kind === 'undo' ? 'Restored' : BULK_OPERATIONS[record.operation.operation].verb;
+  const parts = [`${verb} ${succeeded} of ${total} game${total === 1 ? '' : 's'}`];
+  if (failed > 0) parts.push(`${failed} failed`);
+  if (record.cancelled) parts.push('cancelled');
+  return parts.length > 1 ? `${parts[0]} (${parts.slice(1).join(', ')})` : parts[0]!;
+}
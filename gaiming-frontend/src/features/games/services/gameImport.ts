@@ -0,0 +1,444 @@
+// Game import planning
+// Maps parsed import records onto CreateGameForm fields, validates them and
+// matches them against the existing catalog, producing the creates and
+// updates that will be sent to the server.
+
+import type { ImportRecord } from '@/services/import/tabularParser';
+import type {
+  CreateGameForm,
+  Game,
+  GameFieldChange,
+  GameImportColumnMapping,
+  GameImportField,
+  GameImportPlan,
+  GameImportRow,
+  GameProvider,
+  GameType,
+  GameValidationError,
+  GameValidationResult,
+  GameValidationWarning,
+  Theme,
+  UpdateGameForm,
+  Volatility,
+} from '../types';
+
+type GameImportFieldKind = 'id' | 'text' | 'url' | 'reference' | 'amount' | 'percent' | 'integer' | 'boolean' | 'list';
+
+export interface GameImportFieldDefinition {
+  field: GameImportField;
+  label: string;
+  kind: GameImportFieldKind;
+  // Alternative column headers recognised by automatic mapping
+  aliases: string[];
+  // Must be present when the row creates a new game
+  required?: boolean;
+}
+
+export interface GameReferenceData {
+  providers: GameProvider[];
+  gameTypes: GameType[];
+  volatilities: Volatility[];
+  themes: Theme[];
+}
+
+export interface GameImportPlanOptions {
+  // When false, rows matching an existing game are skipped instead of updating it
+  updateExisting: boolean;
+}
+
+export const GAME_IMPORT_FIELDS: GameImportFieldDefinition[] = [
+  { field: 'gameId', label: 'Game ID', kind: 'id', aliases: ['id'] },
+  { field: 'gameName', label: 'Name', kind: 'text', aliases: ['game name', 'game', 'title'], required: true },
+  { field: 'providerId', label: 'Provider', kind: 'reference', aliases: ['provider name', 'provider.providerName'], required: true },
+  { field: 'gameTypeId', label: 'Type', kind: 'reference', aliases: ['game type', 'gameTypeName', 'gameType.gameTypeName'], required: true },
+  { field: 'volatilityId', label: 'Volatility', kind: 'reference', aliases: ['volatility.volatilityName'], required: true },
+  { field: 'themeId', label: 'Theme', kind: 'reference', aliases: ['theme.themeName'], required: true },
+  { field: 'minBetAmount', label: 'Min Bet', kind: 'amount', aliases: ['minimum bet'], required: true },
+  { field: 'maxBetAmount', label: 'Max Bet', kind: 'amount', aliases: ['maximum bet'], required: true },
+  { field: 'rtpPercentage', label: 'RTP (%)', kind: 'percent', aliases: ['rtp', 'return to player'], required: true },
+  { field: 'isMobile', label: 'Mobile', kind: 'boolean', aliases: [] },
+  { field: 'isDesktop', label: 'Desktop', kind: 'boolean', aliases: [] },
+  { field: 'description', label: 'Description', kind: 'text', aliases: [] },
+  { field: 'imageUrl', label: 'Image URL', kind: 'url', aliases: ['image', 'thumbnail'] },
+  { field: 'features', label: 'Features', kind: 'list', aliases: [] },
+  { field: 'tags', label: 'Tags', kind: 'list', aliases: [] },
+  { field: 'gameOrder', label: 'Order', kind: 'integer', aliases: ['sort order', 'display order'] },
+];
+
+// New games are available on both platforms unless the file says otherwise
+const CREATE_DEFAULTS: Partial<CreateGameForm> = { isMobile: true, isDesktop: true };
+
+const MAX_NAME_LENGTH = 200;
+const MIN_TYPICAL_RTP = 85;
+const MAX_TYPICAL_RTP = 99;
+// Amounts and percentages are compared to the cent so rounded exports re-import cleanly
+const NUMBER_TOLERANCE = 0.005;
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1']);
+const FALSE_VALUES = new Set(['false', 'no', 'n', '0']);
+
+interface ReferenceOption {
+  id: number;
+  name: string;
+}
+
+type Converted = { value: unknown } | { error: string; code: string };
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '')
+    || (Array.isArray(value) && value.length === 0);
+}
+
+function gameKey(name: string, providerId: number): string {
+  return `${name.trim().replace(/\s+/g, ' ').toLowerCase()}|${providerId}`;
+}
+
+/**
+ * Suggest a mapping by matching column headers to field names, labels and aliases
+ */
+export function autoMapColumns(headers: string[]): GameImportColumnMapping {
+  const mapping: GameImportColumnMapping = {};
+  const used = new Set<string>();
+
+  GAME_IMPORT_FIELDS.forEach(definition => {
+    const candidates = new Set([definition.field, definition.label, ...definition.aliases].map(normalize));
+    const header = headers.find(candidate => !used.has(candidate) && candidates.has(normalize(candidate)));
+    if (header) {
+      mapping[definition.field] = header;
+      used.add(header);
+    }
+  });
+  return mapping;
+}
+
+function referenceOptions(field: GameImportField, reference: GameReferenceData): ReferenceOption[] {
+  switch (field) {
+    case 'providerId':
+      return reference.providers.map(provider => ({ id: provider.providerId, name: provider.providerName }));
+    case 'gameTypeId':
+      return reference.gameTypes.map(type => ({ id: type.gameTypeId, name: type.gameTypeName }));
+    case 'volatilityId':
+      return reference.volatilities.map(volatility => ({ id: volatility.volatilityID, name: volatility.volatilityName }));
+    case 'themeId':
+      return reference.themes.map(theme => ({ id: theme.themeID, name: theme.themeName }));
+    default:
+      return [];
+  }
+}
+
+function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  // Accept formatted values such as "$1,250.00" or "96.5%"
+  const cleaned = value.trim().replace(/[\s$€£%,]/g, '');
+  if (!/^-?\d*\.?\d+(e[-+]?\d+)?$/i.test(cleaned)) return null;
+  return Number(cleaned);
+}
+
+function convertValue(definition: GameImportFieldDefinition, raw: unknown, reference: GameReferenceData): Converted {
+  const { kind, label } = definition;
+
+  switch (kind) {
+    case 'text':
+    case 'url':
+      return { value: String(raw).trim() };
+
+    case 'id':
+    case 'integer': {
+      const number = parseNumber(raw);
+      if (number === null || !Number.isInteger(number)) {
+        return { error: `${label} must be a whole number`, code: 'INVALID_NUMBER' };
+      }
+      return { value: number };
+    }
+
+    case 'amount':
+    case 'percent': {
+      const number = parseNumber(raw);
+      if (number === null) {
+        return { error: `${label} must be a number`, code: 'INVALID_NUMBER' };
+      }
+      return { value: number };
+    }
+
+    case 'boolean': {
+      if (typeof raw === 'boolean') return { value: raw };
+      const text = String(raw).trim().toLowerCase();
+      if (TRUE_VALUES.has(text)) return { value: true };
+      if (FALSE_VALUES.has(text)) return { value: false };
+      return { error: `${label} must be yes or no`, code: 'INVALID_BOOLEAN' };
+    }
+
+    case 'list': {
+      const items = Array.isArray(raw) ? raw.map(String) : String(raw).split(/[,;|]/);
+      return { value: [...new Set(items.map(item => item.trim()).filter(Boolean))] };
+    }
+
+    case 'reference': {
+      const options = referenceOptions(definition.field, reference);
+      const text = String(raw).trim();
+      const match = /^\d+$/.test(text)
+        ? options.find(option => option.id === Number(text))
+        : options.find(option => normalize(option.name) === normalize(text));
+      if (!match) {
+        return { error: `Unknown ${label.toLowerCase()} "${text}"`, code: 'UNKNOWN_REFERENCE' };
+      }
+      return { value: match.id };
+    }
+  }
+}
+
+/**
+ * Validate game values against the catalog rules. Pass `requireAll` when the
+ * values describe a new game, so missing required fields are reported.
+ */
+export function validateGameForm(values: Partial<CreateGameForm>, requireAll = true): GameValidationResult {
+  const errors: GameValidationError[] = [];
+  const warnings: GameValidationWarning[] = [];
+
+  if (requireAll) {
+    GAME_IMPORT_FIELDS.forEach(definition => {
+      if (definition.required && definition.field !== 'gameId' && isBlank(values[definition.field])) {
+        errors.push({ field: definition.field, message: `${definition.label} is required`, code: 'REQUIRED' });
+      }
+    });
+  }
+
+  if (values.gameName !== undefined && values.gameName.length > MAX_NAME_LENGTH) {
+    errors.push({ field: 'gameName', message: `Name must be at most ${MAX_NAME_LENGTH} characters`, code: 'TOO_LONG' });
+  }
+
+  const { minBetAmount, maxBetAmount, rtpPercentage } = values;
+  if (minBetAmount !== undefined && minBetAmount <= 0) {
+    errors.push({ field: 'minBetAmount', message: 'Min Bet must be greater than zero', code: 'OUT_OF_RANGE' });
+  }
+  if (maxBetAmount !== undefined && maxBetAmount <= 0) {
+    errors.push({ field: 'maxBetAmount', message: 'Max Bet must be greater than zero', code: 'OUT_OF_RANGE' });
+  }
+  if (minBetAmount !== undefined && maxBetAmount !== undefined && minBetAmount > maxBetAmount) {
+    errors.push({ field: 'maxBetAmount', message: 'Max Bet must not be lower than Min Bet', code: 'INVALID_RANGE' });
+  }
+
+  if (rtpPercentage !== undefined) {
+    if (rtpPercentage <= 0 || rtpPercentage > 100) {
+      errors.push({ field: 'rtpPercentage', message: 'RTP must be between 0 and 100', code: 'OUT_OF_RANGE' });
+    } else if (rtpPercentage < MIN_TYPICAL_RTP || rtpPercentage > MAX_TYPICAL_RTP) {
+      warnings.push({
+        field: 'rtpPercentage',
+        message: `RTP of ${rtpPercentage}% is outside the usual ${MIN_TYPICAL_RTP}-${MAX_TYPICAL_RTP}% range`,
+        suggestion: 'Check that the value is a percentage rather than a fraction',
+      });
+    }
+  }
+
+  if (values.isMobile === false && values.isDesktop === false) {
+    warnings.push({
+      field: 'isMobile',
+      message: 'Game is not available on mobile or desktop',
+      suggestion: 'Enable at least one platform so players can find the game',
+    });
+  }
+
+  if (values.imageUrl) {
+    try {
+      new URL(values.imageUrl);
+    } catch {
+      warnings.push({ field: 'imageUrl', message: `"${values.imageUrl}" is not an absolute URL`, suggestion: 'Use a full https:// address' });
+    }
+  }
+
+  if (values.gameOrder !== undefined && values.gameOrder < 0) {
+    errors.push({ field: 'gameOrder', message: 'Order must not be negative', code: 'OUT_OF_RANGE' });
+  }
+
+  return { isValid: errors.length === 0, errors, warnings };
+}
+
+function currentValues(game: Game): Partial<CreateGameForm> {
+  return {
+    gameName: game.gameName,
+    providerId: game.providerId,
+    gameTypeId: game.gameTypeId,
+    volatilityId: game.volatilityId,
+    themeId: game.themeId,
+    minBetAmount: game.minBetAmount,
+    maxBetAmount: game.maxBetAmount,
+    rtpPercentage: game.rtpPercentage,
+    isMobile: game.isMobile,
+    isDesktop: game.isDesktop,
+    description: game.description,
+    imageUrl: game.imageUrl,
+    features: game.features,
+    tags: game.tags,
+    gameOrder: game.gameOrder,
+  };
+}
+
+function isSameValue(before: unknown, after: unknown): boolean {
+  if (typeof before === 'number' && typeof after === 'number') {
+    return Math.abs(before - after) < NUMBER_TOLERANCE;
+  }
+  if (Array.isArray(before) || Array.isArray(after)) {
+    return [...((before as string[]) ?? [])].sort().join('\n') === [...((after as string[]) ?? [])].sort().join('\n');
+  }
+  if (isBlank(before) && isBlank(after)) return true;
+  return before === after;
+}
+
+/**
+ * Human-readable value for previews, resolving reference IDs to names
+ */
+export function formatImportValue(field: GameImportField, value: unknown, reference: GameReferenceData): string {
+  if (isBlank(value)) return '';
+  const definition = GAME_IMPORT_FIELDS.find(candidate => candidate.field === field);
+  switch (definition?.kind) {
+    case 'reference':
+      return referenceOptions(field, reference).find(option => option.id === value)?.name ?? String(value);
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'list':
+      return (value as string[]).join(', ');
+    case 'amount':
+      return (value as number).toFixed(2);
+    case 'percent':
+      return `${value}%`;
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Build the import plan: convert and validate each record, detect duplicates
+ * (same name and provider, within the file or against the catalog) and diff
+ * matched games so only changed fields are sent as updates.
+ */
+export function buildGameImportPlan(
+  records: ImportRecord[],
+  mapping: GameImportColumnMapping,
+  reference: GameReferenceData,
+  existingGames: Game[],
+  options: GameImportPlanOptions = { updateExisting: true }
+): GameImportPlan {
+  const gamesById = new Map(existingGames.map(game => [game.gameId, game]));
+  const gamesByKey = new Map(existingGames.map(game => [gameKey(game.gameName, game.providerId), game]));
+  const rowsByKey = new Map<string, number>();
+  const rowsById = new Map<number, number>();
+  const mapped = GAME_IMPORT_FIELDS.filter(definition => mapping[definition.field]);
+
+  const plan: GameImportPlan = { rows: [], creates: [], updates: [] };
+
+  records.forEach(record => {
+    const errors: GameValidationError[] = [];
+    const parsed: Partial<Record<GameImportField, unknown>> = {};
+
+    mapped.forEach(definition => {
+      const raw = record.values[mapping[definition.field]!];
+      if (isBlank(raw)) return;
+      const converted = convertValue(definition, raw, reference);
+      if ('error' in converted) {
+        errors.push({ field: definition.field, message: converted.error, code: converted.code });
+      } else {
+        parsed[definition.field] = converted.value;
+      }
+    });
+
+    const { gameId, ...values } = parsed as Partial<CreateGameForm> & { gameId?: number };
+    let existingGame: Game | undefined;
+
+    if (gameId !== undefined) {
+      existingGame = gamesById.get(gameId);
+      if (!existingGame) {
+        errors.push({ field: 'gameId', message: `Game ID ${gameId} does not exist`, code: 'NOT_FOUND' });
+      }
+      const firstRow = rowsById.get(gameId);
+      if (firstRow !== undefined) {
+        errors.push({ field: 'gameId', message: `Game ID ${gameId} also appears on row ${firstRow}`, code: 'DUPLICATE' });
+      } else {
+        rowsById.set(gameId, record.rowNumber);
+      }
+    }
+
+    // Identity after the update is applied, so renames are checked too
+    const name = values.gameName ?? existingGame?.gameName;
+    const providerId = values.providerId ?? existingGame?.providerId;
+    if (name !== undefined && providerId !== undefined) {
+      const key = gameKey(name, providerId);
+      const catalogMatch = gamesByKey.get(key);
+      if (catalogMatch && existingGame && catalogMatch.gameId !== existingGame.gameId) {
+        errors.push({
+          field: 'gameName',
+          message: `Game ID ${catalogMatch.gameId} already uses this name and provider`,
+          code: 'DUPLICATE',
+        });
+      } else if (catalogMatch && gameId === undefined) {
+        existingGame = catalogMatch;
+      }
+
+      const firstRow = rowsByKey.get(key);
+      if (firstRow !== undefined) {
+        errors.push({ field: 'gameName', message: `Duplicate of row ${firstRow} (same name and provider)`, code: 'DUPLICATE' });
+      } else {
+        rowsByKey.set(key, record.rowNumber);
+      }
+    }
+
+    const current = existingGame ? currentValues(existingGame) : undefined;
+    const merged: Partial<CreateGameForm> = current ? values : { ...CREATE_DEFAULTS, ...values };
+    // Updates are validated as the game will look afterwards; rows naming an
+    // unknown game ID are not treated as new games
+    const validation = current
+      ? validateGameForm({ ...current, ...values }, false)
+      : validateGameForm(merged, gameId === undefined);
+    // A value that failed to convert is already reported; don't also call it missing
+    const unreadable = new Set(errors.map(error => error.field));
+    validation.errors = [...errors, ...validation.errors.filter(error => !(error.code === 'REQUIRED' && unreadable.has(error.field)))];
+    validation.isValid = validation.errors.length === 0;
+
+    const changes: GameFieldChange[] = [];
+    if (current) {
+      (Object.keys(values) as (keyof CreateGameForm)[]).forEach(field => {
+        const before = current[field];
+        const after = values[field];
+        if (isSameValue(before, after)) return;
+        changes.push({
+          field,
+          label: GAME_IMPORT_FIELDS.find(definition => definition.field === field)?.label ?? field,
+          before: formatImportValue(field, before, reference),
+          after: formatImportValue(field, after, reference),
+        });
+      });
+    }
+
+    let action: GameImportRow['action'];
+    if (!validation.isValid) {
+      action = 'invalid';
+    } else if (!existingGame) {
+      action = 'create';
+      plan.creates.push(merged as CreateGameForm);
+    } else if (changes.length > 0 && options.updateExisting) {
+      action = 'update';
+      const update: UpdateGameForm = { gameId: existingGame.gameId };
+      changes.forEach(change => {
+        const field = change.field as keyof CreateGameForm;
+        (update as unknown as Record<string, unknown>)[field] = values[field];
+      });
+      plan.updates.push(update);
+    } else {
+      action = 'skip';
+      if (changes.length > 0) {
+        validation.warnings.push({
+          field: 'gameName',
+          message: `Matches existing game ${existingGame.gameId}; skipped because updating existing games is turned off`,
+        });
+      }
+    }
+
+    plan.rows.push({ rowNumber: record.rowNumber, action, values: merged, existingGame, validation, changes });
+  });
+
+  return plan;
+}
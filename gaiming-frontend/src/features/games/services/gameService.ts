@@ -7,6 +7,12 @@ import type {
   Volatility,
   Theme,
   PaginatedResponse,
+  CreateGameForm,
+  UpdateGameForm,
+  ImportResult,
+  BulkGameOperation,
+  BulkGameResult,
+  BulkGameUpdate,
 } from '../types';
 
 // Use mock data in development
@@ -257,6 +263,39 @@ export const gameService = {
     return apiService.download(`/games/export?${queryParams}`, 'games.csv');
   },
 
+  // Send a validated import; onUploadProgress receives 0-100
+  async importGames(
+    payload: { creates: CreateGameForm[]; updates: UpdateGameForm[] },
+    onUploadProgress?: (percent: number) => void
+  ): Promise<ImportResult> {
+    if (isDevelopment) {
+      return mockApiService.importGames(payload, onUploadProgress);
+    }
+    return apiService.post<ImportResult>('/games/import', payload, {
+      onUploadProgress: (event) => {
+        if (onUploadProgress && event.total) {
+          onUploadProgress(Math.round((event.loaded * 100) / event.total));
+        }
+      },
+    });
+  },
+
+  // Apply per-game field changes; the result reports each game separately
+  async bulkUpdateGames(updates: BulkGameUpdate[]): Promise<BulkGameResult[]> {
+    if (isDevelopment) {
+      return mockApiService.bulkUpdateGames(updates);
+    }
+    return apiService.patch<BulkGameResult[]>('/games/bulk', { updates });
+  },
+
+  // Run an operation the server applies uniformly (used for delete)
+  async bulkGameOperation(operation: BulkGameOperation): Promise<BulkGameResult[]> {
+    if (isDevelopment) {
+      return mockApiService.bulkGameOperation(operation);
+    }
+    return apiService.post<BulkGameResult[]>('/games/bulk', operation);
+  },
+
   // Get game features for ML
   async getGameFeatures(gameId: number): Promise<{
     gameId: number;
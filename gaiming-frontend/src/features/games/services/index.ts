@@ -1 +1,3 @@
 export { gameService } from './gameService';
+export * from './gameImport';
+export * from './bulkOperations';
@@ -198,6 +198,31 @@ export type BulkOperationType =
   | 'hideLobby'
   | 'showLobby';
 
+// Fields bulk operations change; a patch holds new values, or prior values when undoing
+export type BulkGameField =
+  | 'isActive'
+  | 'hideInLobby'
+  | 'providerId'
+  | 'gameTypeId'
+  | 'volatilityId'
+  | 'themeId'
+  | 'gameOrder'
+  | 'isMobile'
+  | 'isDesktop';
+
+export type GamePatch = Partial<Pick<Game, BulkGameField>>;
+
+export interface BulkGameUpdate {
+  gameId: number;
+  changes: GamePatch;
+}
+
+export interface BulkGameResult {
+  gameId: number;
+  success: boolean;
+  error?: string;
+}
+
 // Game validation
 export interface GameValidationResult {
   isValid: boolean;
@@ -237,6 +262,47 @@ export interface GameExportOptions {
   fields?: string[];
 }
 
+// Fields an import file can be mapped to; gameId matches rows to existing games
+export type GameImportField = keyof CreateGameForm | 'gameId';
+
+// Import field -> source column header
+export type GameImportColumnMapping = Partial<Record<GameImportField, string>>;
+
+// 'skip' covers rows that match an existing game but would not change it
+export type GameImportAction = 'create' | 'update' | 'skip' | 'invalid';
+
+export interface GameFieldChange {
+  field: GameImportField;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface GameImportRow {
+  rowNumber: number;
+  action: GameImportAction;
+  values: Partial<CreateGameForm>;
+  existingGame?: Game;
+  validation: GameValidationResult;
+  changes: GameFieldChange[];
+}
+
+export interface GameImportPlan {
+  rows: GameImportRow[];
+  creates: CreateGameForm[];
+  updates: UpdateGameForm[];
+}
+
+export interface ImportResult {
+  success: boolean;
+  processed: number;
+  created: number;
+  updated: number;
+  errors: string[];
+  warnings: string[];
+  duplicates: number;
+}
+
 // Game search and discovery
 export interface GameSearchResult {
   games: Game[];
@@ -3,19 +3,32 @@
  * Displays individual game recommendations with scoring and reasons
  */
 
-import React, { useState } from 'react'
-import { Star, Heart, Play, Info, TrendingUp, Users, Clock, DollarSign } from 'lucide-react'
+import React, { useCallback, useEffect, useState } from 'react'
+import { Star, Heart, ThumbsDown, Play, Info, TrendingUp, Users, Clock, DollarSign, Scale } from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/Card'
 import Button from '@/components/ui/Button'
 import Badge from '@/components/ui/Badge'
-import type { GameRecommendation } from '../types'
+import { useIntersectionObserver } from '@/shared/hooks/usePerformanceOptimization'
+import { recommendationEventTracker } from '../services/recommendationEventTracker'
+import type { GameRecommendation, RecommendationEvent } from '../types'
+
+// Where the card was shown; when set, impressions and interactions are tracked
+export interface RecommendationTrackingContext {
+  playerId: number
+  position: number
+}
+
+// Half the card on screen counts as seen
+const IMPRESSION_OBSERVER_OPTIONS: IntersectionObserverInit = { threshold: 0.5, rootMargin: '0px' }
 
 interface GameRecommendationCardProps {
   recommendation: GameRecommendation
+  tracking?: RecommendationTrackingContext
   onPlay?: (gameId: number) => void
   onLike?: (gameId: number) => void
   onDislike?: (gameId: number) => void
   onViewDetails?: (gameId: number) => void
+  onExplain?: (recommendation: GameRecommendation) => void
   showReasons?: boolean
   compact?: boolean
 }
@@ -26,25 +39,76 @@ const GameRecommendationCard: React.FC<GameRecommendationCardProps> = ({
   onLike,
   onDislike,
   onViewDetails,
+  onExplain,
   showReasons = true,
-  compact = false
+  compact = false,
+  tracking
 }) => {
   const [isLiked, setIsLiked] = useState(false)
+  const [isDisliked, setIsDisliked] = useState(false)
   const [showDetails, setShowDetails] = useState(false)
 
+  const { elementRef, isIntersecting } = useIntersectionObserver<HTMLDivElement>(IMPRESSION_OBSERVER_OPTIONS)
+
+  // Callers pass a fresh tracking object each render; only its values matter
+  const trackingPlayerId = tracking?.playerId
+  const trackingPosition = tracking?.position
+
+  const trackEvent = useCallback((eventType: RecommendationEvent['eventType']) => {
+    if (trackingPlayerId === undefined || trackingPosition === undefined) return
+    recommendationEventTracker.track({
+      playerId: trackingPlayerId,
+      gameId: recommendation.gameId,
+      eventType,
+      context: {
+        category: recommendation.category,
+        algorithm: recommendation.algorithm,
+        position: trackingPosition,
+        score: recommendation.score
+      }
+    })
+  }, [recommendation, trackingPlayerId, trackingPosition])
+
+  useEffect(() => {
+    if (isIntersecting) trackEvent('impression')
+  }, [isIntersecting, trackEvent])
+
   const handleLike = () => {
+    if (!isLiked) trackEvent('like')
     setIsLiked(!isLiked)
+    setIsDisliked(false)
     if (onLike) {
       onLike(recommendation.gameId)
     }
   }
 
+  const handleDislike = () => {
+    if (!isDisliked) trackEvent('dislike')
+    setIsDisliked(!isDisliked)
+    setIsLiked(false)
+    if (onDislike) {
+      onDislike(recommendation.gameId)
+    }
+  }
+
   const handlePlay = () => {
+    trackEvent('play')
     if (onPlay) {
       onPlay(recommendation.gameId)
     }
   }
 
+  // Opening the details is the click; closing them again is not
+  const handleToggleDetails = () => {
+    if (!showDetails) {
+      trackEvent('click')
+      if (onViewDetails) {
+        onViewDetails(recommendation.gameId)
+      }
+    }
+    setShowDetails(!showDetails)
+  }
+
   const getScoreColor = (score: number) => {
     if (score >= 90) return 'text-green-600 bg-green-100'
     if (score >= 80) return 'text-blue-600 bg-blue-100'
@@ -76,7 +140,7 @@ const GameRecommendationCard: React.FC<GameRecommendationCardProps> = ({
 
   if (compact) {
     return (
-      <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+      <Card ref={elementRef} className="hover:shadow-lg transition-shadow cursor-pointer">
         <CardContent className="p-3">
           <div className="flex items-center space-x-3">
             {recommendation.imageUrl && (
@@ -98,6 +162,11 @@ const GameRecommendationCard: React.FC<GameRecommendationCardProps> = ({
               <div className={`px-2 py-1 rounded-full text-xs font-medium ${getScoreColor(recommendation.score)}`}>
                 {recommendation.score.toFixed(0)}%
               </div>
+              {onExplain && (
+                <Button size="sm" variant="outline" onClick={() => onExplain(recommendation)} title="Explain this recommendation">
+                  <Scale className="w-3 h-3" />
+                </Button>
+              )}
               <Button size="sm" variant="primary" onClick={handlePlay}>
                 <Play className="w-3 h-3" />
               </Button>
@@ -109,7 +178,7 @@ const GameRecommendationCard: React.FC<GameRecommendationCardProps> = ({
   }
 
   return (
-    <Card className="hover:shadow-lg transition-shadow">
+    <Card ref={elementRef} className="hover:shadow-lg transition-shadow">
       <CardContent className="p-0">
         {/* Game Image */}
         <div className="relative">
@@ -147,16 +216,30 @@ const GameRecommendationCard: React.FC<GameRecommendationCardProps> = ({
                 {recommendation.providerName} • {recommendation.gameTypeName}
               </p>
             </div>
-            <button
-              onClick={handleLike}
-              className={`ml-2 p-1 rounded-full transition-colors ${
-                isLiked 
-                  ? 'text-red-500 bg-red-50 dark:bg-red-900/20' 
-                  : 'text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20'
-              }`}
-            >
-              <Heart className={`w-4 h-4 ${isLiked ? 'fill-current' : ''}`} />
-            </button>
+            <div className="flex items-center ml-2">
+              <button
+                onClick={handleLike}
+                title="More like this"
+                className={`p-1 rounded-full transition-colors ${
+                  isLiked 
+                    ? 'text-red-500 bg-red-50 dark:bg-red-900/20' 
+                    : 'text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20'
+                }`}
+              >
+                <Heart className={`w-4 h-4 ${isLiked ? 'fill-current' : ''}`} />
+              </button>
+              <button
+                onClick={handleDislike}
+                title="Less like this"
+                className={`p-1 rounded-full transition-colors ${
+                  isDisliked
+                    ? 'text-gray-700 bg-gray-100 dark:text-gray-200 dark:bg-gray-700'
+                    : 'text-gray-400 hover:text-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                <ThumbsDown className={`w-4 h-4 ${isDisliked ? 'fill-current' : ''}`} />
+              </button>
+            </div>
           </div>
 
           {/* Personalized Features */}
@@ -199,9 +282,18 @@ const GameRecommendationCard: React.FC<GameRecommendationCardProps> = ({
               <Play className="w-4 h-4 mr-2" />
               Play Now
             </Button>
+            {onExplain && (
+              <Button
+                variant="outline"
+                onClick={() => onExplain(recommendation)}
+                title="Explain this recommendation"
+              >
+                <Scale className="w-4 h-4" />
+              </Button>
+            )}
             <Button
               variant="outline"
-              onClick={() => setShowDetails(!showDetails)}
+              onClick={handleToggleDetails}
             >
               <Info className="w-4 h-4" />
             </Button>
@@ -0,0 +1,286 @@
+/**
+ * Recommendation Explanation Drawer
+ * Shows what drove a recommendation score - per-feature contributions, the player
+ * attributes behind them and similar players - and why any other game was not shown
+ */
+
+import React, { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { Check, Search, Users, X } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog'
+import Badge from '@/components/ui/Badge'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { cn } from '@/lib/utils'
+import { useGames } from '@/features/games/hooks'
+import { useDebounce } from '@/shared/hooks/usePerformanceOptimization'
+import { recommendationService } from '../services/recommendationService'
+import type { ExplanationContribution, GameRecommendation, RecommendationExplanation } from '../types'
+
+interface RecommendationExplanationDrawerProps {
+  playerId: number
+  recommendation: GameRecommendation | null
+  onClose: () => void
+}
+
+type DrawerTab = 'why' | 'why_not'
+
+const CONTRIBUTION_COLORS: Record<ExplanationContribution['type'], string> = {
+  preference: 'bg-purple-500',
+  behavior: 'bg-blue-500',
+  similarity: 'bg-green-500',
+  trending: 'bg-orange-500',
+  social: 'bg-pink-500',
+  seasonal: 'bg-yellow-500'
+}
+
+const useExplanation = (playerId: number, gameId: number | null) =>
+  useQuery({
+    queryKey: ['recommendation-explanation', playerId, gameId],
+    queryFn: () => recommendationService.explainRecommendation(playerId, gameId!),
+    enabled: gameId !== null
+  })
+
+/**
+ * Each contribution as a step from the previous running total, on a 0-100 scale
+ */
+const ContributionWaterfall: React.FC<{ explanation: RecommendationExplanation }> = ({ explanation }) => {
+  let runningTotal = 0
+
+  return (
+    <div className="space-y-1.5">
+      {explanation.contributions.map(contribution => {
+        const offset = runningTotal
+        runningTotal += contribution.points
+        return (
+          <div key={contribution.factor} className="grid grid-cols-[10rem_1fr_3rem] items-center gap-2 text-xs">
+            <span className={cn('truncate', contribution.points > 0 ? 'text-gray-300' : 'text-gray-500')} title={contribution.label}>
+              {contribution.label}
+            </span>
+            <div className="relative h-3 bg-gray-800 rounded">
+              <div
+                className={cn('absolute h-full rounded', CONTRIBUTION_COLORS[contribution.type])}
+                style={{ left: `${offset}%`, width: `${contribution.points}%` }}
+              />
+            </div>
+            <span className="text-right text-gray-400">+{contribution.points.toFixed(1)}</span>
+          </div>
+        )
+      })}
+      <div className="grid grid-cols-[10rem_1fr_3rem] items-center gap-2 text-xs pt-1.5 border-t border-gray-700">
+        <span className="font-medium text-white">Score</span>
+        <div className="relative h-3 bg-gray-800 rounded">
+          <div className="absolute h-full rounded bg-gradient-to-r from-purple-500 to-orange-500" style={{ width: `${explanation.score}%` }} />
+          {explanation.cutoffScore !== null && (
+            <div
+              className="absolute -top-1 -bottom-1 w-0.5 bg-white"
+              style={{ left: `${explanation.cutoffScore}%` }}
+              title={`Lowest score shown: ${explanation.cutoffScore.toFixed(1)}`}
+            />
+          )}
+        </div>
+        <span className="text-right font-medium text-white">{explanation.score.toFixed(1)}</span>
+      </div>
+      {explanation.cutoffScore !== null && (
+        <p className="text-xs text-gray-500">The white marker is the lowest score that made the list.</p>
+      )}
+    </div>
+  )
+}
+
+const PlayerAttributes: React.FC<{ explanation: RecommendationExplanation }> = ({ explanation }) => (
+  <div className="space-y-2">
+    {explanation.playerAttributes.map(attribute => (
+      <div key={attribute.attribute} className="flex items-start gap-2 text-sm">
+        {attribute.matches
+          ? <Check className="w-4 h-4 mt-0.5 text-green-400 shrink-0" />
+          : <X className="w-4 h-4 mt-0.5 text-gray-500 shrink-0" />}
+        <div className="min-w-0">
+          <div className="text-gray-400">{attribute.attribute}</div>
+          <div className="text-white break-words">{attribute.value || '-'}</div>
+        </div>
+      </div>
+    ))}
+  </div>
+)
+
+// Where the game stands against the list the player actually sees
+const ExplanationOutcome: React.FC<{ explanation: RecommendationExplanation }> = ({ explanation }) => {
+  if (explanation.excludedBecause) {
+    return (
+      <div className="p-3 rounded-lg bg-red-900/20 border border-red-800 text-sm text-red-300">
+        Not shown: {explanation.excludedBecause}
+      </div>
+    )
+  }
+  if (explanation.rank !== null) {
+    return (
+      <div className="p-3 rounded-lg bg-green-900/20 border border-green-800 text-sm text-green-300">
+        Shown at position {explanation.rank} with a score of {explanation.score.toFixed(1)}
+      </div>
+    )
+  }
+  return (
+    <div className="p-3 rounded-lg bg-yellow-900/20 border border-yellow-800 text-sm text-yellow-300">
+      Not shown: scored {explanation.score.toFixed(1)}
+      {explanation.cutoffScore !== null && (
+        <>, {(explanation.cutoffScore - explanation.score).toFixed(1)} points below the last game on the list</>
+      )}
+    </div>
+  )
+}
+
+const ExplanationDetails: React.FC<{ explanation: RecommendationExplanation }> = ({ explanation }) => (
+  <div className="space-y-5">
+    <ExplanationOutcome explanation={explanation} />
+    <section>
+      <h4 className="text-sm font-medium text-white mb-2">Score contributions</h4>
+      {explanation.contributions.length > 0
+        ? <ContributionWaterfall explanation={explanation} />
+        : <p className="text-sm text-gray-500">This game is not scored for the player.</p>}
+    </section>
+    <section>
+      <h4 className="text-sm font-medium text-white mb-2">Player attributes</h4>
+      <PlayerAttributes explanation={explanation} />
+    </section>
+  </div>
+)
+
+const RecommendationExplanationDrawer: React.FC<RecommendationExplanationDrawerProps> = ({
+  playerId,
+  recommendation,
+  onClose
+}) => {
+  const [tab, setTab] = useState<DrawerTab>('why')
+  const [search, setSearch] = useState('')
+  const [lookupGameId, setLookupGameId] = useState<number | null>(null)
+  const debouncedSearch = useDebounce(search, 300)
+
+  // Every recommendation opens on its own explanation
+  useEffect(() => {
+    setTab('why')
+    setSearch('')
+    setLookupGameId(null)
+  }, [recommendation?.gameId])
+
+  const { data: explanation, isLoading, error } = useExplanation(playerId, recommendation?.gameId ?? null)
+  const { data: lookup, isLoading: lookupLoading } = useExplanation(playerId, lookupGameId)
+
+  const { data: similarPlayers = [] } = useQuery({
+    queryKey: ['similar-players', playerId],
+    queryFn: () => recommendationService.getSimilarPlayers(playerId),
+    enabled: !!recommendation
+  })
+
+  const { data: searchResults, isFetching: searching } = useGames({ search: debouncedSearch || undefined })
+  const matchingGames = debouncedSearch ? (searchResults?.items ?? []).slice(0, 8) : []
+
+  return (
+    <Dialog open={!!recommendation} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="left-auto right-0 top-0 h-full max-w-xl translate-x-0 translate-y-0 overflow-y-auto rounded-none bg-gray-900 border-gray-700 text-white data-[state=open]:slide-in-from-right data-[state=closed]:slide-out-to-right sm:rounded-none">
+        <DialogHeader>
+          <DialogTitle>Why {recommendation?.gameName}?</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Recommendation explanation for player {playerId}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-1 p-1 bg-gray-800/50 rounded-lg">
+          {([['why', 'Why this game'], ['why_not', 'Why not another game']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={cn(
+                'flex-1 px-3 py-1.5 rounded-md text-sm transition-colors',
+                tab === value ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'why' && (
+          <div className="space-y-5">
+            {isLoading && <LoadingSpinner variant="gaming" size="md" />}
+            {error && <p className="text-sm text-red-400">Failed to load the explanation.</p>}
+            {explanation && <ExplanationDetails explanation={explanation} />}
+
+            <section>
+              <h4 className="flex items-center gap-2 text-sm font-medium text-white mb-2">
+                <Users className="w-4 h-4" />
+                Similar players
+              </h4>
+              <p className="text-xs text-gray-500 mb-2">
+                Their play history drives the collaborative part of the score.
+              </p>
+              <div className="space-y-1">
+                {similarPlayers.map(similar => (
+                  <Link
+                    key={similar.playerId}
+                    to={`/players/${similar.playerId}`}
+                    className="flex items-center justify-between p-2 bg-gray-800/50 rounded-lg text-sm hover:bg-gray-800"
+                  >
+                    <span className="text-white">Player {similar.playerId}</span>
+                    <span className="flex items-center gap-2">
+                      <Badge variant="secondary">{similar.commonGames} games in common</Badge>
+                      <span className="text-gray-400 w-12 text-right">{(similar.similarity * 100).toFixed(0)}%</span>
+                    </span>
+                  </Link>
+                ))}
+                {similarPlayers.length === 0 && (
+                  <p className="text-sm text-gray-500">No players with overlapping history.</p>
+                )}
+              </div>
+            </section>
+          </div>
+        )}
+
+        {tab === 'why_not' && (
+          <div className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+              <input
+                value={search}
+                onChange={event => setSearch(event.target.value)}
+                placeholder="Search any game..."
+                className="w-full pl-9 pr-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-sm text-white"
+              />
+            </div>
+
+            {searching && <LoadingSpinner variant="gaming" size="sm" />}
+            {matchingGames.length > 0 && (
+              <div className="space-y-1">
+                {matchingGames.map(game => (
+                  <button
+                    key={game.gameId}
+                    onClick={() => setLookupGameId(game.gameId)}
+                    className={cn(
+                      'w-full flex items-center justify-between p-2 rounded-lg text-left text-sm',
+                      lookupGameId === game.gameId ? 'bg-gray-700' : 'bg-gray-800/50 hover:bg-gray-800'
+                    )}
+                  >
+                    <span className="text-white truncate">{game.gameName}</span>
+                    <span className="text-gray-400 shrink-0 ml-2">{game.providerName}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {lookupLoading && <LoadingSpinner variant="gaming" size="md" />}
+            {lookup && (
+              <div className="pt-2 border-t border-gray-700">
+                <h4 className="text-white font-medium mb-3">
+                  {lookup.gameName} <span className="text-gray-400 font-normal">by {lookup.providerName}</span>
+                </h4>
+                <ExplanationDetails explanation={lookup} />
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default RecommendationExplanationDrawer
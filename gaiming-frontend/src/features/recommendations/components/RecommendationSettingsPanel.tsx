@@ -0,0 +1,392 @@
+/**
+ * Recommendation Settings Panel
+ * Lets CRM staff tune a player's algorithm weights and filters, with a live
+ * preview of how the player's recommendations re-rank before saving
+ */
+
+import React, { useEffect, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ArrowDown, ArrowUp, RotateCcw, Save, SlidersHorizontal } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card'
+import Button from '@/components/ui/Button'
+import Badge from '@/components/ui/Badge'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { Switch } from '@/components/ui/switch'
+import { usePermissions } from '@/components/auth/AuthGuard'
+import { useGameProviders, useGameTypes, useVolatilities } from '@/features/games/hooks'
+import { useDebounce } from '@/shared/hooks/usePerformanceOptimization'
+import { recommendationService } from '../services/recommendationService'
+import type { GameRecommendation, RecommendationSettings } from '../types'
+
+interface RecommendationSettingsPanelProps {
+  playerId: number
+}
+
+type AlgorithmKey = keyof RecommendationSettings['algorithms']
+
+const ALGORITHMS: Array<{ key: AlgorithmKey; label: string; description: string }> = [
+  { key: 'contentBased', label: 'Content based', description: 'Provider, type, volatility, theme and RTP match' },
+  { key: 'collaborative', label: 'Collaborative', description: 'Games played by players with similar histories' },
+  { key: 'trending', label: 'Trending', description: 'Recent popularity across all players' },
+  { key: 'social', label: 'Social', description: 'Activity of players they interact with' }
+]
+
+const PRIVACY_LEVELS: Array<{ value: RecommendationSettings['preferences']['privacyLevel']; label: string }> = [
+  { value: 'full', label: 'Full - all signals' },
+  { value: 'limited', label: 'Limited - no cross-player data' },
+  { value: 'minimal', label: 'Minimal - popularity only' }
+]
+
+const selectClassName = 'w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-sm text-white'
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(candidate => candidate !== value) : [...values, value]
+
+const RecommendationSettingsPanel: React.FC<RecommendationSettingsPanelProps> = ({ playerId }) => {
+  const queryClient = useQueryClient()
+  const { canManagePlayers } = usePermissions()
+  const [draft, setDraft] = useState<RecommendationSettings | null>(null)
+  const previewSettings = useDebounce(draft, 400)
+
+  const { data: saved, isLoading } = useQuery({
+    queryKey: ['recommendation-settings', playerId],
+    queryFn: () => recommendationService.getRecommendationSettings(playerId)
+  })
+
+  const { data: providers = [] } = useGameProviders()
+  const { data: gameTypes = [] } = useGameTypes()
+  const { data: volatilities = [] } = useVolatilities()
+
+  // Start from the saved settings once; refetches must not wipe edits in progress
+  useEffect(() => {
+    if (saved && !draft) setDraft(saved)
+  }, [saved])
+
+  const loadForYou = async (settings: RecommendationSettings) => {
+    const response = await recommendationService.getRecommendations({ playerId, settings, includeReasons: false })
+    return response.categories.find(category => category.category === 'for_you')?.recommendations ?? []
+  }
+
+  const { data: currentList } = useQuery({
+    queryKey: ['recommendation-preview', playerId, saved],
+    queryFn: () => loadForYou(saved!),
+    enabled: !!saved
+  })
+
+  const { data: previewList, isFetching: previewLoading } = useQuery({
+    queryKey: ['recommendation-preview', playerId, previewSettings],
+    queryFn: () => loadForYou(previewSettings!),
+    enabled: !!previewSettings
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: (settings: RecommendationSettings) => recommendationService.updateRecommendationSettings(settings),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(['recommendation-settings', playerId], settings)
+      setDraft(settings)
+      toast.success('Recommendation settings saved')
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to save recommendation settings')
+    }
+  })
+
+  if (isLoading || !draft || !saved) {
+    return (
+      <Card variant="gaming">
+        <CardContent className="text-center py-8">
+          <LoadingSpinner variant="gaming" />
+          <p className="text-gray-400 mt-2">Loading recommendation settings...</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(saved)
+  const readOnly = !canManagePlayers
+
+  const updateDraft = (update: (settings: RecommendationSettings) => RecommendationSettings) => {
+    setDraft(current => (current ? update(current) : current))
+  }
+
+  const updateAlgorithm = (key: AlgorithmKey, change: Partial<RecommendationSettings['algorithms'][AlgorithmKey]>) => {
+    updateDraft(settings => ({
+      ...settings,
+      algorithms: { ...settings.algorithms, [key]: { ...settings.algorithms[key], ...change } }
+    }))
+  }
+
+  const updateFilters = (change: Partial<RecommendationSettings['filters']>) => {
+    updateDraft(settings => ({ ...settings, filters: { ...settings.filters, ...change } }))
+  }
+
+  const updatePreferences = (change: Partial<RecommendationSettings['preferences']>) => {
+    updateDraft(settings => ({ ...settings, preferences: { ...settings.preferences, ...change } }))
+  }
+
+  const totalWeight = ALGORITHMS.reduce(
+    (sum, { key }) => sum + (draft.algorithms[key].enabled ? draft.algorithms[key].weight : 0),
+    0
+  )
+  const preview: GameRecommendation[] = previewList ?? []
+  const currentPositions = new Map((currentList ?? []).map((recommendation, index) => [recommendation.gameId, index]))
+
+  return (
+    <Card variant="gaming">
+      <CardHeader variant="gaming">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-white flex items-center gap-2">
+              <SlidersHorizontal className="w-5 h-5 text-primary-400" />
+              Recommendation Settings
+            </CardTitle>
+            <CardDescription className="text-gray-400">
+              {readOnly ? 'You can view these settings but not change them' : 'Changes preview below before they are saved'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-gray-400">Recommendations</span>
+            <Switch
+              checked={draft.enabled}
+              disabled={readOnly}
+              onCheckedChange={(enabled) => updateDraft(settings => ({ ...settings, enabled }))}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div className="space-y-6">
+            {/* Algorithm weights */}
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-white">Algorithm weights</h3>
+              {ALGORITHMS.map(({ key, label, description }) => {
+                const algorithm = draft.algorithms[key]
+                const share = algorithm.enabled && totalWeight > 0 ? algorithm.weight / totalWeight : 0
+                return (
+                  <div key={key} className="p-3 bg-gray-800/50 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between gap-3">
+                      <div>
+                        <div className="text-sm text-white">{label}</div>
+                        <div className="text-xs text-gray-400">{description}</div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="text-xs text-gray-400 w-10 text-right">{Math.round(share * 100)}%</span>
+                        <Switch
+                          checked={algorithm.enabled}
+                          disabled={readOnly}
+                          onCheckedChange={(enabled) => updateAlgorithm(key, { enabled })}
+                        />
+                      </div>
+                    </div>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={algorithm.weight}
+                      disabled={readOnly || !algorithm.enabled}
+                      onChange={(e) => updateAlgorithm(key, { weight: Number(e.target.value) })}
+                      className="w-full accent-primary-500"
+                      aria-label={`${label} weight`}
+                    />
+                  </div>
+                )
+              })}
+            </div>
+
+            {/* Filters */}
+            <div className="space-y-4">
+              <h3 className="text-sm font-medium text-white">Filters</h3>
+
+              <div>
+                <label className="text-sm text-gray-400">Excluded categories</label>
+                <div className="flex flex-wrap gap-2 mt-1">
+                  {gameTypes.map(type => (
+                    <button
+                      key={type.gameTypeId}
+                      type="button"
+                      disabled={readOnly}
+                      onClick={() => updateFilters({ excludeCategories: toggleValue(draft.filters.excludeCategories, type.gameTypeName) })}
+                    >
+                      <Badge variant={draft.filters.excludeCategories.includes(type.gameTypeName) ? 'error' : 'outline'}>
+                        {type.gameTypeName}
+                      </Badge>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm text-gray-400">Excluded providers</label>
+                <div className="flex flex-wrap gap-2 mt-1">
+                  {providers.map(provider => (
+                    <button
+                      key={provider.providerId}
+                      type="button"
+                      disabled={readOnly}
+                      onClick={() => updateFilters({ excludeProviders: toggleValue(draft.filters.excludeProviders, provider.providerName) })}
+                    >
+                      <Badge variant={draft.filters.excludeProviders.includes(provider.providerName) ? 'error' : 'outline'}>
+                        {provider.providerName}
+                      </Badge>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm text-gray-400">Minimum RTP (%)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.5}
+                    value={draft.filters.minRTP || ''}
+                    placeholder="Any"
+                    disabled={readOnly}
+                    onChange={(e) => updateFilters({ minRTP: Number(e.target.value) || 0 })}
+                    className={selectClassName}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-gray-400">Maximum volatility</label>
+                  <select
+                    value={draft.filters.maxVolatility}
+                    disabled={readOnly}
+                    onChange={(e) => updateFilters({ maxVolatility: e.target.value })}
+                    className={selectClassName}
+                  >
+                    <option value="">Any</option>
+                    {volatilities.map(volatility => (
+                      <option key={volatility.volatilityID} value={volatility.volatilityName}>
+                        {volatility.volatilityName}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-sm text-gray-400">Privacy level</label>
+                  <select
+                    value={draft.preferences.privacyLevel}
+                    disabled={readOnly}
+                    onChange={(e) => updatePreferences({ privacyLevel: e.target.value as RecommendationSettings['preferences']['privacyLevel'] })}
+                    className={selectClassName}
+                  >
+                    {PRIVACY_LEVELS.map(level => (
+                      <option key={level.value} value={level.value}>{level.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-sm text-gray-400">Games per category</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={24}
+                    value={draft.preferences.maxRecommendationsPerCategory}
+                    disabled={readOnly}
+                    onChange={(e) => updatePreferences({ maxRecommendationsPerCategory: Math.min(24, Math.max(1, Number(e.target.value) || 1)) })}
+                    className={selectClassName}
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-col gap-3">
+                <label className="flex items-center justify-between text-sm text-gray-400">
+                  Only games released in the last 30 days
+                  <Switch
+                    checked={draft.filters.onlyNewGames}
+                    disabled={readOnly}
+                    onCheckedChange={(onlyNewGames) => updateFilters({ onlyNewGames })}
+                  />
+                </label>
+                <label className="flex items-center justify-between text-sm text-gray-400">
+                  Skip games played recently
+                  <Switch
+                    checked={draft.filters.respectPlayingHistory}
+                    disabled={readOnly}
+                    onCheckedChange={(respectPlayingHistory) => updateFilters({ respectPlayingHistory })}
+                  />
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {/* Live preview */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-white">Recommended for You - preview</h3>
+              {previewLoading && <LoadingSpinner size="sm" variant="gaming" />}
+            </div>
+            {!draft.enabled || draft.preferences.privacyLevel === 'minimal' ? (
+              <p className="text-sm text-gray-400 p-3 bg-gray-800/50 rounded-lg">
+                No personalised recommendations are shown with these settings; the player only sees trending and new games.
+              </p>
+            ) : preview.length === 0 && !previewLoading ? (
+              <p className="text-sm text-gray-400 p-3 bg-gray-800/50 rounded-lg">
+                No games pass these filters.
+              </p>
+            ) : (
+              <ol className="space-y-2">
+                {preview.map((recommendation, index) => {
+                  const previous = currentPositions.get(recommendation.gameId)
+                  const movement = previous === undefined ? null : previous - index
+                  return (
+                    <li key={recommendation.gameId} className="flex items-center gap-3 p-3 bg-gray-800/50 rounded-lg">
+                      <span className="text-gray-400 w-6 text-right">{index + 1}</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-white truncate">{recommendation.gameName}</div>
+                        <div className="text-xs text-gray-400 truncate">
+                          {recommendation.providerName} • {recommendation.gameTypeName}
+                        </div>
+                      </div>
+                      <span className="text-sm text-white">{recommendation.score.toFixed(0)}%</span>
+                      <span className="w-12 text-right text-xs">
+                        {movement === null ? (
+                          <Badge variant="success" size="sm">New</Badge>
+                        ) : movement > 0 ? (
+                          <span className="text-green-400 inline-flex items-center"><ArrowUp className="w-3 h-3" />{movement}</span>
+                        ) : movement < 0 ? (
+                          <span className="text-red-400 inline-flex items-center"><ArrowDown className="w-3 h-3" />{-movement}</span>
+                        ) : (
+                          <span className="text-gray-500">–</span>
+                        )}
+                      </span>
+                    </li>
+                  )
+                })}
+              </ol>
+            )}
+          </div>
+        </div>
+
+        {!readOnly && (
+          <div className="flex justify-end gap-3 mt-6">
+            <Button
+              variant="ghost"
+              disabled={!isDirty || saveMutation.isPending}
+              onClick={() => setDraft(saved)}
+              icon={<RotateCcw className="w-4 h-4" />}
+            >
+              Reset
+            </Button>
+            <Button
+              variant="primary"
+              disabled={!isDirty}
+              loading={saveMutation.isPending}
+              onClick={() => saveMutation.mutate(draft)}
+              icon={<Save className="w-4 h-4" />}
+            >
+              Save Settings
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default RecommendationSettingsPanel
@@ -0,0 +1,196 @@
+/**
+ * Recommendation Diversity
+ * Post-ranking stage: re-orders a relevance ranking for provider and theme variety
+ * (maximal marginal relevance), caps provider exposure and keeps new-release slots.
+ * Also measures the variety of the lists that were served.
+ */
+
+import type { Game } from '@/features/games/types'
+import type { RecommendationSettings as SystemRecommendationSettings } from '@/services/settingsApi'
+import type { DiversityMetrics } from '@/types'
+import { gameSimilarity, type ScoredGame } from './recommendationEngine'
+import { NEW_GAME_WINDOW_DAYS } from './recommendationSettings'
+import type { DiversityOptions, PlayerProfile } from '../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DEFAULT_DIVERSITY_OPTIONS: DiversityOptions = {
+  diversityWeight: 0.3,
+  popularityWeight: 0.1,
+  recencyWeight: 0.1,
+  maxPerProvider: 2,
+  newReleaseSlots: 1
+}
+
+/**
+ * A list served to one player, for measuring
+ */
+export interface ServedList {
+  profile: PlayerProfile
+  games: Game[]
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value || 0))
+
+/**
+ * Diversity options from the system recommendation settings; the exposure rules
+ * have no system setting yet and keep their defaults
+ */
+export function toDiversityOptions(
+  settings: Pick<SystemRecommendationSettings, 'diversityWeight' | 'popularityWeight' | 'recencyWeight'>
+): DiversityOptions {
+  return {
+    ...DEFAULT_DIVERSITY_OPTIONS,
+    diversityWeight: clamp01(settings.diversityWeight),
+    popularityWeight: clamp01(settings.popularityWeight),
+    recencyWeight: clamp01(settings.recencyWeight)
+  }
+}
+
+/**
+ * How alike two games look in a list: same provider and same theme count equally
+ */
+export function providerThemeSimilarity(a: Game, b: Game): number {
+  const sameProvider = a.providerId === b.providerId ? 0.5 : 0
+  const sameTheme = a.themeId !== undefined && a.themeId === b.themeId ? 0.5 : 0
+  return sameProvider + sameTheme
+}
+
+const releaseAgeDays = (game: Game, now: number) =>
+  (now - new Date(game.releaseDate || game.createdDate).getTime()) / DAY_MS
+
+export const isNewRelease = (game: Game, now: number) => {
+  const ageDays = releaseAgeDays(game, now)
+  return ageDays >= 0 && ageDays <= NEW_GAME_WINDOW_DAYS
+}
+
+/**
+ * Re-rank a relevance-ordered ranking into a list of at most `limit` games.
+ * Each slot goes to the game with the best trade-off between relevance (blended
+ * with popularity and freshness) and similarity to the games already picked.
+ * Providers at their cap are skipped unless nothing else is left, and the last
+ * slots are held for new releases until `newReleaseSlots` of them are in.
+ */
+export function diversify(
+  ranked: ScoredGame[],
+  limit: number,
+  options: DiversityOptions,
+  popularityOf: (gameId: number) => number,
+  now = Date.now()
+): ScoredGame[] {
+  const lambda = clamp01(options.diversityWeight)
+  // Popularity and freshness never push out the engine score entirely
+  const blendTotal = Math.max(1, clamp01(options.popularityWeight) + clamp01(options.recencyWeight))
+  const popularityShare = clamp01(options.popularityWeight) / blendTotal
+  const recencyShare = clamp01(options.recencyWeight) / blendTotal
+
+  const relevance = new Map(ranked.map(entry => {
+    const freshness = Math.pow(0.5, Math.max(0, releaseAgeDays(entry.game, now)) / NEW_GAME_WINDOW_DAYS)
+    return [entry.game.gameId, (1 - popularityShare - recencyShare) * entry.score
+      + popularityShare * popularityOf(entry.game.gameId)
+      + recencyShare * freshness]
+  }))
+
+  const pool = [...ranked]
+  const selected: ScoredGame[] = []
+  const providerCounts = new Map<number, number>()
+  let newSelected = 0
+
+  while (selected.length < limit && pool.length > 0) {
+    let eligible = pool.filter(entry => (providerCounts.get(entry.game.providerId) ?? 0) < options.maxPerProvider)
+    if (eligible.length === 0) eligible = pool
+
+    if (options.newReleaseSlots - newSelected >= limit - selected.length) {
+      const fresh = eligible.filter(entry => isNewRelease(entry.game, now))
+      if (fresh.length > 0) eligible = fresh
+    }
+
+    let best = eligible[0]!
+    let bestValue = -Infinity
+    eligible.forEach(entry => {
+      const redundancy = Math.max(0, ...selected.map(picked => providerThemeSimilarity(entry.game, picked.game)))
+      const value = (1 - lambda) * relevance.get(entry.game.gameId)! - lambda * redundancy
+      if (value > bestValue) {
+        best = entry
+        bestValue = value
+      }
+    })
+
+    selected.push(best)
+    pool.splice(pool.indexOf(best), 1)
+    providerCounts.set(best.game.providerId, (providerCounts.get(best.game.providerId) ?? 0) + 1)
+    if (isNewRelease(best.game, now)) newSelected++
+  }
+
+  return selected
+}
+
+/**
+ * The provider cap of `diversify` for a list ranked elsewhere, where only each
+ * entry's provider is known: entries over the cap move behind the rest, so they
+ * only fill slots nothing else can
+ */
+export function capPerProvider<T>(
+  ranked: T[],
+  limit: number,
+  maxPerProvider: number,
+  providerOf: (entry: T) => string
+): T[] {
+  const providerCounts = new Map<string, number>()
+  const withinCap: T[] = []
+  const overCap: T[] = []
+
+  ranked.forEach(entry => {
+    const count = providerCounts.get(providerOf(entry)) ?? 0
+    providerCounts.set(providerOf(entry), count + 1)
+    if (count < maxPerProvider) withinCap.push(entry)
+    else overCap.push(entry)
+  })
+
+  return [...withinCap, ...overCap].slice(0, limit)
+}
+
+const shareBy = (games: Game[], keyOf: (game: Game) => string): Record<string, number> => {
+  const counts = games.reduce<Record<string, number>>((acc, game) => {
+    const key = keyOf(game)
+    acc[key] = (acc[key] ?? 0) + 1
+    return acc
+  }, {})
+  return Object.fromEntries(
+    Object.entries(counts).map(([key, count]) => [key, Math.round(count / games.length * 1000) / 1000])
+  )
+}
+
+/**
+ * Variety of served lists against the catalogue they were drawn from.
+ * Serendipity counts games from neither a favourite provider nor a favourite category.
+ */
+export function measureDiversity(
+  lists: ServedList[],
+  catalogue: Game[],
+  popularityOf: (gameId: number) => number
+): DiversityMetrics {
+  const served = lists.flatMap(list => list.games)
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+  const round = (value: number) => Math.round(value * 1000) / 1000
+
+  const listDiversity = lists
+    .filter(list => list.games.length > 1)
+    .map(({ games }) => average(games.flatMap((a, i) => games.slice(i + 1).map(b => 1 - gameSimilarity(a, b)))))
+
+  const surprising = lists.flatMap(({ profile, games }) => games.map(game =>
+    !profile.preferences.favoriteProviders.includes(game.providerName ?? '')
+      && !profile.preferences.favoriteCategories.includes(game.gameTypeName ?? '') ? 1 : 0
+  ))
+
+  return {
+    intraListDiversity: round(average(listDiversity)),
+    catalogCoverage: round(catalogue.length > 0 ? new Set(served.map(game => game.gameId)).size / catalogue.length : 0),
+    noveltyScore: round(average(served.map(game => 1 - popularityOf(game.gameId)))),
+    serendipityScore: round(average(surprising)),
+    providerDistribution: shareBy(served, game => game.providerName ?? 'Unknown'),
+    gameTypeDistribution: shareBy(served, game => game.gameTypeName ?? 'Unknown'),
+    volatilityDistribution: shareBy(served, game => game.volatility?.volatilityName ?? 'Unknown')
+  }
+}
@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest'
+import type { Game } from '@/features/games/types'
+import {
+  MOCK_REFERENCE_NOW,
+  mockGameTypes,
+  mockGames,
+  mockProviders,
+  mockThemes
+} from '@/shared/services/mockDataService'
+import {
+  RecommendationEngine,
+  generateMockPlayerProfile,
+  type GameInteraction,
+  type ScoredGame
+} from './recommendationEngine'
+import { NEW_GAME_WINDOW_DAYS } from './recommendationSettings'
+import type { PlayerProfile } from '../types'
+
+const SEED = 1001
+const PLAYER_ID = 1001
+const LIMIT = 8
+
+const engine = RecommendationEngine.fromMockData(mockGames, { seed: SEED, now: MOCK_REFERENCE_NOW })
+const profile = generateMockPlayerProfile(PLAYER_ID, mockGames, SEED, MOCK_REFERENCE_NOW)
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// One "gameId: score" line per game, so the pins read as a ranking
+const ranking = (entries: ScoredGame[]) =>
+  entries.map(entry => `${entry.game.gameId}: ${entry.score.toFixed(4)}`)
+
+const idsOf = (entries: ScoredGame[]) => entries.map(entry => entry.game.gameId)
+
+const template = mockGames.find(game => game.isActive && !game.hideInLobby)!
+
+// A catalogue game that differs from the others only in the attributes picked here
+const makeGame = (gameId: number, attributes: { provider?: number; type?: number; theme?: number } = {}): Game => {
+  const provider = mockProviders[attributes.provider ?? 0]!
+  const gameType = mockGameTypes[attributes.type ?? 0]!
+  const theme = mockThemes[attributes.theme ?? 0]!
+  return {
+    ...template,
+    gameId,
+    gameName: `Game ${gameId}`,
+    providerId: provider.providerId,
+    providerName: provider.providerName,
+    provider,
+    gameTypeId: gameType.gameTypeId,
+    gameTypeName: gameType.gameTypeName,
+    gameType,
+    themeId: theme.themeID,
+    theme
+  }
+}
+
+// The mock profile with its favourites replaced and no recent games unless given
+const makeProfile = (
+  favourites: { provider: number; type: number; theme: number },
+  recentGames: number[] = []
+): PlayerProfile => ({
+  ...profile,
+  preferences: {
+    ...profile.preferences,
+    favoriteProviders: [mockProviders[favourites.provider]!.providerName],
+    favoriteCategories: [mockGameTypes[favourites.type]!.gameTypeName],
+    preferredThemes: [mockThemes[favourites.theme]!.themeName]
+  },
+  recentActivity: { ...profile.recentActivity, recentGames }
+})
+
+const plays = (gameIds: number[], playerIds: number[], ageDays = 1): GameInteraction[] =>
+  playerIds.flatMap(playerId => gameIds.map(gameId => ({
+    playerId,
+    gameId,
+    timestamp: MOCK_REFERENCE_NOW - ageDays * DAY_MS,
+    weight: 1
+  })))
+
+describe('RecommendationEngine', () => {
+  it('pins the hybrid ranking for a fixed seed and moment', () => {
+    expect(ranking(engine.recommend(profile, { limit: LIMIT }))).toMatchInlineSnapshot(`
+      [
+        "12: 0.7421",
+        "111: 0.6753",
+        "24: 0.6735",
+        "31: 0.6168",
+        "75: 0.5980",
+        "84: 0.5878",
+        "27: 0.5841",
+        "92: 0.5565",
+      ]
+    `)
+  })
+
+  it('pins the trending ranking for a fixed seed and moment', () => {
+    expect(ranking(engine.trending(profile, { limit: LIMIT }))).toMatchInlineSnapshot(`
+      [
+        "31: 0.9560",
+        "68: 0.8872",
+        "141: 0.8763",
+        "80: 0.8665",
+        "26: 0.8653",
+        "39: 0.8573",
+        "102: 0.8099",
+        "99: 0.7883",
+      ]
+    `)
+  })
+
+  it('pins the new releases for a fixed seed and moment', () => {
+    expect(ranking(engine.newReleases(profile, NEW_GAME_WINDOW_DAYS, { limit: LIMIT }))).toMatchInlineSnapshot(`
+      [
+        "95: 0.7242",
+        "91: 0.6002",
+        "33: 0.4731",
+        "23: 0.3371",
+      ]
+    `)
+  })
+
+  it('pins the games similar to a game for a fixed seed and moment', () => {
+    const sourceGameId = engine.getGames()[0]!.gameId
+
+    expect(sourceGameId).toMatchInlineSnapshot(`2`)
+    expect(ranking(engine.similarTo(profile, sourceGameId, { limit: LIMIT }))).toMatchInlineSnapshot(`
+      [
+        "120: 0.2744",
+        "65: 0.2662",
+        "62: 0.2609",
+        "55: 0.2540",
+        "95: 0.2481",
+        "103: 0.2463",
+        "144: 0.2454",
+        "87: 0.2441",
+      ]
+    `)
+  })
+
+  it('gives the same rankings when rebuilt from the same seed and moment', () => {
+    const rebuilt = RecommendationEngine.fromMockData(mockGames, { seed: SEED, now: MOCK_REFERENCE_NOW })
+    const rebuiltProfile = generateMockPlayerProfile(PLAYER_ID, mockGames, SEED, MOCK_REFERENCE_NOW)
+
+    expect(ranking(rebuilt.recommend(rebuiltProfile))).toEqual(ranking(engine.recommend(profile)))
+    expect(ranking(rebuilt.trending(rebuiltProfile))).toEqual(ranking(engine.trending(profile)))
+  })
+
+  it('leaves excluded games out of every ranking', () => {
+    const excludeGameIds = engine.recommend(profile, { limit: 3 }).map(entry => entry.game.gameId)
+    const served = [
+      ...engine.recommend(profile, { excludeGameIds }),
+      ...engine.trending(profile, { excludeGameIds }),
+      ...engine.newReleases(profile, NEW_GAME_WINDOW_DAYS, { excludeGameIds })
+    ]
+
+    expect(served.filter(entry => excludeGameIds.includes(entry.game.gameId))).toEqual([])
+  })
+
+  it('ranks a game matching the favourite provider, type and theme above an otherwise identical one', () => {
+    const matching = makeGame(1, { provider: 0, type: 0, theme: 0 })
+    const other = makeGame(2, { provider: 1, type: 1, theme: 1 })
+    const local = new RecommendationEngine([other, matching], [], { seed: SEED, now: MOCK_REFERENCE_NOW })
+
+    const ranked = local.recommend(makeProfile({ provider: 0, type: 0, theme: 0 }))
+
+    expect(idsOf(ranked)).toEqual([1, 2])
+    expect(ranked[0]!.contributions.content).toBeGreaterThan(ranked[1]!.contributions.content)
+  })
+
+  it('lifts games often played alongside the player\'s recent games', () => {
+    const recent = makeGame(1)
+    const playedTogether = makeGame(2)
+    const playedApart = makeGame(3)
+    // Both candidates are played as often; only one shares players with the recent game
+    const interactions = [
+      ...plays([recent.gameId, playedTogether.gameId], [1, 2, 3, 4, 5]),
+      ...plays([playedApart.gameId], [6, 7, 8, 9, 10])
+    ]
+    const local = new RecommendationEngine([recent, playedApart, playedTogether], interactions, { seed: SEED, now: MOCK_REFERENCE_NOW })
+    const player = makeProfile({ provider: 0, type: 0, theme: 0 }, [recent.gameId])
+
+    const ranked = local.recommend(player, { excludeGameIds: [recent.gameId] })
+
+    expect(idsOf(ranked)).toEqual([2, 3])
+    expect(ranked[0]!.contributions.collaborative).toBeGreaterThan(0)
+    expect(ranked[1]!.contributions.collaborative).toBe(0)
+    expect(idsOf(local.similarTo(player, recent.gameId))[0]).toBe(playedTogether.gameId)
+  })
+
+  it('ranks a recently played game above one played as often but longer ago', () => {
+    const playedRecently = makeGame(1)
+    const playedEarlier = makeGame(2)
+    const interactions = [
+      ...plays([playedRecently.gameId], [1, 2, 3, 4, 5], 1),
+      ...plays([playedEarlier.gameId], [6, 7, 8, 9, 10], 20)
+    ]
+    const local = new RecommendationEngine([playedEarlier, playedRecently], interactions, { seed: SEED, now: MOCK_REFERENCE_NOW })
+
+    expect(idsOf(local.trending(profile))).toEqual([1, 2])
+    expect(local.popularityScore(playedRecently.gameId)).toBe(1)
+    expect(local.popularityScore(playedEarlier.gameId)).toBeLessThan(0.5)
+  })
+
+  it('returns exactly the games released within the window as new releases', () => {
+    const ageDays = (game: Game) => (MOCK_REFERENCE_NOW - new Date(game.releaseDate || game.createdDate).getTime()) / DAY_MS
+    const inWindow = engine.getGames()
+      .filter(game => ageDays(game) >= 0 && ageDays(game) <= NEW_GAME_WINDOW_DAYS)
+      .map(game => game.gameId)
+
+    const released = engine.newReleases(profile, NEW_GAME_WINDOW_DAYS)
+
+    expect(inWindow.length).toBeGreaterThan(0)
+    expect(idsOf(released).sort((a, b) => a - b)).toEqual(inWindow.sort((a, b) => a - b))
+  })
+})
@@ -0,0 +1,496 @@
+/**
+ * Local Recommendation Engine
+ * Deterministic in-browser ranking over the mock catalogue, used in development
+ * and demos. Combines content similarity, item-item co-occurrence and
+ * time-decayed popularity; the same seed always produces the same rankings.
+ */
+
+import type { Game } from '@/features/games/types'
+import { mockGameTypes, mockProviders, mockThemes, mockVolatilities } from '@/shared/services/mockDataService'
+import { createSeededRandom, hashSeed } from '@/lib/utils'
+import type { PlayerProfile, SimilarPlayer } from '../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Relative importance of each game attribute in content similarity
+export const CONTENT_FEATURE_WEIGHTS = {
+  provider: 0.25,
+  type: 0.25,
+  volatility: 0.15,
+  theme: 0.2,
+  rtp: 0.15,
+}
+
+export type ContentFeature = keyof typeof CONTENT_FEATURE_WEIGHTS
+
+// How much each signal contributes to the hybrid "for you" score
+export interface EngineWeights {
+  content: number
+  collaborative: number
+  popularity: number
+}
+
+export const DEFAULT_ENGINE_WEIGHTS: EngineWeights = {
+  content: 0.5,
+  collaborative: 0.3,
+  popularity: 0.2,
+}
+
+export interface GameInteraction {
+  playerId: number
+  gameId: number
+  timestamp: number
+  weight: number
+}
+
+export interface EngineOptions {
+  seed: number
+  // Reference time for popularity decay and release windows; defaults to Date.now()
+  now?: number
+  popularityHalfLifeDays?: number
+  weights?: EngineWeights
+}
+
+// Share of the final score from each signal; the parts sum to the score
+export interface ScoreContributions {
+  content: number
+  collaborative: number
+  popularity: number
+  recency: number
+}
+
+export interface ScoredGame {
+  game: Game
+  // 0-1
+  score: number
+  contributions: ScoreContributions
+  // Per-attribute match between the game and the player's preferences, 0-1
+  features: Record<ContentFeature, number>
+}
+
+// The parts of a content score: each preference match, plus likeness to recent games
+export interface ContentBreakdown {
+  features: Record<ContentFeature, number>
+  recentSimilarity: number
+}
+
+export interface RankOptions {
+  limit?: number
+  excludeGameIds?: number[]
+  // Replaces the engine's weights for one hybrid ranking, e.g. a player's own settings
+  weights?: EngineWeights
+}
+
+// Player counts used to simulate play history for co-occurrence and popularity
+const MOCK_PLAYER_COUNT = 200
+const MOCK_PLAYS_PER_PLAYER = 12
+const MOCK_HISTORY_DAYS = 30
+
+const volatilityLevel = (game: Game) => game.volatility?.level ?? 2
+
+const levelOf = (volatilityName: string) =>
+  mockVolatilities.find(volatility => volatility.volatilityName === volatilityName)?.level ?? 2
+
+// 1 inside the range, falling to 0 four points outside it
+const rtpMatch = (rtp: number | undefined, range: { min: number; max: number }) => {
+  if (rtp === undefined) return 0
+  const distance = rtp < range.min ? range.min - rtp : rtp > range.max ? rtp - range.max : 0
+  return Math.max(0, 1 - distance / 4)
+}
+
+const weightedSum = (features: Record<ContentFeature, number>) =>
+  (Object.keys(CONTENT_FEATURE_WEIGHTS) as ContentFeature[])
+    .reduce((sum, feature) => sum + CONTENT_FEATURE_WEIGHTS[feature] * features[feature], 0)
+
+/**
+ * Attribute-by-attribute similarity between two games, 0-1
+ */
+export function gameSimilarity(a: Game, b: Game): number {
+  return weightedSum({
+    provider: a.providerId === b.providerId ? 1 : 0,
+    type: a.gameTypeId === b.gameTypeId ? 1 : 0,
+    volatility: 1 - Math.abs(volatilityLevel(a) - volatilityLevel(b)) / 3,
+    theme: a.themeId === b.themeId ? 1 : 0,
+    rtp: a.rtpPercentage !== undefined && b.rtpPercentage !== undefined
+      ? Math.max(0, 1 - Math.abs(a.rtpPercentage - b.rtpPercentage) / 8)
+      : 0,
+  })
+}
+
+/**
+ * How well a game matches the player's stated preferences, per attribute
+ */
+export function preferenceFeatures(profile: PlayerProfile, game: Game): Record<ContentFeature, number> {
+  const { preferences } = profile
+  const preferredLevels = preferences.preferredVolatility.map(levelOf)
+  const closestLevel = preferredLevels.length > 0
+    ? Math.min(...preferredLevels.map(level => Math.abs(level - volatilityLevel(game))))
+    : 3
+
+  return {
+    provider: preferences.favoriteProviders.includes(game.providerName ?? '') ? 1 : 0,
+    type: preferences.favoriteCategories.includes(game.gameTypeName ?? '') ? 1 : 0,
+    volatility: 1 - closestLevel / 3,
+    theme: preferences.preferredThemes.includes(game.theme?.themeName ?? '') ? 1 : 0,
+    rtp: rtpMatch(game.rtpPercentage, preferences.preferredRTPRange),
+  }
+}
+
+/**
+ * Item-item co-occurrence counts: how many players played both games
+ */
+export function buildCoOccurrence(interactions: GameInteraction[]): Map<number, Map<number, number>> {
+  const gamesByPlayer = new Map<number, Set<number>>()
+  interactions.forEach(({ playerId, gameId }) => {
+    if (!gamesByPlayer.has(playerId)) gamesByPlayer.set(playerId, new Set())
+    gamesByPlayer.get(playerId)!.add(gameId)
+  })
+
+  const counts = new Map<number, Map<number, number>>()
+  const increment = (a: number, b: number) => {
+    if (!counts.has(a)) counts.set(a, new Map())
+    const row = counts.get(a)!
+    row.set(b, (row.get(b) ?? 0) + 1)
+  }
+
+  gamesByPlayer.forEach(games => {
+    const ids = [...games]
+    ids.forEach(a => {
+      increment(a, a)
+      ids.forEach(b => a !== b && increment(a, b))
+    })
+  })
+  return counts
+}
+
+/**
+ * Exponentially decayed play counts, normalised so the most popular game scores 1
+ */
+export function popularityScores(interactions: GameInteraction[], now: number, halfLifeDays: number): Map<number, number> {
+  const scores = new Map<number, number>()
+  interactions.forEach(({ gameId, timestamp, weight }) => {
+    const ageDays = Math.max(0, now - timestamp) / DAY_MS
+    const decayed = weight * Math.pow(0.5, ageDays / halfLifeDays)
+    scores.set(gameId, (scores.get(gameId) ?? 0) + decayed)
+  })
+
+  const max = Math.max(0, ...scores.values())
+  if (max > 0) scores.forEach((score, gameId) => scores.set(gameId, score / max))
+  return scores
+}
+
+const pickSome = <T,>(random: () => number, items: T[], min: number, max: number): T[] => {
+  const count = min + Math.floor(random() * (max - min + 1))
+  const pool = [...items]
+  const picked: T[] = []
+  while (picked.length < count && pool.length > 0) {
+    picked.push(pool.splice(Math.floor(random() * pool.length), 1)[0]!)
+  }
+  return picked
+}
+
+// Weighted draw without replacement; weights must be positive
+const sampleByWeight = (random: () => number, games: Game[], weights: number[], count: number): Game[] => {
+  const pool = games.map((game, index) => ({ game, weight: weights[index] ?? 0 }))
+  const picked: Game[] = []
+  while (picked.length < count && pool.length > 0) {
+    const total = pool.reduce((sum, item) => sum + item.weight, 0)
+    let target = random() * total
+    const index = pool.findIndex(item => (target -= item.weight) <= 0)
+    picked.push(pool.splice(index === -1 ? pool.length - 1 : index, 1)[0]!.game)
+  }
+  return picked
+}
+
+/**
+ * A plausible player profile derived only from the seed and player ID.
+ * Recent games are drawn towards the player's preferences, so similar players
+ * end up with overlapping histories.
+ */
+export function generateMockPlayerProfile(playerId: number, games: Game[], seed: number, now = Date.now()): PlayerProfile {
+  const random = createSeededRandom(hashSeed(seed, 'player', playerId))
+  const pick = <T,>(items: readonly T[]) => items[Math.floor(random() * items.length)]!
+
+  const profile: PlayerProfile = {
+    playerId,
+    preferences: {
+      favoriteCategories: pickSome(random, mockGameTypes.map(type => type.gameTypeName), 1, 2),
+      favoriteProviders: pickSome(random, mockProviders.map(provider => provider.providerName), 1, 3),
+      preferredVolatility: pickSome(random, mockVolatilities.map(volatility => volatility.volatilityName), 1, 2),
+      preferredThemes: pickSome(random, mockThemes.map(theme => theme.themeName), 1, 2),
+      preferredRTPRange: { min: 94, max: 98 },
+      preferredBetRange: { min: 0.1, max: 10 },
+      devicePreference: random() > 0.5 ? 'mobile' : 'desktop',
+      sessionTimePreference: pick(['short', 'medium', 'long'] as const),
+    },
+    behavior: {
+      totalSessions: Math.floor(random() * 500) + 50,
+      totalPlayTime: Math.floor(random() * 10000) + 1000,
+      averageSessionDuration: Math.floor(random() * 30) + 15,
+      averageBetSize: random() * 5 + 1,
+      favoritePlayingTimes: [18, 19, 20, 21, 22],
+      weekdayVsWeekend: { weekday: 60, weekend: 40 },
+      gameCompletionRate: random() * 40 + 60,
+      bonusFeatureUsage: random() * 50 + 30,
+      socialEngagement: random() * 30 + 10,
+    },
+    demographics: {
+      ageGroup: pick(['18-25', '26-35', '36-45', '46-55', '55+']),
+      country: pick(['US', 'UK', 'DE', 'CA', 'AU']),
+      registrationDate: new Date(now - random() * 365 * DAY_MS).toISOString(),
+      vipLevel: pick(['Bronze', 'Silver', 'Gold', 'Platinum']),
+      totalDeposits: Math.floor(random() * 10000) + 500,
+      lifetimeValue: Math.floor(random() * 5000) + 200,
+    },
+    recentActivity: {
+      lastLoginDate: new Date(now - random() * 7 * DAY_MS).toISOString(),
+      recentGames: [],
+      recentSessions: [],
+    },
+  }
+
+  const affinities = games.map(game => 0.05 + Math.pow(weightedSum(preferenceFeatures(profile, game)), 3))
+  const recent = sampleByWeight(random, games, affinities, 5)
+  profile.recentActivity.recentGames = recent.map(game => game.gameId)
+  profile.recentActivity.recentSessions = recent.slice(0, 3).map(game => ({
+    gameId: game.gameId,
+    duration: Math.floor(random() * 60) + 10,
+    betAmount: random() * 10 + 1,
+    outcome: random() > 0.5 ? 'win' : 'loss',
+    enjoymentScore: random() * 3 + 3,
+  }))
+  return profile
+}
+
+/**
+ * Simulated play history for a population of mock players. Each game also has a
+ * seeded base appeal so some titles are genuinely more popular than others.
+ */
+export function generateMockInteractions(games: Game[], seed: number, now = Date.now()): GameInteraction[] {
+  const appealRandom = createSeededRandom(hashSeed(seed, 'appeal'))
+  const appeal = new Map(games.map(game => [game.gameId, 0.2 + appealRandom()]))
+
+  const interactions: GameInteraction[] = []
+  for (let playerId = 1; playerId <= MOCK_PLAYER_COUNT; playerId++) {
+    const profile = generateMockPlayerProfile(playerId, games, seed, now)
+    const random = createSeededRandom(hashSeed(seed, 'history', playerId))
+    const weights = games.map(game =>
+      appeal.get(game.gameId)! * (0.05 + Math.pow(weightedSum(preferenceFeatures(profile, game)), 3))
+    )
+    sampleByWeight(random, games, weights, MOCK_PLAYS_PER_PLAYER).forEach(game => {
+      interactions.push({
+        playerId,
+        gameId: game.gameId,
+        timestamp: now - random() * MOCK_HISTORY_DAYS * DAY_MS,
+        weight: 1 + Math.floor(random() * 3),
+      })
+    })
+  }
+  return interactions
+}
+
+export class RecommendationEngine {
+  private readonly games: Game[]
+  private readonly seed: number
+  private readonly now: number
+  private readonly weights: EngineWeights
+  private readonly coOccurrence: Map<number, Map<number, number>>
+  private readonly popularity: Map<number, number>
+  private readonly gamesByPlayer = new Map<number, Set<number>>()
+
+  constructor(games: Game[], interactions: GameInteraction[], options: EngineOptions) {
+    this.games = games.filter(game => game.isActive && !game.hideInLobby)
+    this.seed = options.seed
+    this.now = options.now ?? Date.now()
+    this.weights = options.weights ?? DEFAULT_ENGINE_WEIGHTS
+    this.coOccurrence = buildCoOccurrence(interactions)
+    this.popularity = popularityScores(interactions, this.now, options.popularityHalfLifeDays ?? 7)
+    interactions.forEach(({ playerId, gameId }) => {
+      if (!this.gamesByPlayer.has(playerId)) this.gamesByPlayer.set(playerId, new Set())
+      this.gamesByPlayer.get(playerId)!.add(gameId)
+    })
+  }
+
+  /**
+   * Build an engine over the mock catalogue with a simulated play history
+   */
+  static fromMockData(games: Game[], options: EngineOptions): RecommendationEngine {
+    const now = options.now ?? Date.now()
+    return new RecommendationEngine(games, generateMockInteractions(games, options.seed, now), { ...options, now })
+  }
+
+  getGame(gameId: number): Game | undefined {
+    return this.games.find(game => game.gameId === gameId)
+  }
+
+  /**
+   * The games this engine can recommend: active and shown in the lobby
+   */
+  getGames(): Game[] {
+    return this.games
+  }
+
+  /**
+   * Content score: preference match blended with similarity to recently played games
+   */
+  contentScore(profile: PlayerProfile, game: Game): number {
+    const { features, recentSimilarity } = this.contentBreakdown(profile, game)
+    return Object.values(features).reduce((sum, value) => sum + value, recentSimilarity)
+  }
+
+  /**
+   * How much each preference match and the likeness to recent games add to the content score
+   */
+  contentBreakdown(profile: PlayerProfile, game: Game): ContentBreakdown {
+    const matches = preferenceFeatures(profile, game)
+    const recent = profile.recentActivity.recentGames
+      .map(gameId => this.getGame(gameId))
+      .filter((recentGame): recentGame is Game => !!recentGame && recentGame.gameId !== game.gameId)
+    const preferenceShare = recent.length === 0 ? 1 : 0.6
+
+    const features = Object.fromEntries((Object.keys(matches) as ContentFeature[]).map(feature =>
+      [feature, preferenceShare * CONTENT_FEATURE_WEIGHTS[feature] * matches[feature]]
+    )) as Record<ContentFeature, number>
+    return {
+      features,
+      recentSimilarity: recent.length === 0
+        ? 0
+        : 0.4 * Math.max(...recent.map(recentGame => gameSimilarity(recentGame, game))),
+    }
+  }
+
+  /**
+   * Mock players whose play history overlaps most with the player's recent games,
+   * by Jaccard similarity of the games played
+   */
+  similarPlayers(profile: PlayerProfile, count = 5): SimilarPlayer[] {
+    const recent = new Set(profile.recentActivity.recentGames)
+    if (recent.size === 0) return []
+
+    const similar: SimilarPlayer[] = []
+    this.gamesByPlayer.forEach((played, playerId) => {
+      if (playerId === profile.playerId) return
+      const commonGames = [...played].filter(gameId => recent.has(gameId)).length
+      if (commonGames === 0) return
+      similar.push({ playerId, similarity: commonGames / (played.size + recent.size - commonGames), commonGames })
+    })
+    return similar
+      .sort((a, b) => b.similarity - a.similarity || a.playerId - b.playerId)
+      .slice(0, count)
+  }
+
+  /**
+   * Cosine co-occurrence between a game and the player's recent games, unnormalised
+   */
+  private coOccurrenceScore(recentGames: number[], gameId: number): number {
+    const ownCount = this.coOccurrence.get(gameId)?.get(gameId) ?? 0
+    if (ownCount === 0 || recentGames.length === 0) return 0
+
+    const total = recentGames.reduce((sum, recentId) => {
+      const together = this.coOccurrence.get(recentId)?.get(gameId) ?? 0
+      const recentCount = this.coOccurrence.get(recentId)?.get(recentId) ?? 0
+      return recentCount > 0 ? sum + together / Math.sqrt(ownCount * recentCount) : sum
+    }, 0)
+    return total / recentGames.length
+  }
+
+  popularityScore(gameId: number): number {
+    return this.popularity.get(gameId) ?? 0
+  }
+
+  // Stable per-seed order for equal scores
+  private tieBreak(gameId: number): number {
+    return hashSeed(this.seed, 'tie', gameId)
+  }
+
+  private rank(scored: ScoredGame[], options: RankOptions): ScoredGame[] {
+    const excluded = new Set(options.excludeGameIds ?? [])
+    return scored
+      .filter(entry => !excluded.has(entry.game.gameId))
+      .sort((a, b) => b.score - a.score || this.tieBreak(a.game.gameId) - this.tieBreak(b.game.gameId))
+      .slice(0, options.limit ?? scored.length)
+  }
+
+  /**
+   * Hybrid personal ranking: weighted content, co-occurrence and popularity
+   */
+  recommend(profile: PlayerProfile, options: RankOptions = {}): ScoredGame[] {
+    const recentGames = profile.recentActivity.recentGames
+    const collaborative = new Map(this.games.map(game => [game.gameId, this.coOccurrenceScore(recentGames, game.gameId)]))
+    const maxCollaborative = Math.max(0, ...collaborative.values())
+    const weights = options.weights ?? this.weights
+    const totalWeight = weights.content + weights.collaborative + weights.popularity || 1
+
+    return this.rank(this.games.map(game => {
+      const contributions = {
+        content: weights.content * this.contentScore(profile, game) / totalWeight,
+        collaborative: maxCollaborative > 0
+          ? weights.collaborative * collaborative.get(game.gameId)! / maxCollaborative / totalWeight
+          : 0,
+        popularity: weights.popularity * this.popularityScore(game.gameId) / totalWeight,
+        recency: 0,
+      }
+      return {
+        game,
+        score: contributions.content + contributions.collaborative + contributions.popularity,
+        contributions,
+        features: preferenceFeatures(profile, game),
+      }
+    }), options)
+  }
+
+  /**
+   * Games played alongside the given game, by co-occurrence with content similarity as fallback
+   */
+  similarTo(profile: PlayerProfile, gameId: number, options: RankOptions = {}): ScoredGame[] {
+    const source = this.getGame(gameId)
+    if (!source) return []
+
+    return this.rank(this.games
+      .filter(game => game.gameId !== gameId)
+      .map(game => {
+        const collaborative = this.coOccurrenceScore([gameId], game.gameId)
+        const content = gameSimilarity(source, game)
+        return {
+          game,
+          score: 0.7 * collaborative + 0.3 * content,
+          contributions: { content: 0.3 * content, collaborative: 0.7 * collaborative, popularity: 0, recency: 0 },
+          features: preferenceFeatures(profile, game),
+        }
+      }), options)
+  }
+
+  /**
+   * Most played games, with older plays decaying by the configured half-life
+   */
+  trending(profile: PlayerProfile, options: RankOptions = {}): ScoredGame[] {
+    return this.rank(this.games.map(game => {
+      const popularity = this.popularityScore(game.gameId)
+      return {
+        game,
+        score: popularity,
+        contributions: { content: 0, collaborative: 0, popularity, recency: 0 },
+        features: preferenceFeatures(profile, game),
+      }
+    }), options)
+  }
+
+  /**
+   * Games released within the window, newest first and nudged by content match
+   */
+  newReleases(profile: PlayerProfile, windowDays: number, options: RankOptions = {}): ScoredGame[] {
+    return this.rank(this.games
+      .map(game => ({ game, ageDays: (this.now - new Date(game.releaseDate || game.createdDate).getTime()) / DAY_MS }))
+      .filter(({ ageDays }) => ageDays >= 0 && ageDays <= windowDays)
+      .map(({ game, ageDays }) => {
+        const recency = 1 - ageDays / windowDays
+        const content = this.contentScore(profile, game)
+        return {
+          game,
+          score: 0.6 * recency + 0.4 * content,
+          contributions: { content: 0.4 * content, collaborative: 0, popularity: 0, recency: 0.6 * recency },
+          features: preferenceFeatures(profile, game),
+        }
+      }), options)
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Recommendation Event Tracker
+ * Collects impressions and interactions with recommended games, sends them in
+ * batches and keeps undelivered events in IndexedDB until the server has them
+ */
+
+import { generateId } from '@/lib/utils'
+import { recommendationService } from './recommendationService'
+import type { RecommendationEvent } from '../types'
+
+export type TrackedEventInput = Omit<RecommendationEvent, 'eventId' | 'timestamp' | 'context'> & {
+  context: Omit<RecommendationEvent['context'], 'sessionId' | 'deviceType'>
+}
+
+const TRACKER_CONFIG = {
+  BATCH_SIZE: 20,
+  FLUSH_INTERVAL: 5000,
+  MAX_RETRY_DELAY: 60 * 1000,
+  DB_NAME: 'gaiming-recommendation-events',
+  DB_VERSION: 1,
+  EVENT_STORE: 'pending',
+  SESSION_KEY: 'recommendationSessionId',
+} as const
+
+/**
+ * Where pending events live until delivered; IndexedDB when available
+ */
+interface PendingEventStore {
+  add(events: RecommendationEvent[]): Promise<void>
+  remove(eventIds: string[]): Promise<void>
+  getAll(): Promise<RecommendationEvent[]>
+}
+
+class MemoryEventStore implements PendingEventStore {
+  private events = new Map<string, RecommendationEvent>()
+
+  async add(events: RecommendationEvent[]): Promise<void> {
+    events.forEach(event => this.events.set(event.eventId, event))
+  }
+
+  async remove(eventIds: string[]): Promise<void> {
+    eventIds.forEach(eventId => this.events.delete(eventId))
+  }
+
+  async getAll(): Promise<RecommendationEvent[]> {
+    return [...this.events.values()]
+  }
+}
+
+class IndexedDbEventStore implements PendingEventStore {
+  constructor(private readonly db: IDBDatabase) {}
+
+  add(events: RecommendationEvent[]): Promise<void> {
+    return this.transact('readwrite', store => events.forEach(event => store.put(event)))
+  }
+
+  remove(eventIds: string[]): Promise<void> {
+    return this.transact('readwrite', store => eventIds.forEach(eventId => store.delete(eventId)))
+  }
+
+  getAll(): Promise<RecommendationEvent[]> {
+    return new Promise((resolve, reject) => {
+      const request = this.db
+        .transaction(TRACKER_CONFIG.EVENT_STORE, 'readonly')
+        .objectStore(TRACKER_CONFIG.EVENT_STORE)
+        .getAll()
+      request.onsuccess = () => resolve(request.result as RecommendationEvent[])
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  private transact(mode: IDBTransactionMode, run: (store: IDBObjectStore) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db.transaction(TRACKER_CONFIG.EVENT_STORE, mode)
+      run(transaction.objectStore(TRACKER_CONFIG.EVENT_STORE))
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+}
+
+function openEventDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(TRACKER_CONFIG.DB_NAME, TRACKER_CONFIG.DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(TRACKER_CONFIG.EVENT_STORE, { keyPath: 'eventId' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function createEventStore(): Promise<PendingEventStore> {
+  if (typeof window === 'undefined' || !window.indexedDB) {
+    return new MemoryEventStore()
+  }
+
+  try {
+    return new IndexedDbEventStore(await openEventDatabase())
+  } catch (error) {
+    console.warn('Recommendation events will not survive a reload:', error)
+    return new MemoryEventStore()
+  }
+}
+
+// Client errors other than timeouts and rate limits will never succeed on retry
+const isPermanentFailure = (error: unknown): boolean => {
+  const response = typeof error === 'object' && error !== null && 'response' in error ? error.response : null
+  const status = typeof response === 'object' && response !== null && 'status' in response ? response.status : null
+  return typeof status === 'number' && status >= 400 && status < 500 && status !== 408 && status !== 429
+}
+
+class RecommendationEventTracker {
+  private store: Promise<PendingEventStore> | null = null
+  private queue: RecommendationEvent[] = []
+  private seenImpressions = new Set<string>()
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+  private flushing: Promise<void> | null = null
+  private failures = 0
+  private started = false
+  private sessionId: string | null = null
+
+  /**
+   * Record an event; impressions are only counted once per game, slot and session
+   */
+  track(input: TrackedEventInput): void {
+    this.start()
+
+    if (input.eventType === 'impression') {
+      const key = `${input.context.category}:${input.context.position}:${input.gameId}`
+      if (this.seenImpressions.has(key)) return
+      this.seenImpressions.add(key)
+    }
+
+    const event: RecommendationEvent = {
+      ...input,
+      eventId: `evt_${Date.now()}_${generateId(10)}`,
+      timestamp: new Date().toISOString(),
+      context: {
+        ...input.context,
+        sessionId: this.getSessionId(),
+        deviceType: typeof window !== 'undefined' && window.innerWidth < 768 ? 'mobile' : 'desktop',
+      },
+    }
+
+    this.queue.push(event)
+    void this.getStore().then(store => store.add([event])).catch(error => {
+      console.warn('Failed to persist recommendation event:', error)
+    })
+
+    // While backing off after a failure, a full batch waits for the retry like everything else
+    if (this.queue.length >= TRACKER_CONFIG.BATCH_SIZE && this.failures === 0) {
+      void this.flush()
+    } else {
+      this.scheduleFlush(TRACKER_CONFIG.FLUSH_INTERVAL)
+    }
+  }
+
+  /**
+   * Send everything queued, in batches; failed batches stay queued for a later attempt
+   */
+  flush(): Promise<void> {
+    if (this.flushing) return this.flushing
+
+    this.clearFlushTimer()
+    this.flushing = this.deliver().then(retryDelay => {
+      this.flushing = null
+      if (retryDelay !== null) this.scheduleFlush(retryDelay)
+    })
+    return this.flushing
+  }
+
+  /**
+   * Reload events left over from earlier visits and watch for the page going away
+   */
+  start(): void {
+    if (this.started || typeof window === 'undefined') return
+    this.started = true
+
+    void this.getStore().then(async store => {
+      const pending = await store.getAll()
+      const queued = new Set(this.queue.map(event => event.eventId))
+      this.queue.unshift(...pending.filter(event => !queued.has(event.eventId)))
+      if (this.queue.length > 0) this.scheduleFlush(0)
+    }).catch(error => {
+      console.warn('Failed to load pending recommendation events:', error)
+    })
+
+    window.addEventListener('online', this.handleOnline)
+    document.addEventListener('visibilitychange', this.handleVisibilityChange)
+  }
+
+  // Resolves with the delay before the next attempt when a batch could not be sent
+  private async deliver(): Promise<number | null> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.slice(0, TRACKER_CONFIG.BATCH_SIZE)
+      const eventIds = batch.map(event => event.eventId)
+
+      try {
+        await recommendationService.sendEvents(batch)
+        this.failures = 0
+        this.dequeue(eventIds)
+      } catch (error) {
+        if (isPermanentFailure(error)) {
+          console.warn('Recommendation events rejected by the server; dropping batch:', error)
+          this.dequeue(eventIds)
+          continue
+        }
+
+        this.failures++
+        return Math.min(TRACKER_CONFIG.FLUSH_INTERVAL * 2 ** this.failures, TRACKER_CONFIG.MAX_RETRY_DELAY)
+      }
+    }
+    return null
+  }
+
+  private dequeue(eventIds: string[]): void {
+    const delivered = new Set(eventIds)
+    this.queue = this.queue.filter(event => !delivered.has(event.eventId))
+    void this.getStore().then(store => store.remove(eventIds)).catch(error => {
+      console.warn('Failed to clear delivered recommendation events:', error)
+    })
+  }
+
+  private scheduleFlush(delay: number): void {
+    if (this.flushTimer || this.flushing) return
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null
+      void this.flush()
+    }, delay)
+  }
+
+  private clearFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+  }
+
+  private getStore(): Promise<PendingEventStore> {
+    if (!this.store) this.store = createEventStore()
+    return this.store
+  }
+
+  // One ID per tab, kept across reloads of that tab
+  private getSessionId(): string {
+    if (this.sessionId) return this.sessionId
+    try {
+      this.sessionId = sessionStorage.getItem(TRACKER_CONFIG.SESSION_KEY)
+      if (!this.sessionId) {
+        this.sessionId = `rs_${Date.now()}_${generateId(9)}`
+        sessionStorage.setItem(TRACKER_CONFIG.SESSION_KEY, this.sessionId)
+      }
+    } catch {
+      this.sessionId = `rs_${Date.now()}_${generateId(9)}`
+    }
+    return this.sessionId
+  }
+
+  private handleOnline = (): void => {
+    this.failures = 0
+    void this.flush()
+  }
+
+  // Send what we have before the tab is hidden or closed; IndexedDB covers anything that misses
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') void this.flush()
+  }
+}
+
+// Export singleton instance
+export const recommendationEventTracker = new RecommendationEventTracker()
@@ -4,7 +4,8 @@
  */
 
 import { apiService } from '@/shared/services/api'
-import { mockGames } from '@/shared/services/mockDataService'
+import { settingsApi } from '@/services/settingsApi'
+import { MOCK_REFERENCE_NOW, mockGames } from '@/shared/services/mockDataService'
 import type {
   RecommendationRequest,
   RecommendationResponse,
@@ -16,233 +17,321 @@ import type {
   RecommendationSettings,
   RecommendationDashboard,
   RecommendationCategory,
-  RecommendationAlgorithm
+  RecommendationAlgorithm,
+  RecommendationReason,
+  RecommendationEvent,
+  RecommendationExplanation,
+  ExplanationContribution,
+  SimilarPlayer,
+  DiversityOptions
 } from '../types'
+import type { Game } from '@/features/games/types'
+import {
+  RecommendationEngine,
+  generateMockPlayerProfile,
+  preferenceFeatures,
+  type ContentFeature,
+  type ScoredGame
+} from './recommendationEngine'
+import {
+  capPerProvider,
+  DEFAULT_DIVERSITY_OPTIONS,
+  diversify,
+  measureDiversity,
+  toDiversityOptions
+} from './recommendationDiversity'
+import {
+  allowsPersonalization,
+  createDefaultRecommendationSettings,
+  getCategoryOrProviderExclusion,
+  getExcludedGameIds,
+  getExclusionReason,
+  NEW_GAME_WINDOW_DAYS,
+  toEngineWeights
+} from './recommendationSettings'
 
 // Development mode check
 const isDevelopment = process.env.NODE_ENV === 'development'
 
-// Mock player profiles for development
-const generateMockPlayerProfile = (playerId: number): PlayerProfile => ({
-  playerId,
-  preferences: {
-    favoriteCategories: ['Video Slots', 'Live Casino'].slice(0, Math.floor(Math.random() * 2) + 1),
-    favoriteProviders: ['NetEnt', 'Microgaming', 'Play\'n GO'].slice(0, Math.floor(Math.random() * 2) + 1),
-    preferredVolatility: ['Medium', 'High'].slice(0, Math.floor(Math.random() * 2) + 1),
-    preferredThemes: ['Adventure', 'Ancient Egypt', 'Fantasy'].slice(0, Math.floor(Math.random() * 2) + 1),
-    preferredRTPRange: { min: 94, max: 98 },
-    preferredBetRange: { min: 0.1, max: 10 },
-    devicePreference: Math.random() > 0.5 ? 'mobile' : 'desktop',
-    sessionTimePreference: ['short', 'medium', 'long'][Math.floor(Math.random() * 3)] as any
-  },
-  behavior: {
-    totalSessions: Math.floor(Math.random() * 500) + 50,
-    totalPlayTime: Math.floor(Math.random() * 10000) + 1000,
-    averageSessionDuration: Math.floor(Math.random() * 30) + 15,
-    averageBetSize: Math.random() * 5 + 1,
-    favoritePlayingTimes: [18, 19, 20, 21, 22],
-    weekdayVsWeekend: { weekday: 60, weekend: 40 },
-    gameCompletionRate: Math.random() * 40 + 60,
-    bonusFeatureUsage: Math.random() * 50 + 30,
-    socialEngagement: Math.random() * 30 + 10
-  },
-  demographics: {
-    ageGroup: ['18-25', '26-35', '36-45', '46-55', '55+'][Math.floor(Math.random() * 5)],
-    country: ['US', 'UK', 'DE', 'CA', 'AU'][Math.floor(Math.random() * 5)],
-    registrationDate: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000).toISOString(),
-    vipLevel: ['Bronze', 'Silver', 'Gold', 'Platinum'][Math.floor(Math.random() * 4)],
-    totalDeposits: Math.floor(Math.random() * 10000) + 500,
-    lifetimeValue: Math.floor(Math.random() * 5000) + 200
-  },
-  recentActivity: {
-    lastLoginDate: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000).toISOString(),
-    recentGames: Array.from({ length: 5 }, () => Math.floor(Math.random() * 50) + 1),
-    recentSessions: Array.from({ length: 3 }, () => ({
-      gameId: Math.floor(Math.random() * 50) + 1,
-      duration: Math.floor(Math.random() * 60) + 10,
-      betAmount: Math.random() * 10 + 1,
-      outcome: Math.random() > 0.5 ? 'win' : 'loss' as any,
-      enjoymentScore: Math.random() * 3 + 3
-    }))
+// Fixed seed so development and demo rankings are reproducible
+const MOCK_RECOMMENDATION_SEED = 1001
+
+const RISK_BY_VOLATILITY: Record<number, GameRecommendation['metadata']['riskLevel']> = {
+  1: 'low',
+  2: 'medium',
+  3: 'high',
+  4: 'high'
+}
+
+const describeMatch = (entry: ScoredGame, profile: PlayerProfile): RecommendationReason[] => {
+  const { game, features, contributions } = entry
+  const reasons: RecommendationReason[] = []
+
+  if (contributions.content > 0) {
+    const matched = [
+      features.provider === 1 && game.providerName,
+      features.type === 1 && game.gameTypeName,
+      features.theme === 1 && game.theme?.themeName
+    ].filter(Boolean)
+    reasons.push({
+      type: 'preference',
+      description: matched.length > 0
+        ? `Matches your favourites: ${matched.join(', ')}`
+        : 'Similar to games you have played recently',
+      confidence: Math.min(1, contributions.content / Math.max(entry.score, 0.0001)),
+      weight: contributions.content
+    })
+  }
+  if (contributions.collaborative > 0) {
+    reasons.push({
+      type: 'similarity',
+      description: profile.recentActivity.recentGames.length > 0
+        ? 'Often played by players who enjoyed your recent games'
+        : 'Popular with players like you',
+      confidence: Math.min(1, contributions.collaborative / Math.max(entry.score, 0.0001)),
+      weight: contributions.collaborative
+    })
+  }
+  if (contributions.popularity > 0) {
+    reasons.push({
+      type: 'trending',
+      description: 'Currently trending among all players',
+      confidence: Math.min(1, contributions.popularity / Math.max(entry.score, 0.0001)),
+      weight: contributions.popularity
+    })
+  }
+  if (contributions.recency > 0) {
+    reasons.push({
+      type: 'trending',
+      description: 'New release - be among the first to try it!',
+      confidence: Math.min(1, contributions.recency / Math.max(entry.score, 0.0001)),
+      weight: contributions.recency
+    })
   }
-})
 
-// Mock recommendation algorithms
-class RecommendationAlgorithms {
-  /**
-   * Collaborative Filtering - based on similar players
-   */
-  static collaborativeFiltering(playerProfile: PlayerProfile, allGames: any[]): GameRecommendation[] {
-    return allGames
-      .filter(game => !playerProfile.recentActivity.recentGames.includes(game.gameId))
-      .slice(0, 10)
-      .map(game => ({
-        gameId: game.gameId,
-        gameName: game.gameName,
-        providerName: game.providerName,
-        gameTypeName: game.gameTypeName,
-        imageUrl: game.imageUrl,
-        score: Math.random() * 30 + 70, // 70-100
-        reasons: [
-          {
-            type: 'similarity',
-            description: 'Players with similar preferences enjoyed this game',
-            confidence: 0.85,
-            weight: 0.6
-          }
-        ],
-        algorithm: 'collaborative_filtering' as RecommendationAlgorithm,
-        category: 'for_you' as RecommendationCategory,
-        metadata: {
-          expectedPlayTime: Math.floor(Math.random() * 30) + 15,
-          expectedEngagement: Math.random() * 0.3 + 0.7,
-          expectedRevenue: Math.random() * 50 + 20,
-          riskLevel: 'medium' as any,
-          noveltyScore: Math.random() * 0.5 + 0.3
-        },
-        personalizedFeatures: {
-          recommendedBetSize: playerProfile.behavior.averageBetSize * (0.8 + Math.random() * 0.4),
-          expectedWinRate: Math.random() * 0.2 + 0.4,
-          similarityToFavorites: Math.random() * 0.4 + 0.6,
-          trendingScore: Math.random() * 0.3 + 0.4
-        }
-      }))
+  return reasons.sort((a, b) => b.weight - a.weight)
+}
+
+// Turn an engine result into the API shape; every figure is derived from the game and player, never random
+const toRecommendation = (
+  entry: ScoredGame,
+  profile: PlayerProfile,
+  engine: RecommendationEngine,
+  algorithm: RecommendationAlgorithm,
+  category: RecommendationCategory
+): GameRecommendation => {
+  const { game } = entry
+  const volatilityLevel = game.volatility?.level ?? 2
+  const rtp = game.rtpPercentage ?? 96
+  const similarity = engine.contentScore(profile, game)
+  const recommendedBetSize = Math.min(
+    Math.max(profile.behavior.averageBetSize, game.minBetAmount ?? 0),
+    game.maxBetAmount ?? Infinity
+  )
+
+  return {
+    gameId: game.gameId,
+    gameName: game.gameName,
+    providerName: game.providerName ?? '',
+    gameTypeName: game.gameTypeName ?? '',
+    imageUrl: game.imageUrl,
+    score: Math.round(entry.score * 1000) / 10,
+    reasons: describeMatch(entry, profile),
+    algorithm,
+    category,
+    metadata: {
+      expectedPlayTime: Math.round(profile.behavior.averageSessionDuration * (0.7 + 0.15 * volatilityLevel)),
+      expectedEngagement: 0.5 + 0.5 * entry.score,
+      expectedRevenue: Math.round(recommendedBetSize * (100 - rtp) * 10) / 10,
+      riskLevel: RISK_BY_VOLATILITY[volatilityLevel] ?? 'medium',
+      noveltyScore: 1 - similarity
+    },
+    personalizedFeatures: {
+      recommendedBetSize,
+      expectedWinRate: Math.max(0.1, 0.55 - 0.07 * volatilityLevel),
+      similarityToFavorites: similarity,
+      trendingScore: engine.popularityScore(game.gameId)
+    }
+  }
+}
+
+const FEATURE_LABELS: Record<ContentFeature, (game: Game) => string> = {
+  provider: game => `Provider: ${game.providerName ?? 'Unknown'}`,
+  type: game => `Category: ${game.gameTypeName ?? 'Unknown'}`,
+  volatility: game => `Volatility: ${game.volatility?.volatilityName ?? 'Unknown'}`,
+  theme: game => `Theme: ${game.theme?.themeName ?? 'Unknown'}`,
+  rtp: game => `RTP: ${game.rtpPercentage?.toFixed(1) ?? '?'}%`
+}
+
+// Score steps in points; the content share is split into the attributes behind it
+const describeContributions = (
+  entry: ScoredGame,
+  profile: PlayerProfile,
+  engine: RecommendationEngine
+): ExplanationContribution[] => {
+  const { game, contributions } = entry
+  const breakdown = engine.contentBreakdown(profile, game)
+  const contentScore = engine.contentScore(profile, game)
+  const contentScale = contentScore > 0 ? contributions.content / contentScore : 0
+  const points = (value: number) => Math.round(value * 1000) / 10
+
+  return [
+    ...(Object.keys(breakdown.features) as ContentFeature[]).map(feature => ({
+      factor: feature,
+      label: FEATURE_LABELS[feature](game),
+      type: 'preference' as const,
+      points: points(breakdown.features[feature] * contentScale)
+    })),
+    { factor: 'recent_similarity', label: 'Like recently played games', type: 'behavior' as const, points: points(breakdown.recentSimilarity * contentScale) },
+    { factor: 'collaborative', label: 'Played by players with similar histories', type: 'similarity' as const, points: points(contributions.collaborative) },
+    { factor: 'popularity', label: 'Trending across all players', type: 'trending' as const, points: points(contributions.popularity) }
+  ]
+}
+
+const describePlayerAttributes = (
+  game: Game,
+  profile: PlayerProfile,
+  engine: RecommendationEngine
+): RecommendationExplanation['playerAttributes'] => {
+  const { preferences, recentActivity } = profile
+  const matches = preferenceFeatures(profile, game)
+  const recentNames = recentActivity.recentGames
+    .map(gameId => engine.getGame(gameId)?.gameName)
+    .filter(Boolean)
+
+  return [
+    { attribute: 'Favourite providers', value: preferences.favoriteProviders.join(', '), matches: matches.provider === 1 },
+    { attribute: 'Favourite categories', value: preferences.favoriteCategories.join(', '), matches: matches.type === 1 },
+    { attribute: 'Preferred volatility', value: preferences.preferredVolatility.join(', '), matches: matches.volatility === 1 },
+    { attribute: 'Preferred themes', value: preferences.preferredThemes.join(', '), matches: matches.theme === 1 },
+    {
+      attribute: 'Preferred RTP',
+      value: `${preferences.preferredRTPRange.min}-${preferences.preferredRTPRange.max}%`,
+      matches: matches.rtp === 1
+    },
+    {
+      attribute: 'Recently played',
+      value: recentNames.join(', ') || 'Nothing yet',
+      // Counts as a match when the game is at least 60% like one of them
+      matches: engine.contentBreakdown(profile, game).recentSimilarity >= 0.4 * 0.6
+    }
+  ]
+}
+
+// Categories built from the player's own history, hidden when privacy allows no personalisation
+const PERSONALIZED_CATEGORIES: RecommendationCategory[] = ['for_you', 'similar_to_played']
+
+/**
+ * Hold a server-ranked response to the player's settings. The server applies the
+ * full settings and the diversity re-ranking; a GameRecommendation only carries
+ * names, so here we can re-check privacy, excluded categories, providers and games,
+ * the provider cap and the list length. The RTP, volatility, new-games and
+ * play-history filters and the similarity re-ordering stay with the server.
+ */
+const enforceServedSettings = (
+  response: RecommendationResponse,
+  settings: RecommendationSettings,
+  diversity: DiversityOptions,
+  excludeGameIds: number[]
+): RecommendationResponse => {
+  const categories = response.categories
+    .filter(category => allowsPersonalization(settings) || !PERSONALIZED_CATEGORIES.includes(category.category))
+    .map(category => ({
+      ...category,
+      recommendations: capPerProvider(
+        category.recommendations.filter(recommendation =>
+          !excludeGameIds.includes(recommendation.gameId)
+            && getCategoryOrProviderExclusion(recommendation, settings) === null
+        ),
+        settings.preferences.maxRecommendationsPerCategory,
+        diversity.maxPerProvider,
+        recommendation => recommendation.providerName
+      )
+    }))
+
+  return {
+    ...response,
+    totalRecommendations: categories.reduce((sum, category) => sum + category.recommendations.length, 0),
+    categories
   }
+}
+
+// Sample of mock players whose served lists feed the development diversity metrics
+const MOCK_ANALYTICS_PLAYERS = 50
+
+class RecommendationService {
+  // Settings saved in development, by player
+  private mockSettings = new Map<number, RecommendationSettings>()
+  // Development engines, by seed; building one generates every mock player's history
+  private mockEngines = new Map<number, RecommendationEngine>()
 
   /**
-   * Content-Based Filtering - based on game features
+   * Diversity rules from the system recommendation settings, or the defaults
+   * when they can't be loaded
    */
-  static contentBased(playerProfile: PlayerProfile, allGames: any[]): GameRecommendation[] {
-    return allGames
-      .filter(game => {
-        // Filter by preferences
-        const matchesCategory = playerProfile.preferences.favoriteCategories.includes(game.gameTypeName)
-        const matchesProvider = playerProfile.preferences.favoriteProviders.includes(game.providerName)
-        const matchesRTP = game.rtpPercentage >= playerProfile.preferences.preferredRTPRange.min
-        
-        return (matchesCategory || matchesProvider || matchesRTP) && 
-               !playerProfile.recentActivity.recentGames.includes(game.gameId)
-      })
-      .slice(0, 8)
-      .map(game => ({
-        gameId: game.gameId,
-        gameName: game.gameName,
-        providerName: game.providerName,
-        gameTypeName: game.gameTypeName,
-        imageUrl: game.imageUrl,
-        score: Math.random() * 25 + 75, // 75-100
-        reasons: [
-          {
-            type: 'preference',
-            description: 'Matches your favorite game categories and providers',
-            confidence: 0.9,
-            weight: 0.8
-          }
-        ],
-        algorithm: 'content_based' as RecommendationAlgorithm,
-        category: 'for_you' as RecommendationCategory,
-        metadata: {
-          expectedPlayTime: Math.floor(Math.random() * 25) + 20,
-          expectedEngagement: Math.random() * 0.2 + 0.8,
-          expectedRevenue: Math.random() * 40 + 30,
-          riskLevel: 'low' as any,
-          noveltyScore: Math.random() * 0.3 + 0.2
-        },
-        personalizedFeatures: {
-          recommendedBetSize: playerProfile.behavior.averageBetSize,
-          expectedWinRate: Math.random() * 0.15 + 0.45,
-          similarityToFavorites: Math.random() * 0.2 + 0.8,
-          trendingScore: Math.random() * 0.4 + 0.3
-        }
-      }))
+  private async getDiversityOptions(): Promise<DiversityOptions> {
+    try {
+      const { recommendation } = await settingsApi.getSettings()
+      return toDiversityOptions(recommendation)
+    } catch {
+      return DEFAULT_DIVERSITY_OPTIONS
+    }
   }
 
   /**
-   * Trending Games - currently popular
+   * The development engine for a seed, built on first use. Mock data is dated
+   * against a fixed moment, so a seed always gives the same recommendations.
    */
-  static trending(allGames: any[]): GameRecommendation[] {
-    return allGames
-      .sort(() => Math.random() - 0.5) // Random shuffle for demo
-      .slice(0, 6)
-      .map(game => ({
-        gameId: game.gameId,
-        gameName: game.gameName,
-        providerName: game.providerName,
-        gameTypeName: game.gameTypeName,
-        imageUrl: game.imageUrl,
-        score: Math.random() * 20 + 80, // 80-100
-        reasons: [
-          {
-            type: 'trending',
-            description: 'Currently trending among all players',
-            confidence: 0.95,
-            weight: 0.7
-          }
-        ],
-        algorithm: 'trending' as RecommendationAlgorithm,
-        category: 'trending' as RecommendationCategory,
-        metadata: {
-          expectedPlayTime: Math.floor(Math.random() * 20) + 15,
-          expectedEngagement: Math.random() * 0.3 + 0.6,
-          expectedRevenue: Math.random() * 60 + 25,
-          riskLevel: 'medium' as any,
-          noveltyScore: Math.random() * 0.6 + 0.4
-        },
-        personalizedFeatures: {
-          recommendedBetSize: Math.random() * 3 + 1,
-          expectedWinRate: Math.random() * 0.2 + 0.4,
-          similarityToFavorites: Math.random() * 0.5 + 0.3,
-          trendingScore: Math.random() * 0.3 + 0.7
-        }
-      }))
+  private getMockEngine(seed: number): RecommendationEngine {
+    let engine = this.mockEngines.get(seed)
+    if (!engine) {
+      engine = RecommendationEngine.fromMockData(mockGames, { seed, now: MOCK_REFERENCE_NOW })
+      this.mockEngines.set(seed, engine)
+    }
+    return engine
   }
 
   /**
-   * New Releases - recently added games
+   * Engine, profile and effective settings for a development request
    */
-  static newReleases(allGames: any[]): GameRecommendation[] {
-    return allGames
-      .filter(game => {
-        const releaseDate = new Date(game.releaseDate || game.createdDate)
-        const daysSinceRelease = (Date.now() - releaseDate.getTime()) / (1000 * 60 * 60 * 24)
-        return daysSinceRelease <= 30 // Last 30 days
-      })
-      .slice(0, 5)
-      .map(game => ({
-        gameId: game.gameId,
-        gameName: game.gameName,
-        providerName: game.providerName,
-        gameTypeName: game.gameTypeName,
-        imageUrl: game.imageUrl,
-        score: Math.random() * 25 + 65, // 65-90
-        reasons: [
-          {
-            type: 'trending',
-            description: 'New release - be among the first to try it!',
-            confidence: 0.8,
-            weight: 0.5
-          }
-        ],
-        algorithm: 'new_releases' as RecommendationAlgorithm,
-        category: 'new_releases' as RecommendationCategory,
-        metadata: {
-          expectedPlayTime: Math.floor(Math.random() * 35) + 10,
-          expectedEngagement: Math.random() * 0.4 + 0.5,
-          expectedRevenue: Math.random() * 45 + 15,
-          riskLevel: 'high' as any,
-          noveltyScore: Math.random() * 0.3 + 0.7
-        },
-        personalizedFeatures: {
-          recommendedBetSize: Math.random() * 4 + 0.5,
-          expectedWinRate: Math.random() * 0.25 + 0.35,
-          similarityToFavorites: Math.random() * 0.6 + 0.2,
-          trendingScore: Math.random() * 0.4 + 0.6
-        }
-      }))
+  private async createMockContext(
+    request: Pick<RecommendationRequest, 'playerId' | 'seed' | 'settings' | 'diversity' | 'excludeRecentlyPlayed' | 'filters'>
+  ) {
+    const seed = request.seed ?? MOCK_RECOMMENDATION_SEED
+    const now = MOCK_REFERENCE_NOW
+    const engine = this.getMockEngine(seed)
+    const playerProfile = generateMockPlayerProfile(request.playerId, mockGames, seed, now)
+    const savedSettings = request.settings ?? await this.getRecommendationSettings(request.playerId)
+    // An explicit request flag wins over the player's playing-history setting
+    const settings: RecommendationSettings = {
+      ...savedSettings,
+      filters: {
+        ...savedSettings.filters,
+        respectPlayingHistory: request.excludeRecentlyPlayed ?? savedSettings.filters.respectPlayingHistory
+      }
+    }
+    const excludeGameIds = [
+      ...getExcludedGameIds(mockGames, settings, playerProfile, now),
+      ...(request.filters?.excludeGames ?? [])
+    ]
+
+    const diversity = request.diversity ?? await this.getDiversityOptions()
+    const limit = settings.preferences.maxRecommendationsPerCategory
+
+    return {
+      seed,
+      now,
+      engine,
+      playerProfile,
+      settings,
+      limit,
+      excludeGameIds,
+      // Every list goes through the diversity stage before it is served
+      serve: (ranked: ScoredGame[]) =>
+        diversify(ranked, limit, diversity, gameId => engine.popularityScore(gameId), now)
+    }
   }
-}
 
-class RecommendationService {
   /**
    * Get personalized game recommendations
    */
@@ -251,26 +340,32 @@ class RecommendationService {
       // Simulate API delay
       await new Promise(resolve => setTimeout(resolve, 800))
       
-      const playerProfile = generateMockPlayerProfile(request.playerId)
-      const allGames = mockGames.slice(0, 50) // Use subset for performance
-      
+      const startedAt = performance.now()
+      const { seed, engine, playerProfile, settings, excludeGameIds, serve } = await this.createMockContext(request)
+      const toRecommendations = (
+        entries: ScoredGame[],
+        algorithm: RecommendationAlgorithm,
+        category: RecommendationCategory
+      ) => entries.map(entry => toRecommendation(entry, playerProfile, engine, algorithm, category))
+
       const categories = [
-        {
+        ...(allowsPersonalization(settings) ? [{
           category: 'for_you' as RecommendationCategory,
           title: 'Recommended for You',
           description: 'Personalized picks based on your playing style',
-          recommendations: [
-            ...RecommendationAlgorithms.collaborativeFiltering(playerProfile, allGames).slice(0, 4),
-            ...RecommendationAlgorithms.contentBased(playerProfile, allGames).slice(0, 4)
-          ].slice(0, 6),
+          recommendations: toRecommendations(
+            serve(engine.recommend(playerProfile, { excludeGameIds, weights: toEngineWeights(settings) })),
+            'hybrid',
+            'for_you'
+          ),
           algorithm: 'hybrid' as RecommendationAlgorithm,
-          refreshRate: 60
-        },
+          refreshRate: settings.preferences.refreshFrequency
+        }] : []),
         {
           category: 'trending' as RecommendationCategory,
           title: 'Trending Now',
           description: 'Popular games among all players',
-          recommendations: RecommendationAlgorithms.trending(allGames),
+          recommendations: toRecommendations(serve(engine.trending(playerProfile, { excludeGameIds })), 'trending', 'trending'),
           algorithm: 'trending' as RecommendationAlgorithm,
           refreshRate: 30
         },
@@ -278,7 +373,7 @@ class RecommendationService {
           category: 'new_releases' as RecommendationCategory,
           title: 'New Releases',
           description: 'Latest games added to our collection',
-          recommendations: RecommendationAlgorithms.newReleases(allGames),
+          recommendations: toRecommendations(serve(engine.newReleases(playerProfile, NEW_GAME_WINDOW_DAYS, { excludeGameIds })), 'new_releases', 'new_releases'),
           algorithm: 'new_releases' as RecommendationAlgorithm,
           refreshRate: 1440 // Daily
         }
@@ -291,17 +386,122 @@ class RecommendationService {
         totalRecommendations: categories.reduce((sum, cat) => sum + cat.recommendations.length, 0),
         categories,
         metadata: {
-          processingTime: Math.random() * 200 + 100,
-          algorithmsUsed: ['collaborative_filtering', 'content_based', 'trending', 'new_releases'],
+          processingTime: Math.round(performance.now() - startedAt),
+          algorithmsUsed: ['collaborative_filtering', 'content_based', 'popularity_based', 'new_releases'],
           dataFreshness: new Date().toISOString(),
-          modelVersion: 'v2.1.0',
+          modelVersion: `local-${seed}`,
           abTestVariant: 'control'
         }
       }
     }
 
-    // Production API call
-    return apiService.post<RecommendationResponse>('/recommendations', request)
+    // Production API call, checked against the same settings and diversity rules
+    const [response, settings, diversity] = await Promise.all([
+      apiService.post<RecommendationResponse>('/recommendations', request),
+      request.settings ?? this.getRecommendationSettings(request.playerId),
+      request.diversity ?? this.getDiversityOptions()
+    ])
+    return enforceServedSettings(response, settings, diversity, request.filters?.excludeGames ?? [])
+  }
+
+  /**
+   * Break down a game's "Recommended for You" score for a player, and say why it
+   * was not shown if it wasn't. Works for any game, not just recommended ones.
+   * The server explains against the player's saved settings, so draft settings
+   * and diversity overrides can only be explained by the local engine.
+   */
+  async explainRecommendation(
+    playerId: number,
+    gameId: number,
+    options: Pick<RecommendationRequest, 'seed' | 'settings' | 'diversity'> = {}
+  ): Promise<RecommendationExplanation> {
+    if (isDevelopment) {
+      await new Promise(resolve => setTimeout(resolve, 300))
+
+      const { now, engine, playerProfile, settings, limit, excludeGameIds, serve } = await this.createMockContext({ playerId, ...options })
+      const game = mockGames.find(candidate => candidate.gameId === gameId)
+      if (!game) {
+        throw new Error(`Game ${gameId} not found`)
+      }
+
+      const weights = toEngineWeights(settings)
+      const shown = allowsPersonalization(settings)
+        ? serve(engine.recommend(playerProfile, { excludeGameIds, weights }))
+        : []
+      const entry = engine.recommend(playerProfile, { weights }).find(candidate => candidate.game.gameId === gameId)
+      const position = shown.findIndex(candidate => candidate.game.gameId === gameId)
+      // Diversity re-ranking means the lowest score on the list need not be the last one
+      const cutoff = shown.length >= limit ? Math.min(...shown.map(candidate => candidate.score)) : null
+
+      const excludedBecause = !entry
+        ? 'Inactive or hidden from the lobby'
+        : !settings.enabled
+          ? 'Recommendations are turned off for this player'
+          : !allowsPersonalization(settings)
+            ? 'Privacy level allows no personalised recommendations'
+            : getExclusionReason(game, settings, playerProfile, now)
+              ?? (position === -1 && cutoff !== null && entry.score > cutoff
+                ? 'Left out to keep the list varied across providers, themes and new releases'
+                : null)
+
+      return {
+        playerId,
+        gameId,
+        gameName: game.gameName,
+        providerName: game.providerName ?? '',
+        score: entry ? Math.round(entry.score * 1000) / 10 : 0,
+        rank: position === -1 ? null : position + 1,
+        cutoffScore: cutoff !== null ? Math.round(cutoff * 1000) / 10 : null,
+        excludedBecause,
+        contributions: entry ? describeContributions(entry, playerProfile, engine) : [],
+        playerAttributes: describePlayerAttributes(game, playerProfile, engine)
+      }
+    }
+
+    if (options.settings || options.diversity) {
+      throw new Error('Draft recommendation settings can only be explained in development')
+    }
+
+    return apiService.get<RecommendationExplanation>(`/recommendations/players/${playerId}/explanations/${gameId}`)
+  }
+
+  /**
+   * Players whose play history is closest to this player's, for collaborative filtering insights.
+   * The seed picks a local mock history; the server uses real play history.
+   */
+  async getSimilarPlayers(playerId: number, count = 5, seed?: number): Promise<SimilarPlayer[]> {
+    if (isDevelopment) {
+      await new Promise(resolve => setTimeout(resolve, 200))
+
+      const { engine, playerProfile } = await this.createMockContext({ playerId, seed })
+      return engine.similarPlayers(playerProfile, count)
+    }
+
+    return apiService.get<SimilarPlayer[]>(`/recommendations/players/${playerId}/similar`, { params: { count } })
+  }
+
+  /**
+   * Get a player's recommendation settings, or the defaults if none are saved
+   */
+  async getRecommendationSettings(playerId: number): Promise<RecommendationSettings> {
+    if (isDevelopment) {
+      return this.mockSettings.get(playerId) ?? createDefaultRecommendationSettings(playerId)
+    }
+
+    return apiService.get<RecommendationSettings>(`/recommendations/settings/${playerId}`)
+  }
+
+  /**
+   * Save a player's recommendation settings
+   */
+  async updateRecommendationSettings(settings: RecommendationSettings): Promise<RecommendationSettings> {
+    if (isDevelopment) {
+      await new Promise(resolve => setTimeout(resolve, 300))
+      this.mockSettings.set(settings.playerId, settings)
+      return settings
+    }
+
+    return apiService.put<RecommendationSettings>(`/recommendations/settings/${settings.playerId}`, settings)
   }
 
   /**
@@ -334,13 +534,41 @@ class RecommendationService {
           { segment: 'High Value', effectiveness: 0.95, engagement: 0.88 },
           { segment: 'Regular', effectiveness: 0.82, engagement: 0.75 },
           { segment: 'New Players', effectiveness: 0.68, engagement: 0.65 }
-        ]
+        ],
+        diversity: await this.measureMockDiversity()
       }
     }
 
     return apiService.get<RecommendationAnalytics>(`/recommendations/analytics?period=${period}`)
   }
 
+  /**
+   * Diversity of the "Recommended for You" lists served to a sample of mock players
+   */
+  private async measureMockDiversity() {
+    const seed = MOCK_RECOMMENDATION_SEED
+    const now = MOCK_REFERENCE_NOW
+    const engine = this.getMockEngine(seed)
+    const diversity = await this.getDiversityOptions()
+    const popularityOf = (gameId: number) => engine.popularityScore(gameId)
+
+    const lists = Array.from({ length: MOCK_ANALYTICS_PLAYERS }, (_, index) => {
+      const playerId = 1001 + index
+      const profile = generateMockPlayerProfile(playerId, mockGames, seed, now)
+      const settings = this.mockSettings.get(playerId) ?? createDefaultRecommendationSettings(playerId)
+      const ranked = allowsPersonalization(settings)
+        ? engine.recommend(profile, {
+          excludeGameIds: getExcludedGameIds(mockGames, settings, profile, now),
+          weights: toEngineWeights(settings)
+        })
+        : []
+      const served = diversify(ranked, settings.preferences.maxRecommendationsPerCategory, diversity, popularityOf, now)
+      return { profile, games: served.map(entry => entry.game) }
+    })
+
+    return measureDiversity(lists, engine.getGames(), popularityOf)
+  }
+
   /**
    * Submit recommendation feedback
    */
@@ -354,6 +582,18 @@ class RecommendationService {
     return apiService.post('/recommendations/feedback', feedback)
   }
 
+  /**
+   * Deliver a batch of tracked events; the server drops repeated eventIds, so retries are safe
+   */
+  async sendEvents(events: RecommendationEvent[]): Promise<void> {
+    if (isDevelopment) {
+      await new Promise(resolve => setTimeout(resolve, 100))
+      return
+    }
+
+    return apiService.post('/recommendations/events', { events })
+  }
+
   /**
    * Get recommendation dashboard data
    */
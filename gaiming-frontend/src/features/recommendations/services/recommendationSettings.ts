@@ -0,0 +1,138 @@
+/**
+ * Recommendation Settings
+ * Defaults for a player's RecommendationSettings and how they shape ranking:
+ * algorithm weights become engine weights, filters remove games up front
+ */
+
+import type { Game } from '@/features/games/types'
+import { mockVolatilities } from '@/shared/services/mockDataService'
+import type { EngineWeights } from './recommendationEngine'
+import type { PlayerProfile, RecommendationSettings } from '../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// What counts as new for the "only new games" filter
+export const NEW_GAME_WINDOW_DAYS = 30
+
+export const createDefaultRecommendationSettings = (playerId: number): RecommendationSettings => ({
+  playerId,
+  enabled: true,
+  preferences: {
+    maxRecommendationsPerCategory: 6,
+    refreshFrequency: 60,
+    enablePushNotifications: false,
+    enableEmailRecommendations: false,
+    privacyLevel: 'full'
+  },
+  algorithms: {
+    collaborative: { enabled: true, weight: 30 },
+    contentBased: { enabled: true, weight: 50 },
+    trending: { enabled: true, weight: 20 },
+    social: { enabled: false, weight: 0 }
+  },
+  filters: {
+    excludeCategories: [],
+    excludeProviders: [],
+    minRTP: 0,
+    maxVolatility: '',
+    onlyNewGames: false,
+    respectPlayingHistory: true
+  }
+})
+
+/**
+ * Engine weights for the player's algorithm settings and privacy level.
+ * Social signals come from other players, so they count towards collaborative.
+ * Limited privacy drops cross-player signals; minimal drops personal ones too.
+ */
+export function toEngineWeights(settings: RecommendationSettings): EngineWeights {
+  const { algorithms, preferences } = settings
+  const weightOf = (algorithm: { enabled: boolean; weight: number }) =>
+    algorithm.enabled ? Math.max(0, algorithm.weight) : 0
+
+  const weights: EngineWeights = {
+    content: weightOf(algorithms.contentBased),
+    collaborative: weightOf(algorithms.collaborative) + weightOf(algorithms.social),
+    popularity: weightOf(algorithms.trending)
+  }
+
+  if (preferences.privacyLevel !== 'full') weights.collaborative = 0
+  if (preferences.privacyLevel === 'minimal') weights.content = 0
+  return weights
+}
+
+/**
+ * Whether personalised categories may be shown at all
+ */
+export function allowsPersonalization(settings: RecommendationSettings): boolean {
+  return settings.enabled && settings.preferences.privacyLevel !== 'minimal'
+}
+
+/**
+ * The filters that need only a game's category and provider names, so they can
+ * also be checked on a served recommendation
+ */
+export function getCategoryOrProviderExclusion(
+  game: Pick<Game, 'gameTypeName' | 'providerName'>,
+  settings: RecommendationSettings
+): string | null {
+  const { filters } = settings
+
+  if (game.gameTypeName && filters.excludeCategories.includes(game.gameTypeName)) {
+    return `Category ${game.gameTypeName} is excluded`
+  }
+  if (game.providerName && filters.excludeProviders.includes(game.providerName)) {
+    return `Provider ${game.providerName} is excluded`
+  }
+  return null
+}
+
+/**
+ * Why a game is filtered out for this player, or null when it is allowed
+ */
+export function getExclusionReason(
+  game: Game,
+  settings: RecommendationSettings,
+  profile?: PlayerProfile,
+  now = Date.now()
+): string | null {
+  const { filters } = settings
+
+  const byName = getCategoryOrProviderExclusion(game, settings)
+  if (byName) {
+    return byName
+  }
+  if (filters.minRTP > 0 && (game.rtpPercentage ?? 0) < filters.minRTP) {
+    return `RTP below ${filters.minRTP}%`
+  }
+  if (filters.maxVolatility) {
+    const maxLevel = mockVolatilities.find(volatility => volatility.volatilityName === filters.maxVolatility)?.level
+    if (maxLevel !== undefined && (game.volatility?.level ?? 0) > maxLevel) {
+      return `Volatility above ${filters.maxVolatility}`
+    }
+  }
+  if (filters.onlyNewGames) {
+    const released = new Date(game.releaseDate || game.createdDate).getTime()
+    if (now - released > NEW_GAME_WINDOW_DAYS * DAY_MS) {
+      return `Released more than ${NEW_GAME_WINDOW_DAYS} days ago`
+    }
+  }
+  if (filters.respectPlayingHistory && profile?.recentActivity.recentGames.includes(game.gameId)) {
+    return 'Played recently'
+  }
+  return null
+}
+
+/**
+ * IDs of every game the settings filter out
+ */
+export function getExcludedGameIds(
+  games: Game[],
+  settings: RecommendationSettings,
+  profile?: PlayerProfile,
+  now = Date.now()
+): number[] {
+  return games
+    .filter(game => getExclusionReason(game, settings, profile, now) !== null)
+    .map(game => game.gameId)
+}
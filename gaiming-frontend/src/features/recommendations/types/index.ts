@@ -3,6 +3,8 @@
  * Comprehensive types for ML-powered game recommendation system
  */
 
+import type { DiversityMetrics } from '@/types'
+
 // Recommendation algorithms
 export type RecommendationAlgorithm = 
   | 'collaborative_filtering'
@@ -95,6 +97,38 @@ export interface RecommendationReason {
   weight: number
 }
 
+// One step of a score breakdown; the steps of an explanation add up to its score
+export interface ExplanationContribution {
+  factor: string
+  label: string
+  type: RecommendationReason['type']
+  points: number // on the 0-100 score scale
+}
+
+// Why a game scored what it did for a player, and why it was or was not shown
+export interface RecommendationExplanation {
+  playerId: number
+  gameId: number
+  gameName: string
+  providerName: string
+  score: number
+  rank: number | null // position in "Recommended for You"; null when not shown
+  cutoffScore: number | null // score of the last game that made the list
+  excludedBecause: string | null
+  contributions: ExplanationContribution[]
+  playerAttributes: Array<{
+    attribute: string
+    value: string
+    matches: boolean
+  }>
+}
+
+export interface SimilarPlayer {
+  playerId: number
+  similarity: number
+  commonGames: number
+}
+
 // Recommendation categories
 export type RecommendationCategory = 
   | 'for_you'           // Personalized recommendations
@@ -116,6 +150,9 @@ export interface RecommendationRequest {
   limit?: number
   excludeRecentlyPlayed?: boolean
   includeReasons?: boolean
+  seed?: number // local development engine only; same seed, same rankings
+  settings?: RecommendationSettings // draft settings to preview instead of the player's saved ones
+  diversity?: DiversityOptions // re-ranking overrides; the system recommendation settings otherwise
   contextualFactors?: {
     timeOfDay?: number
     dayOfWeek?: number
@@ -234,6 +271,17 @@ export interface RecommendationAnalytics {
     effectiveness: number
     engagement: number
   }>
+  // Variety of the lists actually served after diversity re-ranking
+  diversity?: DiversityMetrics
+}
+
+// Post-ranking diversity and exposure rules
+export interface DiversityOptions {
+  diversityWeight: number // 0-1; 0 keeps relevance order, 1 always picks the least similar game
+  popularityWeight: number // 0-1 share of relevance taken from catalogue-wide popularity
+  recencyWeight: number // 0-1 share of relevance taken from release freshness
+  maxPerProvider: number // most games one provider may fill in a single list
+  newReleaseSlots: number // new games kept in every list when any qualify
 }
 
 // Real-time recommendation events
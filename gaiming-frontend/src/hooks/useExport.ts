@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
-import { exportService, ExportProgress, ExportFormat } from '../services/exportService';
+import { exportService, ExportProgress, ExportFormat, ExportOptions } from '../services/exportService';
+import type { PlayerFieldPolicy } from '../services/playerFieldPolicy';
 
 interface UseExportOptions {
   onSuccess?: (jobId: string) => void;
@@ -15,12 +16,13 @@ interface UseExportReturn {
     data: any[],
     format: ExportFormat,
     filename?: string,
-    options?: any
+    options?: ExportOptions
   ) => Promise<void>;
   exportPlayers: (
     players: any[],
     format: ExportFormat,
-    includeSensitiveData?: boolean
+    fieldPolicy: PlayerFieldPolicy,
+    exportOptions?: ExportOptions
   ) => Promise<void>;
   exportAnalytics: (
     analytics: any,
@@ -28,7 +30,18 @@ interface UseExportReturn {
   ) => Promise<void>;
   exportModels: (
     models: any[],
-    format: ExportFormat
+    format: ExportFormat,
+    exportOptions?: ExportOptions
+  ) => Promise<void>;
+  exportGames: (
+    games: any[],
+    format: ExportFormat,
+    exportOptions?: ExportOptions
+  ) => Promise<void>;
+  exportRecommendations: (
+    recommendations: any[],
+    format: ExportFormat,
+    exportOptions?: ExportOptions
   ) => Promise<void>;
   cancelExport: () => void;
   clearError: () => void;
@@ -43,29 +56,37 @@ export const useExport = (options: UseExportOptions = {}): UseExportReturn => {
   const handleProgress = useCallback((progressData: ExportProgress) => {
     setProgress(progressData);
     options.onProgress?.(progressData);
+
+    // The job id is known from the first progress event, so running exports can be cancelled
+    if (progressData.jobId) {
+      setCurrentJobId(progressData.jobId);
+    }
     
     if (progressData.stage === 'completed') {
       setIsExporting(false);
-      options.onSuccess?.(currentJobId || '');
+      options.onSuccess?.(progressData.jobId || '');
+    } else if (progressData.stage === 'cancelled') {
+      setIsExporting(false);
+      setCurrentJobId(null);
     } else if (progressData.stage === 'error') {
       setIsExporting(false);
       setError(progressData.message);
       options.onError?.(new Error(progressData.message));
     }
-  }, [options, currentJobId]);
+  }, [options]);
 
   const exportData = useCallback(async (
     data: any[],
     format: ExportFormat,
     filename?: string,
-    exportOptions?: any
+    exportOptions?: ExportOptions
   ) => {
     try {
       setIsExporting(true);
       setError(null);
       setProgress(null);
 
-      const options = {
+      const options: ExportOptions = {
         filename,
         includeTimestamp: true,
         onProgress: handleProgress,
@@ -73,24 +94,7 @@ export const useExport = (options: UseExportOptions = {}): UseExportReturn => {
         ...exportOptions,
       };
 
-      let jobId: string;
-      
-      switch (format) {
-        case 'csv':
-          jobId = await exportService.exportToCSV(data, options);
-          break;
-        case 'excel':
-          jobId = await exportService.exportToExcel(data, options);
-          break;
-        case 'pdf':
-          jobId = await exportService.exportToPDF(data, options);
-          break;
-        case 'json':
-          jobId = await exportService.exportToJSON(data, options);
-          break;
-        default:
-          throw new Error(`Unsupported export format: ${format}`);
-      }
+      const jobId = await exportService.exportData(data, format, options);
       
       setCurrentJobId(jobId);
     } catch (err) {
@@ -104,7 +108,8 @@ export const useExport = (options: UseExportOptions = {}): UseExportReturn => {
   const exportPlayers = useCallback(async (
     players: any[],
     format: ExportFormat,
-    includeSensitiveData: boolean = false
+    fieldPolicy: PlayerFieldPolicy,
+    exportOptions?: ExportOptions
   ) => {
     try {
       setIsExporting(true);
@@ -116,14 +121,15 @@ export const useExport = (options: UseExportOptions = {}): UseExportReturn => {
         includeTimestamp: true,
         onProgress: handleProgress,
         chunkSize: 500, // Smaller chunks for player data
-        customHeaders: { title: 'GAIming Players Report' }
+        customHeaders: { title: 'GAIming Players Report' },
+        ...exportOptions,
       };
 
       const jobId = await exportService.exportPlayerData(
         players,
         format,
         options,
-        includeSensitiveData
+        fieldPolicy
       );
       
       setCurrentJobId(jobId);
@@ -168,7 +174,8 @@ export const useExport = (options: UseExportOptions = {}): UseExportReturn => {
 
   const exportModels = useCallback(async (
     models: any[],
-    format: ExportFormat
+    format: ExportFormat,
+    exportOptions?: ExportOptions
   ) => {
     try {
       setIsExporting(true);
@@ -180,7 +187,8 @@ export const useExport = (options: UseExportOptions = {}): UseExportReturn => {
         includeTimestamp: true,
         onProgress: handleProgress,
         chunkSize: 100, // Smaller chunks for model data
-        customHeaders: { title: 'GAIming ML Models Report' }
+        customHeaders: { title: 'GAIming ML Models Report' },
+        ...exportOptions,
       };
 
       const jobId = await exportService.exportModelsData(
@@ -198,12 +206,76 @@ export const useExport = (options: UseExportOptions = {}): UseExportReturn => {
     }
   }, [handleProgress, options]);
 
-  const cancelExport = useCallback(() => {
-    if (currentJobId) {
-      exportService.cancelExport(currentJobId);
+  const exportGames = useCallback(async (
+    games: any[],
+    format: ExportFormat,
+    exportOptions?: ExportOptions
+  ) => {
+    try {
+      setIsExporting(true);
+      setError(null);
+      setProgress(null);
+
+      const options = {
+        filename: 'games-export',
+        includeTimestamp: true,
+        onProgress: handleProgress,
+        customHeaders: { title: 'GAIming Games Catalog' },
+        ...exportOptions,
+      };
+
+      const jobId = await exportService.exportGamesData(
+        games,
+        format,
+        options
+      );
+      
+      setCurrentJobId(jobId);
+    } catch (err) {
       setIsExporting(false);
+      const errorMessage = err instanceof Error ? err.message : 'Games export failed';
+      setError(errorMessage);
+      options.onError?.(err instanceof Error ? err : new Error(errorMessage));
+    }
+  }, [handleProgress, options]);
+
+  const exportRecommendations = useCallback(async (
+    recommendations: any[],
+    format: ExportFormat,
+    exportOptions?: ExportOptions
+  ) => {
+    try {
+      setIsExporting(true);
+      setError(null);
       setProgress(null);
-      setCurrentJobId(null);
+
+      const options = {
+        filename: 'recommendations-export',
+        includeTimestamp: true,
+        onProgress: handleProgress,
+        customHeaders: { title: 'GAIming Recommendations Report' },
+        ...exportOptions,
+      };
+
+      const jobId = await exportService.exportRecommendationsData(
+        recommendations,
+        format,
+        options
+      );
+      
+      setCurrentJobId(jobId);
+    } catch (err) {
+      setIsExporting(false);
+      const errorMessage = err instanceof Error ? err.message : 'Recommendations export failed';
+      setError(errorMessage);
+      options.onError?.(err instanceof Error ? err : new Error(errorMessage));
+    }
+  }, [handleProgress, options]);
+
+  const cancelExport = useCallback(() => {
+    if (currentJobId) {
+      // The service reports a 'cancelled' stage once the worker has stopped
+      exportService.cancelJob(currentJobId);
     }
   }, [currentJobId]);
 
@@ -219,6 +291,8 @@ export const useExport = (options: UseExportOptions = {}): UseExportReturn => {
     exportPlayers,
     exportAnalytics,
     exportModels,
+    exportGames,
+    exportRecommendations,
     cancelExport,
     clearError,
   };
@@ -0,0 +1,18 @@
+import { useMemo } from 'react';
+import { useAuthStore } from '@/app/store/authStore';
+import { createPlayerFieldPolicy, type PlayerFieldPolicy } from '../services/playerFieldPolicy';
+
+/**
+ * Player field policy for the signed-in user. The user's role and permissions
+ * come from the access token's claims and are kept in step on refresh, so the
+ * policy follows permission changes without a reload.
+ */
+export const usePlayerFieldPolicy = (): PlayerFieldPolicy => {
+  const role = useAuthStore((state) => state.user?.role);
+  const permissions = useAuthStore((state) => state.user?.permissions);
+
+  return useMemo(
+    () => createPlayerFieldPolicy(role ? { role, permissions: permissions ?? [] } : null),
+    [role, permissions]
+  );
+};
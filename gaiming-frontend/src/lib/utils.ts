@@ -124,6 +124,33 @@ export function generateId(length = 8): string {
   return result
 }
 
+/**
+ * Hash values into a 32-bit seed (FNV-1a)
+ */
+export function hashSeed(...parts: Array<string | number>): number {
+  let hash = 0x811c9dc5
+  const text = parts.join(':')
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Seeded random number generator (mulberry32), a drop-in for Math.random
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
 /**
  * Deep clone object
  */
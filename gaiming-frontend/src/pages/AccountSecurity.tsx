@@ -0,0 +1,180 @@
+import React, { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/Badge'
+import { toast } from 'sonner'
+import { ShieldAlert, ShieldCheck, Smartphone } from 'lucide-react'
+import { useAuthStore } from '@/app/store/authStore'
+import { twoFactorService, type TwoFactorStatus } from '@/shared/services/twoFactorService'
+import { tokenService } from '@/shared/services/tokenService'
+import TwoFactorSetup, { BackupCodesList } from '@/components/auth/TwoFactorSetup'
+
+const AccountSecurity: React.FC = () => {
+  const queryClient = useQueryClient()
+  const { twoFactorSetupRequired, completeTwoFactorSetup } = useAuthStore()
+  const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [newBackupCodes, setNewBackupCodes] = useState<string[] | null>(null)
+
+  const { data: status, isLoading, error } = useQuery<TwoFactorStatus>({
+    queryKey: ['two-factor-status'],
+    queryFn: twoFactorService.getStatus,
+  })
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => twoFactorService.regenerateBackupCodes({ password }),
+    onSuccess: (codes) => {
+      setNewBackupCodes(codes)
+      setPassword('')
+      queryClient.invalidateQueries({ queryKey: ['two-factor-status'] })
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to generate backup codes')
+    },
+  })
+
+  const disableMutation = useMutation({
+    mutationFn: () => twoFactorService.disable({ password, code }),
+    onSuccess: () => {
+      setPassword('')
+      setCode('')
+      queryClient.invalidateQueries({ queryKey: ['two-factor-status'] })
+      toast.success('Two-factor authentication turned off')
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to disable two-factor authentication')
+    },
+  })
+
+  const handleSetupComplete = () => {
+    completeTwoFactorSetup()
+    queryClient.invalidateQueries({ queryKey: ['two-factor-status'] })
+    toast.success('Two-factor authentication is set up')
+  }
+
+  const handleForgetDevices = async () => {
+    await tokenService.forgetTrustedDevices()
+    toast.success('This browser will ask for a code at the next sign-in')
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Account Security</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">Manage how you sign in</p>
+      </div>
+
+      {twoFactorSetupRequired && (
+        <div className="flex items-start gap-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
+          <ShieldAlert className="h-5 w-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0" />
+          <p className="text-yellow-800 dark:text-yellow-200">
+            Your role requires two-factor authentication. Set it up below to continue using GAIming.
+          </p>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Two-Factor Authentication</CardTitle>
+              <CardDescription>Require a code from an authenticator app when signing in</CardDescription>
+            </div>
+            {status && (
+              <Badge variant={status.enabled ? 'success' : 'secondary'}>
+                {status.enabled ? 'On' : 'Off'}
+              </Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : error || !status ? (
+            <p className="text-red-600 dark:text-red-400">Failed to load two-factor status. Please try again later.</p>
+          ) : !status.enabled ? (
+            <TwoFactorSetup onComplete={handleSetupComplete} />
+          ) : (
+            <div className="space-y-6">
+              <div className="flex items-center gap-2 text-green-700 dark:text-green-400">
+                <ShieldCheck className="h-5 w-5" />
+                <span>{status.backupCodesRemaining} backup codes left</span>
+              </div>
+
+              {newBackupCodes ? (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Your old backup codes no longer work. Save these new ones somewhere safe.
+                  </p>
+                  <BackupCodesList codes={newBackupCodes} />
+                  <Button variant="outline" size="sm" onClick={() => setNewBackupCodes(null)}>
+                    Done
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-3 max-w-sm">
+                  <label className="block text-sm font-medium">Password</label>
+                  <Input
+                    type="password"
+                    value={password}
+                    autoComplete="current-password"
+                    placeholder="Needed to change two-factor settings"
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => regenerateMutation.mutate()}
+                    disabled={!password || regenerateMutation.isPending}
+                  >
+                    Generate new backup codes
+                  </Button>
+
+                  {status.required ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Your role requires two-factor authentication, so it cannot be turned off.
+                    </p>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        value={code}
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        placeholder="Authenticator code"
+                        onChange={(e) => setCode(e.target.value)}
+                      />
+                      <Button
+                        variant="destructive"
+                        onClick={() => disableMutation.mutate()}
+                        disabled={!password || !code || disableMutation.isPending}
+                      >
+                        Turn off
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Remembered Devices</CardTitle>
+          <CardDescription>Browsers you chose to remember skip the two-factor code when signing in</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" onClick={handleForgetDevices} icon={<Smartphone className="h-4 w-4" />}>
+            Forget this browser
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default AccountSecurity
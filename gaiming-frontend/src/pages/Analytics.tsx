@@ -19,10 +19,10 @@ import PieChart from '../components/charts/PieChart';
 import { Card } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
-import AuthGuard, { usePermissions } from '../components/auth/AuthGuard';
+import { usePermissions } from '../components/auth/AuthGuard';
 import { exportService } from '../services/exportService';
 
-const AnalyticsContent: React.FC = () => {
+const Analytics: React.FC = () => {
   const { canExportAnalytics, user } = usePermissions();
   const [analytics, setAnalytics] = useState<ComprehensiveAnalytics | null>(null);
   const [loading, setLoading] = useState(true);
@@ -538,10 +538,4 @@ const AnalyticsContent: React.FC = () => {
   );
 };
 
-const Analytics: React.FC = () => (
-  <AuthGuard requiredPermissions={['analytics.view']}>
-    <AnalyticsContent />
-  </AuthGuard>
-);
-
 export default Analytics;
@@ -1,18 +1,21 @@
 /**
  * Game Recommendations Page
- * ML-powered personalized game recommendations
+ * ML-powered personalized game recommendations for one player, with the
+ * explanation behind each of them
  */
 
 import React, { useState, useEffect } from 'react'
+import { useParams } from 'react-router-dom'
 import { RefreshCw, Settings, Heart, TrendingUp, Sparkles, Clock, Filter } from 'lucide-react'
 import { recommendationService } from '@/features/recommendations/services/recommendationService'
-import type { RecommendationResponse, RecommendationRequest } from '@/features/recommendations/types'
+import type { GameRecommendation, RecommendationResponse, RecommendationRequest } from '@/features/recommendations/types'
 import { FeatureErrorBoundary } from '@/shared/components'
 import { useNotificationStore } from '@/app/store/notificationStore'
 import Button from '@/components/ui/Button'
 import { Card, CardContent } from '@/components/ui/Card'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
 import GameRecommendationCard from '@/features/recommendations/components/GameRecommendationCard'
+import RecommendationExplanationDrawer from '@/features/recommendations/components/RecommendationExplanationDrawer'
 
 const GameRecommendations: React.FC = () => {
   // State management
@@ -22,16 +25,16 @@ const GameRecommendations: React.FC = () => {
   const [error, setError] = useState<string | null>(null)
   const [selectedCategory, setSelectedCategory] = useState<string>('all')
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
+  const [explaining, setExplaining] = useState<GameRecommendation | null>(null)
   
-  // Mock player ID - in real app this would come from auth
-  const playerId = 1001
+  const playerId = Number(useParams<{ playerId: string }>().playerId)
 
   const notifications = useNotificationStore()
 
-  // Load recommendations on mount
+  // Load recommendations for each player opened
   useEffect(() => {
     loadRecommendations()
-  }, [])
+  }, [playerId])
 
   const loadRecommendations = async () => {
     setLoading(true)
@@ -163,7 +166,7 @@ const GameRecommendations: React.FC = () => {
               Game Recommendations
             </h1>
             <p className="text-gray-600 dark:text-gray-300">
-              Personalized game suggestions powered by AI
+              Personalized game suggestions for player {playerId}
             </p>
             <p className="text-sm text-gray-500">
               {recommendations.totalRecommendations} games recommended • Updated {new Date(recommendations.timestamp).toLocaleTimeString()}
@@ -257,13 +260,15 @@ const GameRecommendations: React.FC = () => {
                   ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4'
                   : 'space-y-2'
               }>
-                {category.recommendations.map((recommendation) => (
+                {category.recommendations.map((recommendation, index) => (
                   <GameRecommendationCard
                     key={recommendation.gameId}
                     recommendation={recommendation}
+                    tracking={{ playerId, position: index + 1 }}
                     onPlay={handleGamePlay}
                     onLike={handleGameLike}
                     onDislike={handleGameDislike}
+                    onExplain={setExplaining}
                     compact={viewMode === 'list'}
                     showReasons={viewMode === 'grid'}
                   />
@@ -322,6 +327,12 @@ const GameRecommendations: React.FC = () => {
             </Button>
           </div>
         )}
+
+        <RecommendationExplanationDrawer
+          playerId={playerId}
+          recommendation={explaining}
+          onClose={() => setExplaining(null)}
+        />
       </div>
     </FeatureErrorBoundary>
   )
@@ -1,36 +1,112 @@
 import React, { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { Search, Filter, Plus, Gamepad2, Monitor, Smartphone, Star, TrendingUp, Eye } from 'lucide-react'
+import { Search, Filter, Plus, Gamepad2, Monitor, Smartphone, Star, TrendingUp, Eye, Download } from 'lucide-react'
 import { gameService } from '@/services/gameService'
-import { Game, PaginatedResponse } from '@/types'
+import { Game, GameFilterForm, PaginatedResponse } from '@/types'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card'
 import Button from '@/components/ui/Button'
 import Badge from '@/components/ui/Badge'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { usePermissions } from '@/components/auth/AuthGuard'
+import ExportProgressDialog from '@/components/export/ExportProgressDialog'
+import { useExport } from '@/hooks/useExport'
+import type { ExportFormat } from '@/services/exportService'
+import SavedViewsMenu from '@/components/views/SavedViewsMenu'
+import { useUrlFilters } from '@/shared/hooks/useUrlFilters'
+import type { QueryParamSchema } from '@/shared/utils/urlState'
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'excel', label: 'Excel' },
+  { format: 'pdf', label: 'PDF' },
+  { format: 'parquet', label: 'Parquet' },
+  { format: 'ndjson', label: 'NDJSON' },
+]
+
+const GAME_SORT_OPTIONS = [
+  { value: 'gameName', label: 'Name' },
+  { value: 'providerName', label: 'Provider' },
+  { value: 'rtpPercentage', label: 'RTP' },
+  { value: 'releaseDate', label: 'Release date' },
+] as const
+
+// The search, status and platform filters the games API supports, plus sort and pagination
+type GamesListFilters = Pick<GameFilterForm, 'search' | 'isActive' | 'isMobile' | 'isDesktop'> & {
+  page: number
+  pageSize: number
+  sortBy?: typeof GAME_SORT_OPTIONS[number]['value']
+  sortDirection: 'asc' | 'desc'
+}
+
+const GAMES_FILTER_SCHEMA: QueryParamSchema<GamesListFilters> = {
+  search: 'string',
+  isActive: 'boolean',
+  isMobile: 'boolean',
+  isDesktop: 'boolean',
+  page: 'number',
+  pageSize: 'number',
+  sortBy: GAME_SORT_OPTIONS.map(option => option.value),
+  sortDirection: ['asc', 'desc'],
+}
+
+const DEFAULT_GAMES_FILTERS: GamesListFilters = {
+  search: '',
+  page: 1,
+  pageSize: 20,
+  sortDirection: 'asc',
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+
+const filterSelectClassName = 'px-3 py-2 bg-gray-800/50 border border-primary-500/30 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-primary-500'
 
 const Games: React.FC = () => {
   const navigate = useNavigate()
   const [games, setGames] = useState<Game[]>([])
   const [loading, setLoading] = useState(true)
+  const [hasLoaded, setHasLoaded] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [searchTerm, setSearchTerm] = useState('')
+  const { filters, queryString, setFilters, resetFilters } = useUrlFilters(GAMES_FILTER_SCHEMA, DEFAULT_GAMES_FILTERS)
+  const [searchTerm, setSearchTerm] = useState(filters.search ?? '')
+  const [showFilters, setShowFilters] = useState(false)
+  const [showExportProgress, setShowExportProgress] = useState(false)
+  const { canExportGames, user } = usePermissions()
+
+  const {
+    isExporting,
+    progress: exportProgress,
+    exportGames,
+    cancelExport,
+  } = useExport({
+    onSuccess: () => setShowExportProgress(false),
+    onError: (err) => {
+      setError(`Export failed: ${err.message}`)
+      setShowExportProgress(false)
+    },
+  })
 
   const [pagination, setPagination] = useState({
-    page: 1,
-    pageSize: 20,
+    page: filters.page,
+    pageSize: filters.pageSize,
     totalCount: 0,
     totalPages: 0
   })
 
-  const fetchGames = async (page = 1) => {
+  const fetchGames = async () => {
     try {
       setLoading(true)
       setError(null)
 
       console.log('Fetching games from API...')
       const response: PaginatedResponse<Game> = await gameService.getGames({
-        page,
-        pageSize: pagination.pageSize
+        page: filters.page,
+        pageSize: filters.pageSize,
+        search: filters.search || undefined,
+        isActive: filters.isActive,
+        isMobile: filters.isMobile,
+        isDesktop: filters.isDesktop,
+        sortBy: filters.sortBy,
+        sortDirection: filters.sortBy ? filters.sortDirection : undefined,
       })
 
       console.log('Games response:', response)
@@ -52,22 +128,54 @@ const Games: React.FC = () => {
       setError(err instanceof Error ? err.message : 'Failed to fetch games')
     } finally {
       setLoading(false)
+      setHasLoaded(true)
     }
   }
 
   useEffect(() => {
     fetchGames()
-  }, [])
+  }, [filters])
+
+  // Keep the search box in step when the URL changes, e.g. when a saved view is applied
+  useEffect(() => {
+    setSearchTerm(filters.search ?? '')
+  }, [filters.search])
+
+  useEffect(() => {
+    if (searchTerm === (filters.search ?? '')) return
+    const timer = setTimeout(() => {
+      setFilters({ search: searchTerm, page: 1 }, { replace: true })
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
 
   const handlePageChange = (newPage: number) => {
-    fetchGames(newPage)
+    setFilters({ page: newPage })
+  }
+
+  const handleFilterChange = (update: Partial<GamesListFilters>) => {
+    setFilters({ ...update, page: 1 })
+  }
+
+  const parseBooleanFilter = (value: string) => (value === '' ? undefined : value === 'true')
+
+  const handleExport = async (format: ExportFormat) => {
+    if (isExporting || games.length === 0) return
+
+    setShowExportProgress(true)
+    await exportGames(games, format, {
+      metadata: {
+        exportedBy: user?.name,
+        filters: { ...filters },
+      },
+    })
   }
 
   const handleViewDetails = (gameId: number) => {
     navigate(`/games/${gameId}`)
   }
 
-  if (loading) {
+  if (loading && !hasLoaded) {
     return (
       <div className="space-y-6">
         <div>
@@ -139,14 +247,99 @@ const Games: React.FC = () => {
               />
             </div>
             <div className="flex gap-2">
-              <Button variant="outline" icon={<Filter />} className="border-primary-500/30 hover:bg-primary-500/10">
+              <Button
+                variant="outline"
+                icon={<Filter />}
+                onClick={() => setShowFilters(!showFilters)}
+                className="border-primary-500/30 hover:bg-primary-500/10"
+              >
                 Filter
               </Button>
+              <SavedViewsMenu list="games" queryString={queryString} />
+              {canExportGames && (
+                <div className="relative group">
+                  <Button
+                    variant="outline"
+                    icon={<Download />}
+                    disabled={isExporting || games.length === 0}
+                    className="border-primary-500/30 hover:bg-primary-500/10"
+                  >
+                    {isExporting ? 'Exporting...' : 'Export'}
+                  </Button>
+                  <div className="absolute right-0 top-full mt-1 w-36 bg-gray-800 border border-primary-500/30 rounded-lg shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-20">
+                    {EXPORT_FORMATS.map(({ format, label }) => (
+                      <button
+                        key={format}
+                        onClick={() => handleExport(format)}
+                        className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-primary-500/20 first:rounded-t-lg last:rounded-b-lg"
+                      >
+                        Export {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
               <Button variant="gaming" icon={<Plus />}>
                 Add Game
               </Button>
             </div>
           </div>
+
+          {showFilters && (
+            <div className="flex flex-wrap items-center gap-3 mt-4">
+              <select
+                value={filters.isActive?.toString() ?? ''}
+                onChange={(e) => handleFilterChange({ isActive: parseBooleanFilter(e.target.value) })}
+                className={filterSelectClassName}
+              >
+                <option value="">All Status</option>
+                <option value="true">Active</option>
+                <option value="false">Inactive</option>
+              </select>
+              <select
+                value={filters.isMobile?.toString() ?? ''}
+                onChange={(e) => handleFilterChange({ isMobile: parseBooleanFilter(e.target.value) })}
+                className={filterSelectClassName}
+              >
+                <option value="">Mobile: Any</option>
+                <option value="true">Mobile: Yes</option>
+                <option value="false">Mobile: No</option>
+              </select>
+              <select
+                value={filters.isDesktop?.toString() ?? ''}
+                onChange={(e) => handleFilterChange({ isDesktop: parseBooleanFilter(e.target.value) })}
+                className={filterSelectClassName}
+              >
+                <option value="">Desktop: Any</option>
+                <option value="true">Desktop: Yes</option>
+                <option value="false">Desktop: No</option>
+              </select>
+              <select
+                value={filters.sortBy ?? ''}
+                onChange={(e) => handleFilterChange({ sortBy: (e.target.value || undefined) as GamesListFilters['sortBy'] })}
+                className={filterSelectClassName}
+              >
+                <option value="">Default order</option>
+                {GAME_SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>Sort by {option.label}</option>
+                ))}
+              </select>
+              <select
+                value={filters.sortDirection}
+                disabled={!filters.sortBy}
+                onChange={(e) => handleFilterChange({ sortDirection: e.target.value as GamesListFilters['sortDirection'] })}
+                className={filterSelectClassName}
+              >
+                <option value="asc">Ascending</option>
+                <option value="desc">Descending</option>
+              </select>
+              {queryString && (
+                <Button variant="ghost" size="sm" onClick={resetFilters}>
+                  Clear filters
+                </Button>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -265,6 +458,13 @@ const Games: React.FC = () => {
           </CardContent>
         </Card>
       )}
+
+      <ExportProgressDialog
+        isOpen={showExportProgress}
+        onClose={() => setShowExportProgress(false)}
+        progress={exportProgress}
+        onCancel={cancelExport}
+      />
     </div>
   )
 }
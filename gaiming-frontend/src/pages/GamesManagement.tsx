@@ -3,8 +3,12 @@
  * Real functionality for casino games management
  */
 
-import React, { useState, useEffect, useCallback } from 'react'
-import { gameService } from '@/features/games/services'
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import type { ColumnDef, RowSelectionState, SortingState } from '@tanstack/react-table'
+import { gameService, summarizeBulkOperation, type BulkOperationRecord } from '@/features/games/services'
+import { useBulkGameOperations } from '@/features/games/hooks'
+import GameImportWizard from '@/features/games/components/GameImportWizard'
+import BulkOperationPanel from '@/features/games/components/BulkOperationPanel'
 import type { 
   Game, 
   GameFilterForm, 
@@ -12,13 +16,18 @@ import type {
   GameProvider,
   GameType,
   Volatility,
-  Theme 
+  Theme,
+  ImportResult,
+  BulkOperationType
 } from '@/features/games/types'
 import { FeatureErrorBoundary } from '@/shared/components'
 import { useNotificationStore } from '@/app/store/notificationStore'
 import Button from '@/components/ui/Button'
 import { Card, CardContent } from '@/components/ui/Card'
-import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import DataGrid from '@/components/data-grid/DataGrid'
+import { usePermissions } from '@/components/auth/AuthGuard'
+
+const PAGE_SIZE_OPTIONS = [20, 100, 500, 1000]
 
 const GamesManagement: React.FC = () => {
   // State management
@@ -41,10 +50,21 @@ const GamesManagement: React.FC = () => {
   // Filters and UI state
   const [filters, setFilters] = useState<GameFilterForm>({})
   const [selectedGames, setSelectedGames] = useState<Set<number>>(new Set())
+  // Sorted on the server, which takes a single sort column
+  const [sorting, setSorting] = useState<SortingState>([{ id: 'gameName', desc: false }])
   const [viewMode, setViewMode] = useState<'grid' | 'list' | 'table'>('table')
   const [searchTerm, setSearchTerm] = useState('')
+  const [showImport, setShowImport] = useState(false)
   
   const notifications = useNotificationStore()
+  const { canImportGames } = usePermissions()
+  // Latest known state of every game seen this session; bulk undo restores from it
+  const knownGames = useRef(new Map<number, Game>())
+  const bulk = useBulkGameOperations()
+  const referenceData = useMemo(
+    () => ({ providers, gameTypes, volatilities, themes }),
+    [providers, gameTypes, volatilities, themes]
+  )
 
   // Load reference data on mount
   useEffect(() => {
@@ -54,7 +74,7 @@ const GamesManagement: React.FC = () => {
   // Load games when filters or pagination changes
   useEffect(() => {
     loadGames()
-  }, [pagination.currentPage, filters])
+  }, [pagination.currentPage, pagination.pageSize, filters, sorting])
 
   const loadReferenceData = async () => {
     try {
@@ -91,11 +111,12 @@ const GamesManagement: React.FC = () => {
         isActive: filters.isActive,
         isMobile: filters.isMobile,
         isDesktop: filters.isDesktop,
-        sortBy: filters.sortBy || 'gameName',
-        sortDirection: filters.sortDirection || 'asc',
+        sortBy: sorting[0]?.id ?? 'gameName',
+        sortDirection: sorting[0]?.desc ? 'desc' : 'asc',
       })
       
       setGames(response.items)
+      response.items.forEach(game => knownGames.current.set(game.gameId, game))
       setPagination(prev => ({
         ...prev,
         totalPages: response.totalPages,
@@ -124,63 +145,190 @@ const GamesManagement: React.FC = () => {
     setPagination(prev => ({ ...prev, currentPage: page }))
   }, [])
 
-  const handleGameSelection = useCallback((gameId: number) => {
-    setSelectedGames(prev => {
-      const newSelection = new Set(prev)
-      if (newSelection.has(gameId)) {
-        newSelection.delete(gameId)
-      } else {
-        newSelection.add(gameId)
-      }
-      return newSelection
-    })
+  const handlePageSizeChange = useCallback((pageSize: number) => {
+    setPagination(prev => ({ ...prev, pageSize, currentPage: 1 }))
   }, [])
 
-  const handleSelectAll = useCallback(() => {
-    if (selectedGames.size === games.length) {
-      setSelectedGames(new Set())
-    } else {
-      setSelectedGames(new Set(games.map(game => game.gameId)))
-    }
-  }, [games, selectedGames.size])
+  const handleSortingChange = useCallback((next: SortingState) => {
+    setSorting(next)
+    setPagination(prev => ({ ...prev, currentPage: 1 }))
+  }, [])
+
+  // The grid keys selection by row id; games stay selected across pages
+  const rowSelection = useMemo<RowSelectionState>(
+    () => Object.fromEntries([...selectedGames].map(gameId => [String(gameId), true])),
+    [selectedGames]
+  )
 
-  const handleBulkActivate = async () => {
+  const handleRowSelectionChange = useCallback((selection: RowSelectionState) => {
+    setSelectedGames(new Set(Object.keys(selection).filter(id => selection[id]).map(Number)))
+  }, [])
+
+  // Games on other pages are not reloaded, so carry the applied changes forward
+  const rememberOutcomes = (record: BulkOperationRecord) => {
+    record.outcomes.forEach(outcome => {
+      const game = knownGames.current.get(outcome.gameId)
+      if (!game || !outcome.success || outcome.unchanged) return
+      if (record.operation.operation === 'delete' && record.kind === 'apply') {
+        knownGames.current.delete(outcome.gameId)
+      } else if (outcome.after) {
+        knownGames.current.set(outcome.gameId, { ...game, ...outcome.after })
+      }
+    })
+  }
+
+  const handleBulkOperation = async (operation: BulkOperationType, data?: Record<string, number>) => {
     if (selectedGames.size === 0) return
-    
+
     try {
-      // Note: This would need to be implemented in the backend
-      notifications.showSuccess('Success', `Activated ${selectedGames.size} games`)
-      setSelectedGames(new Set())
-      loadGames()
+      const record = await bulk.run(
+        { gameIds: [...selectedGames], operation, data },
+        [...knownGames.current.values()]
+      )
+      rememberOutcomes(record)
+      const failed = record.outcomes.filter(outcome => !outcome.success).length
+      if (failed > 0) {
+        notifications.showWarning('Bulk operation finished with errors', summarizeBulkOperation(record))
+        // Keep the failed games selected so they can be retried
+        setSelectedGames(new Set(record.outcomes.filter(outcome => !outcome.success).map(outcome => outcome.gameId)))
+      } else {
+        notifications.showSuccess('Success', summarizeBulkOperation(record))
+        setSelectedGames(new Set())
+      }
     } catch (error) {
-      notifications.showError('Error', 'Failed to activate games')
+      notifications.showError('Error', error instanceof Error ? error.message : 'Bulk operation failed')
     }
+    loadGames()
   }
 
-  const handleBulkDeactivate = async () => {
-    if (selectedGames.size === 0) return
-    
+  const handleBulkUndo = async (recordId: string) => {
     try {
-      // Note: This would need to be implemented in the backend
-      notifications.showSuccess('Success', `Deactivated ${selectedGames.size} games`)
-      setSelectedGames(new Set())
-      loadGames()
+      const record = await bulk.undo(recordId)
+      rememberOutcomes(record)
+      const failed = record.outcomes.filter(outcome => !outcome.success).length
+      if (failed > 0) {
+        notifications.showWarning('Undo finished with errors', summarizeBulkOperation(record))
+      } else {
+        notifications.showSuccess('Undone', summarizeBulkOperation(record))
+      }
     } catch (error) {
-      notifications.showError('Error', 'Failed to deactivate games')
+      notifications.showError('Error', error instanceof Error ? error.message : 'Undo failed')
     }
+    loadGames()
   }
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount)
+  const handleImported = (result: ImportResult) => {
+    const summary = `${result.created} created, ${result.updated} updated`
+    if (result.success) {
+      notifications.showSuccess('Import complete', summary)
+    } else {
+      notifications.showWarning('Import finished with errors', `${summary}, ${result.errors.length} error(s)`)
+    }
+    loadGames()
   }
 
   const formatPercentage = (value: number) => {
     return `${value.toFixed(2)}%`
   }
 
+  const columns = useMemo<ColumnDef<Game>[]>(() => [
+    {
+      id: 'gameName',
+      header: 'Game',
+      size: 280,
+      accessorKey: 'gameName',
+      cell: ({ row: { original: game } }) => (
+        <div className="flex items-center space-x-3">
+          {game.imageUrl && (
+            <img
+              src={game.imageUrl}
+              alt={game.gameName}
+              className="w-10 h-10 rounded object-cover"
+            />
+          )}
+          <div className="min-w-0">
+            <div className="font-medium text-gray-900 dark:text-white truncate">
+              {game.gameName}
+            </div>
+            {game.description && (
+              <div className="text-sm text-gray-500 truncate">
+                {game.description}
+              </div>
+            )}
+          </div>
+        </div>
+      ),
+    },
+    {
+      id: 'providerName',
+      header: 'Provider',
+      accessorFn: game => game.providerName || 'Unknown',
+    },
+    {
+      id: 'gameTypeName',
+      header: 'Type',
+      accessorFn: game => game.gameTypeName || 'Unknown',
+    },
+    {
+      id: 'rtpPercentage',
+      header: 'RTP',
+      size: 100,
+      accessorKey: 'rtpPercentage',
+      cell: ({ row: { original: game } }) => game.rtpPercentage ? formatPercentage(game.rtpPercentage) : 'N/A',
+    },
+    {
+      id: 'platform',
+      header: 'Platform',
+      enableSorting: false,
+      cell: ({ row: { original: game } }) => (
+        <div className="flex space-x-1">
+          {game.isMobile && (
+            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+              Mobile
+            </span>
+          )}
+          {game.isDesktop && (
+            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+              Desktop
+            </span>
+          )}
+        </div>
+      ),
+    },
+    {
+      id: 'isActive',
+      header: 'Status',
+      size: 110,
+      accessorKey: 'isActive',
+      cell: ({ row: { original: game } }) => (
+        <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+          game.isActive 
+            ? 'bg-green-100 text-green-800' 
+            : 'bg-red-100 text-red-800'
+        }`}>
+          {game.isActive ? 'Active' : 'Inactive'}
+        </span>
+      ),
+    },
+    {
+      id: 'actions',
+      header: 'Actions',
+      size: 170,
+      enableSorting: false,
+      enableHiding: false,
+      cell: () => (
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm">
+            Edit
+          </Button>
+          <Button variant="outline" size="sm">
+            Stats
+          </Button>
+        </div>
+      ),
+    },
+  ], [])
+
   if (error) {
     return (
       <div className="container mx-auto p-6">
@@ -212,6 +360,11 @@ const GamesManagement: React.FC = () => {
             <Button variant="outline" onClick={() => loadGames()}>
               Refresh
             </Button>
+            {canImportGames && (
+              <Button variant="outline" onClick={() => setShowImport(true)}>
+                Import
+              </Button>
+            )}
             <Button variant="primary">
               Add Game
             </Button>
@@ -330,152 +483,51 @@ const GamesManagement: React.FC = () => {
         </Card>
 
         {/* Bulk Actions */}
-        {selectedGames.size > 0 && (
-          <Card>
-            <CardContent className="p-4">
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-600">
-                  {selectedGames.size} game(s) selected
-                </span>
-                <div className="flex space-x-2">
-                  <Button variant="outline" size="sm" onClick={handleBulkActivate}>
-                    Activate
-                  </Button>
-                  <Button variant="outline" size="sm" onClick={handleBulkDeactivate}>
-                    Deactivate
-                  </Button>
-                  <Button variant="outline" size="sm" onClick={() => setSelectedGames(new Set())}>
-                    Clear Selection
-                  </Button>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        )}
+        <BulkOperationPanel
+          selectedCount={selectedGames.size}
+          reference={referenceData}
+          isRunning={bulk.isRunning}
+          progress={bulk.progress}
+          history={bulk.history}
+          onRun={handleBulkOperation}
+          onUndo={handleBulkUndo}
+          onCancel={bulk.cancel}
+          onClearSelection={() => setSelectedGames(new Set())}
+        />
 
         {/* Games Table */}
         <Card>
           <CardContent className="p-0">
-            {loading ? (
-              <div className="flex justify-center items-center h-64">
-                <LoadingSpinner size="lg" />
-              </div>
-            ) : (
-              <div className="overflow-x-auto">
-                <table className="w-full">
-                  <thead className="bg-gray-50 dark:bg-gray-800">
-                    <tr>
-                      <th className="px-4 py-3 text-left">
-                        <input
-                          type="checkbox"
-                          checked={selectedGames.size === games.length && games.length > 0}
-                          onChange={handleSelectAll}
-                          className="rounded border-gray-300"
-                        />
-                      </th>
-                      <th className="px-4 py-3 text-left font-medium text-gray-900 dark:text-white">
-                        Game
-                      </th>
-                      <th className="px-4 py-3 text-left font-medium text-gray-900 dark:text-white">
-                        Provider
-                      </th>
-                      <th className="px-4 py-3 text-left font-medium text-gray-900 dark:text-white">
-                        Type
-                      </th>
-                      <th className="px-4 py-3 text-left font-medium text-gray-900 dark:text-white">
-                        RTP
-                      </th>
-                      <th className="px-4 py-3 text-left font-medium text-gray-900 dark:text-white">
-                        Platform
-                      </th>
-                      <th className="px-4 py-3 text-left font-medium text-gray-900 dark:text-white">
-                        Status
-                      </th>
-                      <th className="px-4 py-3 text-left font-medium text-gray-900 dark:text-white">
-                        Actions
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
-                    {games.map((game) => (
-                      <tr key={game.gameId} className="hover:bg-gray-50 dark:hover:bg-gray-800">
-                        <td className="px-4 py-3">
-                          <input
-                            type="checkbox"
-                            checked={selectedGames.has(game.gameId)}
-                            onChange={() => handleGameSelection(game.gameId)}
-                            className="rounded border-gray-300"
-                          />
-                        </td>
-                        <td className="px-4 py-3">
-                          <div className="flex items-center space-x-3">
-                            {game.imageUrl && (
-                              <img
-                                src={game.imageUrl}
-                                alt={game.gameName}
-                                className="w-10 h-10 rounded object-cover"
-                              />
-                            )}
-                            <div>
-                              <div className="font-medium text-gray-900 dark:text-white">
-                                {game.gameName}
-                              </div>
-                              {game.description && (
-                                <div className="text-sm text-gray-500 truncate max-w-xs">
-                                  {game.description}
-                                </div>
-                              )}
-                            </div>
-                          </div>
-                        </td>
-                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
-                          {game.providerName || 'Unknown'}
-                        </td>
-                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
-                          {game.gameTypeName || 'Unknown'}
-                        </td>
-                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
-                          {game.rtpPercentage ? formatPercentage(game.rtpPercentage) : 'N/A'}
-                        </td>
-                        <td className="px-4 py-3">
-                          <div className="flex space-x-1">
-                            {game.isMobile && (
-                              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                                Mobile
-                              </span>
-                            )}
-                            {game.isDesktop && (
-                              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                                Desktop
-                              </span>
-                            )}
-                          </div>
-                        </td>
-                        <td className="px-4 py-3">
-                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                            game.isActive 
-                              ? 'bg-green-100 text-green-800' 
-                              : 'bg-red-100 text-red-800'
-                          }`}>
-                            {game.isActive ? 'Active' : 'Inactive'}
-                          </span>
-                        </td>
-                        <td className="px-4 py-3">
-                          <div className="flex space-x-2">
-                            <Button variant="outline" size="sm">
-                              Edit
-                            </Button>
-                            <Button variant="outline" size="sm">
-                              Stats
-                            </Button>
-                          </div>
-                        </td>
-                      </tr>
+            <DataGrid
+              data={games}
+              columns={columns}
+              getRowId={game => String(game.gameId)}
+              rowHeight={60}
+              isLoading={loading}
+              emptyMessage="No games match your filters"
+              storageKey="games-management"
+              enableRowSelection
+              rowSelection={rowSelection}
+              onRowSelectionChange={handleRowSelectionChange}
+              sorting={sorting}
+              onSortingChange={handleSortingChange}
+              manualSorting
+              enableMultiSort={false}
+              toolbar={
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                  Rows per page
+                  <select
+                    value={pagination.pageSize}
+                    onChange={(e) => handlePageSizeChange(Number(e.target.value))}
+                    className="px-2 py-1 border border-gray-300 rounded-lg"
+                  >
+                    {PAGE_SIZE_OPTIONS.map(size => (
+                      <option key={size} value={size}>{size}</option>
                     ))}
-                  </tbody>
-                </table>
-              </div>
-            )}
+                  </select>
+                </label>
+              }
+            />
           </CardContent>
         </Card>
 
@@ -505,6 +557,13 @@ const GamesManagement: React.FC = () => {
             </Button>
           </div>
         )}
+
+        <GameImportWizard
+          isOpen={showImport}
+          reference={referenceData}
+          onClose={() => setShowImport(false)}
+          onImported={handleImported}
+        />
       </div>
     </FeatureErrorBoundary>
   )
@@ -7,6 +7,7 @@ import { toast } from 'react-toastify'
 
 import Button from '@/components/ui/Button'
 import { Card, CardContent } from '@/components/ui/Card'
+import TwoFactorChallengeForm from '@/components/auth/TwoFactorChallengeForm'
 
 interface LoginForm {
   username: string
@@ -16,7 +17,7 @@ interface LoginForm {
 
 const Login: React.FC = () => {
   const navigate = useNavigate()
-  const { login, isLoading, error } = useAuthStore()
+  const { login, isLoading, error, twoFactorChallenge } = useAuthStore()
   const [showPassword, setShowPassword] = useState(false)
 
   const {
@@ -34,6 +35,8 @@ const Login: React.FC = () => {
   const onSubmit = async (data: LoginForm) => {
     try {
       await login(data.username, data.password)
+      // A second factor is still needed; the challenge form takes over
+      if (useAuthStore.getState().twoFactorChallenge) return
       toast.success('Login successful!')
       navigate('/dashboard')
     } catch (error) {
@@ -41,6 +44,11 @@ const Login: React.FC = () => {
     }
   }
 
+  const onTwoFactorVerified = () => {
+    toast.success('Login successful!')
+    navigate('/dashboard')
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 flex items-center justify-center p-4 relative overflow-hidden">
       {/* Animated background elements */}
@@ -83,6 +91,10 @@ const Login: React.FC = () => {
         <Card variant="gaming" className="relative overflow-hidden backdrop-blur-sm">
           <div className="absolute inset-0 bg-gradient-to-br from-primary-500/5 to-purple-500/5" />
           <CardContent className="relative z-10 p-8">
+          {twoFactorChallenge ? (
+            <TwoFactorChallengeForm onVerified={onTwoFactorVerified} />
+          ) : (
+          <>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
             {/* Username */}
             <div>
@@ -198,6 +210,8 @@ const Login: React.FC = () => {
               <p><strong className="text-primary-400">Password:</strong> testpass</p>
             </div>
           </div>
+          </>
+          )}
           </CardContent>
         </Card>
 
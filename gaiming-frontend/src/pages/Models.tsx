@@ -24,10 +24,10 @@ import { Card } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Badge from '@/components/ui/Badge';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
-import AuthGuard, { usePermissions } from '../components/auth/AuthGuard';
-import { exportService } from '../services/exportService';
+import { usePermissions } from '../components/auth/AuthGuard';
+import { exportService, type ExportFormat } from '../services/exportService';
 
-const ModelsContent: React.FC = () => {
+const Models: React.FC = () => {
   const navigate = useNavigate();
   const { canManageModels, canExportModels, canDeployModels } = usePermissions();
   const [models, setModels] = useState<MLModel[]>([]);
@@ -161,7 +161,7 @@ const ModelsContent: React.FC = () => {
     return `${(value * 100).toFixed(1)}%`;
   };
 
-  const handleExportModels = async (format: 'csv' | 'excel' | 'pdf' = 'csv') => {
+  const handleExportModels = async (format: ExportFormat = 'csv') => {
     if (!canExportModels) {
       setError('You do not have permission to export model data');
       return;
@@ -233,7 +233,7 @@ const ModelsContent: React.FC = () => {
                   <Download className="h-4 w-4 mr-2" />
                   Export
                 </Button>
-                <div className="absolute right-0 top-full mt-1 w-32 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-10">
+                <div className="absolute right-0 top-full mt-1 w-36 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-10">
                   <button
                     onClick={() => handleExportModels('csv')}
                     className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-t-lg"
@@ -248,10 +248,22 @@ const ModelsContent: React.FC = () => {
                   </button>
                   <button
                     onClick={() => handleExportModels('pdf')}
-                    className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-b-lg"
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
                   >
                     Export PDF
                   </button>
+                  <button
+                    onClick={() => handleExportModels('parquet')}
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    Export Parquet
+                  </button>
+                  <button
+                    onClick={() => handleExportModels('ndjson')}
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-b-lg"
+                  >
+                    Export NDJSON
+                  </button>
                 </div>
               </div>
             )}
@@ -626,10 +638,4 @@ const ModelsContent: React.FC = () => {
   );
 };
 
-const Models: React.FC = () => (
-  <AuthGuard requiredPermissions={['models.view']}>
-    <ModelsContent />
-  </AuthGuard>
-);
-
 export default Models;
@@ -20,6 +20,7 @@ import {
 } from 'lucide-react'
 import { apiService } from '@/services/api'
 import { API_ENDPOINTS } from '@/config'
+import { usePlayerFieldPolicy } from '@/hooks/usePlayerFieldPolicy'
 import { Line, Pie } from 'react-chartjs-2'
 import {
   Chart as ChartJS,
@@ -99,6 +100,7 @@ export default function PlayerAnalytics() {
   const [selectedPlayerId, setSelectedPlayerId] = useState<number>(1)
   const [timeRange, setTimeRange] = useState<string>('30d')
   const [searchTerm, setSearchTerm] = useState<string>('')
+  const fieldPolicy = usePlayerFieldPolicy()
 
   // Fetch player behavior data
   const { data: behaviorResponse, isLoading: _, refetch: refetchPlayer } = useQuery<any>({
@@ -152,6 +154,10 @@ export default function PlayerAnalytics() {
     }))
   } : undefined
 
+  // Restricted fields are masked or removed according to the viewer's permissions
+  const profile = playerData && fieldPolicy.redact(playerData)
+  const showBets = fieldPolicy.canView('totalBets')
+
   // Transform overview data to segments
   const segments: PlayerSegment[] = overviewResponse?.data?.playerSegments ?
     Object.entries(overviewResponse.data.playerSegments).map(([name, count]: [string, any]) => ({
@@ -214,13 +220,13 @@ export default function PlayerAnalytics() {
         backgroundColor: 'rgba(59, 130, 246, 0.1)',
         yAxisID: 'y',
       },
-      {
+      ...(showBets ? [{
         label: 'Total Bets ($)',
         data: playerData.activityTrend.map(item => item.bets),
         borderColor: 'rgb(16, 185, 129)',
         backgroundColor: 'rgba(16, 185, 129, 0.1)',
         yAxisID: 'y1',
-      },
+      }] : []),
     ],
   } : null
 
@@ -303,22 +309,24 @@ export default function PlayerAnalytics() {
         </div>
       </Card>
 
-      {playerData && (
+      {playerData && profile && (
         <>
           {/* Player Overview */}
           <Card className="p-6">
             <div className="flex items-center justify-between mb-6">
               <div>
                 <h2 className="text-xl font-semibold">{playerData.username}</h2>
-                <p className="text-gray-600 dark:text-gray-400">{playerData.email}</p>
+                <p className="text-gray-600 dark:text-gray-400">{profile.email}</p>
                 <p className="text-sm text-gray-500 mt-1">
                   Registered: {new Date(playerData.registrationDate).toLocaleDateString()}
                 </p>
               </div>
               <div className="flex space-x-3">
-                <Badge className={getRiskLevelColor(playerData.riskLevel)}>
-                  {getRiskLevelText(playerData.riskLevel)}
-                </Badge>
+                {profile.riskLevel !== undefined && (
+                  <Badge className={getRiskLevelColor(profile.riskLevel)}>
+                    {getRiskLevelText(profile.riskLevel)}
+                  </Badge>
+                )}
                 <Badge className={getVIPLevelColor(playerData.vipLevel)}>
                   {getVIPLevelText(playerData.vipLevel)}
                 </Badge>
@@ -327,17 +335,19 @@ export default function PlayerAnalytics() {
 
             {/* Key Metrics */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-              <div className="flex items-center">
-                <DollarSign className="h-8 w-8 text-green-600" />
-                <div className="ml-4">
-                  <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
-                    Lifetime Value
-                  </p>
-                  <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                    {formatCurrency(playerData.lifetimeValue)}
-                  </p>
+              {profile.lifetimeValue !== undefined && (
+                <div className="flex items-center">
+                  <DollarSign className="h-8 w-8 text-green-600" />
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                      Lifetime Value
+                    </p>
+                    <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                      {formatCurrency(profile.lifetimeValue)}
+                    </p>
+                  </div>
                 </div>
-              </div>
+              )}
 
               <div className="flex items-center">
                 <Gamepad2 className="h-8 w-8 text-blue-600" />
@@ -410,7 +420,7 @@ export default function PlayerAnalytics() {
                       },
                       y1: {
                         type: 'linear' as const,
-                        display: true,
+                        display: showBets,
                         position: 'right' as const,
                         title: {
                           display: true,
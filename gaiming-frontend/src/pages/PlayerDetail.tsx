@@ -15,17 +15,27 @@ import {
   BarChart3,
   Gamepad2,
   Award,
-  Settings
+  Settings,
+  Sparkles
 } from 'lucide-react'
 import { playerAnalyticsService, type PlayerAnalytics } from '@/services/playerAnalyticsService'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card'
 import Button from '@/components/ui/Button'
 import Badge from '@/components/ui/Badge'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { usePlayerFieldPolicy } from '@/hooks/usePlayerFieldPolicy'
+import RecommendationSettingsPanel from '@/features/recommendations/components/RecommendationSettingsPanel'
+import { useAuthStore } from '@/app/store/authStore'
+import { appRoutes, canAccessRoute } from '@/app/router'
+
+const playerRecommendationsRoute = appRoutes.find(route => route.id === 'player-recommendations')
 
 const PlayerDetail: React.FC = () => {
   const { playerId } = useParams<{ playerId: string }>()
   const navigate = useNavigate()
+  const fieldPolicy = usePlayerFieldPolicy()
+  const user = useAuthStore((state) => state.user)
+  const canViewRecommendations = !!playerRecommendationsRoute && canAccessRoute(playerRecommendationsRoute, user)
   const [player, setPlayer] = useState<PlayerAnalytics | null>(null)
   const [dashboard, setDashboard] = useState<any>(null)
   const [behavior, setBehavior] = useState<any>(null)
@@ -169,6 +179,9 @@ const PlayerDetail: React.FC = () => {
     )
   }
 
+  // Restricted fields are masked or removed according to the viewer's permissions
+  const profile = fieldPolicy.redact(player)
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -186,11 +199,20 @@ const PlayerDetail: React.FC = () => {
               {player.username}
             </h1>
             <p className="text-gray-400 mt-1">
-              {player.firstName && player.lastName ? `${player.firstName} ${player.lastName}` : player.email}
+              {profile.firstName && profile.lastName ? `${profile.firstName} ${profile.lastName}` : profile.email}
             </p>
           </div>
         </div>
         <div className="flex gap-3">
+          {canViewRecommendations && (
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/recommendations/players/${player.playerId}`)}
+              icon={<Sparkles className="w-4 h-4" />}
+            >
+              Recommendations
+            </Button>
+          )}
           <Button variant="outline" icon={<Settings className="w-4 h-4" />}>
             Manage Player
           </Button>
@@ -220,9 +242,9 @@ const PlayerDetail: React.FC = () => {
                 </div>
                 <div>
                   <h3 className="text-xl font-semibold text-white">{player.username}</h3>
-                  <p className="text-gray-400">{player.email}</p>
-                  {player.firstName && player.lastName && (
-                    <p className="text-gray-300">{player.firstName} {player.lastName}</p>
+                  <p className="text-gray-400">{profile.email}</p>
+                  {profile.firstName && profile.lastName && (
+                    <p className="text-gray-300">{profile.firstName} {profile.lastName}</p>
                   )}
                 </div>
               </div>
@@ -261,13 +283,15 @@ const PlayerDetail: React.FC = () => {
                     VIP {player.vipLevel}
                   </Badge>
                 </div>
-                <div>
-                  <label className="text-sm text-gray-400">Risk Level</label>
-                  <Badge className={getRiskLevelColor(player.riskLevel)}>
-                    <Shield className="w-3 h-3 mr-1" />
-                    Risk {player.riskLevel}
-                  </Badge>
-                </div>
+                {profile.riskLevel !== undefined && (
+                  <div>
+                    <label className="text-sm text-gray-400">Risk Level</label>
+                    <Badge className={getRiskLevelColor(profile.riskLevel)}>
+                      <Shield className="w-3 h-3 mr-1" />
+                      Risk {profile.riskLevel}
+                    </Badge>
+                  </div>
+                )}
               </div>
 
               <div>
@@ -311,29 +335,35 @@ const PlayerDetail: React.FC = () => {
                   <span className="text-white font-medium">{player.totalSessions.toLocaleString()}</span>
                 </div>
 
-                <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
-                  <div className="flex items-center gap-2">
-                    <DollarSign className="w-4 h-4 text-green-400" />
-                    <span className="text-sm text-gray-400">Total Bets</span>
+                {profile.totalBets !== undefined && (
+                  <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <DollarSign className="w-4 h-4 text-green-400" />
+                      <span className="text-sm text-gray-400">Total Bets</span>
+                    </div>
+                    <span className="text-white font-medium">{formatCurrency(profile.totalBets)}</span>
                   </div>
-                  <span className="text-white font-medium">{formatCurrency(player.totalBets)}</span>
-                </div>
+                )}
 
-                <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
-                  <div className="flex items-center gap-2">
-                    <TrendingUp className="w-4 h-4 text-purple-400" />
-                    <span className="text-sm text-gray-400">Total Wins</span>
+                {profile.totalWins !== undefined && (
+                  <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <TrendingUp className="w-4 h-4 text-purple-400" />
+                      <span className="text-sm text-gray-400">Total Wins</span>
+                    </div>
+                    <span className="text-white font-medium">{formatCurrency(profile.totalWins)}</span>
                   </div>
-                  <span className="text-white font-medium">{formatCurrency(player.totalWins)}</span>
-                </div>
+                )}
 
-                <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
-                  <div className="flex items-center gap-2">
-                    <Target className="w-4 h-4 text-orange-400" />
-                    <span className="text-sm text-gray-400">Revenue</span>
+                {profile.totalRevenue !== undefined && (
+                  <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <Target className="w-4 h-4 text-orange-400" />
+                      <span className="text-sm text-gray-400">Revenue</span>
+                    </div>
+                    <span className="text-white font-medium">{formatCurrency(profile.totalRevenue)}</span>
                   </div>
-                  <span className="text-white font-medium">{formatCurrency(player.totalRevenue)}</span>
-                </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -348,20 +378,24 @@ const PlayerDetail: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
-                  <span className="text-sm text-gray-400">Lifetime Value</span>
-                  <span className="text-white font-medium">{formatCurrency(player.lifetimeValue)}</span>
-                </div>
+                {profile.lifetimeValue !== undefined && (
+                  <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
+                    <span className="text-sm text-gray-400">Lifetime Value</span>
+                    <span className="text-white font-medium">{formatCurrency(profile.lifetimeValue)}</span>
+                  </div>
+                )}
 
                 <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
                   <span className="text-sm text-gray-400">Avg Session Duration</span>
                   <span className="text-white font-medium">{player.averageSessionDuration.toFixed(1)} min</span>
                 </div>
 
-                <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
-                  <span className="text-sm text-gray-400">Avg Bet Size</span>
-                  <span className="text-white font-medium">{formatCurrency(player.averageBetSize)}</span>
-                </div>
+                {profile.averageBetSize !== undefined && (
+                  <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
+                    <span className="text-sm text-gray-400">Avg Bet Size</span>
+                    <span className="text-white font-medium">{formatCurrency(profile.averageBetSize)}</span>
+                  </div>
+                )}
 
                 <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
                   <span className="text-sm text-gray-400">Retention Score</span>
@@ -373,10 +407,12 @@ const PlayerDetail: React.FC = () => {
                   <span className="text-white font-medium">{player.engagementScore.toFixed(1)}/100</span>
                 </div>
 
-                <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
-                  <span className="text-sm text-gray-400">Risk Score</span>
-                  <span className="text-white font-medium">{player.riskScore.toFixed(1)}/100</span>
-                </div>
+                {profile.riskScore !== undefined && (
+                  <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
+                    <span className="text-sm text-gray-400">Risk Score</span>
+                    <span className="text-white font-medium">{profile.riskScore.toFixed(1)}/100</span>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -468,6 +504,9 @@ const PlayerDetail: React.FC = () => {
         </Card>
       </div>
 
+      {/* Recommendation Settings */}
+      <RecommendationSettingsPanel key={player.playerId} playerId={player.playerId} />
+
       {/* Behavior Analysis */}
       {behavior && (
         <Card variant="gaming">
@@ -485,10 +524,12 @@ const PlayerDetail: React.FC = () => {
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-white mb-1">{behavior.riskScore?.toFixed(1) || 'N/A'}</div>
-                  <div className="text-sm text-gray-400">Risk Score</div>
-                </div>
+                {fieldPolicy.canView('riskScore') && (
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-white mb-1">{behavior.riskScore?.toFixed(1) || 'N/A'}</div>
+                    <div className="text-sm text-gray-400">Risk Score</div>
+                  </div>
+                )}
 
                 <div className="text-center">
                   <div className="text-2xl font-bold text-white mb-1">{behavior.username || player.username}</div>
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { ColumnDef, SortingState } from '@tanstack/react-table';
 import { Helmet } from 'react-helmet-async';
 import { useNavigate } from 'react-router-dom';
 import {
@@ -18,23 +19,59 @@ import { playerAnalyticsService, type PlayerAnalytics, type PlayerAnalyticsReque
 
 import BarChart from '../components/charts/BarChart';
 import PieChart from '../components/charts/PieChart';
+import { captureChartImage } from '../components/charts/captureChartImage';
 import { Card } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Badge from '@/components/ui/Badge';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
-import AuthGuard, { usePermissions } from '../components/auth/AuthGuard';
+import { usePermissions } from '../components/auth/AuthGuard';
 import ExportProgressDialog from '../components/export/ExportProgressDialog';
+import SavedViewsMenu from '../components/views/SavedViewsMenu';
+import DataGrid from '../components/data-grid/DataGrid';
 import { useExport } from '../hooks/useExport';
+import { usePlayerFieldPolicy } from '../hooks/usePlayerFieldPolicy';
+import type { RedactedPlayer } from '../services/playerFieldPolicy';
+import type { ExportFormat } from '../services/exportService';
+import { useUrlFilters } from '@/shared/hooks/useUrlFilters';
+import type { QueryParamSchema } from '@/shared/utils/urlState';
+
+const PLAYER_FILTER_SCHEMA: QueryParamSchema<PlayerAnalyticsRequest> = {
+  page: 'number',
+  pageSize: 'number',
+  search: 'string',
+  segment: 'string',
+  vipLevel: 'number',
+  riskLevel: 'number',
+  country: 'string',
+  isActive: 'boolean',
+  registrationDateFrom: 'string',
+  registrationDateTo: 'string',
+  sortBy: 'string',
+  sortDirection: ['asc', 'desc'],
+};
+
+const PAGE_SIZE_OPTIONS = [20, 50, 100, 500, 1000];
+
+const DEFAULT_PLAYER_FILTERS: PlayerAnalyticsRequest = {
+  page: 1,
+  pageSize: 20,
+  search: '',
+  sortBy: 'registrationDate',
+  sortDirection: 'desc',
+};
 
-const PlayersContent: React.FC = () => {
+const Players: React.FC = () => {
   const navigate = useNavigate();
   const { canExportPlayers, user } = usePermissions();
+  const fieldPolicy = usePlayerFieldPolicy();
   const [players, setPlayers] = useState<PlayerAnalytics[]>([]);
   const [overview, setOverview] = useState<PlayersOverview | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedPlayer] = useState<PlayerAnalytics | null>(null);
   const [showExportProgress, setShowExportProgress] = useState(false);
+  const segmentsChartRef = useRef<HTMLDivElement>(null);
+  const vipChartRef = useRef<HTMLDivElement>(null);
 
   // Export hook with progress tracking
   const {
@@ -56,14 +93,8 @@ const PlayersContent: React.FC = () => {
   // Suppress unused variable warnings for future use
   console.log('Selected player:', selectedPlayer);
 
-  // Filters and pagination
-  const [filters, setFilters] = useState<PlayerAnalyticsRequest>({
-    page: 1,
-    pageSize: 20,
-    search: '',
-    sortBy: 'registrationDate',
-    sortDirection: 'desc',
-  });
+  // Filters, sort and pagination live in the URL so views can be refreshed and shared
+  const { filters, queryString, setFilters } = useUrlFilters(PLAYER_FILTER_SCHEMA, DEFAULT_PLAYER_FILTERS);
 
   const [pagination, setPagination] = useState({
     totalCount: 0,
@@ -103,29 +134,44 @@ const PlayersContent: React.FC = () => {
   };
 
   const handleSearch = (searchTerm: string) => {
-    setFilters(prev => ({ ...prev, search: searchTerm, page: 1 }));
+    setFilters({ search: searchTerm, page: 1 }, { replace: true });
   };
 
   const handleFilterChange = (key: keyof PlayerAnalyticsRequest, value: any) => {
-    setFilters(prev => ({ ...prev, [key]: value, page: 1 }));
+    setFilters({ [key]: value, page: 1 });
   };
 
   const handlePageChange = (page: number) => {
-    setFilters(prev => ({ ...prev, page }));
+    setFilters({ page });
+  };
+
+  // The API sorts by a single column; the grid's column ids are its sortBy values
+  const sorting = useMemo<SortingState>(
+    () => (filters.sortBy ? [{ id: filters.sortBy, desc: filters.sortDirection === 'desc' }] : []),
+    [filters.sortBy, filters.sortDirection]
+  );
+
+  const handleSortingChange = (next: SortingState) => {
+    const [sort] = next;
+    setFilters({
+      sortBy: sort?.id ?? DEFAULT_PLAYER_FILTERS.sortBy,
+      sortDirection: sort ? (sort.desc ? 'desc' : 'asc') : DEFAULT_PLAYER_FILTERS.sortDirection,
+      page: 1,
+    });
   };
 
-  const handlePlayerClick = (player: PlayerAnalytics) => {
+  const handlePlayerClick = (player: RedactedPlayer) => {
     navigate(`/players/${player.playerId}`);
   };
 
-  const handleViewPlayerDetails = (player: PlayerAnalytics, event?: React.MouseEvent) => {
+  const handleViewPlayerDetails = (player: RedactedPlayer, event?: React.MouseEvent) => {
     if (event) {
       event.stopPropagation();
     }
     navigate(`/players/${player.playerId}`);
   };
 
-  const handleExport = async (format: 'csv' | 'excel' | 'pdf' = 'csv') => {
+  const handleExport = async (format: ExportFormat = 'csv') => {
     if (!canExportPlayers) {
       setError('You do not have permission to export data');
       return;
@@ -139,10 +185,25 @@ const PlayersContent: React.FC = () => {
       clearExportError();
       setShowExportProgress(true);
 
+      // Embed the overview charts in PDF reports
+      const charts = format === 'pdf'
+        ? (await Promise.all([
+            captureChartImage(segmentsChartRef.current, 'Player Segments'),
+            captureChartImage(vipChartRef.current, 'VIP Level Distribution'),
+          ])).filter((chart): chart is NonNullable<typeof chart> => chart !== null)
+        : undefined;
+
       await exportPlayersData(
         players,
         format,
-        user?.role === 'Admin' // Include sensitive data only for admins
+        fieldPolicy,
+        {
+          charts,
+          metadata: {
+            exportedBy: user?.name,
+            filters: { ...filters },
+          },
+        }
       );
     } catch (err) {
       setError('Failed to start export');
@@ -175,6 +236,134 @@ const PlayersContent: React.FC = () => {
     return new Date(dateString).toLocaleDateString();
   };
 
+  // Rows as this user may see them; restricted fields are masked or removed
+  const visiblePlayers = useMemo(
+    () => players.map(player => fieldPolicy.redact(player)),
+    [players, fieldPolicy]
+  );
+
+  const columns = useMemo<ColumnDef<RedactedPlayer>[]>(() => [
+    {
+      id: 'username',
+      header: 'Player',
+      size: 260,
+      accessorKey: 'username',
+      cell: ({ row: { original: player } }) => (
+        <div className="flex items-center">
+          <div className="flex-shrink-0 h-10 w-10">
+            <div className="h-10 w-10 rounded-full bg-gray-300 dark:bg-gray-600 flex items-center justify-center">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                {player.username.charAt(0).toUpperCase()}
+              </span>
+            </div>
+          </div>
+          <div className="ml-4 min-w-0">
+            <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+              {player.username}
+            </div>
+            <div className="text-sm text-gray-500 dark:text-gray-400 truncate">
+              {player.email}
+            </div>
+          </div>
+        </div>
+      ),
+    },
+    {
+      id: 'playerSegment',
+      header: 'Segment',
+      accessorKey: 'playerSegment',
+      cell: ({ row: { original: player } }) => (
+        <Badge variant="secondary">
+          {player.playerSegment}
+        </Badge>
+      ),
+    },
+    {
+      id: 'vipLevel',
+      header: 'VIP Level',
+      size: 120,
+      accessorKey: 'vipLevel',
+      cell: ({ row: { original: player } }) => (
+        <Badge className={getVipLevelColor(player.vipLevel)}>
+          <Star className="h-3 w-3 mr-1" />
+          VIP {player.vipLevel}
+        </Badge>
+      ),
+    },
+    {
+      id: 'riskLevel',
+      header: 'Risk Level',
+      size: 120,
+      accessorKey: 'riskLevel',
+      cell: ({ row: { original: player } }) => player.riskLevel !== undefined && (
+        <Badge className={getRiskLevelColor(player.riskLevel)}>
+          <Shield className="h-3 w-3 mr-1" />
+          Risk {player.riskLevel}
+        </Badge>
+      ),
+    },
+    {
+      id: 'totalRevenue',
+      header: 'Revenue',
+      size: 130,
+      accessorKey: 'totalRevenue',
+      cell: ({ row: { original: player } }) =>
+        player.totalRevenue !== undefined && formatCurrency(player.totalRevenue),
+    },
+    {
+      id: 'totalSessions',
+      header: 'Sessions',
+      size: 110,
+      accessorKey: 'totalSessions',
+      cell: ({ row: { original: player } }) => player.totalSessions.toLocaleString(),
+    },
+    {
+      id: 'lastLoginDate',
+      header: 'Last Login',
+      size: 130,
+      accessorKey: 'lastLoginDate',
+      cell: ({ row: { original: player } }) => (
+        <span className="text-gray-500 dark:text-gray-400">
+          {player.lastLoginDate ? formatDate(player.lastLoginDate) : 'Never'}
+        </span>
+      ),
+    },
+    {
+      id: 'isActive',
+      header: 'Status',
+      size: 110,
+      accessorKey: 'isActive',
+      cell: ({ row: { original: player } }) => (
+        <Badge variant={player.isActive ? 'success' : 'error'}>
+          {player.isActive ? 'Active' : 'Inactive'}
+        </Badge>
+      ),
+    },
+    {
+      id: 'actions',
+      header: 'Actions',
+      size: 90,
+      enableSorting: false,
+      enableHiding: false,
+      cell: ({ row: { original: player } }) => (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={(e) => handleViewPlayerDetails(player, e)}
+          title="View Player Details"
+        >
+          <Eye className="h-4 w-4" />
+        </Button>
+      ),
+    },
+  ], []);
+
+  // Columns for fields this user may not see are left out rather than shown empty
+  const visibleColumns = useMemo(
+    () => columns.filter(column => !column.id || fieldPolicy.access(column.id) !== 'hidden'),
+    [columns, fieldPolicy]
+  );
+
 
 
   if (loading && !players.length) {
@@ -204,6 +393,8 @@ const PlayersContent: React.FC = () => {
           </div>
 
           <div className="flex items-center space-x-3">
+            <SavedViewsMenu list="players" queryString={queryString} />
+
             <Button
               variant="outline"
               size="sm"
@@ -220,7 +411,7 @@ const PlayersContent: React.FC = () => {
                   <Download className="h-4 w-4 mr-2" />
                   Export
                 </Button>
-                <div className="absolute right-0 top-full mt-1 w-32 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-10">
+                <div className="absolute right-0 top-full mt-1 w-36 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-10">
                   <button
                     onClick={() => handleExport('csv')}
                     className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-t-lg"
@@ -235,10 +426,22 @@ const PlayersContent: React.FC = () => {
                   </button>
                   <button
                     onClick={() => handleExport('pdf')}
-                    className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-b-lg"
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
                   >
                     Export PDF
                   </button>
+                  <button
+                    onClick={() => handleExport('parquet')}
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    Export Parquet
+                  </button>
+                  <button
+                    onClick={() => handleExport('ndjson')}
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-b-lg"
+                  >
+                    Export NDJSON
+                  </button>
                 </div>
               </div>
             )}
@@ -322,35 +525,39 @@ const PlayersContent: React.FC = () => {
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
                 Player Segments
               </h3>
-              <PieChart
-                data={Object.entries(overview.playerSegments).map(([name, value]) => ({
-                  name,
-                  value,
-                }))}
-                height={250}
-                formatTooltip={(value, name) => [`${value} players`, name]}
-              />
+              <div ref={segmentsChartRef}>
+                <PieChart
+                  data={Object.entries(overview.playerSegments).map(([name, value]) => ({
+                    name,
+                    value,
+                  }))}
+                  height={250}
+                  formatTooltip={(value, name) => [`${value} players`, name]}
+                />
+              </div>
             </Card>
 
             <Card className="p-6">
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
                 VIP Level Distribution
               </h3>
-              <BarChart
-                data={Object.entries(overview.vipDistribution).map(([name, value]) => ({
-                  name: `VIP ${name}`,
-                  players: value,
-                }))}
-                bars={[
-                  {
-                    dataKey: 'players',
-                    fill: '#3B82F6',
-                    name: 'Players',
-                  },
-                ]}
-                height={250}
-                formatTooltip={(value, name) => [`${value} players`, name]}
-              />
+              <div ref={vipChartRef}>
+                <BarChart
+                  data={Object.entries(overview.vipDistribution).map(([name, value]) => ({
+                    name: `VIP ${name}`,
+                    players: value,
+                  }))}
+                  bars={[
+                    {
+                      dataKey: 'players',
+                      fill: '#3B82F6',
+                      name: 'Players',
+                    },
+                  ]}
+                  height={250}
+                  formatTooltip={(value, name) => [`${value} players`, name]}
+                />
+              </div>
             </Card>
           </div>
         )}
@@ -417,111 +624,34 @@ const PlayersContent: React.FC = () => {
             </h3>
           </div>
 
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-gray-50 dark:bg-gray-800">
-                <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                    Player
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                    Segment
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                    VIP Level
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                    Risk Level
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                    Revenue
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                    Sessions
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                    Last Login
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                    Status
-                  </th>
-                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                    Actions
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
-                {players.map((player) => (
-                  <tr
-                    key={player.playerId}
-                    className="hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer"
-                    onClick={() => handlePlayerClick(player)}
-                  >
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className="flex-shrink-0 h-10 w-10">
-                          <div className="h-10 w-10 rounded-full bg-gray-300 dark:bg-gray-600 flex items-center justify-center">
-                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                              {player.username.charAt(0).toUpperCase()}
-                            </span>
-                          </div>
-                        </div>
-                        <div className="ml-4">
-                          <div className="text-sm font-medium text-gray-900 dark:text-white">
-                            {player.username}
-                          </div>
-                          <div className="text-sm text-gray-500 dark:text-gray-400">
-                            {player.email}
-                          </div>
-                        </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <Badge variant="secondary">
-                        {player.playerSegment}
-                      </Badge>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <Badge className={getVipLevelColor(player.vipLevel)}>
-                        <Star className="h-3 w-3 mr-1" />
-                        VIP {player.vipLevel}
-                      </Badge>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <Badge className={getRiskLevelColor(player.riskLevel)}>
-                        <Shield className="h-3 w-3 mr-1" />
-                        Risk {player.riskLevel}
-                      </Badge>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
-                      {formatCurrency(player.totalRevenue)}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
-                      {player.totalSessions.toLocaleString()}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                      {player.lastLoginDate ? formatDate(player.lastLoginDate) : 'Never'}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <Badge variant={player.isActive ? 'success' : 'error'}>
-                        {player.isActive ? 'Active' : 'Inactive'}
-                      </Badge>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={(e) => handleViewPlayerDetails(player, e)}
-                        title="View Player Details"
-                      >
-                        <Eye className="h-4 w-4" />
-                      </Button>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+          <DataGrid
+            data={visiblePlayers}
+            columns={visibleColumns}
+            getRowId={player => String(player.playerId)}
+            rowHeight={64}
+            isLoading={loading}
+            emptyMessage="No players match your filters"
+            storageKey="players"
+            sorting={sorting}
+            onSortingChange={handleSortingChange}
+            manualSorting
+            enableMultiSort={false}
+            onRowActivate={handlePlayerClick}
+            toolbar={
+              <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                Rows per page
+                <select
+                  value={filters.pageSize}
+                  onChange={(e) => setFilters({ pageSize: Number(e.target.value), page: 1 })}
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                >
+                  {PAGE_SIZE_OPTIONS.map(size => (
+                    <option key={size} value={size}>{size}</option>
+                  ))}
+                </select>
+              </label>
+            }
+          />
 
           {/* Pagination */}
           {pagination.totalPages > 1 && (
@@ -570,10 +700,4 @@ const PlayersContent: React.FC = () => {
   );
 };
 
-const Players: React.FC = () => (
-  <AuthGuard requiredPermissions={['players.view']}>
-    <PlayersContent />
-  </AuthGuard>
-);
-
 export default Players;
@@ -381,6 +381,54 @@ const RecommendationAnalytics: React.FC = () => {
           </Card>
         </div>
 
+        {/* List Diversity */}
+        {analytics.diversity && (
+          <Card>
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold mb-1">List Diversity</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Variety of the lists served after diversity re-ranking
+              </p>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <span className="text-gray-600">Intra-list Diversity:</span>
+                    <div className="text-xl font-bold text-blue-600">
+                      {formatPercentage(analytics.diversity.intraListDiversity)}
+                    </div>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Catalogue Coverage:</span>
+                    <div className="text-xl font-bold text-green-600">
+                      {formatPercentage(analytics.diversity.catalogCoverage)}
+                    </div>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Novelty:</span>
+                    <div className="text-xl font-bold text-purple-600">
+                      {formatPercentage(analytics.diversity.noveltyScore)}
+                    </div>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Serendipity:</span>
+                    <div className="text-xl font-bold text-orange-600">
+                      {formatPercentage(analytics.diversity.serendipityScore)}
+                    </div>
+                  </div>
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Provider Exposure</h4>
+                  <PieChart
+                    data={Object.entries(analytics.diversity.providerDistribution).map(([name, value]) => ({ name, value }))}
+                    height={200}
+                    colors={['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6']}
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Summary Stats */}
         <Card>
           <CardContent className="p-6">
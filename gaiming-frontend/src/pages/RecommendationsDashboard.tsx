@@ -19,6 +19,8 @@ import {
 } from 'lucide-react'
 import { apiService } from '@/services/api'
 import { API_ENDPOINTS } from '@/config'
+import { recommendationEventTracker } from '@/features/recommendations/services/recommendationEventTracker'
+import type { RecommendationAlgorithm, RecommendationCategory } from '@/features/recommendations/types'
 
 interface GameRecommendation {
   id: number
@@ -60,6 +62,22 @@ interface RecommendationStats {
   }>
 }
 
+// Dashboard algorithm names as the event tracker knows them
+const TRACKED_ALGORITHMS: Record<string, RecommendationAlgorithm> = {
+  'collaborative': 'collaborative_filtering',
+  'content-based': 'content_based',
+  'hybrid': 'hybrid',
+  'bandit': 'ml_ensemble',
+  'popularity': 'popularity_based',
+}
+
+const TRACKED_CATEGORIES: RecommendationCategory[] = [
+  'for_you', 'trending', 'new_releases', 'similar_to_played', 'high_rtp',
+  'jackpot', 'quick_play', 'immersive', 'social', 'seasonal',
+]
+
+type InteractionType = 'click' | 'play'
+
 interface GenerateRecommendationsRequest {
   playerId: number
   algorithm: string
@@ -76,6 +94,9 @@ export default function RecommendationsDashboard() {
   const [searchTerm, setSearchTerm] = useState<string>('')
   const [filterAlgorithm, setFilterAlgorithm] = useState<string>('')
 
+  // Interactions tracked this visit; the server's isClicked and isPlayed catch up once events are delivered
+  const [trackedInteractions, setTrackedInteractions] = useState<Set<string>>(new Set())
+
   const queryClient = useQueryClient()
 
   // Fetch recommendation statistics
@@ -155,19 +176,6 @@ export default function RecommendationsDashboard() {
     },
   })
 
-  // Record interaction mutation
-  const recordInteractionMutation = useMutation({
-    mutationFn: ({ recommendationId, interactionType }: { recommendationId: number, interactionType: 'click' | 'play' }) => {
-      const endpoint = interactionType === 'click'
-        ? `/Recommendations/${recommendationId}/click`
-        : `/Recommendations/${recommendationId}/play`
-      return apiService.post(endpoint)
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['recommendations'] })
-      queryClient.invalidateQueries({ queryKey: ['recommendation-stats'] })
-    },
-  })
 
   const handleGenerateRecommendations = () => {
     generateRecommendationsMutation.mutate({
@@ -178,10 +186,24 @@ export default function RecommendationsDashboard() {
     })
   }
 
-  const handleInteraction = (recommendationId: number, type: 'click' | 'play') => {
-    recordInteractionMutation.mutate({ recommendationId, interactionType: type })
+  const handleInteraction = (rec: GameRecommendation, type: InteractionType) => {
+    recommendationEventTracker.track({
+      playerId: rec.playerId,
+      gameId: rec.gameId,
+      eventType: type,
+      context: {
+        category: TRACKED_CATEGORIES.find(category => category === rec.category) ?? 'for_you',
+        algorithm: TRACKED_ALGORITHMS[rec.algorithm] ?? 'hybrid',
+        position: rec.position,
+        score: rec.score,
+      },
+    })
+    setTrackedInteractions(current => new Set(current).add(`${rec.id}:${type}`))
   }
 
+  const hasInteraction = (rec: GameRecommendation, type: InteractionType) =>
+    (type === 'click' ? rec.isClicked : rec.isPlayed) || trackedInteractions.has(`${rec.id}:${type}`)
+
   const getAlgorithmColor = (algorithm: string) => {
     const colors: Record<string, string> = {
       'collaborative': 'bg-blue-100 text-blue-800',
@@ -434,17 +456,17 @@ export default function RecommendationsDashboard() {
                     <div className="flex space-x-2">
                       <Button
                         size="sm"
-                        variant={rec.isClicked ? "default" : "outline"}
-                        onClick={() => handleInteraction(rec.id, 'click')}
-                        disabled={rec.isClicked}
+                        variant={hasInteraction(rec, 'click') ? "default" : "outline"}
+                        onClick={() => handleInteraction(rec, 'click')}
+                        disabled={hasInteraction(rec, 'click')}
                       >
                         <Eye className="h-4 w-4" />
                       </Button>
                       <Button
                         size="sm"
-                        variant={rec.isPlayed ? "default" : "outline"}
-                        onClick={() => handleInteraction(rec.id, 'play')}
-                        disabled={rec.isPlayed}
+                        variant={hasInteraction(rec, 'play') ? "default" : "outline"}
+                        onClick={() => handleInteraction(rec, 'play')}
+                        disabled={hasInteraction(rec, 'play')}
                       >
                         <Play className="h-4 w-4" />
                       </Button>
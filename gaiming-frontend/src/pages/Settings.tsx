@@ -5,7 +5,9 @@ import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/Badge'
 import { toast } from 'sonner'
-import { settingsApi, type SystemSettings } from '@/services/settingsApi'
+import { settingsApi, type SystemSettings, type SecuritySettings } from '@/services/settingsApi'
+import { userManagementApi, type Role } from '@/services/userManagementApi'
+import MySessionsPanel from '@/components/auth/MySessionsPanel'
 import {
   Settings as SettingsIcon,
   Save,
@@ -15,7 +17,8 @@ import {
   Zap,
   Bell,
   Brain,
-  BarChart3
+  BarChart3,
+  MonitorSmartphone
 } from 'lucide-react'
 
 const Settings: React.FC = () => {
@@ -40,6 +43,25 @@ const Settings: React.FC = () => {
     },
   })
 
+  // Roles for the two-factor policy
+  const { data: roles = [] } = useQuery<Role[]>({
+    queryKey: ['roles'],
+    queryFn: userManagementApi.getRoles,
+    enabled: activeTab === 'security',
+  })
+
+  // Security settings are saved on their own so the two-factor policy applies right away
+  const updateSecurityMutation = useMutation({
+    mutationFn: (security: SecuritySettings) => settingsApi.updateCategorySettings('security', security),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['settings'] })
+      toast.success('Two-factor policy updated')
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to update two-factor policy')
+    },
+  })
+
   // Reset settings mutation
   const resetSettingsMutation = useMutation({
     mutationFn: (category?: string) => settingsApi.resetSettings(category),
@@ -64,6 +86,17 @@ const Settings: React.FC = () => {
     }
   }
 
+  const handleToggleTwoFactorRole = (roleName: string) => {
+    if (!settings?.security) return
+    const required = settings.security.twoFactorRequiredRoles ?? []
+    updateSecurityMutation.mutate({
+      ...settings.security,
+      twoFactorRequiredRoles: required.includes(roleName)
+        ? required.filter(name => name !== roleName)
+        : [...required, roleName],
+    })
+  }
+
   const handleExportSettings = () => {
     settingsApi.exportSettings('json')
     toast.success('Settings exported successfully')
@@ -76,8 +109,12 @@ const Settings: React.FC = () => {
     { id: 'security', label: 'Security', icon: Shield },
     { id: 'performance', label: 'Performance', icon: Zap },
     { id: 'notifications', label: 'Notifications', icon: Bell },
+    { id: 'sessions', label: 'My Sessions', icon: MonitorSmartphone },
   ]
 
+  // Tabs with their own panel; the rest show a placeholder
+  const implementedTabs = ['general', 'recommendation', 'security', 'sessions']
+
   if (error) {
     return (
       <div className="space-y-6">
@@ -267,6 +304,33 @@ const Settings: React.FC = () => {
                           readOnly
                         />
                       </div>
+                      <div>
+                        <label className="block text-sm font-medium mb-2">Diversity Weight</label>
+                        <Input
+                          type="number"
+                          step="0.05"
+                          value={settings?.recommendation?.diversityWeight ?? 0}
+                          readOnly
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium mb-2">Popularity Weight</label>
+                        <Input
+                          type="number"
+                          step="0.05"
+                          value={settings?.recommendation?.popularityWeight ?? 0}
+                          readOnly
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium mb-2">Recency Weight</label>
+                        <Input
+                          type="number"
+                          step="0.05"
+                          value={settings?.recommendation?.recencyWeight ?? 0}
+                          readOnly
+                        />
+                      </div>
                     </div>
                     <div className="flex items-center gap-4">
                       <Badge variant={settings?.recommendation?.enableABTesting ? "default" : "secondary"}>
@@ -287,8 +351,60 @@ const Settings: React.FC = () => {
                 </Card>
               )}
 
+              {activeTab === 'security' && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Two-Factor Authentication</CardTitle>
+                    <CardDescription>
+                      Users in the selected roles must set up an authenticator app before they can use GAIming
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {roles.length === 0 ? (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">No roles found.</p>
+                    ) : (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {roles.map((role) => (
+                          <label
+                            key={role.roleId}
+                            className="flex items-center gap-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={settings?.security?.twoFactorRequiredRoles?.includes(role.name) ?? false}
+                              disabled={!settings?.security || updateSecurityMutation.isPending}
+                              onChange={() => handleToggleTwoFactorRole(role.name)}
+                            />
+                            <div>
+                              <div className="text-sm font-medium">{role.name}</div>
+                              {role.description && (
+                                <div className="text-xs text-gray-500 dark:text-gray-400">{role.description}</div>
+                              )}
+                            </div>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex items-center gap-4">
+                      <Badge variant={settings?.security?.enableTwoFactor ? "default" : "secondary"}>
+                        Two-Factor {settings?.security?.enableTwoFactor ? "Available" : "Disabled"}
+                      </Badge>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleResetSettings('security')}
+                      >
+                        Reset Security Settings
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {activeTab === 'sessions' && <MySessionsPanel />}
+
               {/* Other tabs */}
-              {activeTab !== 'general' && activeTab !== 'recommendation' && (
+              {!implementedTabs.includes(activeTab) && (
                 <Card>
                   <CardHeader>
                     <CardTitle>{tabs.find(t => t.id === activeTab)?.label} Settings</CardTitle>
@@ -0,0 +1,396 @@
+import { useMemo, useState } from 'react'
+import { useQuery, useMutation } from '@tanstack/react-query'
+import {
+  FileSearch,
+  Search,
+  Download,
+  AlertTriangle,
+  X,
+  GitCompare,
+  Link2,
+} from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/Badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { toast } from 'sonner'
+import {
+  auditLogApi,
+  AuditFacetValue,
+  AuditLogEntry,
+  AuditLogFacets,
+  AuditLogQuery,
+} from '@/services/auditLogApi'
+import { exportSignedAuditLog, hasSnapshotDiff } from '@/services/auditTrail'
+import { PagedResult } from '@/services/userManagementApi'
+import { settingsApi, SystemSettings } from '@/services/settingsApi'
+import { AuditEntryDialog } from '@/components/admin/AuditEntryDialog'
+import { cn } from '@/lib/utils'
+
+type TimeRange = '1' | '7' | '30' | '90' | 'custom'
+
+const PAGE_SIZE = 50
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(candidate => candidate !== value) : [...values, value]
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+interface FacetChipsProps {
+  label: string
+  values: AuditFacetValue[]
+  selected: string[]
+  onToggle: (value: string) => void
+}
+
+function FacetChips({ label, values, selected, onToggle }: FacetChipsProps) {
+  return (
+    <div>
+      <div className="text-xs font-medium uppercase tracking-wider text-gray-500 mb-2">{label}</div>
+      <div className="flex flex-wrap gap-2">
+        {values.length === 0 && <span className="text-sm text-gray-400">None</span>}
+        {values.map(facet => (
+          <button
+            key={facet.value}
+            type="button"
+            onClick={() => onToggle(facet.value)}
+            className={cn(
+              'px-3 py-1 rounded-full text-sm border capitalize',
+              selected.includes(facet.value)
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            )}
+          >
+            {facet.label ?? facet.value} <span className="opacity-70">({facet.count})</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function AuditLog() {
+  const [search, setSearch] = useState('')
+  const [actorIds, setActorIds] = useState<string[]>([])
+  const [actions, setActions] = useState<string[]>([])
+  const [entityTypes, setEntityTypes] = useState<string[]>([])
+  const [timeRange, setTimeRange] = useState<TimeRange>('7')
+  const [customFrom, setCustomFrom] = useState('')
+  const [customTo, setCustomTo] = useState('')
+  const [requestId, setRequestId] = useState('')
+  const [page, setPage] = useState(1)
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null)
+
+  // Presets are resolved when picked, so the query key stays stable between renders
+  const [presetFrom, setPresetFrom] = useState(() => new Date(Date.now() - 7 * 86400000).toISOString())
+
+  const filters = useMemo<Omit<AuditLogQuery, 'page' | 'pageSize'>>(() => ({
+    search: search || undefined,
+    actorIds: actorIds.length > 0 ? actorIds : undefined,
+    actions: actions.length > 0 ? actions : undefined,
+    entityTypes: entityTypes.length > 0 ? entityTypes : undefined,
+    from: timeRange === 'custom' ? (customFrom ? new Date(customFrom).toISOString() : undefined) : presetFrom,
+    to: timeRange === 'custom' && customTo ? new Date(customTo).toISOString() : undefined,
+    requestId: requestId.trim() || undefined,
+  }), [search, actorIds, actions, entityTypes, timeRange, customFrom, customTo, presetFrom, requestId])
+
+  const { data: result, isLoading, error } = useQuery<PagedResult<AuditLogEntry>>({
+    queryKey: ['audit-log', filters, page],
+    queryFn: () => auditLogApi.getEntries({ ...filters, page, pageSize: PAGE_SIZE }),
+  })
+
+  const { data: facets } = useQuery<AuditLogFacets>({
+    queryKey: ['audit-log-facets', filters],
+    queryFn: () => auditLogApi.getFacets(filters),
+  })
+
+  // Admin-only; used to warn when nothing new is being recorded
+  const { data: settings } = useQuery<SystemSettings>({
+    queryKey: ['settings'],
+    queryFn: settingsApi.getSettings,
+    retry: false,
+  })
+
+  const exportMutation = useMutation({
+    mutationFn: () => exportSignedAuditLog(filters),
+    onSuccess: (signed) => {
+      downloadBlob(signed.blob, signed.filename)
+      toast.success(`Signed export downloaded (SHA-256 ${signed.sha256.slice(0, 12)}…)`)
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to export the audit log')
+    },
+  })
+
+  // Any filter change starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value)
+    setPage(1)
+  }
+
+  const handleTimeRange = (range: TimeRange) => {
+    setTimeRange(range)
+    if (range !== 'custom') {
+      setPresetFrom(new Date(Date.now() - Number(range) * 86400000).toISOString())
+    }
+    setPage(1)
+  }
+
+  const clearFilters = () => {
+    setSearch('')
+    setActorIds([])
+    setActions([])
+    setEntityTypes([])
+    setRequestId('')
+    handleTimeRange('7')
+  }
+
+  const filterByRequest = (id: string) => {
+    setSelectedEntry(null)
+    updateFilter(setRequestId)(id)
+  }
+
+  const entries = result?.items ?? []
+  const auditingDisabled = settings?.security.enableAuditLogging === false
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <FileSearch className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Error loading the audit log</h3>
+          <p className="text-gray-600">Please try again later</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+          <p className="text-gray-600">
+            Who changed what, and when
+            {settings && ` · kept for ${settings.security.auditLogRetentionDays} days`}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => exportMutation.mutate()}
+          loading={exportMutation.isPending}
+          disabled={!result || result.totalCount === 0}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Signed export
+        </Button>
+      </div>
+
+      {auditingDisabled && (
+        <div className="flex items-start gap-2 p-4 rounded-md bg-amber-50 text-sm text-amber-800">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>Audit logging is turned off in Security settings. Existing entries are shown, but new changes are not being recorded.</span>
+        </div>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Filters</CardTitle>
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="flex flex-col lg:flex-row gap-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                placeholder="Search entity names and details..."
+                value={search}
+                onChange={(e) => updateFilter(setSearch)(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <div className="relative lg:w-72">
+              <Link2 className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                placeholder="Request ID"
+                value={requestId}
+                onChange={(e) => updateFilter(setRequestId)(e.target.value)}
+                className="pl-10 font-mono"
+              />
+            </div>
+            <select
+              value={timeRange}
+              onChange={(e) => handleTimeRange(e.target.value as TimeRange)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="1">Last 24h</option>
+              <option value="7">Last 7 days</option>
+              <option value="30">Last 30 days</option>
+              <option value="90">Last 90 days</option>
+              <option value="custom">Custom range</option>
+            </select>
+          </div>
+
+          {timeRange === 'custom' && (
+            <div className="flex flex-col sm:flex-row gap-4">
+              <label className="text-sm text-gray-600 flex items-center gap-2">
+                From
+                <Input type="datetime-local" value={customFrom} onChange={(e) => updateFilter(setCustomFrom)(e.target.value)} />
+              </label>
+              <label className="text-sm text-gray-600 flex items-center gap-2">
+                To
+                <Input type="datetime-local" value={customTo} onChange={(e) => updateFilter(setCustomTo)(e.target.value)} />
+              </label>
+            </div>
+          )}
+
+          <FacetChips
+            label="Actor"
+            values={facets?.actors ?? []}
+            selected={actorIds}
+            onToggle={(value) => updateFilter(setActorIds)(toggleValue(actorIds, value))}
+          />
+          <FacetChips
+            label="Action"
+            values={facets?.actions ?? []}
+            selected={actions}
+            onToggle={(value) => updateFilter(setActions)(toggleValue(actions, value))}
+          />
+          <FacetChips
+            label="Entity type"
+            values={facets?.entityTypes ?? []}
+            selected={entityTypes}
+            onToggle={(value) => updateFilter(setEntityTypes)(toggleValue(entityTypes, value))}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries</CardTitle>
+          <CardDescription>
+            {result ? `${result.totalCount.toLocaleString()} entries found` : 'Loading entries'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Actor</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>Request</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow
+                      key={entry.id}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedEntry(entry)}
+                    >
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="font-medium">{entry.actorName}</TableCell>
+                      <TableCell className="capitalize">{entry.action}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="text-gray-500">{entry.entityType}</span>
+                          <span>{entry.entityName ?? entry.entityId}</span>
+                          {hasSnapshotDiff(entry) && (
+                            <GitCompare className="h-4 w-4 text-blue-600" aria-label="Has before/after changes" />
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {entry.requestId ? (
+                          <button
+                            type="button"
+                            className="font-mono text-xs text-blue-600 hover:underline"
+                            title="Show everything from this request"
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              filterByRequest(entry.requestId!)
+                            }}
+                          >
+                            {entry.requestId.slice(-10)}
+                          </button>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={entry.success ? 'default' : 'error'}>
+                          {entry.success ? 'Success' : 'Failed'}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {result && result.totalPages > 1 && (
+                <div className="flex items-center justify-between pt-4">
+                  <span className="text-sm text-gray-500">
+                    Page {result.page} of {result.totalPages}
+                  </span>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" disabled={!result.hasPreviousPage} onClick={() => setPage(page - 1)}>
+                      Previous
+                    </Button>
+                    <Button variant="outline" size="sm" disabled={!result.hasNextPage} onClick={() => setPage(page + 1)}>
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <AuditEntryDialog
+        entry={selectedEntry}
+        onOpenChange={(open) => !open && setSelectedEntry(null)}
+        onSelectEntry={setSelectedEntry}
+        onFilterByRequest={filterByRequest}
+      />
+    </div>
+  )
+}
+
+export default AuditLog
@@ -10,7 +10,9 @@ import {
   Key,
   XCircle,
   MoreHorizontal,
-  Settings
+  Settings,
+  List,
+  Grid3X3
 } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/input'
@@ -34,12 +36,14 @@ import { toast } from 'sonner'
 import { userManagementApi, Role } from '@/services/userManagementApi'
 import { CreateRoleDialog } from '@/components/admin/CreateRoleDialog'
 import { EditRoleDialog } from '@/components/admin/EditRoleDialog'
+import { RolePermissionMatrix } from '@/components/admin/RolePermissionMatrix'
 
 function RoleManagement() {
   const [search, setSearch] = useState('')
   const [selectedRole, setSelectedRole] = useState<Role | null>(null)
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
+  const [view, setView] = useState<'list' | 'matrix'>('list')
 
   const queryClient = useQueryClient()
 
@@ -103,10 +107,26 @@ function RoleManagement() {
           <h1 className="text-3xl font-bold text-gray-900">Role Management</h1>
           <p className="text-gray-600">Manage system roles and their permissions</p>
         </div>
-        <Button onClick={() => setIsCreateDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Role
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant={view === 'list' ? 'default' : 'outline'}
+            onClick={() => setView('list')}
+          >
+            <List className="h-4 w-4 mr-2" />
+            List
+          </Button>
+          <Button
+            variant={view === 'matrix' ? 'default' : 'outline'}
+            onClick={() => setView('matrix')}
+          >
+            <Grid3X3 className="h-4 w-4 mr-2" />
+            Permission Matrix
+          </Button>
+          <Button onClick={() => setIsCreateDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Role
+          </Button>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -155,115 +175,130 @@ function RoleManagement() {
         </Card>
       </div>
 
-      {/* Search */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Search Roles</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-            <Input
-              placeholder="Search roles..."
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-              className="pl-10"
-            />
+      {view === 'matrix' ? (
+        isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
           </div>
-        </CardContent>
-      </Card>
+        ) : (
+          <RolePermissionMatrix
+            roles={roles}
+            onSaved={() => queryClient.invalidateQueries({ queryKey: ['roles'] })}
+          />
+        )
+      ) : (
+        <>
+          {/* Search */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Search Roles</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Search roles..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </CardContent>
+          </Card>
 
-      {/* Roles Table */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Roles</CardTitle>
-          <CardDescription>
-            {filteredRoles.length} roles found
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          {isLoading ? (
-            <div className="flex items-center justify-center h-32">
-              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-            </div>
-          ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Role</TableHead>
-                  <TableHead>Description</TableHead>
-                  <TableHead>Permissions</TableHead>
-                  <TableHead>Type</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Created</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {filteredRoles.map((role) => (
-                  <TableRow key={role.roleId}>
-                    <TableCell>
-                      <div className="flex items-center gap-2">
-                        <Shield className="h-4 w-4 text-blue-600" />
-                        <div>
-                          <div className="font-medium">{role.name}</div>
-                          <div className="text-sm text-gray-500">ID: {role.roleId.slice(0, 8)}...</div>
-                        </div>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <div className="max-w-xs truncate">
-                        {role.description || 'No description'}
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex items-center gap-2">
-                        <span className="font-medium">{role.permissions.length}</span>
-                        <span className="text-sm text-gray-500">permissions</span>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant={role.isSystemRole ? "default" : "secondary"}>
-                        {role.isSystemRole ? "System" : "Custom"}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant={role.isActive ? "default" : "secondary"}>
-                        {role.isActive ? "Active" : "Inactive"}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>{formatDate(role.createdDate)}</TableCell>
-                    <TableCell className="text-right">
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" size="sm">
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem onClick={() => handleEditRole(role)}>
-                            <Edit className="h-4 w-4 mr-2" />
-                            Edit
-                          </DropdownMenuItem>
-                          {!role.isSystemRole && (
-                            <DropdownMenuItem 
-                              onClick={() => handleDeleteRole(role.roleId)}
-                              className="text-red-600"
-                            >
-                              <Trash2 className="h-4 w-4 mr-2" />
-                              Delete
-                            </DropdownMenuItem>
-                          )}
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          )}
-        </CardContent>
-      </Card>
+          {/* Roles Table */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Roles</CardTitle>
+              <CardDescription>
+                {filteredRoles.length} roles found
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Permissions</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredRoles.map((role) => (
+                      <TableRow key={role.roleId}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Shield className="h-4 w-4 text-blue-600" />
+                            <div>
+                              <div className="font-medium">{role.name}</div>
+                              <div className="text-sm text-gray-500">ID: {role.roleId.slice(0, 8)}...</div>
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="max-w-xs truncate">
+                            {role.description || 'No description'}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{role.permissions.length}</span>
+                            <span className="text-sm text-gray-500">permissions</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={role.isSystemRole ? "default" : "secondary"}>
+                            {role.isSystemRole ? "System" : "Custom"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={role.isActive ? "default" : "secondary"}>
+                            {role.isActive ? "Active" : "Inactive"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{formatDate(role.createdDate)}</TableCell>
+                        <TableCell className="text-right">
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => handleEditRole(role)}>
+                                <Edit className="h-4 w-4 mr-2" />
+                                Edit
+                              </DropdownMenuItem>
+                              {!role.isSystemRole && (
+                                <DropdownMenuItem 
+                                  onClick={() => handleDeleteRole(role.roleId)}
+                                  className="text-red-600"
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Delete
+                                </DropdownMenuItem>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
 
       {/* Dialogs */}
       <CreateRoleDialog 
@@ -1,5 +1,6 @@
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import type { ColumnDef } from '@tanstack/react-table'
 import {
   Users,
   Plus,
@@ -10,19 +11,13 @@ import {
   Mail,
   CheckCircle,
   XCircle,
-  MoreHorizontal
+  MoreHorizontal,
+  Upload
 } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/Badge'
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from '@/components/ui/table'
+import DataGrid from '@/components/data-grid/DataGrid'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -35,6 +30,7 @@ import { toast } from 'sonner'
 import { userManagementApi } from '@/services/userManagementApi'
 import { CreateUserDialog } from '@/components/admin/CreateUserDialog'
 import { EditUserDialog } from '@/components/admin/EditUserDialog'
+import { ImportUsersDialog } from '@/components/admin/ImportUsersDialog'
 
 interface User {
   id: number
@@ -74,6 +70,7 @@ function UserManagement() {
   const [selectedUser, setSelectedUser] = useState<User | null>(null)
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false)
 
   const queryClient = useQueryClient()
 
@@ -118,6 +115,105 @@ function UserManagement() {
     return dateObj.toLocaleString()
   }
 
+  // Users come back one page at a time, so multi-sort orders the loaded page
+  const columns = useMemo<ColumnDef<User>[]>(() => [
+    {
+      id: 'displayName',
+      header: 'User',
+      size: 220,
+      accessorKey: 'displayName',
+      cell: ({ row: { original: user } }) => (
+        <div className="min-w-0">
+          <div className="font-medium truncate">{user.displayName}</div>
+          <div className="text-sm text-gray-500 truncate">@{user.username}</div>
+        </div>
+      ),
+    },
+    {
+      id: 'email',
+      header: 'Email',
+      size: 240,
+      accessorKey: 'email',
+      cell: ({ row: { original: user } }) => (
+        <div className="flex items-center gap-2">
+          <span className="truncate">{user.email}</span>
+          {user.emailConfirmed && (
+            <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />
+          )}
+        </div>
+      ),
+    },
+    {
+      id: 'roles',
+      header: 'Roles',
+      size: 200,
+      accessorFn: (user) => user.roles.join(', '),
+      cell: ({ row: { original: user } }) => (
+        <div className="flex gap-1 overflow-hidden">
+          {user.roles.map((role) => (
+            <Badge key={role} variant="secondary">
+              {role}
+            </Badge>
+          ))}
+        </div>
+      ),
+    },
+    {
+      id: 'isActive',
+      header: 'Status',
+      size: 110,
+      accessorKey: 'isActive',
+      cell: ({ row: { original: user } }) => (
+        <Badge variant={user.isActive ? "default" : "secondary"}>
+          {user.isActive ? "Active" : "Inactive"}
+        </Badge>
+      ),
+    },
+    {
+      id: 'lastLogin',
+      header: 'Last Login',
+      size: 180,
+      accessorFn: (user) => (user.lastLogin ? new Date(user.lastLogin).getTime() : 0),
+      cell: ({ row: { original: user } }) => formatDateTime(user.lastLogin),
+    },
+    {
+      id: 'createdDate',
+      header: 'Created',
+      size: 120,
+      accessorFn: (user) => new Date(user.createdDate).getTime(),
+      cell: ({ row: { original: user } }) => formatDate(user.createdDate),
+    },
+    {
+      id: 'actions',
+      header: 'Actions',
+      size: 90,
+      enableSorting: false,
+      enableHiding: false,
+      cell: ({ row: { original: user } }) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm">
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => handleEditUser(user)}>
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </DropdownMenuItem>
+            <DropdownMenuItem 
+              onClick={() => handleDeleteUser(user.userId)}
+              className="text-red-600"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+  ], [])
+
   if (error) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -138,10 +234,16 @@ function UserManagement() {
           <h1 className="text-3xl font-bold text-gray-900">User Management</h1>
           <p className="text-gray-600">Manage system users, roles, and permissions</p>
         </div>
-        <Button onClick={() => setIsCreateDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add User
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button onClick={() => setIsCreateDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add User
+          </Button>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -244,83 +346,16 @@ function UserManagement() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {isLoading ? (
-            <div className="flex items-center justify-center h-32">
-              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-            </div>
-          ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>User</TableHead>
-                  <TableHead>Email</TableHead>
-                  <TableHead>Roles</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Last Login</TableHead>
-                  <TableHead>Created</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {usersData?.items.map((user) => (
-                  <TableRow key={user.userId}>
-                    <TableCell>
-                      <div>
-                        <div className="font-medium">{user.displayName}</div>
-                        <div className="text-sm text-gray-500">@{user.username}</div>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex items-center gap-2">
-                        {user.email}
-                        {user.emailConfirmed && (
-                          <CheckCircle className="h-4 w-4 text-green-600" />
-                        )}
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex flex-wrap gap-1">
-                        {user.roles.map((role) => (
-                          <Badge key={role} variant="secondary">
-                            {role}
-                          </Badge>
-                        ))}
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant={user.isActive ? "default" : "secondary"}>
-                        {user.isActive ? "Active" : "Inactive"}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>{formatDateTime(user.lastLogin)}</TableCell>
-                    <TableCell>{formatDate(user.createdDate)}</TableCell>
-                    <TableCell className="text-right">
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" size="sm">
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem onClick={() => handleEditUser(user)}>
-                            <Edit className="h-4 w-4 mr-2" />
-                            Edit
-                          </DropdownMenuItem>
-                          <DropdownMenuItem 
-                            onClick={() => handleDeleteUser(user.userId)}
-                            className="text-red-600"
-                          >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Delete
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          )}
+          <DataGrid
+            data={usersData?.items ?? []}
+            columns={columns}
+            getRowId={(user) => user.userId}
+            height={560}
+            rowHeight={56}
+            isLoading={isLoading}
+            emptyMessage="No users found"
+            storageKey="admin-users"
+          />
         </CardContent>
       </Card>
 
@@ -361,6 +396,12 @@ function UserManagement() {
         }}
       />
 
+      <ImportUsersDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        onSuccess={() => queryClient.invalidateQueries({ queryKey: ['users'] })}
+      />
+
       {selectedUser && (
         <EditUserDialog 
           open={isEditDialogOpen} 
@@ -1,6 +1,7 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios'
 import { ApiResponse, PaginatedResponse } from '@/types'
 import { API_CONFIG, ENV_INFO } from '@/config'
+import { useAuthStore } from '@/app/store/authStore'
 
 // Create axios instance with default configuration
 const createApiInstance = (): AxiosInstance => {
@@ -38,7 +39,8 @@ const createApiInstance = (): AxiosInstance => {
       return response;
     },
     (error) => {
-      if (error.response?.status === 401) {
+      // A session locked for inactivity is signed back in on the page, without leaving it
+      if (error.response?.status === 401 && !useAuthStore.getState().sessionLocked) {
         // Handle unauthorized access
         localStorage.removeItem('authToken');
         window.location.href = '/login';
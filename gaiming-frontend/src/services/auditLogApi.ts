@@ -0,0 +1,119 @@
+import { apiService } from './api'
+import type { PagedResult } from './userManagementApi'
+
+// Entities whose changes are recorded with before/after snapshots
+export type AuditEntityType = 'setting' | 'role' | 'game' | 'user' | 'permission' | 'session' | 'recommendation'
+
+export interface AuditLogEntry {
+  id: string
+  timestamp: string
+  actorId: string
+  actorName: string
+  action: string
+  entityType: AuditEntityType | string
+  entityId?: string
+  entityName?: string
+  // The X-Request-ID of the API call that caused the entry; shared by everything one request changed
+  requestId?: string
+  ipAddress?: string
+  userAgent?: string
+  success: boolean
+  // State of the entity before and after the change, when the entity is snapshotted
+  before?: unknown
+  after?: unknown
+  details?: string
+}
+
+export interface AuditLogQuery {
+  page?: number
+  pageSize?: number
+  search?: string
+  actorIds?: string[]
+  actions?: string[]
+  entityTypes?: string[]
+  from?: string // ISO timestamp
+  to?: string
+  requestId?: string
+}
+
+export interface AuditFacetValue {
+  value: string
+  label?: string
+  count: number
+}
+
+// Counts for each filter value, given the other active filters
+export interface AuditLogFacets {
+  actors: AuditFacetValue[]
+  actions: AuditFacetValue[]
+  entityTypes: AuditFacetValue[]
+}
+
+export interface AuditExportSignatureRequest {
+  sha256: string
+  recordCount: number
+  generatedAt: string
+  filters: AuditLogQuery
+}
+
+export interface AuditExportSignature {
+  algorithm: string
+  keyId: string
+  signature: string
+  signedAt: string
+}
+
+const EXPORT_PAGE_SIZE = 500
+
+const toSearchParams = (query: AuditLogQuery) => {
+  const searchParams = new URLSearchParams()
+
+  if (query.page) searchParams.append('page', query.page.toString())
+  if (query.pageSize) searchParams.append('pageSize', query.pageSize.toString())
+  if (query.search) searchParams.append('search', query.search)
+  if (query.from) searchParams.append('from', query.from)
+  if (query.to) searchParams.append('to', query.to)
+  if (query.requestId) searchParams.append('requestId', query.requestId)
+  query.actorIds?.forEach(actorId => searchParams.append('actorId', actorId))
+  query.actions?.forEach(action => searchParams.append('action', action))
+  query.entityTypes?.forEach(entityType => searchParams.append('entityType', entityType))
+
+  return searchParams.toString()
+}
+
+export const auditLogApi = {
+  async getEntries(query: AuditLogQuery = {}): Promise<PagedResult<AuditLogEntry>> {
+    const response = await apiService.get<PagedResult<AuditLogEntry>>(`/AuditLogs?${toSearchParams(query)}`)
+    return response
+  },
+
+  // Every entry matching the filters, for exports
+  async getAllEntries(query: Omit<AuditLogQuery, 'page' | 'pageSize'> = {}): Promise<AuditLogEntry[]> {
+    const entries: AuditLogEntry[] = []
+    let page = 1
+    let result: PagedResult<AuditLogEntry>
+    do {
+      result = await auditLogApi.getEntries({ ...query, page, pageSize: EXPORT_PAGE_SIZE })
+      entries.push(...result.items)
+      page++
+    } while (result.hasNextPage)
+    return entries
+  },
+
+  async getFacets(query: AuditLogQuery = {}): Promise<AuditLogFacets> {
+    const response = await apiService.get<AuditLogFacets>(`/AuditLogs/facets?${toSearchParams(query)}`)
+    return response
+  },
+
+  // Everything recorded for one API request
+  async getByRequestId(requestId: string): Promise<AuditLogEntry[]> {
+    const response = await apiService.get<AuditLogEntry[]>(`/AuditLogs/requests/${encodeURIComponent(requestId)}`)
+    return response
+  },
+
+  // The server signs the digest of an export with its audit key, so the file can be verified later
+  async signExport(request: AuditExportSignatureRequest): Promise<AuditExportSignature> {
+    const response = await apiService.post<AuditExportSignature>('/AuditLogs/exports/sign', request)
+    return response
+  },
+}
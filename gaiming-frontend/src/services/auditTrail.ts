@@ -0,0 +1,124 @@
+// Audit trail helpers
+// Field-level diffs between the before/after snapshots of an audited change,
+// and the signed CSV export handed to compliance.
+
+import { createExportSink } from './export/exportSinks';
+import { auditLogApi, type AuditExportSignature, type AuditLogEntry, type AuditLogQuery } from './auditLogApi';
+
+export type AuditChangeKind = 'added' | 'removed' | 'changed';
+
+export interface AuditChange {
+  // Dotted path into the snapshot, with array indexes, e.g. "recommendation.weights[2]"
+  path: string;
+  kind: AuditChangeKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface SignedAuditExport {
+  blob: Blob;
+  filename: string;
+  sha256: string;
+  signature: AuditExportSignature;
+}
+
+// Entity types recorded with before/after snapshots worth diffing
+export const DIFFABLE_ENTITY_TYPES = ['setting', 'role', 'game'];
+
+const EXPORT_COLUMNS: { header: string; value: (entry: AuditLogEntry) => unknown }[] = [
+  { header: 'Timestamp', value: entry => entry.timestamp },
+  { header: 'Actor ID', value: entry => entry.actorId },
+  { header: 'Actor', value: entry => entry.actorName },
+  { header: 'Action', value: entry => entry.action },
+  { header: 'Entity Type', value: entry => entry.entityType },
+  { header: 'Entity ID', value: entry => entry.entityId },
+  { header: 'Entity', value: entry => entry.entityName },
+  { header: 'Request ID', value: entry => entry.requestId },
+  { header: 'IP Address', value: entry => entry.ipAddress },
+  { header: 'Success', value: entry => entry.success },
+  { header: 'Before', value: entry => entry.before },
+  { header: 'After', value: entry => entry.after },
+  { header: 'Details', value: entry => entry.details },
+];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * List the leaf values that differ between two snapshots. Objects and arrays
+ * are walked, so a changed setting shows up as that one setting rather than
+ * the whole settings object.
+ */
+export function diffSnapshots(before: unknown, after: unknown, path = ''): AuditChange[] {
+  if (before === undefined && after === undefined) return [];
+  if (before === undefined) return [{ path, kind: 'added', after }];
+  if (after === undefined) return [{ path, kind: 'removed', before }];
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap(key => diffSnapshots(before[key], after[key], childPath(path, key)));
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    return Array.from({ length }, (_, index) => diffSnapshots(before[index], after[index], childPath(path, index))).flat();
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, kind: 'changed', before, after }];
+}
+
+export function hasSnapshotDiff(entry: AuditLogEntry): boolean {
+  return DIFFABLE_ENTITY_TYPES.includes(entry.entityType) && (entry.before !== undefined || entry.after !== undefined);
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Export every entry matching the filters as CSV, signed by the server.
+ * The digest covers the CSV from its header row on; the signature details go
+ * in a commented preamble so the file stays readable as a spreadsheet.
+ */
+export async function exportSignedAuditLog(
+  filters: Omit<AuditLogQuery, 'page' | 'pageSize'>
+): Promise<SignedAuditExport> {
+  const entries = await auditLogApi.getAllEntries(filters);
+  if (entries.length === 0) {
+    throw new Error('No audit entries match the current filters');
+  }
+
+  const headers = EXPORT_COLUMNS.map(column => column.header);
+  const sink = createExportSink({ format: 'csv', headers });
+  sink.write(entries.map(entry =>
+    Object.fromEntries(EXPORT_COLUMNS.map(column => [column.header, column.value(entry)]))
+  ));
+  const body = await sink.finish().text();
+
+  const generatedAt = new Date().toISOString();
+  const sha256 = await sha256Hex(body);
+  const signature = await auditLogApi.signExport({ sha256, recordCount: entries.length, generatedAt, filters });
+
+  const preamble = [
+    '# GAIming audit log export',
+    `# Generated at: ${generatedAt}`,
+    `# Records: ${entries.length}`,
+    `# Filters: ${JSON.stringify(filters)}`,
+    `# SHA-256 (from the header row to the end of the file): ${sha256}`,
+    `# Signature (${signature.algorithm}, key ${signature.keyId}, signed ${signature.signedAt}): ${signature.signature}`,
+  ];
+
+  return {
+    blob: new Blob([`${preamble.join('\n')}\n`, body], { type: 'text/csv;charset=utf-8;' }),
+    filename: `audit-log-${generatedAt.slice(0, 10)}.csv`,
+    sha256,
+    signature,
+  };
+}
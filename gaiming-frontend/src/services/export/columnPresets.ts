@@ -0,0 +1,82 @@
+// Default export columns for the Players, Models and Games pages and game recommendations
+
+import type { GameRecommendation } from '../../features/recommendations/types';
+import type { Game } from '../../types';
+import type { MLModel } from '../mlModelsService';
+import type { PlayerAnalytics } from '../playerAnalyticsService';
+import type { ExportColumn } from './columnSpec';
+
+// Email, money and risk columns are masked or dropped by the player field policy at export time
+export const PLAYER_EXPORT_COLUMNS: ExportColumn<PlayerAnalytics>[] = [
+  { id: 'playerId', header: 'Player ID', source: 'playerId' },
+  { id: 'username', header: 'Username', source: 'username' },
+  { id: 'email', header: 'Email', source: 'email' },
+  { id: 'country', header: 'Country', source: 'country' },
+  { id: 'vipLevel', header: 'VIP Level', source: 'vipLevel', format: 'integer' },
+  { id: 'playerSegment', header: 'Player Segment', source: 'playerSegment' },
+  { id: 'status', header: 'Status', source: player => (player.isActive ? 'Active' : 'Inactive') },
+  { id: 'registrationDate', header: 'Registration Date', source: 'registrationDate', format: 'date' },
+  { id: 'lastLoginDate', header: 'Last Login', source: 'lastLoginDate', format: 'datetime' },
+  { id: 'totalSessions', header: 'Total Sessions', source: 'totalSessions', format: 'integer' },
+  { id: 'averageSessionDuration', header: 'Avg Session (min)', source: 'averageSessionDuration', format: 'number' },
+  { id: 'favoriteGameTypes', header: 'Favorite Game Types', source: 'favoriteGameTypes', format: 'list' },
+  { id: 'preferredProviders', header: 'Preferred Providers', source: 'preferredProviders', format: 'list' },
+  { id: 'engagementScore', header: 'Engagement Score', source: 'engagementScore', format: 'number' },
+  { id: 'retentionScore', header: 'Retention Score', source: 'retentionScore', format: 'number' },
+  { id: 'totalRevenue', header: 'Total Revenue', source: 'totalRevenue', format: 'currency' },
+  { id: 'lifetimeValue', header: 'Lifetime Value', source: 'lifetimeValue', format: 'currency' },
+  { id: 'averageBetSize', header: 'Avg Bet Size', source: 'averageBetSize', format: 'currency' },
+  { id: 'riskLevel', header: 'Risk Level', source: 'riskLevel', format: 'integer' },
+];
+
+export const MODEL_EXPORT_COLUMNS: ExportColumn<MLModel>[] = [
+  { id: 'id', header: 'Model ID', source: 'id' },
+  { id: 'name', header: 'Name', source: 'name' },
+  { id: 'version', header: 'Version', source: 'version' },
+  { id: 'modelType', header: 'Type', source: 'modelType' },
+  { id: 'status', header: 'Status', source: model => model.status.charAt(0).toUpperCase() + model.status.slice(1) },
+  { id: 'accuracy', header: 'Accuracy', source: 'metadata.accuracy', format: 'percent' },
+  { id: 'createdBy', header: 'Created By', source: 'createdBy' },
+  { id: 'createdDate', header: 'Created Date', source: 'createdDate', format: 'date' },
+  { id: 'lastTrainedDate', header: 'Last Trained', source: 'lastTrainedDate', format: 'datetime' },
+  { id: 'deployedDate', header: 'Deployed', source: 'deployedDate', format: 'datetime' },
+  { id: 'isActive', header: 'Active', source: 'isActive', format: 'boolean' },
+];
+
+export const GAME_EXPORT_COLUMNS: ExportColumn<Game>[] = [
+  { id: 'gameId', header: 'Game ID', source: 'gameId' },
+  { id: 'gameName', header: 'Name', source: 'gameName' },
+  { id: 'provider', header: 'Provider', source: game => game.providerName || game.provider?.providerName },
+  { id: 'gameType', header: 'Type', source: game => game.gameTypeName || game.gameType?.gameTypeName },
+  { id: 'volatility', header: 'Volatility', source: 'volatility.volatilityName' },
+  { id: 'theme', header: 'Theme', source: 'theme.themeName' },
+  { id: 'rtpPercentage', header: 'RTP (%)', source: 'rtpPercentage', format: 'number' },
+  { id: 'minBetAmount', header: 'Min Bet', source: 'minBetAmount', format: 'currency' },
+  { id: 'maxBetAmount', header: 'Max Bet', source: 'maxBetAmount', format: 'currency' },
+  { id: 'isMobile', header: 'Mobile', source: 'isMobile', format: 'boolean' },
+  { id: 'isDesktop', header: 'Desktop', source: 'isDesktop', format: 'boolean' },
+  { id: 'isActive', header: 'Active', source: 'isActive', format: 'boolean' },
+  { id: 'releaseDate', header: 'Release Date', source: 'releaseDate', format: 'date' },
+  { id: 'tags', header: 'Tags', source: 'tags', format: 'list' },
+];
+
+export const RECOMMENDATION_EXPORT_COLUMNS: ExportColumn<GameRecommendation>[] = [
+  { id: 'gameId', header: 'Game ID', source: 'gameId' },
+  { id: 'gameName', header: 'Game', source: 'gameName' },
+  { id: 'providerName', header: 'Provider', source: 'providerName' },
+  { id: 'gameTypeName', header: 'Type', source: 'gameTypeName' },
+  { id: 'category', header: 'Category', source: 'category' },
+  { id: 'algorithm', header: 'Algorithm', source: 'algorithm' },
+  { id: 'score', header: 'Score', source: 'score', format: 'number' },
+  {
+    id: 'reasons',
+    header: 'Reasons',
+    source: 'reasons',
+    format: reasons => (Array.isArray(reasons) ? reasons.map(reason => reason.description).join('; ') : ''),
+  },
+  { id: 'expectedEngagement', header: 'Expected Engagement', source: 'metadata.expectedEngagement', format: 'number' },
+  { id: 'expectedRevenue', header: 'Expected Revenue', source: 'metadata.expectedRevenue', format: 'currency' },
+  { id: 'riskLevel', header: 'Risk Level', source: 'metadata.riskLevel' },
+  { id: 'noveltyScore', header: 'Novelty Score', source: 'metadata.noveltyScore', format: 'number' },
+  { id: 'recommendedBetSize', header: 'Recommended Bet', source: 'personalizedFeatures.recommendedBetSize', format: 'currency' },
+];
@@ -0,0 +1,124 @@
+// Export column specs
+// Declarative description of the columns written to an export: where each
+// value comes from, how it is formatted, where it appears and when it is
+// included. Specs are resolved and applied on the main thread, chunk by
+// chunk, before rows are handed to the export worker.
+
+import { formatDisplayValue } from './exportSinks';
+import type { XlsxCellType } from './xlsxWriter';
+
+// Built-in formats; 'list' joins array values into a single cell
+export type ExportColumnFormat = XlsxCellType | 'list';
+
+export interface ExportColumnContext {
+  includeSensitiveData: boolean;
+}
+
+export interface ExportColumn<T = any> {
+  // Stable identifier used by include/exclude lists
+  id: string;
+  header: string;
+  // Dot-separated path into the row (e.g. 'preferences.favoriteProviders') or an accessor
+  source: string | ((row: T) => unknown);
+  format?: ExportColumnFormat | ((value: unknown, row: T) => string);
+  // Columns are sorted by order; columns without one keep their declaration position
+  order?: number;
+  include?: (context: ExportColumnContext) => boolean;
+}
+
+export interface ColumnSelection {
+  includeColumns?: string[];
+  excludeColumns?: string[];
+  context?: Partial<ExportColumnContext>;
+}
+
+/**
+ * How projected values are emitted: 'typed' keeps numbers, booleans and dates
+ * as values for formats that style cells themselves (Excel, PDF, JSON);
+ * 'display' renders every value as text (CSV); 'record' keys rows by column id
+ * and keeps arrays intact for machine-readable formats (Parquet, NDJSON)
+ */
+export type ColumnValueMode = 'typed' | 'display' | 'record';
+
+/**
+ * Read a nested value by dot-separated path
+ */
+export function getValueAtPath(row: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, segment) => {
+    if (value === null || value === undefined) return undefined;
+    return (value as Record<string, unknown>)[segment];
+  }, row);
+}
+
+/**
+ * Apply include rules and include/exclude lists, then sort by order
+ */
+export function resolveColumns<T>(columns: ExportColumn<T>[], selection: ColumnSelection = {}): ExportColumn<T>[] {
+  const known = new Set(columns.map(column => column.id));
+  [...(selection.includeColumns || []), ...(selection.excludeColumns || [])].forEach(id => {
+    if (!known.has(id)) {
+      throw new Error(`Unknown export column: ${id}`);
+    }
+  });
+
+  const context: ExportColumnContext = { includeSensitiveData: false, ...selection.context };
+  const included = selection.includeColumns ? new Set(selection.includeColumns) : null;
+  const excluded = new Set(selection.excludeColumns || []);
+
+  return columns
+    .map((column, index) => ({ column, position: column.order ?? index }))
+    .filter(({ column }) =>
+      (!column.include || column.include(context)) &&
+      (!included || included.has(column.id)) &&
+      !excluded.has(column.id)
+    )
+    .sort((a, b) => a.position - b.position)
+    .map(({ column }) => column);
+}
+
+/**
+ * Cell type of a column, or undefined when it should be inferred from the data
+ */
+export function getColumnType(column: ExportColumn): XlsxCellType | undefined {
+  if (typeof column.format === 'function' || column.format === 'list') return 'string';
+  return column.format;
+}
+
+function formatColumnValue(column: ExportColumn, value: unknown, row: unknown, mode: ColumnValueMode): unknown {
+  if (typeof column.format === 'function') {
+    return column.format(value, row);
+  }
+  if (value === null || value === undefined) {
+    return mode === 'display' ? '' : null;
+  }
+  if (mode === 'record') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join(', ');
+  }
+  if (mode === 'typed' || column.format === 'list') {
+    return value;
+  }
+  return formatDisplayValue(value, column.format ?? 'string');
+}
+
+/**
+ * Build a function that maps a source row to an export row keyed by column
+ * header, or by column id in 'record' mode
+ */
+export function createRowProjector<T>(
+  columns: ExportColumn<T>[],
+  mode: ColumnValueMode
+): (row: T) => Record<string, unknown> {
+  return row => {
+    const projected: Record<string, unknown> = {};
+    columns.forEach(column => {
+      const value = typeof column.source === 'function'
+        ? column.source(row)
+        : getValueAtPath(row, column.source);
+      projected[mode === 'record' ? column.id : column.header] = formatColumnValue(column, value, row, mode);
+    });
+    return projected;
+  };
+}
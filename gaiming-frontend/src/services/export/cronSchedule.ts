@@ -0,0 +1,256 @@
+// Cron schedule engine
+// Parses standard five-field cron expressions and computes upcoming run times
+// in an IANA timezone, so export schedules can be previewed before saving.
+
+export interface CronSchedule {
+  expression: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[]; // 1-12
+  daysOfWeek: number[]; // 0-6, 0 = Sunday
+  // When both day fields are restricted a day matches either of them (standard cron semantics)
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export interface CronRunOptions {
+  from?: Date;
+  until?: Date;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  // 7 is accepted as an alias for Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// February allows the 29th so leap-day schedules are not rejected
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Long enough to find the next run of a leap-day schedule
+const MAX_SEARCH_DAYS = 366 * 9;
+
+function parseValue(token: string, field: CronField): number {
+  const named = field.names?.indexOf(token.toUpperCase()) ?? -1;
+  if (named >= 0) return named + field.min;
+
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`Invalid ${field.name} value "${token}"`);
+  }
+  const value = Number(token);
+  if (value < field.min || value > field.max) {
+    throw new Error(`${field.name.charAt(0).toUpperCase()}${field.name.slice(1)} must be between ${field.min} and ${field.max}`);
+  }
+  return value;
+}
+
+function parseField(text: string, field: CronField): number[] {
+  const values = new Set<number>();
+
+  text.split(',').forEach(part => {
+    const [range = '', stepText, extra] = part.split('/');
+    if (range === '' || extra !== undefined) {
+      throw new Error(`Invalid ${field.name} field "${text}"`);
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || Number(stepText) === 0) {
+        throw new Error(`Invalid step "${stepText}" in ${field.name} field`);
+      }
+      step = Number(stepText);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const bounds = range.split('-');
+      if (bounds.length !== 2) {
+        throw new Error(`Invalid ${field.name} range "${range}"`);
+      }
+      start = parseValue(bounds[0]!, field);
+      end = parseValue(bounds[1]!, field);
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, field);
+      // "5/15" means every 15 starting at 5
+      end = stepText !== undefined ? field.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  });
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a five-field cron expression (or @daily-style macro).
+ * Throws when the syntax is invalid or the expression can never run.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const source = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const parts = source.split(/\s+/);
+  if (parts.length !== 5 || parts[0] === '') {
+    throw new Error('Cron expressions need five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, weekdays] = parts.map((part, index) => parseField(part, FIELDS[index]!));
+  const daysOfWeek = [...new Set(weekdays!.map(day => day % 7))].sort((a, b) => a - b);
+  const dayOfMonthRestricted = !parts[2]!.startsWith('*');
+  const dayOfWeekRestricted = !parts[4]!.startsWith('*');
+
+  if (
+    dayOfMonthRestricted &&
+    !dayOfWeekRestricted &&
+    !months!.some(month => daysOfMonth!.some(day => day <= DAYS_IN_MONTH[month - 1]!))
+  ) {
+    throw new Error('Expression never runs: none of the selected days exist in the selected months');
+  }
+
+  return {
+    expression: trimmed,
+    minutes: minutes!,
+    hours: hours!,
+    daysOfMonth: daysOfMonth!,
+    months: months!,
+    daysOfWeek,
+    dayOfMonthRestricted,
+    dayOfWeekRestricted,
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time in a timezone, encoded as a UTC timestamp
+ */
+function toWallClock(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(new Date(instant)).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return Date.UTC(parts.year!, parts.month! - 1, parts.day!, parts.hour! % 24, parts.minute!, parts.second!);
+}
+
+/**
+ * Instant at which a timezone shows the given wall-clock time, or null when
+ * that local time is skipped by a daylight saving transition
+ */
+function fromWallClock(wall: number, timeZone: string): number | null {
+  let instant = wall - (toWallClock(wall, timeZone) - wall);
+  instant = wall - (toWallClock(instant, timeZone) - instant);
+  return toWallClock(instant, timeZone) === wall ? instant : null;
+}
+
+function matchesDay(cron: CronSchedule, day: Date): boolean {
+  if (!cron.months.includes(day.getUTCMonth() + 1)) return false;
+
+  const dayOfMonth = cron.daysOfMonth.includes(day.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.includes(day.getUTCDay());
+  return cron.dayOfMonthRestricted && cron.dayOfWeekRestricted ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Compute up to `count` upcoming runs after `from` (default: now), in order.
+ * Local times skipped by a DST transition do not run; repeated local times run once.
+ */
+export function getNextRuns(
+  schedule: CronSchedule | string,
+  timeZone: string,
+  count: number,
+  options: CronRunOptions = {}
+): Date[] {
+  const cron = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown timezone "${timeZone}"`);
+  }
+
+  const from = (options.from ?? new Date()).getTime();
+  const until = options.until?.getTime() ?? Infinity;
+  const firstDay = Math.floor(toWallClock(from, timeZone) / DAY_MS) * DAY_MS;
+  const lastDay = Number.isFinite(until)
+    ? Math.min(toWallClock(until, timeZone), firstDay + MAX_SEARCH_DAYS * DAY_MS)
+    : firstDay + MAX_SEARCH_DAYS * DAY_MS;
+  const runs: Date[] = [];
+  if (count <= 0) return runs;
+
+  for (let day = firstDay; day <= lastDay; day += DAY_MS) {
+    if (!matchesDay(cron, new Date(day))) continue;
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const instant = fromWallClock(day + (hour * 60 + minute) * MINUTE_MS, timeZone);
+        if (instant === null || instant <= from) continue;
+        if (instant > until) return runs;
+
+        runs.push(new Date(instant));
+        if (runs.length === count) return runs;
+      }
+    }
+  }
+
+  return runs;
+}
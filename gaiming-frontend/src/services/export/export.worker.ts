@@ -0,0 +1,36 @@
+// Export worker
+// Runs an export sink off the main thread. Rows arrive chunk by chunk and
+// every chunk is acknowledged so the main thread never queues more than one.
+
+import { createExportSink, ExportSink } from './exportSinks';
+import type { ExportWorkerRequest, ExportWorkerResponse } from './exportWorkerClient';
+
+let sink: ExportSink | null = null;
+
+const respond = (message: ExportWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<ExportWorkerRequest>) => {
+  const message = event.data;
+
+  try {
+    switch (message.type) {
+      case 'start':
+        sink = createExportSink(message.config);
+        respond({ type: 'ack' });
+        break;
+      case 'rows':
+        if (!sink) throw new Error('Export has not been started');
+        sink.write(message.rows, message.sheet);
+        respond({ type: 'ack' });
+        break;
+      case 'finish':
+        if (!sink) throw new Error('Export has not been started');
+        respond({ type: 'result', blob: sink.finish() });
+        sink = null;
+        break;
+    }
+  } catch (error) {
+    sink = null;
+    respond({ type: 'error', message: error instanceof Error ? error.message : 'Export worker failed' });
+  }
+};
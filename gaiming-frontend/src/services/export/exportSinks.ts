@@ -0,0 +1,236 @@
+// Export sinks
+// Format-specific serializers that accept rows chunk by chunk and build the
+// output as a list of Blob parts. They are DOM-free so the same code runs in
+// the export worker and, as a fallback, on the main thread.
+
+import { formatCurrency, formatDate, formatPercentage } from '../../lib/utils';
+import { buildColumns, XlsxCellType, XlsxColumn, XlsxWorkbook } from './xlsxWriter';
+import { layoutTableColumns, PdfImage, PdfReportWriter } from './pdfWriter';
+import { ParquetSchema, ParquetWriter } from './parquetWriter';
+
+export interface CsvSinkConfig {
+  format: 'csv';
+  headers: string[];
+  preamble?: string[];
+}
+
+export interface JsonSinkConfig {
+  format: 'json';
+  metadata: Record<string, unknown>;
+}
+
+export interface ExcelSinkConfig {
+  format: 'excel';
+  sheets: { name: string; columns: XlsxColumn[] }[];
+  // Key/value rows written to a trailing "Metadata" sheet
+  metadataRows?: { Field: string; Value: unknown }[];
+}
+
+export interface PdfSinkConfig {
+  format: 'pdf';
+  title: string;
+  subtitle?: string;
+  author?: string;
+  orientation: 'portrait' | 'landscape';
+  cover: [string, string][];
+  charts: PdfImage[];
+  headers: string[];
+  types: XlsxCellType[];
+  // Representative rows used to size the table columns
+  sample: Record<string, unknown>[];
+}
+
+export interface NdjsonSinkConfig {
+  format: 'ndjson';
+}
+
+export interface ParquetSinkConfig {
+  format: 'parquet';
+  schema: ParquetSchema;
+  // Stored as key/value metadata in the file footer
+  metadata: Record<string, string>;
+}
+
+export type ExportSinkConfig =
+  | CsvSinkConfig
+  | JsonSinkConfig
+  | ExcelSinkConfig
+  | PdfSinkConfig
+  | NdjsonSinkConfig
+  | ParquetSinkConfig;
+
+export interface ExportSink {
+  write(rows: Record<string, unknown>[], sheet?: number): void;
+  finish(): Blob;
+}
+
+const NUMERIC_TYPES: XlsxCellType[] = ['number', 'integer', 'currency', 'percent'];
+
+/**
+ * Render a value as display text for its column type
+ */
+export function formatDisplayValue(value: unknown, type: XlsxCellType): string {
+  if (value === null || value === undefined || value === '') return '';
+
+  switch (type) {
+    case 'currency':
+      return typeof value === 'number' ? formatCurrency(value) : String(value);
+    case 'percent':
+      return typeof value === 'number' ? formatPercentage(value) : String(value);
+    case 'integer':
+    case 'number':
+      return typeof value === 'number' ? value.toLocaleString() : String(value);
+    case 'date':
+      return value instanceof Date || typeof value === 'string' ? formatDate(value) : String(value);
+    case 'datetime':
+      return value instanceof Date || typeof value === 'string'
+        ? formatDate(value, { hour: '2-digit', minute: '2-digit' })
+        : String(value);
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+class CsvSink implements ExportSink {
+  private parts: BlobPart[] = [];
+
+  constructor(private config: CsvSinkConfig) {
+    const lines = [...(config.preamble || []), config.headers.map(escapeCsvValue).join(',')];
+    this.parts.push(new Blob([lines.join('\n')]));
+  }
+
+  write(rows: Record<string, unknown>[]): void {
+    const lines = rows.map(row => this.config.headers.map(header => escapeCsvValue(row[header])).join(','));
+    this.parts.push(new Blob([`\n${lines.join('\n')}`]));
+  }
+
+  finish(): Blob {
+    return new Blob(this.parts, { type: 'text/csv;charset=utf-8;' });
+  }
+}
+
+class JsonSink implements ExportSink {
+  private parts: BlobPart[] = [];
+  private rowCount = 0;
+
+  constructor(config: JsonSinkConfig) {
+    this.parts.push(new Blob([`{\n  "metadata": ${JSON.stringify(config.metadata)},\n  "data": [`]));
+  }
+
+  write(rows: Record<string, unknown>[]): void {
+    const encoded = rows.map(row => `${this.rowCount++ === 0 ? '' : ','}\n    ${JSON.stringify(row)}`);
+    this.parts.push(new Blob([encoded.join('')]));
+  }
+
+  finish(): Blob {
+    this.parts.push(new Blob([`${this.rowCount > 0 ? '\n  ' : ''}]\n}\n`]));
+    return new Blob(this.parts, { type: 'application/json;charset=utf-8;' });
+  }
+}
+
+class NdjsonSink implements ExportSink {
+  private parts: BlobPart[] = [];
+
+  write(rows: Record<string, unknown>[]): void {
+    this.parts.push(new Blob([rows.map(row => `${JSON.stringify(row)}\n`).join('')]));
+  }
+
+  finish(): Blob {
+    return new Blob(this.parts, { type: 'application/x-ndjson' });
+  }
+}
+
+class ParquetSink implements ExportSink {
+  private writer: ParquetWriter;
+
+  constructor(config: ParquetSinkConfig) {
+    this.writer = new ParquetWriter(config.schema, { metadata: config.metadata });
+  }
+
+  write(rows: Record<string, unknown>[]): void {
+    this.writer.appendRows(rows);
+  }
+
+  finish(): Blob {
+    return this.writer.toBlob();
+  }
+}
+
+class ExcelSink implements ExportSink {
+  private workbook = new XlsxWorkbook();
+
+  constructor(private config: ExcelSinkConfig) {
+    config.sheets.forEach(sheet => this.workbook.addSheet(sheet.name, sheet.columns));
+  }
+
+  write(rows: Record<string, unknown>[], sheet = 0): void {
+    this.workbook.appendRows(sheet, rows);
+  }
+
+  finish(): Blob {
+    const metadataRows = this.config.metadataRows;
+    if (metadataRows && metadataRows.length > 0) {
+      const columns = buildColumns(metadataRows, ['Field', 'Value'], { types: { Field: 'string', Value: 'string' } });
+      this.workbook.appendRows(this.workbook.addSheet('Metadata', columns), metadataRows);
+    }
+    return this.workbook.toBlob();
+  }
+}
+
+class PdfSink implements ExportSink {
+  private report: PdfReportWriter;
+
+  constructor(private config: PdfSinkConfig) {
+    this.report = new PdfReportWriter({
+      title: config.title,
+      orientation: config.orientation,
+      author: config.author,
+    });
+    this.report.addCover(config.title, config.subtitle, config.cover);
+    config.charts.forEach(chart => this.report.addImage(chart));
+    this.report.beginTable(layoutTableColumns(
+      config.headers,
+      config.sample.map(row => this.formatRow(row)),
+      this.report.contentWidth,
+      config.types.map(type => (NUMERIC_TYPES.includes(type) ? 'right' : 'left'))
+    ));
+  }
+
+  write(rows: Record<string, unknown>[]): void {
+    this.report.addRows(rows.map(row => this.formatRow(row)));
+  }
+
+  finish(): Blob {
+    this.report.endTable();
+    return this.report.toBlob();
+  }
+
+  private formatRow(row: Record<string, unknown>): string[] {
+    return this.config.headers.map((header, index) => formatDisplayValue(row[header], this.config.types[index]!));
+  }
+}
+
+export function createExportSink(config: ExportSinkConfig): ExportSink {
+  switch (config.format) {
+    case 'csv':
+      return new CsvSink(config);
+    case 'json':
+      return new JsonSink(config);
+    case 'excel':
+      return new ExcelSink(config);
+    case 'pdf':
+      return new PdfSink(config);
+    case 'ndjson':
+      return new NdjsonSink();
+    case 'parquet':
+      return new ParquetSink(config);
+  }
+}
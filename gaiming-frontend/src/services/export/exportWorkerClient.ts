@@ -0,0 +1,131 @@
+// Export worker client
+// Drives an export sink inside a Web Worker with one-chunk-at-a-time
+// backpressure, falling back to the main thread where workers are unavailable.
+
+import { createExportSink, ExportSinkConfig } from './exportSinks';
+
+export type ExportWorkerRequest =
+  | { type: 'start'; config: ExportSinkConfig }
+  | { type: 'rows'; rows: Record<string, unknown>[]; sheet?: number }
+  | { type: 'finish' };
+
+export type ExportWorkerResponse =
+  | { type: 'ack' }
+  | { type: 'result'; blob: Blob }
+  | { type: 'error'; message: string };
+
+export interface ExportTransport {
+  start(config: ExportSinkConfig): Promise<void>;
+  write(rows: Record<string, unknown>[], sheet?: number): Promise<void>;
+  finish(): Promise<Blob>;
+  // Stop immediately; any pending call rejects with the given reason
+  abort(reason: Error): void;
+}
+
+class WorkerExportTransport implements ExportTransport {
+  private pending: { resolve: (response: ExportWorkerResponse) => void; reject: (error: Error) => void } | null = null;
+  private aborted: Error | null = null;
+
+  constructor(private worker: Worker) {
+    worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => this.settle(event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      this.fail(new Error(event.message || 'Export worker crashed'));
+    };
+  }
+
+  async start(config: ExportSinkConfig): Promise<void> {
+    await this.request({ type: 'start', config });
+  }
+
+  async write(rows: Record<string, unknown>[], sheet?: number): Promise<void> {
+    await this.request({ type: 'rows', rows, sheet });
+  }
+
+  async finish(): Promise<Blob> {
+    const response = await this.request({ type: 'finish' });
+    this.worker.terminate();
+    if (response.type !== 'result') {
+      throw new Error('Export worker returned no result');
+    }
+    return response.blob;
+  }
+
+  abort(reason: Error): void {
+    this.aborted = reason;
+    this.worker.terminate();
+    this.fail(reason);
+  }
+
+  private request(message: ExportWorkerRequest): Promise<ExportWorkerResponse> {
+    if (this.aborted) return Promise.reject(this.aborted);
+
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.worker.postMessage(message);
+    });
+  }
+
+  private settle(response: ExportWorkerResponse): void {
+    const pending = this.pending;
+    this.pending = null;
+    if (!pending) return;
+
+    if (response.type === 'error') {
+      this.worker.terminate();
+      pending.reject(new Error(response.message));
+    } else {
+      pending.resolve(response);
+    }
+  }
+
+  private fail(error: Error): void {
+    const pending = this.pending;
+    this.pending = null;
+    pending?.reject(error);
+  }
+}
+
+class InlineExportTransport implements ExportTransport {
+  private sink: ReturnType<typeof createExportSink> | null = null;
+  private aborted: Error | null = null;
+
+  async start(config: ExportSinkConfig): Promise<void> {
+    this.sink = createExportSink(config);
+  }
+
+  async write(rows: Record<string, unknown>[], sheet?: number): Promise<void> {
+    // Yield between chunks so the UI can update
+    await new Promise(resolve => setTimeout(resolve, 1));
+    if (this.aborted) throw this.aborted;
+    this.sink!.write(rows, sheet);
+  }
+
+  async finish(): Promise<Blob> {
+    if (this.aborted) throw this.aborted;
+    const blob = this.sink!.finish();
+    this.sink = null;
+    return blob;
+  }
+
+  abort(reason: Error): void {
+    this.aborted = reason;
+    this.sink = null;
+  }
+}
+
+/**
+ * Create a transport backed by a module worker when the platform supports it
+ */
+export function createExportTransport(): ExportTransport {
+  if (typeof Worker !== 'undefined') {
+    try {
+      return new WorkerExportTransport(
+        new Worker(new URL('./export.worker.ts', import.meta.url), { type: 'module' })
+      );
+    } catch (error) {
+      console.warn('Export worker unavailable, exporting on the main thread:', error);
+    }
+  }
+  return new InlineExportTransport();
+}
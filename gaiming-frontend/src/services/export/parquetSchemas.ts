@@ -0,0 +1,201 @@
+// Parquet schemas for exported records
+// Declared schemas are typed against the source interfaces, so adding a field
+// to PlayerAnalytics, GameRecommendation or MLModel fails the type check until
+// its Parquet type is chosen here. Other data falls back to inference.
+
+import type { GameRecommendation } from '../../features/recommendations/types';
+import type { MLModel } from '../mlModelsService';
+import type { PlayerAnalytics } from '../playerAnalyticsService';
+import type { ExportColumn } from './columnSpec';
+import type { ParquetField, ParquetSchema } from './parquetWriter';
+
+type ParquetSchemaFor<T> = { [K in keyof Required<T>]: ParquetField };
+
+const string: ParquetField = { type: 'string' };
+const double: ParquetField = { type: 'double' };
+const int32: ParquetField = { type: 'int32' };
+const int64: ParquetField = { type: 'int64' };
+const boolean: ParquetField = { type: 'boolean' };
+const timestamp: ParquetField = { type: 'timestamp' };
+const json: ParquetField = { type: 'json' };
+const stringList: ParquetField = { type: 'list', element: string };
+
+export const PLAYER_ANALYTICS_PARQUET_SCHEMA: ParquetSchemaFor<PlayerAnalytics> = {
+  playerId: int64,
+  username: string,
+  email: string,
+  firstName: string,
+  lastName: string,
+  country: string,
+  vipLevel: int32,
+  riskLevel: int32,
+  isActive: boolean,
+  registrationDate: timestamp,
+  lastLoginDate: timestamp,
+  totalSessions: int64,
+  totalBets: double,
+  totalWins: double,
+  totalRevenue: double,
+  averageSessionDuration: double,
+  averageBetSize: double,
+  favoriteGameTypes: stringList,
+  preferredProviders: stringList,
+  playerSegment: string,
+  lifetimeValue: double,
+  retentionScore: double,
+  engagementScore: double,
+  riskScore: double,
+};
+
+export const GAME_RECOMMENDATION_PARQUET_SCHEMA: ParquetSchemaFor<GameRecommendation> = {
+  gameId: int64,
+  gameName: string,
+  providerName: string,
+  gameTypeName: string,
+  imageUrl: string,
+  score: double,
+  reasons: {
+    type: 'list',
+    element: {
+      type: 'struct',
+      fields: { type: string, description: string, confidence: double, weight: double },
+    },
+  },
+  algorithm: string,
+  category: string,
+  metadata: {
+    type: 'struct',
+    fields: {
+      expectedPlayTime: double,
+      expectedEngagement: double,
+      expectedRevenue: double,
+      riskLevel: string,
+      noveltyScore: double,
+    },
+  },
+  personalizedFeatures: {
+    type: 'struct',
+    fields: {
+      recommendedBetSize: double,
+      expectedWinRate: double,
+      similarityToFavorites: double,
+      trendingScore: double,
+    },
+  },
+};
+
+export const ML_MODEL_PARQUET_SCHEMA: ParquetSchemaFor<MLModel> = {
+  id: int64,
+  name: string,
+  description: string,
+  modelType: string,
+  version: string,
+  status: string,
+  filePath: string,
+  // Free-form objects whose keys differ per model type
+  configuration: json,
+  metadata: json,
+  createdDate: timestamp,
+  lastTrainedDate: timestamp,
+  deployedDate: timestamp,
+  createdBy: string,
+  isActive: boolean,
+};
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+const MAX_INFERRED_DEPTH = 3;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function inferField(values: unknown[], depth: number): ParquetField {
+  const present = values.filter(value => value !== null && value !== undefined);
+  if (present.length === 0) return string;
+
+  if (present.every(value => typeof value === 'boolean')) return boolean;
+  if (present.every(value => typeof value === 'number')) {
+    return present.every(value => Number.isSafeInteger(value)) ? int64 : double;
+  }
+  if (present.every(value => value instanceof Date || (typeof value === 'string' && ISO_DATE_TIME.test(value)))) {
+    return timestamp;
+  }
+  if (present.every(value => typeof value === 'string')) return string;
+  if (depth >= MAX_INFERRED_DEPTH) return json;
+
+  if (present.every(Array.isArray)) {
+    return { type: 'list', element: inferField((present as unknown[][]).flat(), depth + 1) };
+  }
+  if (present.every(isPlainObject)) {
+    return { type: 'struct', fields: inferParquetSchema(present as Record<string, unknown>[], depth + 1) };
+  }
+  return json;
+}
+
+/**
+ * Infer a schema from sample records; mixed-type fields are stored as JSON
+ */
+export function inferParquetSchema(rows: Record<string, unknown>[], depth = 0): ParquetSchema {
+  const keys = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  const schema: ParquetSchema = {};
+  keys.forEach(key => {
+    schema[key] = inferField(rows.map(row => row[key]), depth);
+  });
+  return schema;
+}
+
+function fieldAtPath(schema: ParquetSchema, path: string): ParquetField | undefined {
+  const [head = '', ...rest] = path.split('.');
+  const field = schema[head];
+  if (!field || rest.length === 0) return field;
+  return field.type === 'struct' ? fieldAtPath(field.fields, rest.join('.')) : undefined;
+}
+
+function fieldForFormat(column: ExportColumn): ParquetField | undefined {
+  switch (column.format) {
+    case 'integer':
+      return int64;
+    case 'number':
+    case 'currency':
+    case 'percent':
+      return double;
+    case 'date':
+    case 'datetime':
+      return timestamp;
+    case 'boolean':
+      return boolean;
+    case 'list':
+      return stringList;
+    case 'string':
+      return string;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Schema for records projected through a column spec, keyed by column id.
+ * Custom formatters produce strings; otherwise types come from the source
+ * schema when the column reads a declared field, then from the column format,
+ * then from the sample.
+ */
+export function buildColumnsParquetSchema(
+  columns: ExportColumn[],
+  sample: Record<string, unknown>[],
+  sourceSchema?: ParquetSchema
+): ParquetSchema {
+  const schema: ParquetSchema = {};
+  columns.forEach(column => {
+    if (typeof column.format === 'function') {
+      schema[column.id] = string;
+      return;
+    }
+    const declared = sourceSchema && typeof column.source === 'string'
+      ? fieldAtPath(sourceSchema, column.source)
+      : undefined;
+    schema[column.id] = declared
+      ?? fieldForFormat(column)
+      ?? inferField(sample.map(row => row[column.id]), 0);
+  });
+  return schema;
+}
@@ -0,0 +1,502 @@
+// Minimal Apache Parquet writer
+// Writes uncompressed, PLAIN-encoded data pages (one page per column chunk)
+// with RLE repetition/definition levels and a Thrift compact-encoded footer.
+// All fields are optional; structs and lists may nest, which covers the
+// record shapes exported by GAIming.
+
+export type ParquetPrimitiveType =
+  | 'boolean'
+  | 'int32'
+  | 'int64'
+  | 'double'
+  | 'string'
+  | 'json' // any value, serialized as a JSON string
+  | 'date' // days since epoch
+  | 'timestamp'; // milliseconds since epoch, UTC
+
+export type ParquetField =
+  | { type: ParquetPrimitiveType }
+  | { type: 'list'; element: ParquetField }
+  | { type: 'struct'; fields: ParquetSchema };
+
+export type ParquetSchema = Record<string, ParquetField>;
+
+export interface ParquetWriterOptions {
+  rowGroupSize?: number;
+  // Stored as key/value metadata in the file footer
+  metadata?: Record<string, string>;
+}
+
+export const PARQUET_MIME_TYPE = 'application/vnd.apache.parquet';
+
+const MAGIC = new TextEncoder().encode('PAR1');
+const DEFAULT_ROW_GROUP_SIZE = 10000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Parquet enums (parquet.thrift)
+const PhysicalType = { BOOLEAN: 0, INT32: 1, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 } as const;
+const ConvertedType = { UTF8: 0, LIST: 3, DATE: 6, TIMESTAMP_MILLIS: 9, JSON: 19 } as const;
+const Repetition = { OPTIONAL: 1, REPEATED: 2 } as const;
+const Encoding = { PLAIN: 0, RLE: 3 } as const;
+
+const PRIMITIVES: Record<ParquetPrimitiveType, { physical: number; converted?: number }> = {
+  boolean: { physical: PhysicalType.BOOLEAN },
+  int32: { physical: PhysicalType.INT32 },
+  int64: { physical: PhysicalType.INT64 },
+  double: { physical: PhysicalType.DOUBLE },
+  string: { physical: PhysicalType.BYTE_ARRAY, converted: ConvertedType.UTF8 },
+  json: { physical: PhysicalType.BYTE_ARRAY, converted: ConvertedType.JSON },
+  date: { physical: PhysicalType.INT32, converted: ConvertedType.DATE },
+  timestamp: { physical: PhysicalType.INT64, converted: ConvertedType.TIMESTAMP_MILLIS },
+};
+
+/**
+ * Growable little-endian byte buffer
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(1024);
+  private view = new DataView(this.buffer.buffer);
+  length = 0;
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  byte(value: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  bytes(value: Uint8Array): void {
+    this.reserve(value.length);
+    this.buffer.set(value, this.length);
+    this.length += value.length;
+  }
+
+  varint(value: number | bigint): void {
+    let remaining = BigInt(value);
+    while (remaining >= 0x80n) {
+      this.byte(Number(remaining & 0x7fn) | 0x80);
+      remaining >>= 7n;
+    }
+    this.byte(Number(remaining));
+  }
+
+  int32(value: number): void {
+    this.reserve(4);
+    this.view.setInt32(this.length, value, true);
+    this.length += 4;
+  }
+
+  int64(value: bigint): void {
+    this.reserve(8);
+    this.view.setBigInt64(this.length, value, true);
+    this.length += 8;
+  }
+
+  double(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// Thrift compact protocol: just enough to encode the Parquet footer and page headers
+
+interface ThriftValue {
+  type: number;
+  write(out: ByteWriter): void;
+}
+
+type ThriftField = [id: number, value: ThriftValue | undefined];
+
+const textEncoder = new TextEncoder();
+
+const zigzag = (value: number | bigint) => {
+  const big = BigInt(value);
+  return (big << 1n) ^ (big >> 63n);
+};
+
+const i32 = (value: number): ThriftValue => ({ type: 5, write: out => out.varint(zigzag(value)) });
+const i64 = (value: number): ThriftValue => ({ type: 6, write: out => out.varint(zigzag(value)) });
+
+const binary = (value: string): ThriftValue => ({
+  type: 8,
+  write: out => {
+    const bytes = textEncoder.encode(value);
+    out.varint(bytes.length);
+    out.bytes(bytes);
+  },
+});
+
+const list = (elementType: number, items: ThriftValue[]): ThriftValue => ({
+  type: 9,
+  write: out => {
+    if (items.length < 15) {
+      out.byte((items.length << 4) | elementType);
+    } else {
+      out.byte(0xf0 | elementType);
+      out.varint(items.length);
+    }
+    items.forEach(item => item.write(out));
+  },
+});
+
+const struct = (...fields: ThriftField[]): ThriftValue => ({
+  type: 12,
+  write: out => {
+    let lastId = 0;
+    fields.forEach(([id, value]) => {
+      if (!value) return;
+      const delta = id - lastId;
+      if (delta > 0 && delta <= 15) {
+        out.byte((delta << 4) | value.type);
+      } else {
+        out.byte(value.type);
+        out.varint(zigzag(id));
+      }
+      value.write(out);
+      lastId = id;
+    });
+    out.byte(0);
+  },
+});
+
+function encodeThrift(value: ThriftValue): Uint8Array {
+  const out = new ByteWriter();
+  value.write(out);
+  return out.toBytes();
+}
+
+// Schema compilation
+
+interface LeafColumn {
+  path: string[];
+  primitive: ParquetPrimitiveType;
+  maxDefinition: number;
+  maxRepetition: number;
+  repetitionLevels: number[];
+  definitionLevels: number[];
+  values: unknown[];
+}
+
+interface SchemaNode {
+  name: string;
+  field: ParquetField;
+  // Definition level reached when this node's value is present
+  definition: number;
+  // Repetition level of items when this node is a list
+  repetition: number;
+  children: SchemaNode[];
+  leaves: LeafColumn[];
+}
+
+function compileNode(name: string, field: ParquetField, path: string[], definition: number, repetition: number): SchemaNode {
+  const node: SchemaNode = { name, field, definition: definition + 1, repetition, children: [], leaves: [] };
+
+  if (field.type === 'struct') {
+    node.children = Object.entries(field.fields).map(([childName, child]) =>
+      compileNode(childName, child, [...path, childName], node.definition, repetition)
+    );
+    node.leaves = node.children.flatMap(child => child.leaves);
+  } else if (field.type === 'list') {
+    // Three-level list: <name> (LIST) -> repeated group list -> element
+    node.repetition = repetition + 1;
+    const element = compileNode('element', field.element, [...path, 'list', 'element'], node.definition + 1, node.repetition);
+    node.children = [element];
+    node.leaves = element.leaves;
+  } else {
+    node.leaves = [{
+      path,
+      primitive: field.type,
+      maxDefinition: node.definition,
+      maxRepetition: repetition,
+      repetitionLevels: [],
+      definitionLevels: [],
+      values: [],
+    }];
+  }
+
+  return node;
+}
+
+function schemaElements(node: SchemaNode): ThriftValue[] {
+  const { field } = node;
+
+  if (field.type === 'struct') {
+    return [
+      struct([3, i32(Repetition.OPTIONAL)], [4, binary(node.name)], [5, i32(node.children.length)]),
+      ...node.children.flatMap(schemaElements),
+    ];
+  }
+  if (field.type === 'list') {
+    return [
+      struct(
+        [3, i32(Repetition.OPTIONAL)],
+        [4, binary(node.name)],
+        [5, i32(1)],
+        [6, i32(ConvertedType.LIST)]
+      ),
+      struct([3, i32(Repetition.REPEATED)], [4, binary('list')], [5, i32(1)]),
+      ...schemaElements(node.children[0]!),
+    ];
+  }
+
+  const primitive = PRIMITIVES[field.type];
+  return [
+    struct(
+      [1, i32(primitive.physical)],
+      [3, i32(Repetition.OPTIONAL)],
+      [4, binary(node.name)],
+      [6, primitive.converted !== undefined ? i32(primitive.converted) : undefined]
+    ),
+  ];
+}
+
+/**
+ * Convert a value to its stored form, or undefined when it should be null
+ */
+function toStoredValue(value: unknown, type: ParquetPrimitiveType): unknown {
+  switch (type) {
+    case 'boolean':
+      return Boolean(value);
+    case 'int32':
+    case 'int64':
+    case 'double': {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (!Number.isFinite(number)) return undefined;
+      return type === 'double' ? number : Math.trunc(number);
+    }
+    case 'date':
+    case 'timestamp': {
+      const time = value instanceof Date ? value.getTime() : typeof value === 'number' ? value : Date.parse(String(value));
+      if (!Number.isFinite(time)) return undefined;
+      return type === 'date' ? Math.floor(time / DAY_MS) : time;
+    }
+    case 'json':
+      return JSON.stringify(value);
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+function writeNull(node: SchemaNode, repetition: number, definition: number): void {
+  node.leaves.forEach(leaf => {
+    leaf.repetitionLevels.push(repetition);
+    leaf.definitionLevels.push(definition);
+  });
+}
+
+/**
+ * Record shredding: split a value into per-leaf levels and values
+ */
+function shred(node: SchemaNode, value: unknown, repetition: number): void {
+  const { field } = node;
+  const parentDefinition = node.definition - 1;
+
+  if (value === null || value === undefined) {
+    writeNull(node, repetition, parentDefinition);
+    return;
+  }
+
+  if (field.type === 'struct') {
+    const record = typeof value === 'object' ? (value as Record<string, unknown>) : {};
+    node.children.forEach(child => shred(child, record[child.name], repetition));
+    return;
+  }
+
+  if (field.type === 'list') {
+    const items = Array.isArray(value) ? value : [value];
+    if (items.length === 0) {
+      writeNull(node, repetition, node.definition);
+      return;
+    }
+    items.forEach((item, index) => shred(node.children[0]!, item, index === 0 ? repetition : node.repetition));
+    return;
+  }
+
+  const leaf = node.leaves[0]!;
+  const stored = toStoredValue(value, field.type);
+  leaf.repetitionLevels.push(repetition);
+  if (stored === undefined) {
+    leaf.definitionLevels.push(parentDefinition);
+  } else {
+    leaf.definitionLevels.push(node.definition);
+    leaf.values.push(stored);
+  }
+}
+
+function bitWidth(maxLevel: number): number {
+  return Math.ceil(Math.log2(maxLevel + 1));
+}
+
+/**
+ * RLE/bit-packing hybrid encoding using RLE runs only, prefixed with its byte length
+ */
+function writeLevels(out: ByteWriter, levels: number[], maxLevel: number): void {
+  const runs = new ByteWriter();
+  const byteWidth = Math.ceil(bitWidth(maxLevel) / 8);
+
+  for (let i = 0; i < levels.length;) {
+    let run = 1;
+    while (i + run < levels.length && levels[i + run] === levels[i]) run++;
+    runs.varint(run << 1);
+    for (let b = 0; b < byteWidth; b++) {
+      runs.byte(levels[i]! >> (8 * b));
+    }
+    i += run;
+  }
+
+  out.int32(runs.length);
+  out.bytes(runs.toBytes());
+}
+
+function writePlainValues(out: ByteWriter, values: unknown[], type: ParquetPrimitiveType): void {
+  switch (PRIMITIVES[type].physical) {
+    case PhysicalType.BOOLEAN:
+      for (let i = 0; i < values.length; i += 8) {
+        let packed = 0;
+        for (let bit = 0; bit < 8 && i + bit < values.length; bit++) {
+          if (values[i + bit]) packed |= 1 << bit;
+        }
+        out.byte(packed);
+      }
+      break;
+    case PhysicalType.INT32:
+      values.forEach(value => out.int32(value as number));
+      break;
+    case PhysicalType.INT64:
+      values.forEach(value => out.int64(BigInt(value as number)));
+      break;
+    case PhysicalType.DOUBLE:
+      values.forEach(value => out.double(value as number));
+      break;
+    default:
+      values.forEach(value => {
+        const bytes = textEncoder.encode(value as string);
+        out.int32(bytes.length);
+        out.bytes(bytes);
+      });
+  }
+}
+
+/**
+ * Streams records into a Parquet file, flushing a row group to Blob parts
+ * every `rowGroupSize` rows
+ */
+export class ParquetWriter {
+  private root: SchemaNode[];
+  private leaves: LeafColumn[];
+  private parts: BlobPart[] = [MAGIC];
+  private offset = MAGIC.length;
+  private rowGroups: ThriftValue[] = [];
+  private pendingRows = 0;
+  private totalRows = 0;
+  private rowGroupSize: number;
+
+  constructor(schema: ParquetSchema, private options: ParquetWriterOptions = {}) {
+    this.root = Object.entries(schema).map(([name, field]) => compileNode(name, field, [name], 0, 0));
+    this.leaves = this.root.flatMap(node => node.leaves);
+    this.rowGroupSize = options.rowGroupSize ?? DEFAULT_ROW_GROUP_SIZE;
+    if (this.leaves.length === 0) {
+      throw new Error('Parquet schema has no columns');
+    }
+  }
+
+  appendRows(rows: Record<string, unknown>[]): void {
+    rows.forEach(row => {
+      this.root.forEach(node => shred(node, row[node.name], 0));
+      if (++this.pendingRows >= this.rowGroupSize) {
+        this.flushRowGroup();
+      }
+    });
+  }
+
+  toBlob(): Blob {
+    this.flushRowGroup();
+
+    const footer = encodeThrift(struct(
+      [1, i32(1)],
+      [2, list(12, [
+        struct([4, binary('schema')], [5, i32(this.root.length)]),
+        ...this.root.flatMap(schemaElements),
+      ])],
+      [3, i64(this.totalRows)],
+      [4, list(12, this.rowGroups)],
+      [5, this.options.metadata
+        ? list(12, Object.entries(this.options.metadata).map(([key, value]) => struct([1, binary(key)], [2, binary(value)])))
+        : undefined],
+      [6, binary('GAIming Platform')]
+    ));
+
+    const length = new DataView(new ArrayBuffer(4));
+    length.setUint32(0, footer.length, true);
+    return new Blob([...this.parts, footer, length.buffer, MAGIC], { type: PARQUET_MIME_TYPE });
+  }
+
+  private flushRowGroup(): void {
+    if (this.pendingRows === 0) return;
+
+    const groupStart = this.offset;
+    const columns = this.leaves.map(leaf => {
+      const body = new ByteWriter();
+      if (leaf.maxRepetition > 0) writeLevels(body, leaf.repetitionLevels, leaf.maxRepetition);
+      writeLevels(body, leaf.definitionLevels, leaf.maxDefinition);
+      writePlainValues(body, leaf.values, leaf.primitive);
+
+      const numValues = leaf.definitionLevels.length;
+      const header = encodeThrift(struct(
+        [1, i32(0)], // DATA_PAGE
+        [2, i32(body.length)],
+        [3, i32(body.length)],
+        [5, struct(
+          [1, i32(numValues)],
+          [2, i32(Encoding.PLAIN)],
+          [3, i32(Encoding.RLE)],
+          [4, i32(Encoding.RLE)]
+        )]
+      ));
+
+      const pageOffset = this.offset;
+      const chunkSize = header.length + body.length;
+      this.parts.push(new Blob([header, body.toBytes()]));
+      this.offset += chunkSize;
+
+      leaf.repetitionLevels = [];
+      leaf.definitionLevels = [];
+      leaf.values = [];
+
+      return struct(
+        [2, i64(pageOffset)],
+        [3, struct(
+          [1, i32(PRIMITIVES[leaf.primitive].physical)],
+          [2, list(5, [i32(Encoding.PLAIN), i32(Encoding.RLE)])],
+          [3, list(8, leaf.path.map(binary))],
+          [4, i32(0)], // UNCOMPRESSED
+          [5, i64(numValues)],
+          [6, i64(chunkSize)],
+          [7, i64(chunkSize)],
+          [9, i64(pageOffset)]
+        )]
+      );
+    });
+
+    this.rowGroups.push(struct(
+      [1, list(12, columns)],
+      [2, i64(this.offset - groupStart)],
+      [3, i64(this.pendingRows)]
+    ));
+    this.totalRows += this.pendingRows;
+    this.pendingRows = 0;
+  }
+}
@@ -0,0 +1,453 @@
+// PDF report writer
+// Renders paginated tables with repeated headers, a metadata cover block,
+// embedded JPEG chart images and page numbers using the standard Helvetica fonts
+
+export interface PdfImage {
+  title?: string;
+  data: Uint8Array; // JPEG bytes
+  width: number; // pixels
+  height: number; // pixels
+}
+
+export interface PdfTableColumn {
+  header: string;
+  width: number; // points
+  align: 'left' | 'right';
+}
+
+export interface PdfReportOptions {
+  title: string;
+  orientation?: 'portrait' | 'landscape';
+  author?: string;
+}
+
+type PdfFont = 'F1' | 'F2';
+
+interface PdfPage {
+  ops: string[];
+  images: number[];
+  // Encoded content stream, set once the page is complete
+  content?: Blob;
+}
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+const A4_SHORT = 595.28;
+const A4_LONG = 841.89;
+const MARGIN = 40;
+const FOOTER_HEIGHT = 24;
+const TABLE_FONT_SIZE = 8;
+const HEADER_ROW_HEIGHT = 18;
+const ROW_HEIGHT = 14;
+const CELL_PADDING = 4;
+const MIN_COLUMN_WIDTH = 36;
+const BOLD_WIDTH_FACTOR = 1.08;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Unicode characters that WinAnsiEncoding places in the 0x80-0x9F range
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87,
+  'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91,
+  '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98,
+  '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/**
+ * Measure text width in points for the given font size
+ */
+export function measureText(text: string, fontSize: number, bold = false): number {
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32]! : 556;
+  }
+  return (units * fontSize * (bold ? BOLD_WIDTH_FACTOR : 1)) / 1000;
+}
+
+/**
+ * Truncate text with an ellipsis so it fits within maxWidth
+ */
+export function fitText(text: string, maxWidth: number, fontSize: number, bold = false): string {
+  if (measureText(text, fontSize, bold) <= maxWidth) return text;
+
+  const ellipsisWidth = measureText('...', fontSize, bold);
+  let fitted = '';
+  for (const char of text) {
+    if (measureText(fitted + char, fontSize, bold) + ellipsisWidth > maxWidth) break;
+    fitted += char;
+  }
+  return `${fitted}...`;
+}
+
+/**
+ * Encode text as a PDF literal string in WinAnsiEncoding
+ */
+function pdfString(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') {
+      encoded += `\\${char}`;
+    } else if (code >= 32 && code <= 126) {
+      encoded += char;
+    } else if (code >= 160 && code <= 255) {
+      encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    } else if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      encoded += `\\${WIN_ANSI_EXTRAS[char]!.toString(8)}`;
+    } else if (char === '\t' || char === '\n' || char === '\r') {
+      encoded += ' ';
+    } else {
+      encoded += '?';
+    }
+  }
+  return `(${encoded})`;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Size table columns to their content, then scale to the available width
+ */
+export function layoutTableColumns(
+  headers: string[],
+  sampleRows: string[][],
+  availableWidth: number,
+  alignments: ('left' | 'right')[] = []
+): PdfTableColumn[] {
+  const natural = headers.map((header, index) => {
+    const contentWidth = sampleRows.reduce(
+      (max, row) => Math.max(max, measureText(row[index] ?? '', TABLE_FONT_SIZE)),
+      measureText(header, TABLE_FONT_SIZE, true)
+    );
+    return Math.max(MIN_COLUMN_WIDTH, contentWidth + CELL_PADDING * 2);
+  });
+
+  const total = natural.reduce((sum, width) => sum + width, 0);
+  const scale = total > 0 ? availableWidth / total : 1;
+
+  return headers.map((header, index) => ({
+    header,
+    width: natural[index]! * scale,
+    align: alignments[index] ?? 'left',
+  }));
+}
+
+/**
+ * Incrementally laid-out PDF report.
+ * Content flows top to bottom; a new page is started whenever the next
+ * element would run into the footer, and table headers repeat on every page.
+ * Completed pages are encoded immediately; footers (which need the final page
+ * count) are written as a second content stream when the document is built.
+ */
+export class PdfReportWriter {
+  readonly pageWidth: number;
+  readonly pageHeight: number;
+  private pages: PdfPage[] = [];
+  private images: PdfImage[] = [];
+  private cursorY = 0;
+  private tableColumns: PdfTableColumn[] | null = null;
+  private tableRowIndex = 0;
+
+  constructor(private options: PdfReportOptions) {
+    const landscape = options.orientation === 'landscape';
+    this.pageWidth = landscape ? A4_LONG : A4_SHORT;
+    this.pageHeight = landscape ? A4_SHORT : A4_LONG;
+    this.newPage();
+  }
+
+  get contentWidth(): number {
+    return this.pageWidth - MARGIN * 2;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Title and key/value metadata block at the top of the report
+   */
+  addCover(title: string, subtitle: string | undefined, metadata: [string, string][]): void {
+    this.text(title, MARGIN, this.cursorY - 20, 18, 'F2');
+    this.cursorY -= 28;
+
+    if (subtitle) {
+      this.fill(0.42, 0.45, 0.5);
+      this.text(subtitle, MARGIN, this.cursorY - 12, 10, 'F1');
+      this.fill(0, 0, 0);
+      this.cursorY -= 18;
+    }
+
+    const labelWidth = metadata.reduce((max, [label]) => Math.max(max, measureText(label, 9, true)), 0) + 12;
+    const blockHeight = metadata.length * 14 + 12;
+    this.cursorY -= 8;
+
+    this.current.ops.push(
+      '0.95 0.96 0.98 rg',
+      `${num(MARGIN)} ${num(this.cursorY - blockHeight)} ${num(this.contentWidth)} ${num(blockHeight)} re f`,
+      '0.15 0.39 0.92 rg',
+      `${num(MARGIN)} ${num(this.cursorY - blockHeight)} 3 ${num(blockHeight)} re f`,
+      '0 0 0 rg'
+    );
+
+    metadata.forEach(([label, value], index) => {
+      const y = this.cursorY - 16 - index * 14;
+      this.text(label, MARGIN + 12, y, 9, 'F2');
+      this.text(fitText(value, this.contentWidth - labelWidth - 24, 9), MARGIN + 12 + labelWidth, y, 9, 'F1');
+    });
+
+    this.cursorY -= blockHeight + 20;
+  }
+
+  /**
+   * Embed a JPEG image scaled to the content width, with an optional caption
+   */
+  addImage(image: PdfImage): void {
+    const captionHeight = image.title ? 16 : 0;
+    const maxHeight = (this.pageHeight - MARGIN * 2 - FOOTER_HEIGHT) * 0.6;
+    const scale = Math.min(this.contentWidth / image.width, maxHeight / image.height, 1);
+    const width = image.width * scale;
+    const height = image.height * scale;
+
+    this.ensureSpace(captionHeight + height + 12);
+
+    if (image.title) {
+      this.text(image.title, MARGIN, this.cursorY - 11, 11, 'F2');
+      this.cursorY -= captionHeight;
+    }
+
+    this.images.push(image);
+    const imageIndex = this.images.length - 1;
+    this.current.images.push(imageIndex);
+    this.current.ops.push(
+      'q',
+      `${num(width)} 0 0 ${num(height)} ${num(MARGIN)} ${num(this.cursorY - height)} cm`,
+      `/Im${imageIndex} Do`,
+      'Q'
+    );
+    this.cursorY -= height + 12;
+  }
+
+  /**
+   * Start a table; subsequent addRows calls flow across pages
+   */
+  beginTable(columns: PdfTableColumn[]): void {
+    this.tableColumns = columns;
+    this.tableRowIndex = 0;
+    this.ensureSpace(HEADER_ROW_HEIGHT + ROW_HEIGHT);
+    this.drawTableHeader();
+  }
+
+  addRows(rows: string[][]): void {
+    const columns = this.tableColumns;
+    if (!columns) {
+      throw new Error('beginTable must be called before addRows');
+    }
+
+    rows.forEach(row => {
+      if (this.cursorY - ROW_HEIGHT < MARGIN + FOOTER_HEIGHT) {
+        this.newPage();
+        this.drawTableHeader();
+      }
+
+      if (this.tableRowIndex % 2 === 1) {
+        this.current.ops.push(
+          '0.97 0.98 0.99 rg',
+          `${num(MARGIN)} ${num(this.cursorY - ROW_HEIGHT)} ${num(this.tableWidth(columns))} ${ROW_HEIGHT} re f`,
+          '0 0 0 rg'
+        );
+      }
+
+      this.drawCells(columns, row, this.cursorY - ROW_HEIGHT + 4, 'F1');
+      this.cursorY -= ROW_HEIGHT;
+      this.tableRowIndex++;
+    });
+  }
+
+  endTable(): void {
+    this.tableColumns = null;
+    this.cursorY -= 12;
+  }
+
+  toBlob(): Blob {
+    this.finalizePage(this.current);
+
+    const encoder = new TextEncoder();
+    const parts: BlobPart[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Uint8Array | Blob) => {
+      const part = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+      parts.push(part);
+      length += part instanceof Blob ? part.size : part.length;
+    };
+    const beginObject = (id: number) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n`);
+    };
+    const writeStream = (id: number, content: Uint8Array | Blob) => {
+      beginObject(id);
+      write(`<< /Length ${content instanceof Blob ? content.size : content.length} >>\nstream\n`);
+      write(content);
+      write('\nendstream\nendobj\n');
+    };
+
+    // Object layout: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then images,
+    // then a page, body content and footer content triple for each page
+    const imageBaseId = 6;
+    const pageBaseId = imageBaseId + this.images.length;
+    const pageIds = this.pages.map((_, index) => pageBaseId + index * 3);
+    const totalObjects = pageBaseId + this.pages.length * 3;
+
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+    beginObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+    beginObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>\nendobj\n`);
+
+    beginObject(3);
+    write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n');
+
+    beginObject(4);
+    write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>\nendobj\n');
+
+    beginObject(5);
+    const created = this.pdfDate(new Date());
+    write(
+      `<< /Title ${pdfString(this.options.title)} /Producer (GAIming Platform)` +
+      (this.options.author ? ` /Author ${pdfString(this.options.author)}` : '') +
+      ` /CreationDate (${created}) >>\nendobj\n`
+    );
+
+    this.images.forEach((image, index) => {
+      beginObject(imageBaseId + index);
+      write(
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height}` +
+        ` /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`
+      );
+      write(image.data);
+      write('\nendstream\nendobj\n');
+    });
+
+    this.pages.forEach((page, index) => {
+      const pageId = pageIds[index]!;
+      const xObjects = page.images.length
+        ? ` /XObject << ${page.images.map(imageIndex => `/Im${imageIndex} ${imageBaseId + imageIndex} 0 R`).join(' ')} >>`
+        : '';
+
+      beginObject(pageId);
+      write(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.pageWidth)} ${num(this.pageHeight)}]` +
+        ` /Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >>` +
+        ` /Contents [${pageId + 1} 0 R ${pageId + 2} 0 R] >>\nendobj\n`
+      );
+
+      writeStream(pageId + 1, page.content!);
+      writeStream(pageId + 2, encoder.encode(this.footerOps(index + 1).join('\n')));
+    });
+
+    const xrefOffset = length;
+    write(`xref\n0 ${totalObjects}\n0000000000 65535 f \n`);
+    for (let id = 1; id < totalObjects; id++) {
+      write(`${String(offsets[id] ?? 0).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${totalObjects} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(parts, { type: PDF_MIME_TYPE });
+  }
+
+  private get current(): PdfPage {
+    return this.pages[this.pages.length - 1]!;
+  }
+
+  private newPage(): void {
+    if (this.pages.length > 0) {
+      this.finalizePage(this.current);
+    }
+    this.pages.push({ ops: [], images: [] });
+    this.cursorY = this.pageHeight - MARGIN;
+  }
+
+  private finalizePage(page: PdfPage): void {
+    if (page.content) return;
+    page.content = new Blob([page.ops.join('\n')]);
+    page.ops = [];
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.cursorY - height < MARGIN + FOOTER_HEIGHT) {
+      this.newPage();
+    }
+  }
+
+  private tableWidth(columns: PdfTableColumn[]): number {
+    return columns.reduce((sum, column) => sum + column.width, 0);
+  }
+
+  private drawTableHeader(): void {
+    const columns = this.tableColumns!;
+    this.current.ops.push(
+      '0.15 0.39 0.92 rg',
+      `${num(MARGIN)} ${num(this.cursorY - HEADER_ROW_HEIGHT)} ${num(this.tableWidth(columns))} ${HEADER_ROW_HEIGHT} re f`,
+      '1 1 1 rg'
+    );
+    this.drawCells(columns, columns.map(column => column.header), this.cursorY - HEADER_ROW_HEIGHT + 6, 'F2');
+    this.current.ops.push('0 0 0 rg');
+    this.cursorY -= HEADER_ROW_HEIGHT;
+  }
+
+  private drawCells(columns: PdfTableColumn[], values: string[], baseline: number, font: PdfFont): void {
+    const bold = font === 'F2';
+    let x = MARGIN;
+
+    columns.forEach((column, index) => {
+      const text = fitText(values[index] ?? '', column.width - CELL_PADDING * 2, TABLE_FONT_SIZE, bold);
+      const textX = column.align === 'right'
+        ? x + column.width - CELL_PADDING - measureText(text, TABLE_FONT_SIZE, bold)
+        : x + CELL_PADDING;
+      if (text) {
+        this.text(text, textX, baseline, TABLE_FONT_SIZE, font);
+      }
+      x += column.width;
+    });
+  }
+
+  private footerOps(pageNumber: number): string[] {
+    const label = `Page ${pageNumber} of ${this.pages.length}`;
+    const y = MARGIN - 8;
+    return [
+      '0.8 0.82 0.85 RG 0.5 w',
+      `${num(MARGIN)} ${num(y + 12)} m ${num(this.pageWidth - MARGIN)} ${num(y + 12)} l S`,
+      '0.42 0.45 0.5 rg',
+      `BT /F1 8 Tf ${num(MARGIN)} ${num(y)} Td ${pdfString(fitText(this.options.title, this.contentWidth / 2, 8))} Tj ET`,
+      `BT /F1 8 Tf ${num(this.pageWidth - MARGIN - measureText(label, 8))} ${num(y)} Td ${pdfString(label)} Tj ET`,
+    ];
+  }
+
+  private text(value: string, x: number, y: number, size: number, font: PdfFont): void {
+    this.current.ops.push(`BT /${font} ${size} Tf ${num(x)} ${num(y)} Td ${pdfString(value)} Tj ET`);
+  }
+
+  private fill(r: number, g: number, b: number): void {
+    this.current.ops.push(`${r} ${g} ${b} rg`);
+  }
+
+  private pdfDate(date: Date): string {
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+      `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+  }
+}
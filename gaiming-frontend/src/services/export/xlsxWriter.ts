@@ -0,0 +1,408 @@
+// Office Open XML (SpreadsheetML) workbook writer
+// Produces genuine .xlsx files with typed cells, styled headers and frozen panes
+
+import { createZip, zipEntry, ZipEntryBuilder } from './zipWriter';
+
+export type XlsxCellType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'currency'
+  | 'percent'
+  | 'date'
+  | 'datetime'
+  | 'boolean';
+
+export interface XlsxColumn {
+  key: string;
+  header: string;
+  type: XlsxCellType;
+  width: number;
+}
+
+export interface XlsxSheetOptions {
+  freezeHeader?: boolean;
+}
+
+interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  entry: ZipEntryBuilder;
+  rowCount: number;
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Indexes into the cellXfs table in STYLES_XML
+const STYLE_INDEX: Record<XlsxCellType | 'header', number> = {
+  string: 0,
+  number: 0,
+  boolean: 0,
+  header: 1,
+  integer: 2,
+  currency: 3,
+  percent: 4,
+  date: 5,
+  datetime: 6,
+};
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+const ROOT_RELS_XML = `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+  `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+  '</Relationships>';
+
+// cellXfs order must match STYLE_INDEX
+const STYLES_XML = `${XML_DECLARATION}<styleSheet xmlns="${SPREADSHEET_NS}">` +
+  '<numFmts count="3">' +
+  '<numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0.00"/>' +
+  '<numFmt numFmtId="165" formatCode="yyyy-mm-dd"/>' +
+  '<numFmt numFmtId="166" formatCode="yyyy-mm-dd hh:mm"/>' +
+  '</numFmts>' +
+  '<fonts count="2">' +
+  '<font><sz val="11"/><name val="Calibri"/><family val="2"/></font>' +
+  '<font><b/><sz val="11"/><color rgb="FFFFFFFF"/><name val="Calibri"/><family val="2"/></font>' +
+  '</fonts>' +
+  '<fills count="3">' +
+  '<fill><patternFill patternType="none"/></fill>' +
+  '<fill><patternFill patternType="gray125"/></fill>' +
+  '<fill><patternFill patternType="solid"><fgColor rgb="FF2563EB"/><bgColor indexed="64"/></patternFill></fill>' +
+  '</fills>' +
+  '<borders count="2">' +
+  '<border><left/><right/><top/><bottom/><diagonal/></border>' +
+  '<border><left/><right/><top/><bottom style="thin"><color rgb="FF1E40AF"/></bottom><diagonal/></border>' +
+  '</borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="7">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="2" borderId="1" xfId="0" applyFont="1" applyFill="1" applyBorder="1"/>' +
+  '<xf numFmtId="1" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
+const TYPE_SAMPLE_SIZE = 200;
+const EXCEL_EPOCH_OFFSET = 25569; // days between 1899-12-30 and 1970-01-01
+const MS_PER_DAY = 86400000;
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Escape text for inclusion in XML, dropping characters XML 1.0 cannot carry
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/[^\t\n\r\u0020-\uFFFD]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert a zero-based column index to its spreadsheet letters (0 -> A, 27 -> AB)
+ */
+export function columnLetter(index: number): string {
+  let letters = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+}
+
+/**
+ * Convert a date to an Excel serial number using local wall-clock time
+ */
+export function toExcelSerial(value: Date | string): number | null {
+  if (typeof value === 'string') {
+    const dateOnly = ISO_DATE_PATTERN.exec(value);
+    if (dateOnly) {
+      const utc = Date.UTC(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]));
+      return utc / MS_PER_DAY + EXCEL_EPOCH_OFFSET;
+    }
+  }
+
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return null;
+
+  const localAsUtc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+  return localAsUtc / MS_PER_DAY + EXCEL_EPOCH_OFFSET;
+}
+
+function detectValueType(value: unknown): XlsxCellType {
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value instanceof Date) return 'datetime';
+  if (typeof value === 'string') {
+    if (ISO_DATE_PATTERN.test(value)) return 'date';
+    if (ISO_DATETIME_PATTERN.test(value)) return 'datetime';
+  }
+  return 'string';
+}
+
+/**
+ * Infer a column type from a sample of its values.
+ * Mixed columns fall back to the widest compatible type, or string.
+ */
+export function inferColumnType(values: unknown[]): XlsxCellType {
+  let inferred: XlsxCellType | null = null;
+
+  for (const value of values.slice(0, TYPE_SAMPLE_SIZE)) {
+    if (value === null || value === undefined || value === '') continue;
+    const type = detectValueType(value);
+
+    if (inferred === null || inferred === type) {
+      inferred = type;
+    } else if (
+      (inferred === 'integer' && type === 'number') ||
+      (inferred === 'number' && type === 'integer')
+    ) {
+      inferred = 'number';
+    } else if (
+      (inferred === 'date' && type === 'datetime') ||
+      (inferred === 'datetime' && type === 'date')
+    ) {
+      inferred = 'datetime';
+    } else {
+      return 'string';
+    }
+  }
+
+  return inferred ?? 'string';
+}
+
+function displayLength(value: unknown, type: XlsxCellType): number {
+  switch (type) {
+    case 'date':
+      return 10;
+    case 'datetime':
+      return 16;
+    case 'currency':
+      return String(value).length + 4;
+    default:
+      return String(value ?? '').length;
+  }
+}
+
+/**
+ * Build column definitions (type and width) from row objects
+ */
+export function buildColumns(
+  data: Record<string, unknown>[],
+  keys: string[],
+  options: { headers?: Record<string, string>; types?: Record<string, XlsxCellType> } = {}
+): XlsxColumn[] {
+  const sample = data.slice(0, TYPE_SAMPLE_SIZE);
+
+  return keys.map(key => {
+    const header = options.headers?.[key] ?? key;
+    const values = sample.map(row => row[key]);
+    const type = options.types?.[key] ?? inferColumnType(values);
+    const longest = values.reduce<number>(
+      (max, value) => Math.max(max, displayLength(value, type)),
+      header.length
+    );
+
+    return {
+      key,
+      header,
+      type,
+      width: Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest + 2)),
+    };
+  });
+}
+
+function renderCell(ref: string, value: unknown, type: XlsxCellType): string {
+  if (value === null || value === undefined || value === '') return '';
+
+  const style = STYLE_INDEX[type];
+  const styleAttr = style ? ` s="${style}"` : '';
+
+  switch (type) {
+    case 'number':
+    case 'integer':
+    case 'currency':
+    case 'percent': {
+      const numeric = typeof value === 'number' ? value : Number(value);
+      if (!Number.isFinite(numeric)) break;
+      return `<c r="${ref}"${styleAttr}><v>${numeric}</v></c>`;
+    }
+    case 'date':
+    case 'datetime': {
+      const serial = value instanceof Date || typeof value === 'string' ? toExcelSerial(value) : null;
+      if (serial === null) break;
+      return `<c r="${ref}"${styleAttr}><v>${serial}</v></c>`;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') break;
+      return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+function sanitizeSheetName(name: string, existing: string[]): string {
+  const base = (name.replace(/[[\]:*?/\\]/g, ' ').trim() || 'Sheet').slice(0, 31);
+  let candidate = base;
+  let suffix = 2;
+  while (existing.some(sheet => sheet.toLowerCase() === candidate.toLowerCase())) {
+    const tag = ` (${suffix++})`;
+    candidate = base.slice(0, 31 - tag.length) + tag;
+  }
+  return candidate;
+}
+
+/**
+ * Incrementally assembled workbook.
+ * Rows are rendered to XML and encoded into the sheet's zip entry as they
+ * are appended, so large exports never hold the whole document as a string.
+ */
+export class XlsxWorkbook {
+  private sheets: XlsxSheet[] = [];
+  // Set once the sheets are closed; the workbook is read-only from then on
+  private blob: Blob | null = null;
+
+  addSheet(name: string, columns: XlsxColumn[], options: XlsxSheetOptions = {}): number {
+    this.assertWritable();
+    const sheetName = sanitizeSheetName(name, this.sheets.map(sheet => sheet.name));
+    const entry = new ZipEntryBuilder(`xl/worksheets/sheet${this.sheets.length + 1}.xml`);
+    entry.append(this.buildSheetPrefix(columns, options.freezeHeader !== false));
+
+    this.sheets.push({ name: sheetName, columns, entry, rowCount: 1 });
+    return this.sheets.length - 1;
+  }
+
+  appendRows(sheetIndex: number, rows: Record<string, unknown>[]): void {
+    this.assertWritable();
+    const sheet = this.sheets[sheetIndex];
+    if (!sheet) {
+      throw new Error(`Sheet ${sheetIndex} does not exist`);
+    }
+
+    const rendered = rows.map(row => {
+      const rowNumber = ++sheet.rowCount;
+      const cells = sheet.columns
+        .map((column, index) => renderCell(`${columnLetter(index)}${rowNumber}`, row[column.key], column.type))
+        .join('');
+      return `<row r="${rowNumber}">${cells}</row>`;
+    });
+
+    sheet.entry.append(rendered.join(''));
+  }
+
+  /**
+   * Close every sheet and package the workbook. Later calls return the same blob.
+   */
+  toBlob(): Blob {
+    if (this.blob) {
+      return this.blob;
+    }
+    if (this.sheets.length === 0) {
+      throw new Error('Workbook must contain at least one sheet');
+    }
+
+    const sheetEntries = this.sheets.map(sheet => {
+      const lastCell = `${columnLetter(Math.max(sheet.columns.length - 1, 0))}${sheet.rowCount}`;
+      const autoFilter = sheet.rowCount > 1 && sheet.columns.length > 0
+        ? `<autoFilter ref="A1:${lastCell}"/>`
+        : '';
+      sheet.entry.append(`</sheetData>${autoFilter}</worksheet>`);
+      return sheet.entry.build();
+    });
+
+    const zip = createZip([
+      zipEntry('[Content_Types].xml', this.buildContentTypesXml()),
+      zipEntry('_rels/.rels', ROOT_RELS_XML),
+      zipEntry('xl/workbook.xml', this.buildWorkbookXml()),
+      zipEntry('xl/_rels/workbook.xml.rels', this.buildWorkbookRelsXml()),
+      zipEntry('xl/styles.xml', STYLES_XML),
+      ...sheetEntries,
+    ]);
+    this.blob = new Blob([zip], { type: XLSX_MIME_TYPE });
+    return this.blob;
+  }
+
+  private assertWritable(): void {
+    if (this.blob) {
+      throw new Error('Workbook has already been finalized');
+    }
+  }
+
+  private buildContentTypesXml(): string {
+    const sheetOverrides = this.sheets
+      .map((_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      )
+      .join('');
+
+    return `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      `${sheetOverrides}</Types>`;
+  }
+
+  private buildWorkbookXml(): string {
+    const sheets = this.sheets
+      .map((sheet, index) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`)
+      .join('');
+
+    return `${XML_DECLARATION}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">` +
+      `<sheets>${sheets}</sheets></workbook>`;
+  }
+
+  private buildWorkbookRelsXml(): string {
+    const sheetRels = this.sheets
+      .map((_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+      )
+      .join('');
+    const stylesRel = `<Relationship Id="rId${this.sheets.length + 1}" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/>`;
+
+    return `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">${sheetRels}${stylesRel}</Relationships>`;
+  }
+
+  // Everything up to and including the header row; the row count is not needed here
+  private buildSheetPrefix(columns: XlsxColumn[], freezeHeader: boolean): string {
+    const pane = freezeHeader
+      ? '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft" activeCell="A2" sqref="A2"/>'
+      : '';
+    const cols = columns
+      .map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${column.width}" customWidth="1"/>`)
+      .join('');
+    const headerCells = columns
+      .map((column, index) =>
+        `<c r="${columnLetter(index)}1" t="inlineStr" s="${STYLE_INDEX.header}"><is><t>${escapeXml(column.header)}</t></is></c>`
+      )
+      .join('');
+
+    return `${XML_DECLARATION}<worksheet xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">` +
+      `<sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>` +
+      '<sheetFormatPr defaultRowHeight="15"/>' +
+      (cols ? `<cols>${cols}</cols>` : '') +
+      `<sheetData><row r="1">${headerCells}</row>`;
+  }
+}
@@ -0,0 +1,132 @@
+// Minimal ZIP archive writer (STORE method, no compression)
+// Used to package Office Open XML documents such as .xlsx workbooks
+
+export interface ZipEntry {
+  path: string;
+  // Entry contents in order; checksum and size must describe the concatenated parts
+  parts: BlobPart[];
+  size: number;
+  crc: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Compute the CRC-32 checksum required by every ZIP entry.
+ * Pass the previous result to continue a checksum across chunks.
+ */
+export function crc32(data: Uint8Array, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Accumulates an entry chunk by chunk, keeping the running checksum and
+ * moving encoded bytes into Blobs so they leave the JS heap
+ */
+export class ZipEntryBuilder {
+  private parts: BlobPart[] = [];
+  private size = 0;
+  private crc = 0;
+  private encoder = new TextEncoder();
+
+  constructor(private path: string) {}
+
+  append(chunk: string | Uint8Array): void {
+    const bytes = typeof chunk === 'string' ? this.encoder.encode(chunk) : chunk;
+    if (bytes.length === 0) return;
+
+    this.crc = crc32(bytes, this.crc);
+    this.size += bytes.length;
+    this.parts.push(new Blob([bytes]));
+  }
+
+  build(): ZipEntry {
+    return { path: this.path, parts: this.parts, size: this.size, crc: this.crc };
+  }
+}
+
+/**
+ * Build a complete entry from in-memory text
+ */
+export function zipEntry(path: string, content: string): ZipEntry {
+  const builder = new ZipEntryBuilder(path);
+  builder.append(content);
+  return builder.build();
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive from prepared entries
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Blob {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.path);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed to extract
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true); // STORE
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, entry.crc, true);
+    local.setUint32(18, entry.size, true);
+    local.setUint32(22, entry.size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, name, ...entry.parts);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, entry.crc, true);
+    central.setUint32(20, entry.size, true);
+    central.setUint32(24, entry.size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + entry.size;
+  });
+
+  const directorySize = centralDirectory.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end.buffer], { type: 'application/zip' });
+}
@@ -1,9 +1,10 @@
 import { api } from './api';
 import type { ApiResponse } from '../types';
+import { getNextRuns, isValidTimeZone, parseCronExpression } from './export/cronSchedule';
 
-export type ScheduleFrequency = 'daily' | 'weekly' | 'monthly' | 'quarterly';
+export type ScheduleFrequency = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'cron';
 export type ExportType = 'players' | 'analytics' | 'models' | 'comprehensive';
-export type ExportFormat = 'csv' | 'excel' | 'pdf';
+export type ExportFormat = 'csv' | 'excel' | 'pdf' | 'parquet' | 'ndjson';
 
 export interface ExportSchedule {
   id: string;
@@ -45,7 +46,10 @@ export interface ScheduleConfig {
   // For quarterly: month (1-12), dayOfMonth, hour
   month?: number;
   
-  // Timezone
+  // For cron: five-field expression evaluated in the schedule timezone
+  cronExpression?: string;
+  
+  // IANA timezone, e.g. 'Europe/London'
   timezone: string;
 }
 
@@ -124,6 +128,14 @@ export interface UpdateScheduleRequest extends Partial<CreateScheduleRequest> {
   isActive?: boolean;
 }
 
+export interface ScheduleOverlap {
+  scheduleId: string;
+  scheduleName: string;
+  // First run of the other schedule that falls within the overlap window
+  firstConflict: Date;
+  conflictCount: number;
+}
+
 export interface ScheduleListRequest {
   page?: number;
   pageSize?: number;
@@ -136,6 +148,10 @@ export interface ScheduleListRequest {
   sortDirection?: 'asc' | 'desc';
 }
 
+// Runs of the same export type closer together than this are reported as overlapping
+const OVERLAP_WINDOW_MINUTES = 30;
+const OVERLAP_HORIZON_DAYS = 90;
+
 class ExportSchedulingService {
   private readonly baseUrl = '/api/ExportScheduling';
 
@@ -237,6 +253,11 @@ class ExportSchedulingService {
     const { hour = 0, dayOfWeek = 0, dayOfMonth = 1, month = 1 } = config;
     
     switch (frequency) {
+      case 'cron':
+        if (!config.cronExpression?.trim()) {
+          throw new Error('Cron expression is required');
+        }
+        return config.cronExpression.trim();
       case 'daily':
         return `0 ${hour} * * *`;
       case 'weekly':
@@ -244,65 +265,97 @@ class ExportSchedulingService {
       case 'monthly':
         return `0 ${hour} ${dayOfMonth} * *`;
       case 'quarterly':
-        return `0 ${hour} ${dayOfMonth} ${month}/3 *`;
+        // Every third month, starting from the first quarter month matching `month`
+        return `0 ${hour} ${dayOfMonth} ${((month - 1) % 3) + 1}/3 *`;
       default:
         throw new Error(`Unsupported frequency: ${frequency}`);
     }
   }
 
   calculateNextRunDate(frequency: ScheduleFrequency, config: ScheduleConfig): Date {
-    const now = new Date();
-    const next = new Date(now);
-    
-    // Set the time
-    next.setHours(config.hour || 0, 0, 0, 0);
-    
-    switch (frequency) {
-      case 'daily':
-        if (next <= now) {
-          next.setDate(next.getDate() + 1);
-        }
-        break;
-        
-      case 'weekly':
-        const targetDay = config.dayOfWeek || 0;
-        const currentDay = next.getDay();
-        const daysUntilTarget = (targetDay - currentDay + 7) % 7;
-        
-        if (daysUntilTarget === 0 && next <= now) {
-          next.setDate(next.getDate() + 7);
-        } else {
-          next.setDate(next.getDate() + daysUntilTarget);
-        }
-        break;
-        
-      case 'monthly':
-        next.setDate(config.dayOfMonth || 1);
-        if (next <= now) {
-          next.setMonth(next.getMonth() + 1);
-        }
-        break;
-        
-      case 'quarterly':
-        const targetMonth = (config.month || 1) - 1; // 0-based
-        const currentMonth = next.getMonth();
-        const monthsUntilTarget = (targetMonth - currentMonth + 12) % 12;
-        
-        next.setMonth(currentMonth + monthsUntilTarget);
-        next.setDate(config.dayOfMonth || 1);
-        
-        if (next <= now) {
-          next.setMonth(next.getMonth() + 3);
-        }
-        break;
+    const [next] = this.getNextRunDates(frequency, config, 1);
+    if (!next) {
+      throw new Error('Schedule has no upcoming runs');
     }
-    
     return next;
   }
 
+  /**
+   * Upcoming runs computed locally in the schedule timezone, for previews
+   */
+  getNextRunDates(
+    frequency: ScheduleFrequency,
+    config: ScheduleConfig,
+    count: number = 5,
+    from: Date = new Date()
+  ): Date[] {
+    return getNextRuns(this.generateCronExpression(frequency, config), config.timezone || 'UTC', count, { from });
+  }
+
+  /**
+   * Find schedules of the same export type whose runs fall within
+   * OVERLAP_WINDOW_MINUTES of the candidate's runs over the next OVERLAP_HORIZON_DAYS
+   */
+  findOverlappingSchedules(
+    candidate: Pick<ExportSchedule, 'exportType' | 'frequency' | 'scheduleConfig'> & { id?: string },
+    schedules: ExportSchedule[],
+    from: Date = new Date()
+  ): ScheduleOverlap[] {
+    const until = new Date(from.getTime() + OVERLAP_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+    const windowMs = OVERLAP_WINDOW_MINUTES * 60 * 1000;
+    const runsFor = (frequency: ScheduleFrequency, config: ScheduleConfig) =>
+      getNextRuns(this.generateCronExpression(frequency, config), config.timezone || 'UTC', 500, { from, until });
+
+    const candidateRuns = runsFor(candidate.frequency, candidate.scheduleConfig);
+    const overlaps: ScheduleOverlap[] = [];
+
+    schedules
+      .filter(schedule => schedule.isActive && schedule.exportType === candidate.exportType && schedule.id !== candidate.id)
+      .forEach(schedule => {
+        let otherRuns: Date[];
+        try {
+          otherRuns = runsFor(schedule.frequency, schedule.scheduleConfig);
+        } catch {
+          // Schedules saved before validation existed may not parse; they cannot be compared
+          return;
+        }
+
+        const conflicts = otherRuns.filter(run =>
+          candidateRuns.some(candidateRun => Math.abs(candidateRun.getTime() - run.getTime()) < windowMs)
+        );
+        if (conflicts.length > 0) {
+          overlaps.push({
+            scheduleId: schedule.id,
+            scheduleName: schedule.name,
+            firstConflict: conflicts[0]!,
+            conflictCount: conflicts.length,
+          });
+        }
+      });
+
+    return overlaps;
+  }
+
   validateScheduleConfig(frequency: ScheduleFrequency, config: ScheduleConfig): string[] {
     const errors: string[] = [];
     
+    if (!config.timezone || !isValidTimeZone(config.timezone)) {
+      errors.push(`Unknown timezone "${config.timezone || ''}"`);
+    }
+    
+    if (frequency === 'cron') {
+      if (!config.cronExpression?.trim()) {
+        errors.push('Cron expression is required');
+      } else {
+        try {
+          parseCronExpression(config.cronExpression);
+        } catch (error) {
+          errors.push(error instanceof Error ? error.message : 'Invalid cron expression');
+        }
+      }
+      return errors;
+    }
+    
     if (config.hour !== undefined && (config.hour < 0 || config.hour > 23)) {
       errors.push('Hour must be between 0 and 23');
     }
@@ -325,6 +378,15 @@ class ExportSchedulingService {
       }
     }
     
+    // Catch combinations that never run, e.g. the 31st in a quarter of 30-day months
+    if (errors.length === 0) {
+      try {
+        parseCronExpression(this.generateCronExpression(frequency, config));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Invalid schedule');
+      }
+    }
+    
     return errors;
   }
 }
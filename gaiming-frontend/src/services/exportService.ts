@@ -1,7 +1,35 @@
 // Export Service for GAIming Frontend
 // Provides comprehensive data export functionality
 
-export type ExportFormat = 'csv' | 'excel' | 'pdf' | 'json';
+import { buildColumns, inferColumnType, XlsxCellType } from './export/xlsxWriter';
+import type { PdfImage } from './export/pdfWriter';
+import type { ExportSinkConfig } from './export/exportSinks';
+import { createExportTransport } from './export/exportWorkerClient';
+import {
+  ColumnValueMode,
+  createRowProjector,
+  ExportColumn,
+  getColumnType,
+  resolveColumns,
+} from './export/columnSpec';
+import {
+  GAME_EXPORT_COLUMNS,
+  MODEL_EXPORT_COLUMNS,
+  PLAYER_EXPORT_COLUMNS,
+  RECOMMENDATION_EXPORT_COLUMNS,
+} from './export/columnPresets';
+import type { ParquetSchema } from './export/parquetWriter';
+import {
+  buildColumnsParquetSchema,
+  GAME_RECOMMENDATION_PARQUET_SCHEMA,
+  inferParquetSchema,
+  ML_MODEL_PARQUET_SCHEMA,
+  PLAYER_ANALYTICS_PARQUET_SCHEMA,
+} from './export/parquetSchemas';
+import type { PlayerFieldPolicy } from './playerFieldPolicy';
+import { formatDate } from '../lib/utils';
+
+export type ExportFormat = 'csv' | 'excel' | 'pdf' | 'json' | 'parquet' | 'ndjson';
 
 export interface ExportOptions {
   filename?: string;
@@ -10,6 +38,23 @@ export interface ExportOptions {
   customHeaders?: Record<string, string>;
   onProgress?: (progress: ExportProgress) => void;
   chunkSize?: number;
+  metadata?: Partial<ExportMetadata>;
+  // Explicit cell types keyed by column header (Excel cells, PDF formatting)
+  columnTypes?: Record<string, XlsxCellType>;
+  // Column spec; without one every key of the first row is exported as-is
+  columns?: ExportColumn[];
+  // Column ids to keep or drop from the spec
+  includeColumns?: string[];
+  excludeColumns?: string[];
+  // Passed to column include rules
+  includeSensitiveData?: boolean;
+  // Parquet only: declared schema of the source records; inferred when omitted
+  parquetSchema?: ParquetSchema;
+  // Excel only: worksheet name
+  sheetName?: string;
+  // PDF only: chart images rendered after the cover block, and page orientation
+  charts?: PdfImage[];
+  orientation?: 'portrait' | 'landscape';
 }
 
 export interface ExportMetadata {
@@ -21,7 +66,8 @@ export interface ExportMetadata {
 }
 
 export interface ExportProgress {
-  stage: 'preparing' | 'processing' | 'generating' | 'downloading' | 'completed' | 'error';
+  jobId?: string;
+  stage: 'preparing' | 'processing' | 'generating' | 'downloading' | 'completed' | 'error' | 'cancelled';
   progress: number; // 0-100
   processedRecords: number;
   totalRecords: number;
@@ -29,6 +75,20 @@ export interface ExportProgress {
   estimatedTimeRemaining?: number;
 }
 
+export interface ExcelSheetInput {
+  name: string;
+  data: any[];
+  columns?: ExportColumn[];
+  columnTypes?: Record<string, XlsxCellType>;
+}
+
+interface ColumnPlan {
+  columns?: ExportColumn[];
+  headers: string[];
+  types: Record<string, XlsxCellType>;
+  project?: (row: any) => Record<string, unknown>;
+}
+
 export interface ExportJob {
   id: string;
   status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
@@ -41,6 +101,7 @@ export interface ExportJob {
 
 class ExportService {
   private activeJobs = new Map<string, ExportJob>();
+  private abortHandlers = new Map<string, () => void>();
   private jobCounter = 0;
 
   /**
@@ -51,166 +112,133 @@ class ExportService {
       throw new Error('No data to export');
     }
 
-    const jobId = this.createExportJob(data.length);
-
-    try {
-      this.updateProgress(jobId, {
-        stage: 'preparing',
-        progress: 0,
-        processedRecords: 0,
-        totalRecords: data.length,
-        message: 'Preparing export...'
-      }, options.onProgress);
-
-      const filename = this.generateFilename('csv', options);
-
-      this.updateProgress(jobId, {
-        stage: 'processing',
-        progress: 25,
-        processedRecords: 0,
-        totalRecords: data.length,
-        message: 'Processing data...'
-      }, options.onProgress);
-
-      const csvContent = await this.convertToCSVWithProgress(data, options, jobId);
-
-      this.updateProgress(jobId, {
-        stage: 'downloading',
-        progress: 90,
-        processedRecords: data.length,
-        totalRecords: data.length,
-        message: 'Preparing download...'
-      }, options.onProgress);
-
-      this.downloadFile(csvContent, filename, 'text/csv');
-
-      this.updateProgress(jobId, {
-        stage: 'completed',
-        progress: 100,
-        processedRecords: data.length,
-        totalRecords: data.length,
-        message: 'Export completed successfully!'
-      }, options.onProgress);
-
-      return jobId;
-    } catch (error) {
-      this.updateProgress(jobId, {
-        stage: 'error',
-        progress: 0,
-        processedRecords: 0,
-        totalRecords: data.length,
-        message: `Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      }, options.onProgress);
-      throw error;
-    }
+    const plan = this.planColumns(data, options.columns, 'display', options);
+    const metadata = this.buildMetadata(data.length, options);
+    const preamble = options.includeMetadata
+      ? [
+          '# Export Metadata',
+          `# Exported at: ${metadata.exportedAt}`,
+          `# Exported by: ${metadata.exportedBy}`,
+          `# Total records: ${metadata.totalRecords}`,
+          '',
+        ]
+      : undefined;
+
+    return this.runExport(
+      { format: 'csv', headers: plan.headers, preamble },
+      [{ rows: data, project: plan.project }],
+      'csv',
+      '',
+      options
+    );
   }
 
   /**
-   * Export data to Excel format (CSV with .xlsx extension)
-   * Note: For true Excel format, you'd need a library like xlsx
+   * Export data to Excel format as a single-sheet .xlsx workbook
    */
   async exportToExcel(data: any[], options: ExportOptions = {}): Promise<string> {
-    if (!data || data.length === 0) {
+    return this.exportSheetsToExcel(
+      [{
+        name: options.sheetName || options.customHeaders?.title || 'Data',
+        data,
+        columns: options.columns,
+        columnTypes: options.columnTypes,
+      }],
+      options
+    );
+  }
+
+  /**
+   * Export one or more datasets to an .xlsx workbook, one worksheet per dataset
+   */
+  async exportSheetsToExcel(sheets: ExcelSheetInput[], options: ExportOptions = {}): Promise<string> {
+    const populated = sheets.filter(sheet => sheet.data && sheet.data.length > 0);
+    if (populated.length === 0) {
       throw new Error('No data to export');
     }
 
-    const jobId = this.createExportJob(data.length);
-
-    try {
-      this.updateProgress(jobId, {
-        stage: 'preparing',
-        progress: 0,
-        processedRecords: 0,
-        totalRecords: data.length,
-        message: 'Preparing Excel export...'
-      }, options.onProgress);
-
-      const filename = this.generateFilename('xlsx', options);
-      const csvContent = await this.convertToCSVWithProgress(data, options, jobId);
-
-      this.updateProgress(jobId, {
-        stage: 'downloading',
-        progress: 90,
-        processedRecords: data.length,
-        totalRecords: data.length,
-        message: 'Preparing download...'
-      }, options.onProgress);
-
-      this.downloadFile(csvContent, filename, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-
-      this.updateProgress(jobId, {
-        stage: 'completed',
-        progress: 100,
-        processedRecords: data.length,
-        totalRecords: data.length,
-        message: 'Excel export completed successfully!'
-      }, options.onProgress);
-
-      return jobId;
-    } catch (error) {
-      this.updateProgress(jobId, {
-        stage: 'error',
-        progress: 0,
-        processedRecords: 0,
-        totalRecords: data.length,
-        message: `Excel export failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      }, options.onProgress);
-      throw error;
-    }
+    const totalRecords = populated.reduce((total, sheet) => total + sheet.data.length, 0);
+    const metadata = this.buildMetadata(totalRecords, options);
+    const metadataRows = options.includeMetadata
+      ? [
+          { Field: 'Title', Value: options.customHeaders?.title || 'GAIming Export Report' },
+          { Field: 'Exported At', Value: metadata.exportedAt },
+          { Field: 'Exported By', Value: metadata.exportedBy },
+          { Field: 'Total Records', Value: metadata.totalRecords },
+          { Field: 'Source', Value: metadata.source },
+          ...Object.entries(metadata.filters || {}).map(([key, value]) => ({
+            Field: `Filter: ${key}`,
+            Value: typeof value === 'object' ? JSON.stringify(value) : value,
+          })),
+        ]
+      : undefined;
+
+    const plans = populated.map(sheet =>
+      this.planColumns(sheet.data, sheet.columns, 'typed', options, sheet.columnTypes)
+    );
+
+    return this.runExport(
+      {
+        format: 'excel',
+        sheets: populated.map((sheet, index) => {
+          const plan = plans[index]!;
+          const sample = this.sampleRows(sheet.data, plan);
+          return { name: sheet.name, columns: buildColumns(sample, plan.headers, { types: plan.types }) };
+        }),
+        metadataRows,
+      },
+      populated.map((sheet, index) => ({ rows: sheet.data, sheet: index, project: plans[index]!.project })),
+      'xlsx',
+      'Excel',
+      options
+    );
   }
 
   /**
-   * Export data to PDF format (simple text-based)
-   * Note: For true PDF format, you'd need a library like jsPDF
+   * Export data to PDF format as a paginated table report
    */
   async exportToPDF(data: any[], options: ExportOptions = {}): Promise<string> {
     if (!data || data.length === 0) {
       throw new Error('No data to export');
     }
 
-    const jobId = this.createExportJob(data.length);
-
-    try {
-      this.updateProgress(jobId, {
-        stage: 'preparing',
-        progress: 0,
-        processedRecords: 0,
-        totalRecords: data.length,
-        message: 'Preparing PDF export...'
-      }, options.onProgress);
-
-      const filename = this.generateFilename('pdf', options);
-      const pdfContent = this.convertToPDF(data, options);
-
-      this.updateProgress(jobId, {
-        stage: 'downloading',
-        progress: 90,
-        processedRecords: data.length,
-        totalRecords: data.length,
-        message: 'Preparing download...'
-      }, options.onProgress);
-
-      this.downloadFile(pdfContent, filename, 'application/pdf');
-
-      this.updateProgress(jobId, {
-        stage: 'completed',
-        progress: 100,
-        processedRecords: data.length,
-        totalRecords: data.length,
-        message: 'PDF export completed successfully!'
-      }, options.onProgress);
+    const title = options.customHeaders?.title || 'GAIming Export Report';
+    const plan = this.planColumns(data, options.columns, 'typed', options);
+    const { headers } = plan;
+    const sample = this.sampleRows(data, plan);
+    const metadata = this.buildMetadata(data.length, options);
 
-      return jobId;
-    } catch (error) {
-      this.updateProgress(jobId, {
-        stage: 'error',
-        progress: 0,
-        processedRecords: 0,
-        totalRecords: data.length,
-        message: `PDF export failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      }, options.onProgress);
-      throw error;
-    }
+    return this.runExport(
+      {
+        format: 'pdf',
+        title,
+        subtitle: options.customHeaders?.subtitle,
+        author: options.metadata?.exportedBy,
+        orientation: options.orientation ?? (headers.length > 6 ? 'landscape' : 'portrait'),
+        cover: [
+          ['Exported at', formatDate(metadata.exportedAt, { hour: '2-digit', minute: '2-digit' })],
+          ['Exported by', metadata.exportedBy],
+          ['Total records', metadata.totalRecords.toLocaleString()],
+          ['Source', metadata.source],
+          ...Object.entries(metadata.filters || {})
+            .filter(([, value]) => value !== undefined && value !== '')
+            .map(([key, value]): [string, string] => [
+              `Filter: ${key}`,
+              typeof value === 'object' ? JSON.stringify(value) : String(value),
+            ]),
+        ],
+        charts: options.charts || [],
+        headers,
+        types: headers.map(header =>
+          plan.types[header] ?? inferColumnType(sample.map(row => row[header]))
+        ),
+        sample,
+      },
+      [{ rows: data, project: plan.project }],
+      'pdf',
+      'PDF',
+      options
+    );
   }
 
   /**
@@ -221,80 +249,114 @@ class ExportService {
       throw new Error('No data to export');
     }
 
-    const jobId = this.createExportJob(data.length);
+    const plan = this.planColumns(data, options.columns, 'typed', options);
 
-    try {
-      this.updateProgress(jobId, {
-        stage: 'preparing',
-        progress: 0,
-        processedRecords: 0,
-        totalRecords: data.length,
-        message: 'Preparing JSON export...'
-      }, options.onProgress);
+    return this.runExport(
+      { format: 'json', metadata: { ...this.buildMetadata(data.length, options) } },
+      [{ rows: data, project: plan.project }],
+      'json',
+      'JSON',
+      options
+    );
+  }
 
-      const filename = this.generateFilename('json', options);
-      const jsonContent = this.convertToJSON(data, options);
+  /**
+   * Export data as newline-delimited JSON, one record per line
+   */
+  async exportToNDJSON(data: any[], options: ExportOptions = {}): Promise<string> {
+    if (!data || data.length === 0) {
+      throw new Error('No data to export');
+    }
 
-      this.updateProgress(jobId, {
-        stage: 'downloading',
-        progress: 90,
-        processedRecords: data.length,
-        totalRecords: data.length,
-        message: 'Preparing download...'
-      }, options.onProgress);
+    const plan = this.planColumns(data, options.columns, 'record', options);
 
-      this.downloadFile(jsonContent, filename, 'application/json');
+    return this.runExport(
+      { format: 'ndjson' },
+      [{ rows: data, project: plan.project }],
+      'ndjson',
+      'NDJSON',
+      options
+    );
+  }
 
-      this.updateProgress(jobId, {
-        stage: 'completed',
-        progress: 100,
-        processedRecords: data.length,
-        totalRecords: data.length,
-        message: 'JSON export completed successfully!'
-      }, options.onProgress);
+  /**
+   * Export data to an Apache Parquet file with a typed schema
+   */
+  async exportToParquet(data: any[], options: ExportOptions = {}): Promise<string> {
+    if (!data || data.length === 0) {
+      throw new Error('No data to export');
+    }
 
-      return jobId;
-    } catch (error) {
-      this.updateProgress(jobId, {
-        stage: 'error',
-        progress: 0,
-        processedRecords: 0,
-        totalRecords: data.length,
-        message: `JSON export failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      }, options.onProgress);
-      throw error;
+    const plan = this.planColumns(data, options.columns, 'record', options);
+    const sample = this.sampleRows(data, plan);
+    const schema = plan.columns
+      ? buildColumnsParquetSchema(plan.columns, sample, options.parquetSchema)
+      : options.parquetSchema ?? inferParquetSchema(sample);
+    const metadata = this.buildMetadata(data.length, options);
+
+    return this.runExport(
+      {
+        format: 'parquet',
+        schema,
+        metadata: {
+          exportedAt: metadata.exportedAt,
+          exportedBy: metadata.exportedBy,
+          source: metadata.source,
+          totalRecords: String(metadata.totalRecords),
+          ...(metadata.filters ? { filters: JSON.stringify(metadata.filters) } : {}),
+        },
+      },
+      [{ rows: data, project: plan.project }],
+      'parquet',
+      'Parquet',
+      options
+    );
+  }
+
+  /**
+   * Export data in any supported format
+   */
+  async exportData(data: any[], format: ExportFormat, options: ExportOptions = {}): Promise<string> {
+    switch (format) {
+      case 'csv':
+        return this.exportToCSV(data, options);
+      case 'excel':
+        return this.exportToExcel(data, options);
+      case 'pdf':
+        return this.exportToPDF(data, options);
+      case 'json':
+        return this.exportToJSON(data, options);
+      case 'ndjson':
+        return this.exportToNDJSON(data, options);
+      case 'parquet':
+        return this.exportToParquet(data, options);
+      default:
+        throw new Error(`Unsupported format: ${format}`);
     }
   }
 
   // Specialized export methods
+  /**
+   * Export player records. Restricted fields are dropped or masked by the
+   * exporting user's field policy, exactly as on the Players pages.
+   */
   async exportPlayerData(
     players: any[],
     format: ExportFormat,
     options: ExportOptions,
-    includeSensitiveData: boolean = false
+    fieldPolicy: PlayerFieldPolicy
   ): Promise<string> {
-    const sanitizedData = this.sanitizePlayerData(players, includeSensitiveData);
-    const exportOptions = {
+    const exportOptions: ExportOptions = {
+      parquetSchema: PLAYER_ANALYTICS_PARQUET_SCHEMA,
       ...options,
+      columns: fieldPolicy.redactColumns(options.columns ?? PLAYER_EXPORT_COLUMNS),
       customHeaders: {
         title: 'GAIming Players Report',
-        includeSensitiveData: includeSensitiveData.toString(),
         ...options.customHeaders,
       },
     };
 
-    switch (format) {
-      case 'csv':
-        return this.exportToCSV(sanitizedData, exportOptions);
-      case 'excel':
-        return this.exportToExcel(sanitizedData, exportOptions);
-      case 'pdf':
-        return this.exportToPDF(sanitizedData, exportOptions);
-      case 'json':
-        return this.exportToJSON(sanitizedData, exportOptions);
-      default:
-        throw new Error(`Unsupported format: ${format}`);
-    }
+    return this.exportData(players, format, exportOptions);
   }
 
   async exportAnalyticsReport(
@@ -311,18 +373,7 @@ class ExportService {
       },
     };
 
-    switch (format) {
-      case 'csv':
-        return this.exportToCSV(reportData, exportOptions);
-      case 'excel':
-        return this.exportToExcel(reportData, exportOptions);
-      case 'pdf':
-        return this.exportToPDF(reportData, exportOptions);
-      case 'json':
-        return this.exportToJSON(reportData, exportOptions);
-      default:
-        throw new Error(`Unsupported format: ${format}`);
-    }
+    return this.exportData(reportData, format, exportOptions);
   }
 
   async exportModelsData(
@@ -330,8 +381,9 @@ class ExportService {
     format: ExportFormat,
     options: ExportOptions
   ): Promise<string> {
-    const modelsData = this.prepareModelsData(models);
-    const exportOptions = {
+    const exportOptions: ExportOptions = {
+      columns: MODEL_EXPORT_COLUMNS,
+      parquetSchema: ML_MODEL_PARQUET_SCHEMA,
       ...options,
       customHeaders: {
         title: 'GAIming ML Models Report',
@@ -339,20 +391,45 @@ class ExportService {
       },
     };
 
-    switch (format) {
-      case 'csv':
-        return this.exportToCSV(modelsData, exportOptions);
-      case 'excel':
-        return this.exportToExcel(modelsData, exportOptions);
-      case 'pdf':
-        return this.exportToPDF(modelsData, exportOptions);
-      case 'json':
-        return this.exportToJSON(modelsData, exportOptions);
-      default:
-        throw new Error(`Unsupported format: ${format}`);
-    }
+    return this.exportData(models, format, exportOptions);
+  }
+
+  async exportGamesData(
+    games: any[],
+    format: ExportFormat,
+    options: ExportOptions
+  ): Promise<string> {
+    const exportOptions: ExportOptions = {
+      columns: GAME_EXPORT_COLUMNS,
+      ...options,
+      customHeaders: {
+        title: 'GAIming Games Catalog',
+        ...options.customHeaders,
+      },
+    };
+
+    return this.exportData(games, format, exportOptions);
+  }
+
+  async exportRecommendationsData(
+    recommendations: any[],
+    format: ExportFormat,
+    options: ExportOptions
+  ): Promise<string> {
+    const exportOptions: ExportOptions = {
+      columns: RECOMMENDATION_EXPORT_COLUMNS,
+      parquetSchema: GAME_RECOMMENDATION_PARQUET_SCHEMA,
+      ...options,
+      customHeaders: {
+        title: 'GAIming Recommendations Report',
+        ...options.customHeaders,
+      },
+    };
+
+    return this.exportData(recommendations, format, exportOptions);
   }
 
+
   // Progress tracking methods
 
   private createExportJob(totalRecords: number): string {
@@ -361,6 +438,7 @@ class ExportService {
       id: jobId,
       status: 'queued',
       progress: {
+        jobId,
         stage: 'preparing',
         progress: 0,
         processedRecords: 0,
@@ -379,30 +457,53 @@ class ExportService {
     onProgress?: (progress: ExportProgress) => void
   ): void {
     const job = this.activeJobs.get(jobId);
-    if (job) {
-      job.progress = progress;
+    // A cancelled job only reports its cancellation, whatever stage was in flight
+    if (job && (job.status !== 'cancelled' || progress.stage === 'cancelled')) {
+      job.progress = { ...progress, jobId };
       job.status = progress.stage === 'completed' ? 'completed' :
-                   progress.stage === 'error' ? 'failed' : 'running';
+                   progress.stage === 'error' ? 'failed' :
+                   progress.stage === 'cancelled' ? 'cancelled' : 'running';
 
-      if (progress.stage === 'completed' || progress.stage === 'error') {
+      if (progress.stage === 'completed' || progress.stage === 'error' || progress.stage === 'cancelled') {
         job.endTime = new Date();
       }
 
       if (onProgress) {
-        onProgress(progress);
+        onProgress(job.progress);
       }
     }
   }
 
+  /**
+   * A queued or running export; finished jobs are forgotten once they report their final stage
+   */
   getExportJob(jobId: string): ExportJob | undefined {
     return this.activeJobs.get(jobId);
   }
 
-  cancelExport(jobId: string): void {
+  /**
+   * Cancel a queued or running export. The worker is terminated immediately
+   * and the job reports a 'cancelled' progress stage instead of downloading.
+   */
+  cancelJob(jobId: string): boolean {
     const job = this.activeJobs.get(jobId);
-    if (job && job.status === 'running') {
-      job.status = 'cancelled';
-      job.endTime = new Date();
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+      return false;
+    }
+
+    job.status = 'cancelled';
+    job.endTime = new Date();
+    this.abortHandlers.get(jobId)?.();
+    return true;
+  }
+
+  /**
+   * Stop an export between stages once it has been cancelled; aborting the
+   * transport only interrupts work still in progress
+   */
+  private throwIfCancelled(jobId: string): void {
+    if (this.activeJobs.get(jobId)?.status === 'cancelled') {
+      throw new Error('Export cancelled');
     }
   }
 
@@ -419,106 +520,182 @@ class ExportService {
 
   // Private helper methods
 
-  private generateFilename(extension: string, options: ExportOptions): string {
-    const base = options.filename || 'export';
-    const timestamp = options.includeTimestamp !== false 
-      ? `-${new Date().toISOString().split('T')[0]}` 
-      : '';
-    return `${base}${timestamp}.${extension}`;
-  }
-
-  private async convertToCSVWithProgress(
-    data: any[],
-    options: ExportOptions,
-    jobId: string
+  /**
+   * Stream rows through an export worker chunk by chunk, reporting progress,
+   * then download the resulting file. Only one chunk is in flight at a time,
+   * so memory does not grow with the size of the dataset.
+   */
+  private async runExport(
+    config: ExportSinkConfig,
+    sources: { rows: any[]; sheet?: number; project?: (row: any) => Record<string, unknown> }[],
+    extension: string,
+    label: string,
+    options: ExportOptions
   ): Promise<string> {
+    const totalRecords = sources.reduce((total, source) => total + source.rows.length, 0);
     const chunkSize = options.chunkSize || 1000;
-    const headers = Object.keys(data[0]);
-    const csvRows = [headers.join(',')];
-
-    // Add metadata if requested
-    if (options.includeMetadata) {
-      csvRows.unshift('# Export Metadata');
-      csvRows.unshift(`# Exported at: ${new Date().toISOString()}`);
-      csvRows.unshift(`# Total records: ${data.length}`);
-      csvRows.unshift('');
-    }
+    const exportName = label ? `${label} export` : 'Export';
+    const jobId = this.createExportJob(totalRecords);
+    const transport = createExportTransport();
+    this.abortHandlers.set(jobId, () => transport.abort(new Error('Export cancelled')));
 
-    // Process data in chunks for better performance and progress tracking
-    for (let i = 0; i < data.length; i += chunkSize) {
-      const chunk = data.slice(i, i + chunkSize);
-
-      // Process chunk
-      chunk.forEach(row => {
-        const values = headers.map(header => {
-          const value = row[header];
-          if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
-            return `"${value.replace(/"/g, '""')}"`;
-          }
-          return value ?? '';
-        });
-        csvRows.push(values.join(','));
-      });
-
-      // Update progress
-      const processedRecords = Math.min(i + chunkSize, data.length);
-      const progress = Math.round((processedRecords / data.length) * 65) + 25; // 25-90% range
+    try {
+      this.updateProgress(jobId, {
+        stage: 'preparing',
+        progress: 0,
+        processedRecords: 0,
+        totalRecords,
+        message: `Preparing ${label ? `${label} ` : ''}export...`
+      }, options.onProgress);
+
+      const filename = this.generateFilename(extension, options);
+      await transport.start(config);
+
+      let processedRecords = 0;
+      for (const source of sources) {
+        // Process data in chunks for better performance and progress tracking
+        for (let i = 0; i < source.rows.length; i += chunkSize) {
+          const slice = source.rows.slice(i, i + chunkSize);
+          const chunk = source.project ? slice.map(source.project) : slice;
+          await transport.write(chunk, source.sheet);
+          this.throwIfCancelled(jobId);
+          processedRecords += chunk.length;
+
+          this.updateProgress(jobId, {
+            stage: 'processing',
+            progress: Math.round((processedRecords / totalRecords) * 65) + 25, // 25-90% range
+            processedRecords,
+            totalRecords,
+            message: `Processing records ${processedRecords - chunk.length + 1}-${processedRecords} of ${totalRecords}...`,
+            estimatedTimeRemaining: this.calculateETA(jobId, processedRecords, totalRecords)
+          }, options.onProgress);
+        }
+      }
 
       this.updateProgress(jobId, {
-        stage: 'processing',
-        progress,
-        processedRecords,
-        totalRecords: data.length,
-        message: `Processing records ${i + 1}-${processedRecords} of ${data.length}...`,
-        estimatedTimeRemaining: this.calculateETA(jobId, processedRecords, data.length)
+        stage: 'generating',
+        progress: 90,
+        processedRecords: totalRecords,
+        totalRecords,
+        message: 'Generating file...'
       }, options.onProgress);
 
-      // Allow UI to update
-      await new Promise(resolve => setTimeout(resolve, 1));
-    }
+      const blob = await transport.finish();
+      this.throwIfCancelled(jobId);
 
-    return csvRows.join('\n');
-  }
+      this.updateProgress(jobId, {
+        stage: 'downloading',
+        progress: 95,
+        processedRecords: totalRecords,
+        totalRecords,
+        message: 'Preparing download...'
+      }, options.onProgress);
 
+      // A progress listener may cancel; nothing is downloaded after that
+      this.throwIfCancelled(jobId);
+      this.downloadFile(blob, filename, blob.type);
 
+      this.updateProgress(jobId, {
+        stage: 'completed',
+        progress: 100,
+        processedRecords: totalRecords,
+        totalRecords,
+        message: `${exportName} completed successfully!`
+      }, options.onProgress);
 
-  private convertToPDF(data: any[], options: ExportOptions): string {
-    const title = options.customHeaders?.title || 'GAIming Export Report';
-    const content = [
-      title,
-      '='.repeat(title.length),
-      '',
-      `Generated: ${new Date().toLocaleString()}`,
-      `Records: ${data.length}`,
-      '',
-    ];
+      return jobId;
+    } catch (error) {
+      const job = this.activeJobs.get(jobId);
+      if (job?.status === 'cancelled') {
+        this.updateProgress(jobId, {
+          stage: 'cancelled',
+          progress: job.progress.progress,
+          processedRecords: job.progress.processedRecords,
+          totalRecords,
+          message: `${exportName} cancelled`
+        }, options.onProgress);
+        return jobId;
+      }
 
-    data.forEach((row, index) => {
-      content.push(`Record ${index + 1}:`);
-      Object.entries(row).forEach(([key, value]) => {
-        content.push(`  ${key}: ${value}`);
-      });
-      content.push('');
+      this.updateProgress(jobId, {
+        stage: 'error',
+        progress: 0,
+        processedRecords: 0,
+        totalRecords,
+        message: `${exportName} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }, options.onProgress);
+      throw error;
+    } finally {
+      // Final progress has been reported; nothing looks a job up once it has settled
+      this.activeJobs.delete(jobId);
+      this.abortHandlers.delete(jobId);
+    }
+  }
+
+  /**
+   * Resolve the column spec into output headers, cell types and a row projector
+   */
+  private planColumns(
+    data: any[],
+    columns: ExportColumn[] | undefined,
+    mode: ColumnValueMode,
+    options: ExportOptions,
+    columnTypes: Record<string, XlsxCellType> | undefined = options.columnTypes
+  ): ColumnPlan {
+    if (!columns) {
+      return { headers: Object.keys(data[0]), types: { ...columnTypes } };
+    }
+
+    const resolved = resolveColumns(columns, {
+      includeColumns: options.includeColumns,
+      excludeColumns: options.excludeColumns,
+      context: { includeSensitiveData: options.includeSensitiveData ?? false },
     });
+    if (resolved.length === 0) {
+      throw new Error('No columns selected for export');
+    }
 
-    return content.join('\n');
-  }
+    const types: Record<string, XlsxCellType> = {};
+    resolved.forEach(column => {
+      const type = getColumnType(column);
+      if (type) types[column.header] = type;
+    });
 
-  private convertToJSON(data: any[], _options: ExportOptions): string {
-    const exportData = {
-      metadata: {
-        exportedAt: new Date().toISOString(),
-        totalRecords: data.length,
-        source: 'GAIming Platform',
-      },
-      data,
+    return {
+      columns: resolved,
+      headers: resolved.map(column => (mode === 'record' ? column.id : column.header)),
+      types: { ...types, ...columnTypes },
+      project: createRowProjector(resolved, mode),
     };
+  }
 
-    return JSON.stringify(exportData, null, 2);
+  private sampleRows(data: any[], plan: ColumnPlan): Record<string, unknown>[] {
+    const sample = data.slice(0, 200);
+    return plan.project ? sample.map(plan.project) : sample;
   }
 
-  private downloadFile(content: string, filename: string, mimeType: string): void {
-    const blob = new Blob([content], { type: `${mimeType};charset=utf-8;` });
+  private generateFilename(extension: string, options: ExportOptions): string {
+    const base = options.filename || 'export';
+    const timestamp = options.includeTimestamp !== false 
+      ? `-${new Date().toISOString().split('T')[0]}` 
+      : '';
+    return `${base}${timestamp}.${extension}`;
+  }
+
+  private buildMetadata(totalRecords: number, options: ExportOptions): ExportMetadata {
+    return {
+      exportedAt: new Date().toISOString(),
+      exportedBy: 'GAIming User',
+      source: 'GAIming Platform',
+      ...options.metadata,
+      totalRecords,
+    };
+  }
+
+  private downloadFile(content: string | Blob, filename: string, mimeType: string): void {
+    const blob = content instanceof Blob
+      ? content
+      : new Blob([content], { type: `${mimeType};charset=utf-8;` });
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     
@@ -563,41 +740,6 @@ class ExportService {
       },
     ];
   }
-
-  private sanitizePlayerData(players: any[], includeSensitiveData: boolean): any[] {
-    return players.map(player => {
-      const sanitized: any = {
-        'Player ID': player.playerId,
-        'Username': player.username,
-        'VIP Level': player.vipLevel,
-        'Player Segment': player.playerSegment,
-        'Total Sessions': player.totalSessions,
-        'Registration Date': player.registrationDate,
-        'Status': player.isActive ? 'Active' : 'Inactive',
-      };
-
-      if (includeSensitiveData) {
-        sanitized['Email'] = player.email;
-        sanitized['Total Revenue'] = player.totalRevenue;
-        sanitized['Risk Level'] = player.riskLevel;
-      }
-
-      return sanitized;
-    });
-  }
-
-  private prepareModelsData(models: any[]): any[] {
-    return models.map(model => ({
-      'Model ID': model.id,
-      'Name': model.name,
-      'Version': model.version,
-      'Type': model.modelType,
-      'Status': model.status,
-      'Created Date': model.createdDate,
-      'Last Trained': model.lastTrainedDate || 'Never',
-      'Is Active': model.isActive ? 'Yes' : 'No',
-    }));
-  }
 }
 
 // Create singleton instance
@@ -0,0 +1,317 @@
+// Import file parsing
+// Reads CSV, XLSX and JSON files in the browser into a common table of
+// records keyed by column header, so imports can be mapped and validated
+// before anything is sent to the server.
+
+import { readZip } from './zipReader';
+
+export type ImportFileFormat = 'csv' | 'xlsx' | 'json';
+
+export interface ImportRecord {
+  // Position in the source file as a user would count it (header row = 1 for CSV and XLSX)
+  rowNumber: number;
+  values: Record<string, unknown>;
+}
+
+export interface ParsedTable {
+  format: ImportFileFormat;
+  headers: string[];
+  records: ImportRecord[];
+}
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Work out the file format from its extension, falling back to the MIME type
+ */
+export function detectImportFormat(file: File): ImportFileFormat {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'csv' || extension === 'tsv' || extension === 'txt') return 'csv';
+  if (extension === 'xlsx') return 'xlsx';
+  if (extension === 'json') return 'json';
+  if (extension === 'xls') {
+    throw new Error('Legacy .xls workbooks are not supported. Save the file as .xlsx and try again.');
+  }
+
+  if (file.type === 'text/csv') return 'csv';
+  if (file.type === 'application/json') return 'json';
+  if (file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') return 'xlsx';
+  throw new Error(`Unsupported file type: ${file.name}`);
+}
+
+function uniqueHeaders(raw: unknown[]): string[] {
+  const seen = new Map<string, number>();
+  return raw.map((value, index) => {
+    const base = value === null || value === undefined || String(value).trim() === ''
+      ? `Column ${index + 1}`
+      : String(value).trim();
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Turn a grid whose first row holds the headers into records, skipping empty rows
+ */
+function gridToTable(format: ImportFileFormat, grid: unknown[][], rowNumbers?: number[]): ParsedTable {
+  const headerIndex = grid.findIndex(row => row.some(cell => !isBlank(cell)));
+  if (headerIndex < 0) {
+    return { format, headers: [], records: [] };
+  }
+
+  const headers = uniqueHeaders(grid[headerIndex]!);
+  const records: ImportRecord[] = [];
+  grid.slice(headerIndex + 1).forEach((row, offset) => {
+    if (row.every(isBlank)) return;
+    const values: Record<string, unknown> = {};
+    headers.forEach((header, column) => {
+      values[header] = row[column] ?? null;
+    });
+    const index = headerIndex + 1 + offset;
+    records.push({ rowNumber: rowNumbers?.[index] ?? index + 1, values });
+  });
+  return { format, headers, records };
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  let best = ',';
+  let bestCount = 0;
+  CSV_DELIMITERS.forEach(delimiter => {
+    // Count delimiters outside quoted sections
+    const count = firstLine.replace(/"[^"]*"/g, '').split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting; the delimiter is
+ * detected from the header line when not given)
+ */
+export function parseCsvRows(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Malformed CSV: a quoted field is never closed');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function parseCsv(text: string): ParsedTable {
+  return gridToTable('csv', parseCsvRows(text.replace(/^\uFEFF/, '')));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function flattenRecord(value: Record<string, unknown>, prefix = '', target: Record<string, unknown> = {}): Record<string, unknown> {
+  Object.entries(value).forEach(([key, entry]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(entry)) {
+      flattenRecord(entry, path, target);
+    } else {
+      target[path] = entry;
+    }
+  });
+  return target;
+}
+
+/**
+ * Parse a JSON array of objects. Wrapper objects such as `{ games: [...] }`
+ * or `{ items: [...] }` are unwrapped, and nested objects are flattened into
+ * dot-separated columns (e.g. 'provider.providerName').
+ */
+export function parseJson(text: string): ParsedTable {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (isPlainObject(data)) {
+    const wrapped = Object.values(data).find(Array.isArray);
+    if (!wrapped) {
+      throw new Error('JSON imports must contain an array of records');
+    }
+    data = wrapped;
+  }
+  if (!Array.isArray(data)) {
+    throw new Error('JSON imports must contain an array of records');
+  }
+
+  const headers = new Set<string>();
+  const records: ImportRecord[] = data.map((item, index) => {
+    if (!isPlainObject(item)) {
+      throw new Error(`Record ${index + 1} is not an object`);
+    }
+    const values = flattenRecord(item);
+    Object.keys(values).forEach(key => headers.add(key));
+    return { rowNumber: index + 1, values };
+  });
+
+  return { format: 'json', headers: [...headers], records };
+}
+
+function parseXml(bytes: Uint8Array): Document {
+  const document = new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The workbook contains malformed XML');
+  }
+  return document;
+}
+
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function resolveWorkbookPath(target: string): string {
+  return target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+}
+
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '')) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function readSharedStrings(document: Document | null): string[] {
+  if (!document) return [];
+  return elements(document, 'si').map(item =>
+    elements(item, 't')
+      // Phonetic hints are not part of the displayed text
+      .filter(text => text.parentElement?.localName !== 'rPh')
+      .map(text => text.textContent ?? '')
+      .join('')
+  );
+}
+
+function readCell(cell: Element, sharedStrings: string[]): unknown {
+  const type = cell.getAttribute('t');
+  const raw = elements(cell, 'v')[0]?.textContent ?? null;
+
+  switch (type) {
+    case 's':
+      return raw === null ? null : sharedStrings[Number(raw)] ?? null;
+    case 'inlineStr':
+      return elements(cell, 't').map(text => text.textContent ?? '').join('');
+    case 'b':
+      return raw === null ? null : raw === '1';
+    case 'str':
+    case 'e':
+      return raw;
+    default:
+      return raw === null || raw === '' ? null : Number(raw);
+  }
+}
+
+/**
+ * Read the first worksheet of an .xlsx workbook. Cell values keep their
+ * stored types; date cells arrive as Excel serial numbers.
+ */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<ParsedTable> {
+  const meta = await readZip(buffer, ['xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/sharedStrings.xml']);
+  const workbookXml = meta.get('xl/workbook.xml');
+  const relsXml = meta.get('xl/_rels/workbook.xml.rels');
+  if (!workbookXml || !relsXml) {
+    throw new Error('Not an Excel workbook');
+  }
+
+  const sheet = elements(parseXml(workbookXml), 'sheet')[0];
+  if (!sheet) {
+    throw new Error('The workbook has no worksheets');
+  }
+  const relationshipId = Array.from(sheet.attributes).find(attribute => attribute.localName === 'id')?.value;
+  const relationship = elements(parseXml(relsXml), 'Relationship').find(rel => rel.getAttribute('Id') === relationshipId);
+  const target = relationship?.getAttribute('Target');
+  if (!target) {
+    throw new Error('The first worksheet could not be located');
+  }
+
+  const sheetPath = resolveWorkbookPath(target);
+  const sheetXml = (await readZip(buffer, [sheetPath])).get(sheetPath);
+  if (!sheetXml) {
+    throw new Error(`Worksheet ${sheetPath} is missing from the workbook`);
+  }
+
+  const sharedStringsXml = meta.get('xl/sharedStrings.xml');
+  const sharedStrings = readSharedStrings(sharedStringsXml ? parseXml(sharedStringsXml) : null);
+  const grid: unknown[][] = [];
+  const rowNumbers: number[] = [];
+
+  elements(parseXml(sheetXml), 'row').forEach(row => {
+    const cells: unknown[] = [];
+    elements(row, 'c').forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      cells[reference ? columnIndex(reference) : position] = readCell(cell, sharedStrings);
+    });
+    const rowNumber = Number(row.getAttribute('r'));
+    rowNumbers.push(Number.isFinite(rowNumber) && rowNumber > 0 ? rowNumber : grid.length + 1);
+    grid.push(Array.from(cells, cell => cell ?? null));
+  });
+
+  return gridToTable('xlsx', grid, rowNumbers);
+}
+
+/**
+ * Parse an uploaded CSV, XLSX or JSON file into a table of records
+ */
+export async function parseImportFile(file: File): Promise<ParsedTable> {
+  const format = detectImportFormat(file);
+  switch (format) {
+    case 'csv':
+      return parseCsv(await file.text());
+    case 'json':
+      return parseJson(await file.text());
+    case 'xlsx':
+      return parseXlsx(await file.arrayBuffer());
+  }
+}
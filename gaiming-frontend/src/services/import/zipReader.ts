@@ -0,0 +1,91 @@
+// Minimal ZIP archive reader (STORE and DEFLATE methods)
+// Used to open Office Open XML documents such as .xlsx workbooks; inflating
+// relies on the browser's DecompressionStream
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Fixed end-of-central-directory record plus the longest possible comment
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+interface CentralDirectoryEntry {
+  path: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const stop = Math.max(0, view.byteLength - MAX_END_RECORD_SEARCH);
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Not a ZIP archive');
+}
+
+function readCentralDirectory(buffer: ArrayBuffer): CentralDirectoryEntry[] {
+  const view = new DataView(buffer);
+  const end = findEndOfCentralDirectory(view);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder();
+  const entries: CentralDirectoryEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      path: decoder.decode(new Uint8Array(buffer, offset + 46, nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot decompress ZIP archives');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Read the entries of a ZIP archive. Pass `paths` to extract only the entries
+ * that are needed; missing paths are left out of the result.
+ */
+export async function readZip(buffer: ArrayBuffer, paths?: string[]): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(buffer);
+  const wanted = paths ? new Set(paths) : null;
+  const files = new Map<string, Uint8Array>();
+
+  for (const entry of readCentralDirectory(buffer)) {
+    if (entry.path.endsWith('/') || (wanted && !wanted.has(entry.path))) continue;
+
+    const header = entry.localHeaderOffset;
+    if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry: ${entry.path}`);
+    }
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const data = new Uint8Array(buffer, start, entry.compressedSize);
+
+    if (entry.method === 0) {
+      files.set(entry.path, data);
+    } else if (entry.method === 8) {
+      files.set(entry.path, await inflate(data));
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${entry.method} in ${entry.path}`);
+    }
+  }
+  return files;
+}
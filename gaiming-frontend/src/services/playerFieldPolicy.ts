@@ -0,0 +1,148 @@
+// Field-level access policy for player records
+// Decides, from the role and permissions claims of the signed-in user's JWT,
+// which player fields are shown as-is, masked or hidden. The Players list,
+// PlayerDetail, player analytics charts and player exports all go through the
+// same policy, so a field is never hidden on one screen and shown on another.
+
+import type { JWTPayload } from '@/shared/services/tokenService';
+import type { PlayerAnalytics } from './playerAnalyticsService';
+import { getValueAtPath, type ExportColumn } from './export/columnSpec';
+
+export type FieldAccess = 'visible' | 'masked' | 'hidden';
+
+// The claims the policy reads; the auth store's user carries the same values
+export type PolicySubject = Pick<JWTPayload, 'role' | 'permissions'>;
+
+export const PLAYER_FIELD_PERMISSIONS = {
+  // Contact details and real names
+  pii: 'players.pii',
+  // Money amounts and risk scoring
+  financial: 'players.financial',
+} as const;
+
+interface FieldRule {
+  permission: string;
+  // What users without the permission get
+  denied: Exclude<FieldAccess, 'visible'>;
+  mask?: (value: unknown) => unknown;
+}
+
+// Admins have every permission, as in authService.hasPermission
+const ADMIN_ROLE = 'Admin';
+
+const maskEmail = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  const at = value.indexOf('@');
+  if (at < 1) return '***';
+  return `${value.charAt(0)}***${value.slice(at)}`;
+};
+
+const maskName = (value: unknown): unknown =>
+  typeof value === 'string' && value.length > 0 ? `${value.charAt(0)}.` : value;
+
+const piiMasked = (mask: (value: unknown) => unknown): FieldRule => ({
+  permission: PLAYER_FIELD_PERMISSIONS.pii,
+  denied: 'masked',
+  mask,
+});
+
+const FINANCIAL_HIDDEN: FieldRule = {
+  permission: PLAYER_FIELD_PERMISSIONS.financial,
+  denied: 'hidden',
+};
+
+export type RestrictedPlayerField =
+  | 'email'
+  | 'firstName'
+  | 'lastName'
+  | 'totalBets'
+  | 'totalWins'
+  | 'totalRevenue'
+  | 'averageBetSize'
+  | 'lifetimeValue'
+  | 'riskLevel'
+  | 'riskScore';
+
+const PLAYER_FIELD_RULES: Record<RestrictedPlayerField, FieldRule> = {
+  email: piiMasked(maskEmail),
+  firstName: piiMasked(maskName),
+  lastName: piiMasked(maskName),
+  totalBets: FINANCIAL_HIDDEN,
+  totalWins: FINANCIAL_HIDDEN,
+  totalRevenue: FINANCIAL_HIDDEN,
+  averageBetSize: FINANCIAL_HIDDEN,
+  lifetimeValue: FINANCIAL_HIDDEN,
+  riskLevel: FINANCIAL_HIDDEN,
+  riskScore: FINANCIAL_HIDDEN,
+};
+
+const isRestrictedField = (field: string): field is RestrictedPlayerField =>
+  Object.prototype.hasOwnProperty.call(PLAYER_FIELD_RULES, field);
+
+// Hidden fields are removed from redacted records
+export type RedactedPlayer<T extends Partial<PlayerAnalytics> = PlayerAnalytics> =
+  Omit<T, RestrictedPlayerField> & Partial<Pick<T, Extract<keyof T, RestrictedPlayerField>>>;
+
+export interface PlayerFieldPolicy {
+  access(field: string): FieldAccess;
+  // True only for fields shown unmasked
+  canView(field: string): boolean;
+  redact<T extends Partial<PlayerAnalytics>>(player: T): RedactedPlayer<T>;
+  // Drops hidden columns and masks masked ones; columns are matched by source path, or id for accessors
+  redactColumns<T>(columns: ExportColumn<T>[]): ExportColumn<T>[];
+}
+
+/**
+ * Build the policy for a user; without a user every restricted field is denied
+ */
+export function createPlayerFieldPolicy(subject: PolicySubject | null | undefined): PlayerFieldPolicy {
+  const granted = (permission: string) =>
+    !!subject && (subject.role === ADMIN_ROLE || (subject.permissions ?? []).includes(permission));
+
+  const access = (field: string): FieldAccess => {
+    if (!isRestrictedField(field)) return 'visible';
+    const rule = PLAYER_FIELD_RULES[field];
+    return granted(rule.permission) ? 'visible' : rule.denied;
+  };
+
+  const redactValue = (field: string, value: unknown): unknown => {
+    const fieldAccess = access(field);
+    if (fieldAccess === 'visible' || value === null || value === undefined) return value;
+    if (fieldAccess === 'hidden' || !isRestrictedField(field)) return undefined;
+    return PLAYER_FIELD_RULES[field].mask?.(value);
+  };
+
+  return {
+    access,
+    canView: field => access(field) === 'visible',
+
+    redact<T extends Partial<PlayerAnalytics>>(player: T): RedactedPlayer<T> {
+      const redacted: Record<string, unknown> = { ...player };
+      Object.keys(PLAYER_FIELD_RULES).forEach(field => {
+        if (!(field in redacted)) return;
+        const value = redactValue(field, redacted[field]);
+        if (value === undefined) {
+          delete redacted[field];
+        } else {
+          redacted[field] = value;
+        }
+      });
+      return redacted as RedactedPlayer<T>;
+    },
+
+    redactColumns<T>(columns: ExportColumn<T>[]): ExportColumn<T>[] {
+      return columns.flatMap(column => {
+        const field = typeof column.source === 'string' ? column.source : column.id;
+        const fieldAccess = access(field);
+        if (fieldAccess === 'hidden') return [];
+        if (fieldAccess === 'visible') return [column];
+
+        const { source } = column;
+        return [{
+          ...column,
+          source: (row: T) => redactValue(field, typeof source === 'function' ? source(row) : getValueAtPath(row, source)),
+        }];
+      });
+    },
+  };
+}
@@ -0,0 +1,146 @@
+// Roles × permissions matrix editing
+// Keeps a draft of every role's permission ids, works out what changed against
+// the saved roles and how many users would gain or lose each permission.
+
+import type { Permission, Role, User } from './userManagementApi'
+
+// Role id -> granted permission ids
+export type PermissionMatrix = Record<string, string[]>
+
+export interface RolePermissionChange {
+  role: Role
+  added: Permission[]
+  removed: Permission[]
+}
+
+export interface PermissionImpact {
+  permission: Permission
+  gained: number
+  lost: number
+}
+
+export function buildPermissionMatrix(roles: Role[]): PermissionMatrix {
+  return Object.fromEntries(
+    roles.map(role => [role.roleId, role.permissions.map(permission => permission.permissionId)])
+  )
+}
+
+export function toggleMatrixCell(
+  matrix: PermissionMatrix,
+  roleId: string,
+  permissionId: string,
+  granted: boolean
+): PermissionMatrix {
+  const current = matrix[roleId] ?? []
+  const next = granted
+    ? Array.from(new Set([...current, permissionId]))
+    : current.filter(id => id !== permissionId)
+  return { ...matrix, [roleId]: next }
+}
+
+/**
+ * Grant or revoke a set of permissions for a set of roles in one go
+ */
+export function setMatrixCells(
+  matrix: PermissionMatrix,
+  roleIds: string[],
+  permissionIds: string[],
+  granted: boolean
+): PermissionMatrix {
+  return roleIds.reduce(
+    (next, roleId) => permissionIds.reduce(
+      (acc, permissionId) => toggleMatrixCell(acc, roleId, permissionId, granted),
+      next
+    ),
+    matrix
+  )
+}
+
+/**
+ * Roles whose draft permissions differ from what is saved, with what was added and removed
+ */
+export function diffPermissionMatrix(
+  roles: Role[],
+  permissions: Permission[],
+  draft: PermissionMatrix
+): RolePermissionChange[] {
+  const byId = new Map(permissions.map(permission => [permission.permissionId, permission]))
+
+  return roles.flatMap(role => {
+    const saved = new Set(role.permissions.map(permission => permission.permissionId))
+    const pending = new Set(draft[role.roleId] ?? [])
+    const resolve = (ids: string[]) => ids.flatMap(id => {
+      const permission = byId.get(id) ?? role.permissions.find(p => p.permissionId === id)
+      return permission ? [permission] : []
+    })
+
+    const added = resolve([...pending].filter(id => !saved.has(id)))
+    const removed = resolve([...saved].filter(id => !pending.has(id)))
+    return added.length > 0 || removed.length > 0 ? [{ role, added, removed }] : []
+  })
+}
+
+// Permission names a user gets through their roles; inactive roles grant nothing
+const rolePermissionNames = (
+  user: User,
+  rolesByName: Map<string, Role>,
+  matrix: PermissionMatrix,
+  namesById: Map<string, string>
+): Set<string> => {
+  const names = new Set<string>()
+  user.roles.forEach(roleName => {
+    const role = rolesByName.get(roleName)
+    if (!role?.isActive) return
+    const granted = matrix[role.roleId] ?? []
+    granted.forEach(id => {
+      const name = namesById.get(id)
+      if (name) names.add(name)
+    })
+  })
+  return names
+}
+
+/**
+ * How many users gain or lose each changed permission if the draft is saved.
+ * Users keep permissions granted to them directly or through another role.
+ */
+export function computePermissionImpact(
+  users: User[],
+  roles: Role[],
+  permissions: Permission[],
+  draft: PermissionMatrix
+): PermissionImpact[] {
+  const changes = diffPermissionMatrix(roles, permissions, draft)
+  if (changes.length === 0) return []
+
+  const saved = buildPermissionMatrix(roles)
+  const rolesByName = new Map(roles.map(role => [role.name, role]))
+  const namesById = new Map(permissions.map(permission => [permission.permissionId, permission.name]))
+  roles.forEach(role => role.permissions.forEach(permission => {
+    if (!namesById.has(permission.permissionId)) namesById.set(permission.permissionId, permission.name)
+  }))
+
+  const changed = new Map<string, PermissionImpact>()
+  changes.flatMap(({ added, removed }) => [...added, ...removed]).forEach(permission => {
+    if (!changed.has(permission.name)) changed.set(permission.name, { permission, gained: 0, lost: 0 })
+  })
+
+  users.forEach(user => {
+    const before = rolePermissionNames(user, rolesByName, saved, namesById)
+    const after = rolePermissionNames(user, rolesByName, draft, namesById)
+    // Whatever the user holds beyond their roles is a direct grant and stays
+    const direct = new Set(user.permissions.filter(name => !before.has(name)))
+
+    changed.forEach((impact, name) => {
+      const had = before.has(name) || direct.has(name)
+      const has = after.has(name) || direct.has(name)
+      if (!had && has) impact.gained++
+      if (had && !has) impact.lost++
+    })
+  })
+
+  return [...changed.values()].sort((a, b) =>
+    a.permission.resource.localeCompare(b.permission.resource) ||
+    a.permission.name.localeCompare(b.permission.name)
+  )
+}
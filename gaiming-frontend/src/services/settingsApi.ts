@@ -40,6 +40,8 @@ export interface AnalyticsSettings {
 export interface SecuritySettings {
   requireHttps: boolean
   enableTwoFactor: boolean
+  // Users in these roles must set up two-factor before they can use the app
+  twoFactorRequiredRoles: string[]
   passwordMinLength: number
   passwordRequireUppercase: boolean
   passwordRequireLowercase: boolean
@@ -0,0 +1,278 @@
+// User import planning
+// Maps parsed import records onto CreateUserRequest fields, validates them
+// against the password policy and the existing users, resolves role names and
+// builds the failed-rows report that is handed back as a CSV.
+
+import type { ImportRecord, ParsedTable } from './import/tabularParser';
+import { createExportSink } from './export/exportSinks';
+import type { SecuritySettings } from './settingsApi';
+import type { CreateUserRequest, Role, User } from './userManagementApi';
+import { isValidEmail } from '@/lib/utils';
+
+export type UserImportField =
+  | 'username'
+  | 'email'
+  | 'password'
+  | 'displayName'
+  | 'firstName'
+  | 'lastName'
+  | 'department'
+  | 'title'
+  | 'roles';
+
+export type UserImportColumnMapping = Partial<Record<UserImportField, string>>;
+
+export interface UserImportFieldDefinition {
+  field: UserImportField;
+  label: string;
+  // Alternative column headers recognised by automatic mapping
+  aliases: string[];
+  required?: boolean;
+  maxLength?: number;
+}
+
+export type PasswordPolicy = Pick<
+  SecuritySettings,
+  | 'passwordMinLength'
+  | 'passwordRequireUppercase'
+  | 'passwordRequireLowercase'
+  | 'passwordRequireNumbers'
+  | 'passwordRequireSpecialChars'
+>;
+
+export interface UserImportContext {
+  roles: Role[];
+  existingUsers: User[];
+  passwordPolicy: PasswordPolicy;
+}
+
+export interface UserImportIssue {
+  field: UserImportField;
+  message: string;
+}
+
+export interface UserImportRow {
+  rowNumber: number;
+  request: CreateUserRequest;
+  roleNames: string[];
+  errors: UserImportIssue[];
+}
+
+export interface UserImportPlan {
+  rows: UserImportRow[];
+  // Rows that passed validation, ready to be created
+  valid: UserImportRow[];
+  invalid: UserImportRow[];
+}
+
+// Why a row was not imported, whether it failed validation or on the server
+export interface UserImportFailure {
+  rowNumber: number;
+  reasons: string[];
+}
+
+export const USER_IMPORT_FIELDS: UserImportFieldDefinition[] = [
+  { field: 'username', label: 'Username', aliases: ['user name', 'login'], required: true, maxLength: 50 },
+  { field: 'email', label: 'Email', aliases: ['email address', 'e-mail', 'mail'], required: true },
+  { field: 'password', label: 'Password', aliases: ['initial password', 'temporary password'], required: true },
+  { field: 'displayName', label: 'Display Name', aliases: ['name', 'full name'], maxLength: 200 },
+  { field: 'firstName', label: 'First Name', aliases: ['given name', 'forename'], required: true, maxLength: 100 },
+  { field: 'lastName', label: 'Last Name', aliases: ['surname', 'family name'], required: true, maxLength: 100 },
+  { field: 'department', label: 'Department', aliases: ['team'], maxLength: 100 },
+  { field: 'title', label: 'Title', aliases: ['job title', 'position'], maxLength: 100 },
+  { field: 'roles', label: 'Roles', aliases: ['role', 'role names', 'groups'] },
+];
+
+// Matches the rules CreateUserDialog applies when the server's settings cannot be read
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  passwordMinLength: 8,
+  passwordRequireUppercase: false,
+  passwordRequireLowercase: false,
+  passwordRequireNumbers: false,
+  passwordRequireSpecialChars: false,
+};
+
+const MIN_USERNAME_LENGTH = 3;
+const FAILURE_COLUMN = 'Import Errors';
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+/**
+ * Suggest a mapping by matching column headers to field names, labels and aliases
+ */
+export function autoMapUserColumns(headers: string[]): UserImportColumnMapping {
+  const mapping: UserImportColumnMapping = {};
+  const used = new Set<string>();
+
+  USER_IMPORT_FIELDS.forEach(definition => {
+    const candidates = new Set([definition.field, definition.label, ...definition.aliases].map(normalize));
+    const header = headers.find(candidate => !used.has(candidate) && candidates.has(normalize(candidate)));
+    if (header) {
+      mapping[definition.field] = header;
+      used.add(header);
+    }
+  });
+  return mapping;
+}
+
+/**
+ * Check a password against the policy; returns one message per broken rule
+ */
+export function validatePassword(password: string, policy: PasswordPolicy): string[] {
+  const problems: string[] = [];
+  if (password.length < policy.passwordMinLength) {
+    problems.push(`Password must be at least ${policy.passwordMinLength} characters`);
+  }
+  if (policy.passwordRequireUppercase && !/[A-Z]/.test(password)) {
+    problems.push('Password must contain an uppercase letter');
+  }
+  if (policy.passwordRequireLowercase && !/[a-z]/.test(password)) {
+    problems.push('Password must contain a lowercase letter');
+  }
+  if (policy.passwordRequireNumbers && !/\d/.test(password)) {
+    problems.push('Password must contain a number');
+  }
+  if (policy.passwordRequireSpecialChars && !/[^A-Za-z0-9]/.test(password)) {
+    problems.push('Password must contain a special character');
+  }
+  return problems;
+}
+
+/**
+ * Build the import plan: read each mapped record into a create request,
+ * validate it, resolve role names to IDs and reject usernames or emails that
+ * are already taken, in the file or by an existing user.
+ */
+export function buildUserImportPlan(
+  records: ImportRecord[],
+  mapping: UserImportColumnMapping,
+  context: UserImportContext
+): UserImportPlan {
+  const rolesByName = new Map(context.roles.map(role => [normalize(role.name), role]));
+  const takenUsernames = new Set(context.existingUsers.map(user => user.username.toLowerCase()));
+  const takenEmails = new Set(context.existingUsers.map(user => user.email.toLowerCase()));
+  const rowsByUsername = new Map<string, number>();
+  const rowsByEmail = new Map<string, number>();
+
+  const plan: UserImportPlan = { rows: [], valid: [], invalid: [] };
+
+  records.forEach(record => {
+    const read = (field: UserImportField) => {
+      const header = mapping[field];
+      return header ? cellText(record.values[header]) : '';
+    };
+    const errors: UserImportIssue[] = [];
+    const text: Record<UserImportField, string> = {
+      username: read('username'),
+      email: read('email'),
+      password: read('password'),
+      displayName: read('displayName'),
+      firstName: read('firstName'),
+      lastName: read('lastName'),
+      department: read('department'),
+      title: read('title'),
+      roles: read('roles'),
+    };
+    // Display names default to the person's full name
+    if (!text.displayName && (text.firstName || text.lastName)) {
+      text.displayName = `${text.firstName} ${text.lastName}`.trim();
+    }
+
+    USER_IMPORT_FIELDS.forEach(definition => {
+      const value = text[definition.field];
+      if (definition.required && !value) {
+        errors.push({ field: definition.field, message: `${definition.label} is required` });
+      } else if (definition.maxLength && value.length > definition.maxLength) {
+        errors.push({ field: definition.field, message: `${definition.label} must be at most ${definition.maxLength} characters` });
+      }
+    });
+
+    const username = text.username.toLowerCase();
+    if (username) {
+      if (text.username.length < MIN_USERNAME_LENGTH) {
+        errors.push({ field: 'username', message: `Username must be at least ${MIN_USERNAME_LENGTH} characters` });
+      }
+      const firstRow = rowsByUsername.get(username);
+      if (takenUsernames.has(username)) {
+        errors.push({ field: 'username', message: `Username "${text.username}" is already taken` });
+      } else if (firstRow !== undefined) {
+        errors.push({ field: 'username', message: `Username "${text.username}" also appears on row ${firstRow}` });
+      } else {
+        rowsByUsername.set(username, record.rowNumber);
+      }
+    }
+
+    const email = text.email.toLowerCase();
+    if (email) {
+      const firstRow = rowsByEmail.get(email);
+      if (!isValidEmail(text.email)) {
+        errors.push({ field: 'email', message: `"${text.email}" is not a valid email address` });
+      } else if (takenEmails.has(email)) {
+        errors.push({ field: 'email', message: `Email ${text.email} already belongs to a user` });
+      } else if (firstRow !== undefined) {
+        errors.push({ field: 'email', message: `Email ${text.email} also appears on row ${firstRow}` });
+      } else {
+        rowsByEmail.set(email, record.rowNumber);
+      }
+    }
+
+    if (text.password) {
+      validatePassword(text.password, context.passwordPolicy)
+        .forEach(message => errors.push({ field: 'password', message }));
+    }
+
+    const roleNames = [...new Set(text.roles.split(/[,;|]/).map(name => name.trim()).filter(Boolean))];
+    const roleIds: string[] = [];
+    roleNames.forEach(name => {
+      const role = rolesByName.get(normalize(name));
+      if (!role) {
+        errors.push({ field: 'roles', message: `Unknown role "${name}"` });
+      } else if (!role.isActive) {
+        errors.push({ field: 'roles', message: `Role "${role.name}" is inactive` });
+      } else {
+        roleIds.push(role.roleId);
+      }
+    });
+
+    const request: CreateUserRequest = {
+      username: text.username,
+      email: text.email,
+      password: text.password,
+      displayName: text.displayName,
+      firstName: text.firstName,
+      lastName: text.lastName,
+      ...(text.department && { department: text.department }),
+      ...(text.title && { title: text.title }),
+      ...(roleIds.length > 0 && { roleIds }),
+    };
+
+    const row: UserImportRow = { rowNumber: record.rowNumber, request, roleNames, errors };
+    plan.rows.push(row);
+    (errors.length === 0 ? plan.valid : plan.invalid).push(row);
+  });
+
+  return plan;
+}
+
+/**
+ * The source rows that were not imported, with their original columns and a
+ * column explaining why, so they can be fixed and uploaded again
+ */
+export function buildFailedRowsCsv(table: ParsedTable, failures: UserImportFailure[]): Blob {
+  const reasonsByRow = new Map(failures.map(failure => [failure.rowNumber, failure.reasons]));
+  const headers = [...table.headers, FAILURE_COLUMN];
+  const sink = createExportSink({ format: 'csv', headers });
+
+  sink.write(table.records.flatMap(record => {
+    const reasons = reasonsByRow.get(record.rowNumber);
+    return reasons ? [{ ...record.values, [FAILURE_COLUMN]: reasons.join('; ') }] : [];
+  }));
+  return sink.finish();
+}
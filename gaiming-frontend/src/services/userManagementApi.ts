@@ -1,4 +1,5 @@
 import { apiService } from './api'
+import type { ActiveSession } from '@/shared/services/authService'
 
 export interface User {
   id: number
@@ -110,6 +111,19 @@ export const userManagementApi = {
     return response
   },
 
+  // Every page of users, for checks that need the whole user base
+  async getAllUsers(params: Omit<GetUsersParams, 'page' | 'pageSize'> = {}): Promise<User[]> {
+    const users: User[] = []
+    let page = 1
+    let result: PagedResult<User>
+    do {
+      result = await userManagementApi.getUsers({ ...params, page, pageSize: 100 })
+      users.push(...result.items)
+      page++
+    } while (result.hasNextPage)
+    return users
+  },
+
   async getUser(userId: string): Promise<User> {
     const response = await apiService.get<User>(`/Users/${userId}`)
     return response
@@ -234,11 +248,15 @@ export const userManagementApi = {
     return response
   },
 
-  async getUserSessions(userId: string): Promise<any[]> {
-    const response = await apiService.get<any[]>(`/Users/${userId}/sessions`)
+  async getUserSessions(userId: string): Promise<ActiveSession[]> {
+    const response = await apiService.get<ActiveSession[]>(`/Users/${userId}/sessions`)
     return response
   },
 
+  async terminateUserSession(userId: string, sessionId: string): Promise<void> {
+    await apiService.delete(`/Users/${userId}/sessions/${sessionId}`)
+  },
+
   async terminateUserSessions(userId: string): Promise<void> {
     await apiService.post(`/Users/${userId}/terminate-sessions`)
   }
@@ -45,7 +45,7 @@ const OptimizedImage: React.FC<OptimizedImageProps> = ({
   const [currentSrc, setCurrentSrc] = useState(placeholder || '')
   const imgRef = useRef<HTMLImageElement>(null)
   
-  const { elementRef, isIntersecting } = useIntersectionObserver({
+  const { elementRef, isIntersecting } = useIntersectionObserver<HTMLImageElement>({
     threshold: 0.1,
     rootMargin: '50px'
   })
@@ -147,11 +147,7 @@ const OptimizedImage: React.FC<OptimizedImageProps> = ({
   // Combine refs
   const setRefs = (element: HTMLImageElement | null) => {
     imgRef.current = element
-    if (typeof elementRef === 'function') {
-      elementRef(element)
-    } else if (elementRef) {
-      elementRef.current = element
-    }
+    elementRef(element)
   }
 
   return (
@@ -1 +1,2 @@
 export * from './useErrorHandler';
+export * from './useUrlFilters';
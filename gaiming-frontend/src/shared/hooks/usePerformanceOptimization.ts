@@ -131,18 +131,23 @@ export function useThrottle<T extends (...args: any[]) => any>(
 
 /**
  * Virtual scrolling hook for large lists
+ * `overscan` renders extra items above and below the viewport to avoid blank
+ * rows while scrolling fast
  */
 export function useVirtualScrolling<T>(
   items: T[],
   itemHeight: number,
-  containerHeight: number
+  containerHeight: number,
+  overscan = 0
 ) {
   const [scrollTop, setScrollTop] = useState(0)
+  const frame = useRef<number | null>(null)
 
   const visibleItems = useMemo(() => {
-    const startIndex = Math.floor(scrollTop / itemHeight)
+    const firstVisible = Math.min(Math.floor(scrollTop / itemHeight), Math.max(items.length - 1, 0))
+    const startIndex = Math.max(firstVisible - overscan, 0)
     const endIndex = Math.min(
-      startIndex + Math.ceil(containerHeight / itemHeight) + 1,
+      firstVisible + Math.ceil(containerHeight / itemHeight) + 1 + overscan,
       items.length
     )
 
@@ -153,11 +158,22 @@ export function useVirtualScrolling<T>(
       totalHeight: items.length * itemHeight,
       offsetY: startIndex * itemHeight
     }
-  }, [items, itemHeight, containerHeight, scrollTop])
+  }, [items, itemHeight, containerHeight, scrollTop, overscan])
+
+  // Coalesce scroll events per animation frame; unlike a throttle this never
+  // drops the final position, which would leave rows unrendered
+  const handleScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
+    const target = event.currentTarget
+    if (frame.current !== null) return
+    frame.current = requestAnimationFrame(() => {
+      frame.current = null
+      setScrollTop(target.scrollTop)
+    })
+  }, [])
 
-  const handleScroll = useThrottle((event: React.UIEvent<HTMLDivElement>) => {
-    setScrollTop(event.currentTarget.scrollTop)
-  }, 16) // ~60fps
+  useEffect(() => () => {
+    if (frame.current !== null) cancelAnimationFrame(frame.current)
+  }, [])
 
   return {
     visibleItems,
@@ -168,17 +184,18 @@ export function useVirtualScrolling<T>(
 }
 
 /**
- * Intersection observer hook for lazy loading
+ * Intersection observer hook for lazy loading. `elementRef` is a callback ref,
+ * so the observer follows the element when a component swaps its root.
  */
-export function useIntersectionObserver(
+export function useIntersectionObserver<T extends Element = HTMLElement>(
   options: IntersectionObserverInit = {}
 ) {
   const [isIntersecting, setIsIntersecting] = useState(false)
   const [entry, setEntry] = useState<IntersectionObserverEntry | null>(null)
-  const elementRef = useRef<HTMLElement | null>(null)
+  const [element, setElement] = useState<T | null>(null)
+  const elementRef = useCallback((node: T | null) => setElement(node), [])
 
   useEffect(() => {
-    const element = elementRef.current
     if (!element) return
 
     const observer = new IntersectionObserver(
@@ -198,7 +215,7 @@ export function useIntersectionObserver(
     return () => {
       observer.unobserve(element)
     }
-  }, [options])
+  }, [element, options])
 
   return {
     elementRef,
@@ -0,0 +1,52 @@
+/**
+ * List filters backed by the URL query string
+ * Refreshing the page or opening a shared link restores the same filters
+ */
+
+import { useCallback, useMemo, useRef } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { parseQueryParams, serializeQueryParams, type QueryParamSchema } from '../utils/urlState'
+
+type FiltersUpdate<T> = Partial<T> | ((current: T) => T)
+
+interface UrlFiltersResult<T> {
+  filters: T
+  // Current query string without the leading '?', empty when every filter is at its default
+  queryString: string
+  setFilters: (update: FiltersUpdate<T>, options?: { replace?: boolean }) => void
+  resetFilters: () => void
+}
+
+export const useUrlFilters = <T extends object>(
+  schema: QueryParamSchema<T>,
+  defaults: T
+): UrlFiltersResult<T> => {
+  const [searchParams, setSearchParams] = useSearchParams()
+  // Callers usually pass literals; keep the first ones so callbacks stay stable
+  const config = useRef({ schema, defaults }).current
+
+  const queryString = serializeQueryParams(
+    parseQueryParams(searchParams, config.schema, config.defaults),
+    config.schema,
+    config.defaults
+  ).toString()
+
+  const filters = useMemo(
+    () => parseQueryParams(new URLSearchParams(queryString), config.schema, config.defaults),
+    [queryString, config]
+  )
+
+  const setFilters = useCallback((update: FiltersUpdate<T>, options?: { replace?: boolean }) => {
+    setSearchParams(previous => {
+      const current = parseQueryParams(previous, config.schema, config.defaults)
+      const next = typeof update === 'function' ? update(current) : { ...current, ...update }
+      return serializeQueryParams(next, config.schema, config.defaults)
+    }, { replace: options?.replace })
+  }, [setSearchParams, config])
+
+  const resetFilters = useCallback(() => {
+    setSearchParams(new URLSearchParams())
+  }, [setSearchParams])
+
+  return { filters, queryString, setFilters, resetFilters }
+}
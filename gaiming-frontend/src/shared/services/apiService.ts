@@ -71,6 +71,7 @@ class ApiService {
 
       // Add authentication token if required
       if (config.requiresAuth !== false) {
+        await tokenService.initialize()
         await this.ensureValidToken(config.skipTokenRefresh)
         const token = tokenService.getAccessToken()
         if (token) {
@@ -101,11 +102,12 @@ class ApiService {
 
     const tokenInfo = tokenService.getTokenInfo()
     
-    if (!tokenInfo.isValid) {
+    if (!tokenInfo.isValid && !tokenService.hasSession()) {
       return // No valid token, let request proceed (might be login)
     }
 
-    if (tokenInfo.needsRefresh) {
+    // Access tokens are kept in memory only, so after a reload only the refresh token is left
+    if (tokenInfo.needsRefresh || !tokenInfo.isValid) {
       // Prevent multiple simultaneous refresh attempts
       if (!this.refreshPromise) {
         this.refreshPromise = this.performTokenRefresh()
@@ -5,6 +5,8 @@
 
 import { tokenService, type TokenPair } from './tokenService'
 import { apiService } from './apiService'
+import { idleTracker } from './idleTracker'
+import type { LogoutReason } from './sessionSync'
 import type { User } from '@/app/store/authStore'
 
 // Authentication interfaces
@@ -13,6 +15,8 @@ export interface LoginCredentials {
   password: string
   rememberMe?: boolean
   captcha?: string
+  // Issued for a device remembered during an earlier two-factor login
+  deviceToken?: string
 }
 
 export interface LoginResponse {
@@ -38,8 +42,27 @@ export interface LoginResponse {
   errorMessage?: string
   requiresTwoFactor?: boolean
   twoFactorToken?: string
+  // The user's role requires two-factor authentication but it is not set up yet
+  requiresTwoFactorSetup?: boolean
+  // Returned after a two-factor login that asked to remember the device
+  deviceToken?: string
 }
 
+// Password accepted; a second factor is needed before tokens are issued
+export interface TwoFactorChallenge {
+  token: string
+  username: string
+}
+
+export interface TwoFactorVerifyOptions {
+  isBackupCode?: boolean
+  rememberDevice?: boolean
+}
+
+export type LoginResult =
+  | { status: 'authenticated'; user: User; requiresTwoFactorSetup: boolean }
+  | { status: 'two-factor-required'; challenge: TwoFactorChallenge }
+
 export interface SessionInfo {
   isValid: boolean
   user: User | null
@@ -48,17 +71,33 @@ export interface SessionInfo {
   sessionId: string | null
 }
 
+// A signed-in device, as listed for "My sessions" and in user administration
+export interface ActiveSession {
+  sessionId: string
+  deviceName: string
+  ipAddress: string
+  location?: string
+  userAgent: string
+  lastActivity: string
+  createdAt?: string
+  // The session making the request; revoking it would sign this browser out
+  isCurrent: boolean
+}
+
+// Session rules from the server's general settings
+export interface SessionPolicy {
+  sessionTimeout: number // Minutes of inactivity before the user is signed out
+}
+
 // Security configuration
 const AUTH_CONFIG = {
   SESSION_CHECK_INTERVAL: 60 * 1000, // Check session every minute
-  IDLE_TIMEOUT: 30 * 60 * 1000, // 30 minutes idle timeout
   MAX_LOGIN_ATTEMPTS: 5,
   LOCKOUT_DURATION: 15 * 60 * 1000, // 15 minutes lockout
 } as const
 
 class AuthService {
   private sessionCheckInterval: NodeJS.Timeout | null = null
-  private lastActivity: number = Date.now()
   private loginAttempts: number = 0
   private lockoutUntil: number = 0
 
@@ -66,10 +105,8 @@ class AuthService {
    * Initialize authentication service
    */
   initialize(): void {
-    this.updateLastActivity()
     this.startSessionMonitoring()
-    this.setupActivityListeners()
-    
+
     // Check for existing session
     const tokenInfo = tokenService.getTokenInfo()
     if (tokenInfo.isValid) {
@@ -83,7 +120,7 @@ class AuthService {
   /**
    * Login with credentials
    */
-  async login(credentials: LoginCredentials): Promise<User> {
+  async login(credentials: LoginCredentials): Promise<LoginResult> {
     // Check if account is locked
     if (this.isAccountLocked()) {
       const remainingTime = Math.ceil((this.lockoutUntil - Date.now()) / 1000 / 60)
@@ -91,7 +128,12 @@ class AuthService {
     }
 
     try {
-      const response = await apiService.post<LoginResponse>('/auth/login', credentials)
+      // A remembered device lets the server skip the two-factor challenge
+      const deviceToken = await tokenService.getTrustedDeviceToken(credentials.username)
+      const response = await apiService.post<LoginResponse>('/auth/login', {
+        ...credentials,
+        ...(deviceToken && { deviceToken }),
+      })
 
       if (!response.isSuccess) {
         this.handleFailedLogin()
@@ -100,39 +142,52 @@ class AuthService {
 
       // Handle two-factor authentication if required
       if (response.requiresTwoFactor) {
-        throw new Error('Two-factor authentication required')
+        if (!response.twoFactorToken) {
+          throw new Error('Two-factor authentication required')
+        }
+        return {
+          status: 'two-factor-required',
+          challenge: { token: response.twoFactorToken, username: credentials.username },
+        }
       }
 
-      // Store tokens securely - map backend response to TokenPair format
-      const tokenPair: TokenPair = {
-        accessToken: response.token.accessToken,
-        refreshToken: response.token.refreshToken,
-        expiresAt: response.token.expiresAt, // Backend sends DateTime string
-        tokenType: response.token.tokenType as 'Bearer'
-      }
-      tokenService.storeTokens(tokenPair)
-
-      // Create user object
-      const user: User = {
-        id: response.user.userId,
-        email: response.user.email,
-        name: response.user.displayName,
-        role: response.user.roles[0] || 'User',
-        permissions: response.user.permissions,
-        avatar: response.user.avatar,
-      }
+      const user = await this.completeLogin(response)
+      return { status: 'authenticated', user, requiresTwoFactorSetup: !!response.requiresTwoFactorSetup }
+    } catch (error) {
+      this.handleFailedLogin()
+      throw error
+    }
+  }
 
-      // Reset login attempts on successful login
-      this.loginAttempts = 0
-      this.lockoutUntil = 0
-      this.updateLastActivity()
+  /**
+   * Answer a two-factor challenge with an authenticator or backup code
+   */
+  async verifyTwoFactor(
+    challenge: TwoFactorChallenge,
+    code: string,
+    options: TwoFactorVerifyOptions = {}
+  ): Promise<User> {
+    if (this.isAccountLocked()) {
+      const remainingTime = Math.ceil((this.lockoutUntil - Date.now()) / 1000 / 60)
+      throw new Error(`Account locked. Try again in ${remainingTime} minutes.`)
+    }
 
-      console.log('Login successful', {
-        user: user.email,
-        role: user.role,
-        permissions: user.permissions.length,
+    try {
+      const response = await apiService.post<LoginResponse>('/auth/2fa/verify', {
+        twoFactorToken: challenge.token,
+        code: code.replace(/\s+/g, ''),
+        isBackupCode: !!options.isBackupCode,
+        rememberDevice: !!options.rememberDevice,
       })
 
+      if (!response.isSuccess) {
+        throw new Error(response.errorMessage || 'Invalid verification code')
+      }
+
+      const user = await this.completeLogin(response)
+      if (options.rememberDevice && response.deviceToken) {
+        await tokenService.storeTrustedDeviceToken(challenge.username, response.deviceToken)
+      }
       return user
     } catch (error) {
       this.handleFailedLogin()
@@ -140,10 +195,47 @@ class AuthService {
     }
   }
 
+  /**
+   * Store the issued tokens and build the signed-in user
+   */
+  private async completeLogin(response: LoginResponse): Promise<User> {
+    // Store tokens securely - map backend response to TokenPair format
+    const tokenPair: TokenPair = {
+      accessToken: response.token.accessToken,
+      refreshToken: response.token.refreshToken,
+      expiresAt: response.token.expiresAt, // Backend sends DateTime string
+      tokenType: response.token.tokenType as 'Bearer'
+    }
+    await tokenService.storeTokens(tokenPair)
+
+    // Create user object
+    const user: User = {
+      id: response.user.userId,
+      email: response.user.email,
+      name: response.user.displayName,
+      role: response.user.roles[0] || 'User',
+      permissions: response.user.permissions,
+      avatar: response.user.avatar,
+    }
+
+    // Reset login attempts on successful login
+    this.loginAttempts = 0
+    this.lockoutUntil = 0
+    idleTracker.extend()
+
+    console.log('Login successful', {
+      user: user.email,
+      role: user.role,
+      permissions: user.permissions.length,
+    })
+
+    return user
+  }
+
   /**
    * Logout and clear session
    */
-  async logout(): Promise<void> {
+  async logout(reason?: LogoutReason): Promise<void> {
     try {
       const refreshToken = tokenService.getRefreshToken()
       
@@ -155,14 +247,41 @@ class AuthService {
       console.warn('Server logout failed:', error)
     } finally {
       // Always clear local tokens
-      tokenService.clearTokens()
+      tokenService.clearTokens(reason)
       this.stopSessionMonitoring()
-      this.lastActivity = 0
       
       console.log('Logout completed')
     }
   }
 
+  /**
+   * Idle timeout and related session rules for the signed-in user
+   */
+  async getSessionPolicy(): Promise<SessionPolicy> {
+    return apiService.get<SessionPolicy>('/auth/session-policy')
+  }
+
+  /**
+   * Sessions signed in to the current account, including this one
+   */
+  async getActiveSessions(): Promise<ActiveSession[]> {
+    return apiService.get<ActiveSession[]>('/auth/sessions')
+  }
+
+  /**
+   * Sign out one of the current account's other sessions
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await apiService.delete(`/auth/sessions/${sessionId}`)
+  }
+
+  /**
+   * Sign out every session of the current account except this one
+   */
+  async revokeOtherSessions(): Promise<void> {
+    await apiService.post('/auth/sessions/revoke-others')
+  }
+
   /**
    * Get current session information
    */
@@ -184,9 +303,7 @@ class AuthService {
    */
   async refreshToken(): Promise<string> {
     try {
-      const newToken = await tokenService.refreshAccessToken()
-      this.updateLastActivity()
-      return newToken
+      return await tokenService.refreshAccessToken()
     } catch (error) {
       console.error('Token refresh failed:', error)
       // Clear tokens on refresh failure
@@ -220,15 +337,14 @@ class AuthService {
    * Update last activity timestamp
    */
   updateLastActivity(): void {
-    this.lastActivity = Date.now()
+    idleTracker.recordActivity()
   }
 
   /**
    * Check if session is idle
    */
   isSessionIdle(): boolean {
-    const idleTime = Date.now() - this.lastActivity
-    return idleTime > AUTH_CONFIG.IDLE_TIMEOUT
+    return idleTracker.isExpired()
   }
 
   /**
@@ -284,13 +400,9 @@ class AuthService {
    */
   private async checkSession(): Promise<void> {
     const tokenInfo = tokenService.getTokenInfo()
-    
-    // Check if session is idle
-    if (this.isSessionIdle()) {
-      console.warn('Session expired due to inactivity')
-      await this.logout()
-      return
-    }
+
+    // Inactivity is handled by the idle tracker; an idle session is not kept alive by refreshing
+    if (this.isSessionIdle()) return
 
     // Check if token needs refresh
     if (tokenInfo.needsRefresh && tokenInfo.isValid) {
@@ -304,30 +416,6 @@ class AuthService {
     }
   }
 
-  /**
-   * Setup activity listeners
-   */
-  private setupActivityListeners(): void {
-    if (typeof window === 'undefined') return
-
-    const events = ['mousedown', 'mousemove', 'keypress', 'scroll', 'touchstart', 'click']
-    
-    const activityHandler = () => {
-      this.updateLastActivity()
-    }
-
-    events.forEach(event => {
-      document.addEventListener(event, activityHandler, { passive: true })
-    })
-
-    // Handle page visibility changes
-    document.addEventListener('visibilitychange', () => {
-      if (!document.hidden) {
-        this.updateLastActivity()
-      }
-    })
-  }
-
   /**
    * Generate session ID for tracking
    */
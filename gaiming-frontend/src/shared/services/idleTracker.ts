@@ -0,0 +1,170 @@
+/**
+ * Idle Activity Tracker
+ * Counts down the server's session timeout from the user's last activity in
+ * any tab, warns shortly before it runs out and reports when it has expired
+ */
+
+import { sessionSync, type SessionEvent } from './sessionSync'
+
+export type IdleState = 'active' | 'warning' | 'expired'
+
+export interface IdleSnapshot {
+  state: IdleState
+  // When the session expires if there is no further activity
+  expiresAt: number
+}
+
+export type IdleListener = (snapshot: IdleSnapshot) => void
+
+const IDLE_CONFIG = {
+  DEFAULT_TIMEOUT: 30 * 60 * 1000, // Used until the server's session timeout is known
+  DEFAULT_WARNING: 60 * 1000, // How long before expiry the warning is shown
+  CHECK_INTERVAL: 1000,
+  BROADCAST_THROTTLE: 15 * 1000, // Other tabs only need to hear about activity now and then
+  ACTIVITY_EVENTS: ['mousedown', 'keydown', 'scroll', 'touchstart', 'wheel'],
+} as const
+
+class IdleTracker {
+  private timeout: number = IDLE_CONFIG.DEFAULT_TIMEOUT
+  private warning: number = IDLE_CONFIG.DEFAULT_WARNING
+  private lastActivity = Date.now()
+  private lastBroadcast = 0
+  private state: IdleState = 'active'
+  private checkInterval: ReturnType<typeof setInterval> | null = null
+  private unsubscribeSync: (() => void) | null = null
+  private listeners = new Set<IdleListener>()
+
+  /**
+   * Set the idle timeout and how long before it the warning starts
+   */
+  configure(timeoutMs: number, warningMs: number = IDLE_CONFIG.DEFAULT_WARNING): void {
+    if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) return
+    this.timeout = timeoutMs
+    // The warning never takes up more than half of a short timeout
+    this.warning = Math.min(warningMs, timeoutMs / 2)
+    this.check()
+  }
+
+  /**
+   * Start watching for activity; safe to call more than once
+   */
+  start(): void {
+    if (this.checkInterval || typeof window === 'undefined') return
+
+    this.lastActivity = Date.now()
+    this.setState('active')
+    IDLE_CONFIG.ACTIVITY_EVENTS.forEach(event => {
+      document.addEventListener(event, this.handleActivity, { passive: true })
+    })
+    document.addEventListener('visibilitychange', this.handleVisibilityChange)
+    this.unsubscribeSync = sessionSync.subscribe(this.handleSessionEvent)
+    this.checkInterval = setInterval(() => this.check(), IDLE_CONFIG.CHECK_INTERVAL)
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval)
+      this.checkInterval = null
+    }
+    if (typeof document !== 'undefined') {
+      IDLE_CONFIG.ACTIVITY_EVENTS.forEach(event => {
+        document.removeEventListener(event, this.handleActivity)
+      })
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange)
+    }
+    this.unsubscribeSync?.()
+    this.unsubscribeSync = null
+  }
+
+  /**
+   * Count user activity. Ignored once the warning is showing, so the user has
+   * to choose to stay signed in rather than keep it open by moving the mouse.
+   */
+  recordActivity(): void {
+    if (this.state !== 'active') return
+    this.touch(Date.now())
+  }
+
+  /**
+   * Restart the countdown after the user chose to stay signed in or signed in again
+   */
+  extend(): void {
+    this.touch(Date.now())
+    this.setState('active')
+  }
+
+  isExpired(): boolean {
+    return this.state === 'expired'
+  }
+
+  getSnapshot(): IdleSnapshot {
+    return { state: this.state, expiresAt: this.lastActivity + this.timeout }
+  }
+
+  /**
+   * Subscribe to state changes; returns an unsubscribe function
+   */
+  subscribe(listener: IdleListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private touch(at: number): void {
+    this.lastActivity = at
+    if (at - this.lastBroadcast >= IDLE_CONFIG.BROADCAST_THROTTLE) {
+      this.lastBroadcast = at
+      sessionSync.broadcast({ type: 'activity', at })
+    }
+  }
+
+  private check(): void {
+    if (this.state === 'expired') return
+
+    const remaining = this.lastActivity + this.timeout - Date.now()
+    if (remaining <= 0) {
+      this.setState('expired')
+    } else if (remaining <= this.warning) {
+      this.setState('warning')
+    } else {
+      this.setState('active')
+    }
+  }
+
+  private setState(state: IdleState): void {
+    if (state === this.state) return
+    this.state = state
+    const snapshot = this.getSnapshot()
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot)
+      } catch (error) {
+        console.error('Idle listener failed:', error)
+      }
+    })
+  }
+
+  private handleActivity = (): void => {
+    this.recordActivity()
+  }
+
+  private handleVisibilityChange = (): void => {
+    // Timers are throttled in background tabs; catch up as soon as the tab is shown
+    if (!document.hidden) this.check()
+  }
+
+  private handleSessionEvent = (event: SessionEvent): void => {
+    // Activity in another tab keeps this one alive too, even while it is warning
+    if (event.type === 'activity' && this.state !== 'expired' && event.at > this.lastActivity) {
+      this.lastActivity = event.at
+      this.check()
+    }
+  }
+}
+
+// Export singleton instance
+export const idleTracker = new IdleTracker()
+
+// Export for testing
+export { IdleTracker }
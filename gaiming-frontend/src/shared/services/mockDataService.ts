@@ -9,8 +9,15 @@ import type {
   GameType, 
   Volatility, 
   Theme, 
-  PaginatedResponse 
+  PaginatedResponse,
+  CreateGameForm,
+  UpdateGameForm,
+  ImportResult,
+  BulkGameOperation,
+  BulkGameResult,
+  BulkGameUpdate
 } from '@/features/games/types'
+import { createSeededRandom } from '@/lib/utils'
 
 // Mock providers
 export const mockProviders: GameProvider[] = [
@@ -56,8 +63,14 @@ export const mockThemes: Theme[] = [
   { themeID: 8, themeName: 'Sports', description: 'Sports and competition themes' },
 ]
 
-// Generate mock games
-const generateMockGames = (): Game[] => {
+// Generate mock games, seeded so every reload sees the same catalogue
+const MOCK_GAMES_SEED = 20240101
+
+// The moment mock data is dated against, so dates are as reproducible as the rest
+export const MOCK_REFERENCE_NOW = Date.UTC(2025, 0, 1)
+
+const generateMockGames = (now = MOCK_REFERENCE_NOW): Game[] => {
+  const random = createSeededRandom(MOCK_GAMES_SEED)
   const games: Game[] = []
   const gameNames = [
     'Starburst', 'Gonzo\'s Quest', 'Book of Dead', 'Sweet Bonanza', 'The Dog House',
@@ -73,10 +86,10 @@ const generateMockGames = (): Game[] => {
   ]
 
   for (let i = 0; i < 150; i++) {
-    const provider = mockProviders[Math.floor(Math.random() * mockProviders.length)]
-    const gameType = mockGameTypes[Math.floor(Math.random() * mockGameTypes.length)]
-    const volatility = mockVolatilities[Math.floor(Math.random() * mockVolatilities.length)]
-    const theme = mockThemes[Math.floor(Math.random() * mockThemes.length)]
+    const provider = mockProviders[Math.floor(random() * mockProviders.length)]
+    const gameType = mockGameTypes[Math.floor(random() * mockGameTypes.length)]
+    const volatility = mockVolatilities[Math.floor(random() * mockVolatilities.length)]
+    const theme = mockThemes[Math.floor(random() * mockThemes.length)]
     
     const game: Game = {
       gameId: i + 1,
@@ -91,21 +104,21 @@ const generateMockGames = (): Game[] => {
       volatility,
       themeId: theme.themeID,
       theme,
-      minBetAmount: Math.random() * 0.5 + 0.1, // 0.1 to 0.6
-      maxBetAmount: Math.random() * 500 + 100, // 100 to 600
-      rtpPercentage: Math.random() * 8 + 92, // 92% to 100%
-      isMobile: Math.random() > 0.2, // 80% mobile compatible
-      isDesktop: Math.random() > 0.1, // 90% desktop compatible
-      isActive: Math.random() > 0.15, // 85% active
-      hideInLobby: Math.random() > 0.9, // 10% hidden
-      gameOrder: Math.floor(Math.random() * 1000),
-      releaseDate: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000 * 3).toISOString(), // Last 3 years
-      createdDate: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000).toISOString(),
-      updatedDate: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
+      minBetAmount: random() * 0.5 + 0.1, // 0.1 to 0.6
+      maxBetAmount: random() * 500 + 100, // 100 to 600
+      rtpPercentage: random() * 8 + 92, // 92% to 100%
+      isMobile: random() > 0.2, // 80% mobile compatible
+      isDesktop: random() > 0.1, // 90% desktop compatible
+      isActive: random() > 0.15, // 85% active
+      hideInLobby: random() > 0.9, // 10% hidden
+      gameOrder: Math.floor(random() * 1000),
+      releaseDate: new Date(now - random() * 365 * 24 * 60 * 60 * 1000 * 3).toISOString(), // Last 3 years
+      createdDate: new Date(now - random() * 365 * 24 * 60 * 60 * 1000).toISOString(),
+      updatedDate: new Date(now - random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
       imageUrl: `https://picsum.photos/200/150?random=${i + 1}`,
       description: `Experience the thrill of ${gameNames[i % gameNames.length]} with exciting features and great winning potential.`,
-      features: ['Free Spins', 'Wild Symbols', 'Scatter Symbols', 'Bonus Rounds'].filter(() => Math.random() > 0.5),
-      tags: ['Popular', 'New', 'Hot', 'Trending'].filter(() => Math.random() > 0.7),
+      features: ['Free Spins', 'Wild Symbols', 'Scatter Symbols', 'Bonus Rounds'].filter(() => random() > 0.5),
+      tags: ['Popular', 'New', 'Hot', 'Trending'].filter(() => random() > 0.7),
     }
     
     games.push(game)
@@ -256,6 +269,90 @@ export const mockApiService = {
     await new Promise(resolve => setTimeout(resolve, 300))
     return mockGames.find(game => game.gameId === gameId) || null
   },
+
+  async importGames(
+    payload: { creates: CreateGameForm[]; updates: UpdateGameForm[] },
+    onUploadProgress?: (percent: number) => void
+  ): Promise<ImportResult> {
+    // Simulate a chunked upload so progress reporting can be exercised
+    for (let percent = 20; percent <= 100; percent += 20) {
+      await new Promise(resolve => setTimeout(resolve, 150))
+      onUploadProgress?.(percent)
+    }
+
+    const now = new Date().toISOString()
+    let nextId = Math.max(0, ...mockGames.map(game => game.gameId)) + 1
+    payload.creates.forEach(form => {
+      const provider = mockProviders.find(p => p.providerId === form.providerId)
+      const gameType = mockGameTypes.find(t => t.gameTypeId === form.gameTypeId)
+      mockGames.push({
+        ...form,
+        gameId: nextId++,
+        providerName: provider?.providerName,
+        gameTypeName: gameType?.gameTypeName,
+        provider,
+        gameType,
+        volatility: mockVolatilities.find(v => v.volatilityID === form.volatilityId),
+        theme: mockThemes.find(t => t.themeID === form.themeId),
+        isActive: true,
+        createdDate: now,
+        updatedDate: now,
+      })
+    })
+    payload.updates.forEach(({ gameId, ...changes }) => {
+      const game = mockGames.find(g => g.gameId === gameId)
+      if (game) Object.assign(game, changes, { updatedDate: now })
+    })
+
+    return {
+      success: true,
+      processed: payload.creates.length + payload.updates.length,
+      created: payload.creates.length,
+      updated: payload.updates.length,
+      errors: [],
+      warnings: [],
+      duplicates: 0,
+    }
+  },
+
+  async bulkUpdateGames(updates: BulkGameUpdate[]): Promise<BulkGameResult[]> {
+    await new Promise(resolve => setTimeout(resolve, 100 + updates.length * 2))
+    const now = new Date().toISOString()
+    return updates.map(({ gameId, changes }) => {
+      const game = mockGames.find(g => g.gameId === gameId)
+      if (!game) return { gameId, success: false, error: 'Game not found' }
+
+      Object.assign(game, changes, { updatedDate: now })
+      if (changes.providerId !== undefined) {
+        game.provider = mockProviders.find(p => p.providerId === changes.providerId)
+        game.providerName = game.provider?.providerName
+      }
+      if (changes.gameTypeId !== undefined) {
+        game.gameType = mockGameTypes.find(t => t.gameTypeId === changes.gameTypeId)
+        game.gameTypeName = game.gameType?.gameTypeName
+      }
+      if (changes.volatilityId !== undefined) {
+        game.volatility = mockVolatilities.find(v => v.volatilityID === changes.volatilityId)
+      }
+      if (changes.themeId !== undefined) {
+        game.theme = mockThemes.find(t => t.themeID === changes.themeId)
+      }
+      return { gameId, success: true }
+    })
+  },
+
+  async bulkGameOperation(operation: BulkGameOperation): Promise<BulkGameResult[]> {
+    await new Promise(resolve => setTimeout(resolve, 100 + operation.gameIds.length * 2))
+    if (operation.operation !== 'delete') {
+      throw new Error(`Unsupported bulk operation: ${operation.operation}`)
+    }
+    return operation.gameIds.map(gameId => {
+      const index = mockGames.findIndex(g => g.gameId === gameId)
+      if (index < 0) return { gameId, success: false, error: 'Game not found' }
+      mockGames.splice(index, 1)
+      return { gameId, success: true }
+    })
+  },
 }
 
 // Override the real API service with mock data in development
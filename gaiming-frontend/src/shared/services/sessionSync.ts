@@ -0,0 +1,190 @@
+/**
+ * Cross-tab Session Synchronization
+ * Lets tabs that share one token store agree on who refreshes and hear about
+ * new tokens, logouts and permission changes as soon as they happen
+ */
+
+// Session events other tabs react to. Stored values are re-read from storage;
+// only the in-memory access token travels in a message, and only over BroadcastChannel.
+export type SessionEvent =
+  | { type: 'tokens-updated'; accessToken?: string } // Login or refresh stored new tokens
+  | { type: 'user-updated' } // Stored user data, e.g. permissions, changed
+  | { type: 'token-request' } // A new tab asks for the current access token
+  | { type: 'activity'; at: number } // The user was active; keeps idle timers in step
+  | { type: 'logout'; reason?: LogoutReason }
+
+// Why a session ended; an idle logout lets the user sign back in where they were
+export type LogoutReason = 'idle'
+
+export type SessionEventListener = (event: SessionEvent) => void
+
+interface SessionMessage {
+  event: SessionEvent
+  from: string
+}
+
+interface RefreshLease {
+  owner: string
+  expiresAt: number
+}
+
+const SYNC_CONFIG = {
+  CHANNEL_NAME: 'gaiming_session',
+  // Fallback transport for browsers without BroadcastChannel
+  STORAGE_EVENT_KEY: 'gaiming_session_event',
+  LOCK_NAME: 'gaiming_token_refresh',
+  // Fallback lock for browsers without the Web Locks API
+  LEASE_KEY: 'gaiming_refresh_lease',
+  LEASE_DURATION: 15 * 1000, // Longer than any refresh request should take
+  LEASE_POLL_INTERVAL: 250,
+  LEASE_SETTLE_DELAY: 50,
+} as const
+
+class SessionSync {
+  readonly tabId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `tab_${Date.now()}_${Math.random().toString(36).slice(2)}`
+
+  private channel: BroadcastChannel | null = null
+  private listeners = new Set<SessionEventListener>()
+  private started = false
+
+  /**
+   * Whether messages stay in memory. The localStorage fallback writes every
+   * message to disk, so secrets must not be sent through it.
+   */
+  get canShareSecrets(): boolean {
+    return typeof BroadcastChannel !== 'undefined'
+  }
+
+  /**
+   * Start listening for other tabs; safe to call more than once
+   */
+  start(): void {
+    if (this.started || typeof window === 'undefined') return
+    this.started = true
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(SYNC_CONFIG.CHANNEL_NAME)
+      this.channel.onmessage = (message: MessageEvent<SessionMessage>) => this.receive(message.data)
+    } else {
+      window.addEventListener('storage', this.handleStorageEvent)
+    }
+  }
+
+  stop(): void {
+    this.channel?.close()
+    this.channel = null
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.handleStorageEvent)
+    }
+    this.started = false
+  }
+
+  /**
+   * Subscribe to events from other tabs; returns an unsubscribe function
+   */
+  subscribe(listener: SessionEventListener): () => void {
+    this.start()
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Tell every other tab about a session change. The sending tab is not notified.
+   */
+  broadcast(event: SessionEvent): void {
+    this.start()
+    const message: SessionMessage = { event, from: this.tabId }
+
+    try {
+      if (this.channel) {
+        this.channel.postMessage(message)
+      } else if (typeof localStorage !== 'undefined') {
+        // Writing then removing fires a storage event in every other tab
+        localStorage.setItem(SYNC_CONFIG.STORAGE_EVENT_KEY, JSON.stringify({ ...message, nonce: Math.random() }))
+        localStorage.removeItem(SYNC_CONFIG.STORAGE_EVENT_KEY)
+      }
+    } catch (error) {
+      console.warn('Failed to broadcast session event:', error)
+    }
+  }
+
+  /**
+   * Run `task` while holding the cross-tab refresh lock, so only one tab
+   * refreshes at a time. Tabs that wait get the lock after the refresh has
+   * finished and can reuse its result.
+   */
+  async withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(SYNC_CONFIG.LOCK_NAME, () => task())
+    }
+    return this.withRefreshLease(task)
+  }
+
+  private async withRefreshLease<T>(task: () => Promise<T>): Promise<T> {
+    while (!(await this.tryAcquireLease())) {
+      await new Promise(resolve => setTimeout(resolve, SYNC_CONFIG.LEASE_POLL_INTERVAL))
+    }
+
+    try {
+      return await task()
+    } finally {
+      const lease = this.readLease()
+      if (lease?.owner === this.tabId) {
+        localStorage.removeItem(SYNC_CONFIG.LEASE_KEY)
+      }
+    }
+  }
+
+  private async tryAcquireLease(): Promise<boolean> {
+    const current = this.readLease()
+    if (current && current.owner !== this.tabId && current.expiresAt > Date.now()) {
+      return false
+    }
+
+    const lease: RefreshLease = { owner: this.tabId, expiresAt: Date.now() + SYNC_CONFIG.LEASE_DURATION }
+    localStorage.setItem(SYNC_CONFIG.LEASE_KEY, JSON.stringify(lease))
+    // Two tabs can claim at once; let the other write land, then whoever's
+    // write survived owns the lease
+    await new Promise(resolve => setTimeout(resolve, SYNC_CONFIG.LEASE_SETTLE_DELAY))
+    return this.readLease()?.owner === this.tabId
+  }
+
+  private readLease(): RefreshLease | null {
+    try {
+      const value = localStorage.getItem(SYNC_CONFIG.LEASE_KEY)
+      return value ? JSON.parse(value) : null
+    } catch {
+      return null
+    }
+  }
+
+  private handleStorageEvent = (event: StorageEvent): void => {
+    if (event.key !== SYNC_CONFIG.STORAGE_EVENT_KEY || !event.newValue) return
+    try {
+      this.receive(JSON.parse(event.newValue))
+    } catch (error) {
+      console.warn('Ignoring malformed session event:', error)
+    }
+  }
+
+  private receive(message: SessionMessage): void {
+    if (!message?.event || message.from === this.tabId) return
+    this.listeners.forEach(listener => {
+      try {
+        listener(message.event)
+      } catch (error) {
+        console.error('Session event listener failed:', error)
+      }
+    })
+  }
+}
+
+// Export singleton instance
+export const sessionSync = new SessionSync()
+
+// Export for testing
+export { SessionSync }
@@ -5,6 +5,8 @@
 
 import { jwtDecode } from 'jwt-decode'
 import type { User } from '@/app/store/authStore'
+import { sessionSync, type SessionEvent, type LogoutReason } from './sessionSync'
+import { createTokenStorage, isEncryptedValue, MemoryTokenStorage, type TokenStorageBackend } from './tokenStorage'
 
 // JWT Token interfaces
 export interface JWTPayload {
@@ -38,22 +40,71 @@ const TOKEN_KEYS = {
   USER_DATA: 'gaiming_user_data',
 } as const
 
+// Devices that passed two-factor verification, by username; kept across logouts
+const TRUSTED_DEVICES_KEY = 'gaiming_trusted_devices'
+
+type TokenKey = typeof TOKEN_KEYS[keyof typeof TOKEN_KEYS]
+
+const ALL_TOKEN_KEYS = Object.values(TOKEN_KEYS)
+
 // Security configuration
 const SECURITY_CONFIG = {
   TOKEN_REFRESH_THRESHOLD: 5 * 60 * 1000, // Refresh 5 minutes before expiry
   MAX_REFRESH_ATTEMPTS: 3,
-  STORAGE_ENCRYPTION: true, // Enable in production
-  SECURE_STORAGE: true, // Use secure storage when available
+  ACCESS_TOKEN_IN_MEMORY: true, // Never write access tokens to disk unless other tabs could not get them otherwise
+  PEER_TOKEN_TIMEOUT: 300, // How long a new tab waits for another tab to hand over its access token
 } as const
 
 class TokenService {
   private refreshPromise: Promise<string> | null = null
   private refreshAttempts = 0
+  private readyPromise: Promise<void> | null = null
+  // Replaced by the encrypted backend once initialize() has set it up
+  private storage: TokenStorageBackend = new MemoryTokenStorage()
+  private memoryStorage = new MemoryTokenStorage()
+  // Decrypted values, so reads stay synchronous
+  private cache = new Map<TokenKey, string>()
+  private listeners = new Set<(event: SessionEvent) => void>()
+
+  /**
+   * Set up storage, migrate tokens from older versions and load the current
+   * session. Safe to call more than once; every call waits for the same setup.
+   */
+  initialize(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = this.setup()
+    }
+    return this.readyPromise
+  }
+
+  private async setup(): Promise<void> {
+    this.storage = await createTokenStorage()
+    await this.migrateLegacyItems()
+    await this.loadCache(ALL_TOKEN_KEYS)
+    sessionSync.subscribe(this.handleSessionEvent)
+
+    // The access token lives in memory, so a new tab asks an open one for it
+    // before falling back to a refresh
+    if (!this.cache.has(TOKEN_KEYS.ACCESS_TOKEN) && this.cache.has(TOKEN_KEYS.REFRESH_TOKEN)) {
+      await this.requestPeerAccessToken()
+    }
+  }
+
+  /**
+   * Subscribe to session changes made in other tabs, called once they have
+   * been applied here; returns an unsubscribe function
+   */
+  subscribe(listener: (event: SessionEvent) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
 
   /**
    * Store token pair securely
    */
-  storeTokens(tokenPair: TokenPair): void {
+  async storeTokens(tokenPair: TokenPair): Promise<void> {
     try {
       const { accessToken, refreshToken, expiresAt } = tokenPair
 
@@ -77,11 +128,6 @@ class TokenService {
         throw new Error('Invalid access token')
       }
 
-      // Store tokens securely
-      this.setSecureItem(TOKEN_KEYS.ACCESS_TOKEN, accessToken)
-      this.setSecureItem(TOKEN_KEYS.REFRESH_TOKEN, refreshToken)
-      this.setSecureItem(TOKEN_KEYS.TOKEN_EXPIRY, expiryTime.toString())
-
       // Store user data for quick access
       const userData: User = {
         id: payload.sub,
@@ -90,10 +136,19 @@ class TokenService {
         role: payload.role,
         permissions: payload.permissions,
       }
-      this.setSecureItem(TOKEN_KEYS.USER_DATA, JSON.stringify(userData))
+
+      // Store tokens securely
+      await this.initialize()
+      await this.persist({
+        [TOKEN_KEYS.ACCESS_TOKEN]: accessToken,
+        [TOKEN_KEYS.REFRESH_TOKEN]: refreshToken,
+        [TOKEN_KEYS.TOKEN_EXPIRY]: expiryTime.toString(),
+        [TOKEN_KEYS.USER_DATA]: JSON.stringify(userData),
+      })
 
       // Reset refresh attempts on successful storage
       this.refreshAttempts = 0
+      sessionSync.broadcast({ type: 'tokens-updated', ...this.shareableAccessToken() })
 
       console.log('Tokens stored successfully', {
         expiresAt: new Date(expiryTime).toISOString(),
@@ -110,13 +165,13 @@ class TokenService {
    */
   getAccessToken(): string | null {
     try {
-      const token = this.getSecureItem(TOKEN_KEYS.ACCESS_TOKEN)
+      const token = this.cache.get(TOKEN_KEYS.ACCESS_TOKEN)
       if (!token) return null
 
-      // Validate token is not expired
+      // Validate token is not expired; the refresh token can still renew it
       if (this.isTokenExpired(token)) {
         console.warn('Access token is expired')
-        this.clearTokens()
+        this.dropAccessToken()
         return null
       }
 
@@ -131,7 +186,14 @@ class TokenService {
    * Get refresh token
    */
   getRefreshToken(): string | null {
-    return this.getSecureItem(TOKEN_KEYS.REFRESH_TOKEN)
+    return this.cache.get(TOKEN_KEYS.REFRESH_TOKEN) ?? null
+  }
+
+  /**
+   * Whether a session can be resumed, even if the access token has to be refreshed first
+   */
+  hasSession(): boolean {
+    return this.cache.has(TOKEN_KEYS.REFRESH_TOKEN)
   }
 
   /**
@@ -139,7 +201,7 @@ class TokenService {
    */
   getStoredUser(): User | null {
     try {
-      const userData = this.getSecureItem(TOKEN_KEYS.USER_DATA)
+      const userData = this.cache.get(TOKEN_KEYS.USER_DATA)
       return userData ? JSON.parse(userData) : null
     } catch (error) {
       console.error('Failed to get stored user:', error)
@@ -147,12 +209,54 @@ class TokenService {
     }
   }
 
+  /**
+   * Replace stored user data, e.g. after a permission change, and tell other tabs
+   */
+  async updateStoredUser(user: User): Promise<void> {
+    await this.initialize()
+    await this.persist({ [TOKEN_KEYS.USER_DATA]: JSON.stringify(user) })
+    sessionSync.broadcast({ type: 'user-updated' })
+  }
+
+  /**
+   * Token the server issued when this device was remembered during two-factor login
+   */
+  async getTrustedDeviceToken(username: string): Promise<string | null> {
+    const devices = await this.readTrustedDevices()
+    return devices[username.toLowerCase()] ?? null
+  }
+
+  async storeTrustedDeviceToken(username: string, deviceToken: string): Promise<void> {
+    const devices = await this.readTrustedDevices()
+    devices[username.toLowerCase()] = deviceToken
+    await this.storage.set(TRUSTED_DEVICES_KEY, JSON.stringify(devices))
+  }
+
+  /**
+   * Ask for a second factor again on the next login from this browser, for every account
+   */
+  async forgetTrustedDevices(): Promise<void> {
+    await this.initialize()
+    await this.storage.remove(TRUSTED_DEVICES_KEY)
+  }
+
+  private async readTrustedDevices(): Promise<Record<string, string>> {
+    await this.initialize()
+    try {
+      const stored = await this.storage.get(TRUSTED_DEVICES_KEY)
+      return stored ? JSON.parse(stored) : {}
+    } catch (error) {
+      console.warn('Failed to read trusted devices:', error)
+      return {}
+    }
+  }
+
   /**
    * Check if token needs refresh
    */
   needsRefresh(): boolean {
-    const token = this.getSecureItem(TOKEN_KEYS.ACCESS_TOKEN)
-    const expiryStr = this.getSecureItem(TOKEN_KEYS.TOKEN_EXPIRY)
+    const token = this.cache.get(TOKEN_KEYS.ACCESS_TOKEN)
+    const expiryStr = this.cache.get(TOKEN_KEYS.TOKEN_EXPIRY)
     
     if (!token || !expiryStr) return false
 
@@ -177,8 +281,20 @@ class TokenService {
       throw new Error('Maximum refresh attempts exceeded')
     }
 
-    this.refreshPromise = this.performTokenRefresh()
-    
+    const tokenBeforeRefresh = this.cache.get(TOKEN_KEYS.ACCESS_TOKEN)
+    // Only one tab refreshes at a time; the others wait and reuse its token
+    this.refreshPromise = sessionSync.withRefreshLock(async () => {
+      await this.initialize()
+      // The tab that held the lock may have refreshed already; without a message
+      // channel its token only reaches this tab through encrypted storage
+      await this.loadCache(ALL_TOKEN_KEYS.filter(key => this.storageFor(key) === this.storage))
+      const current = this.cache.get(TOKEN_KEYS.ACCESS_TOKEN)
+      if (current && current !== tokenBeforeRefresh && !this.isTokenExpired(current)) {
+        return current
+      }
+      return this.performTokenRefresh()
+    })
+
     try {
       const newToken = await this.refreshPromise
       this.refreshAttempts = 0
@@ -229,8 +345,12 @@ class TokenService {
         expiryTime = Date.now() + (data.expiresAt * 1000)
       }
 
-      this.setSecureItem(TOKEN_KEYS.ACCESS_TOKEN, data.accessToken)
-      this.setSecureItem(TOKEN_KEYS.TOKEN_EXPIRY, expiryTime.toString())
+      await this.persist({
+        [TOKEN_KEYS.ACCESS_TOKEN]: data.accessToken,
+        [TOKEN_KEYS.TOKEN_EXPIRY]: expiryTime.toString(),
+      })
+      sessionSync.broadcast({ type: 'tokens-updated', ...this.shareableAccessToken() })
+      await this.syncUserFromToken(data.accessToken)
 
       console.log('Token refreshed successfully')
       return data.accessToken
@@ -242,14 +362,40 @@ class TokenService {
   }
 
   /**
-   * Clear all stored tokens
+   * A refreshed token can carry a new role or permissions; keep the stored user in step
    */
-  clearTokens(): void {
-    Object.values(TOKEN_KEYS).forEach(key => {
-      this.removeSecureItem(key)
-    })
+  private async syncUserFromToken(accessToken: string): Promise<void> {
+    const payload = this.decodeToken(accessToken)
+    const user = this.getStoredUser()
+    if (!payload || !user) return
+
+    const permissions = payload.permissions ?? []
+    const changed = payload.role !== user.role ||
+      permissions.length !== user.permissions.length ||
+      permissions.some(permission => !user.permissions.includes(permission))
+
+    if (changed) {
+      await this.updateStoredUser({ ...user, role: payload.role, permissions })
+    }
+  }
+
+  /**
+   * Clear all stored tokens; the reason is passed on to other tabs
+   */
+  clearTokens(reason?: LogoutReason): void {
+    // Another tab may already have cleared them; only the first clear announces the logout
+    const hadSession = this.cache.size > 0
+
+    this.cache.clear()
     this.refreshAttempts = 0
-    console.log('All tokens cleared')
+    if (hadSession) {
+      sessionSync.broadcast({ type: 'logout', ...(reason && { reason }) })
+    }
+
+    this.initialize()
+      .then(() => Promise.all(ALL_TOKEN_KEYS.map(key => this.storageFor(key).remove(key))))
+      .then(() => console.log('All tokens cleared'))
+      .catch(error => console.error('Failed to clear stored tokens:', error))
   }
 
   /**
@@ -276,58 +422,161 @@ class TokenService {
   }
 
   /**
-   * Secure storage methods
+   * Storage methods
    */
-  private setSecureItem(key: string, value: string): void {
-    if (SECURITY_CONFIG.SECURE_STORAGE && this.isSecureStorageAvailable()) {
-      // Use secure storage when available (e.g., encrypted storage)
-      localStorage.setItem(key, this.encryptValue(value))
-    } else {
-      localStorage.setItem(key, value)
-    }
+  private storageFor(key: TokenKey): TokenStorageBackend {
+    return key === TOKEN_KEYS.ACCESS_TOKEN && this.accessTokenInMemory
+      ? this.memoryStorage
+      : this.storage
   }
 
-  private getSecureItem(key: string): string | null {
-    const value = localStorage.getItem(key)
-    if (!value) return null
+  /**
+   * Whether the access token stays in memory. Tabs hand it to each other over
+   * BroadcastChannel; without one, it is kept in encrypted storage instead so
+   * one refresh still serves every tab.
+   */
+  private get accessTokenInMemory(): boolean {
+    return SECURITY_CONFIG.ACCESS_TOKEN_IN_MEMORY && sessionSync.canShareSecrets
+  }
 
-    if (SECURITY_CONFIG.SECURE_STORAGE && this.isSecureStorageAvailable()) {
-      return this.decryptValue(value)
-    }
-    return value
+  private async persist(values: Partial<Record<TokenKey, string>>): Promise<void> {
+    const entries = Object.entries(values) as Array<[TokenKey, string]>
+    entries.forEach(([key, value]) => this.cache.set(key, value))
+    await Promise.all(entries.map(([key, value]) => this.storageFor(key).set(key, value)))
   }
 
-  private removeSecureItem(key: string): void {
-    localStorage.removeItem(key)
+  private async loadCache(keys: TokenKey[]): Promise<void> {
+    const values = await Promise.all(keys.map(key => this.storageFor(key).get(key)))
+    keys.forEach((key, index) => {
+      const value = values[index]
+      if (!value) {
+        this.cache.delete(key)
+      } else {
+        this.cache.set(key, value)
+      }
+    })
   }
 
-  private isSecureStorageAvailable(): boolean {
-    // Check if secure storage is available (implementation depends on environment)
-    return typeof window !== 'undefined' && 'crypto' in window
+  private dropAccessToken(): void {
+    this.cache.delete(TOKEN_KEYS.ACCESS_TOKEN)
+    void this.storageFor(TOKEN_KEYS.ACCESS_TOKEN).remove(TOKEN_KEYS.ACCESS_TOKEN)
   }
 
-  private encryptValue(value: string): string {
-    // Simple encryption for demo - use proper encryption in production
-    if (!SECURITY_CONFIG.STORAGE_ENCRYPTION) return value
-    return btoa(value) // Base64 encoding as placeholder
+  /**
+   * Earlier versions kept every value base64-encoded in localStorage. Move
+   * those into the current backends and remove the readable copies.
+   */
+  private async migrateLegacyItems(): Promise<void> {
+    for (const key of ALL_TOKEN_KEYS) {
+      const stored = localStorage.getItem(key)
+      if (stored === null || isEncryptedValue(stored)) continue
+
+      localStorage.removeItem(key)
+      try {
+        await this.storageFor(key).set(key, this.decodeLegacyValue(stored))
+      } catch (error) {
+        console.warn(`Failed to migrate ${key}:`, error)
+      }
+    }
   }
 
-  private decryptValue(value: string): string {
-    // Simple decryption for demo - use proper decryption in production
-    if (!SECURITY_CONFIG.STORAGE_ENCRYPTION) return value
+  private decodeLegacyValue(value: string): string {
     try {
-      return atob(value) // Base64 decoding as placeholder
+      return atob(value)
     } catch {
       return value
     }
   }
 
+  /**
+   * With in-memory access tokens other tabs cannot read a new token from
+   * storage, so it goes along with the event when the transport allows it
+   */
+  private shareableAccessToken(): { accessToken?: string } {
+    const accessToken = this.cache.get(TOKEN_KEYS.ACCESS_TOKEN)
+    if (!this.accessTokenInMemory || !accessToken) {
+      return {}
+    }
+    return { accessToken }
+  }
+
+  private requestPeerAccessToken(): Promise<void> {
+    if (!this.accessTokenInMemory) {
+      return Promise.resolve()
+    }
+
+    return new Promise(resolve => {
+      const finish = () => {
+        clearTimeout(timeout)
+        unsubscribe()
+        resolve()
+      }
+      // handleSessionEvent subscribed first, so the token is in the cache by the time this runs
+      const unsubscribe = sessionSync.subscribe(event => {
+        if (event.type === 'tokens-updated' && event.accessToken) finish()
+      })
+      const timeout = setTimeout(finish, SECURITY_CONFIG.PEER_TOKEN_TIMEOUT)
+      sessionSync.broadcast({ type: 'token-request' })
+    })
+  }
+
+  private handleSessionEvent = (event: SessionEvent): void => {
+    switch (event.type) {
+      case 'token-request': {
+        const shared = this.shareableAccessToken()
+        if (shared.accessToken && !this.isTokenExpired(shared.accessToken)) {
+          sessionSync.broadcast({ type: 'tokens-updated', ...shared })
+        }
+        return
+      }
+      case 'tokens-updated':
+        if (this.accessTokenInMemory) {
+          // Without a token in the event ours is from before the change; the next request refreshes
+          if (event.accessToken) {
+            this.cache.set(TOKEN_KEYS.ACCESS_TOKEN, event.accessToken)
+            void this.memoryStorage.set(TOKEN_KEYS.ACCESS_TOKEN, event.accessToken)
+          } else {
+            this.dropAccessToken()
+          }
+        }
+        void this.reload(ALL_TOKEN_KEYS.filter(key => this.storageFor(key) === this.storage), event)
+        return
+      case 'user-updated':
+        void this.reload([TOKEN_KEYS.USER_DATA], event)
+        return
+      case 'logout':
+        this.cache.clear()
+        void this.storageFor(TOKEN_KEYS.ACCESS_TOKEN).remove(TOKEN_KEYS.ACCESS_TOKEN)
+        this.notifyListeners(event)
+        return
+    }
+  }
+
+  private async reload(keys: TokenKey[], event: SessionEvent): Promise<void> {
+    try {
+      await this.loadCache(keys)
+    } catch (error) {
+      console.error('Failed to reload stored tokens:', error)
+    }
+    this.notifyListeners(event)
+  }
+
+  private notifyListeners(event: SessionEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('Token listener failed:', error)
+      }
+    })
+  }
+
   /**
    * Get token expiry information
    */
   getTokenInfo(): { isValid: boolean; expiresAt: Date | null; needsRefresh: boolean } {
-    const token = this.getSecureItem(TOKEN_KEYS.ACCESS_TOKEN)
-    const expiryStr = this.getSecureItem(TOKEN_KEYS.TOKEN_EXPIRY)
+    const token = this.cache.get(TOKEN_KEYS.ACCESS_TOKEN)
+    const expiryStr = this.cache.get(TOKEN_KEYS.TOKEN_EXPIRY)
 
     if (!token || !expiryStr) {
       return { isValid: false, expiresAt: null, needsRefresh: false }
@@ -0,0 +1,193 @@
+/**
+ * Token Storage Backends
+ * Where TokenService keeps its values: encrypted at rest with a WebCrypto key
+ * that never leaves the browser, or only in memory for the life of the tab
+ */
+
+export interface TokenStorageBackend {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string): Promise<void>
+  remove(key: string): Promise<void>
+}
+
+const STORAGE_CONFIG = {
+  DB_NAME: 'gaiming_secure_storage',
+  DB_VERSION: 1,
+  KEY_STORE: 'keys',
+  KEY_ID: 'token_encryption_key',
+  ALGORITHM: 'AES-GCM',
+  KEY_LENGTH: 256,
+  IV_LENGTH: 12, // 96-bit IV, as recommended for AES-GCM
+  VALUE_PREFIX: 'enc:v1:',
+} as const
+
+/**
+ * Keeps values for the life of the page only
+ */
+export class MemoryTokenStorage implements TokenStorageBackend {
+  private values = new Map<string, string>()
+
+  async get(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.values.set(key, value)
+  }
+
+  async remove(key: string): Promise<void> {
+    this.values.delete(key)
+  }
+}
+
+/**
+ * Encrypts values with AES-GCM before writing them to localStorage. The key is
+ * generated as non-extractable and kept in IndexedDB, so scripts can use it
+ * for this origin but cannot read it out, and a copied localStorage is useless
+ * without it.
+ */
+export class EncryptedTokenStorage implements TokenStorageBackend {
+  private encoder = new TextEncoder()
+  private decoder = new TextDecoder()
+  // Writes and removals for one key must land in the order they were made
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(private key: CryptoKey, private storage: Storage = localStorage) {}
+
+  async get(key: string): Promise<string | null> {
+    await this.queue
+    const stored = this.storage.getItem(key)
+    if (!stored || !isEncryptedValue(stored)) return null
+
+    try {
+      const [iv, data] = stored.slice(STORAGE_CONFIG.VALUE_PREFIX.length).split(':').map(fromBase64)
+      if (!iv || !data) {
+        throw new Error('Malformed encrypted value')
+      }
+      const plain = await crypto.subtle.decrypt(
+        { name: STORAGE_CONFIG.ALGORITHM, iv, additionalData: this.encoder.encode(key) },
+        this.key,
+        data
+      )
+      return this.decoder.decode(plain)
+    } catch (error) {
+      // Written with a key we no longer have, or tampered with
+      console.warn(`Discarding unreadable value for ${key}:`, error)
+      this.storage.removeItem(key)
+      return null
+    }
+  }
+
+  set(key: string, value: string): Promise<void> {
+    return this.enqueue(async () => {
+      const iv = crypto.getRandomValues(new Uint8Array(STORAGE_CONFIG.IV_LENGTH))
+      // The key name is authenticated too, so a value cannot be moved to another key
+      const data = await crypto.subtle.encrypt(
+        { name: STORAGE_CONFIG.ALGORITHM, iv, additionalData: this.encoder.encode(key) },
+        this.key,
+        this.encoder.encode(value)
+      )
+      this.storage.setItem(key, `${STORAGE_CONFIG.VALUE_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(data))}`)
+    })
+  }
+
+  remove(key: string): Promise<void> {
+    return this.enqueue(async () => {
+      this.storage.removeItem(key)
+    })
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.queue.then(task)
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+}
+
+/**
+ * Whether a stored value was written by EncryptedTokenStorage; anything else
+ * under a token key predates it
+ */
+export function isEncryptedValue(value: string): boolean {
+  return value.startsWith(STORAGE_CONFIG.VALUE_PREFIX)
+}
+
+/**
+ * Encrypted storage when the browser supports WebCrypto and IndexedDB,
+ * otherwise memory only; tokens are never written to disk in plain text
+ */
+export async function createTokenStorage(): Promise<TokenStorageBackend> {
+  if (typeof window === 'undefined' || !window.crypto?.subtle || !window.indexedDB) {
+    console.warn('Secure token storage unavailable; sessions will not survive a reload')
+    return new MemoryTokenStorage()
+  }
+
+  try {
+    return new EncryptedTokenStorage(await loadEncryptionKey())
+  } catch (error) {
+    console.warn('Failed to set up encrypted token storage; sessions will not survive a reload:', error)
+    return new MemoryTokenStorage()
+  }
+}
+
+async function loadEncryptionKey(): Promise<CryptoKey> {
+  const db = await openKeyDatabase()
+  try {
+    const existing = await keyStoreRequest<CryptoKey | undefined>(db, 'readonly', store => store.get(STORAGE_CONFIG.KEY_ID))
+    if (existing) return existing
+
+    const key = await crypto.subtle.generateKey(
+      { name: STORAGE_CONFIG.ALGORITHM, length: STORAGE_CONFIG.KEY_LENGTH },
+      false, // Non-extractable
+      ['encrypt', 'decrypt']
+    )
+    try {
+      // add() rather than put(): if another tab created a key first, keep theirs
+      await keyStoreRequest(db, 'readwrite', store => store.add(key, STORAGE_CONFIG.KEY_ID))
+      return key
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'ConstraintError') {
+        const winner = await keyStoreRequest<CryptoKey | undefined>(db, 'readonly', store => store.get(STORAGE_CONFIG.KEY_ID))
+        if (winner) return winner
+      }
+      throw error
+    }
+  } finally {
+    db.close()
+  }
+}
+
+function openKeyDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(STORAGE_CONFIG.DB_NAME, STORAGE_CONFIG.DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORAGE_CONFIG.KEY_STORE)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function keyStoreRequest<T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORAGE_CONFIG.KEY_STORE, mode).objectStore(STORAGE_CONFIG.KEY_STORE))
+    request.onsuccess = () => resolve(request.result as T)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary)
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0))
+}
@@ -0,0 +1,89 @@
+/**
+ * Two-Factor Authentication Service
+ * TOTP enrolment, backup codes and disabling for the signed-in user
+ */
+
+import { apiService } from './apiService'
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  backupCodesRemaining: number
+  // The user's role requires two-factor authentication
+  required: boolean
+}
+
+export interface TwoFactorSetupRequest {
+  password: string
+}
+
+export interface TwoFactorSetupResponse {
+  qrCode: string // Image data URL encoding the otpauth:// URI
+  secret: string // For manual entry when the QR code cannot be scanned
+  backupCodes: string[]
+}
+
+export interface TwoFactorVerifyRequest {
+  code: string
+  password?: string
+}
+
+export interface TwoFactorVerifyResponse {
+  success: boolean
+  message: string
+  backupCodes?: string[]
+}
+
+class TwoFactorService {
+  /**
+   * Current two-factor state for the signed-in user
+   */
+  async getStatus(): Promise<TwoFactorStatus> {
+    return apiService.get<TwoFactorStatus>('/auth/2fa/status')
+  }
+
+  /**
+   * Start enrolment; two-factor is not enabled until the first code is confirmed
+   */
+  async beginSetup(request: TwoFactorSetupRequest): Promise<TwoFactorSetupResponse> {
+    return apiService.post<TwoFactorSetupResponse>('/auth/2fa/setup', request)
+  }
+
+  /**
+   * Confirm enrolment with a code from the authenticator app
+   */
+  async confirmSetup(request: TwoFactorVerifyRequest): Promise<TwoFactorVerifyResponse> {
+    const response = await apiService.post<TwoFactorVerifyResponse>('/auth/2fa/enable', request)
+    if (!response.success) {
+      throw new Error(response.message || 'Invalid verification code')
+    }
+    return response
+  }
+
+  /**
+   * Turn two-factor off; needs both the password and a current code
+   */
+  async disable(request: Required<TwoFactorVerifyRequest>): Promise<TwoFactorVerifyResponse> {
+    const response = await apiService.post<TwoFactorVerifyResponse>('/auth/2fa/disable', request)
+    if (!response.success) {
+      throw new Error(response.message || 'Failed to disable two-factor authentication')
+    }
+    return response
+  }
+
+  /**
+   * Replace all backup codes; the old ones stop working
+   */
+  async regenerateBackupCodes(request: TwoFactorSetupRequest): Promise<string[]> {
+    const response = await apiService.post<TwoFactorVerifyResponse>('/auth/2fa/backup-codes', request)
+    if (!response.success || !response.backupCodes) {
+      throw new Error(response.message || 'Failed to generate backup codes')
+    }
+    return response.backupCodes
+  }
+}
+
+// Export singleton instance
+export const twoFactorService = new TwoFactorService()
+
+// Export for testing
+export { TwoFactorService }
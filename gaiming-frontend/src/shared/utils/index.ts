@@ -1 +1,2 @@
 export * from './stateUtils';
+export * from './urlState';
@@ -0,0 +1,83 @@
+/**
+ * Serialize list filters, sort and pagination to URL query strings
+ * Values equal to their defaults are left out so shared links stay short
+ */
+
+export type QueryParamType = 'string' | 'number' | 'boolean' | 'numberList' | 'stringList';
+
+// A list of allowed strings, e.g. ['asc', 'desc'], rejects anything else
+export type QueryParamSpec = QueryParamType | readonly string[];
+
+// Every filter key maps to how it is written in the URL
+export type QueryParamSchema<T> = { [K in keyof T]-?: QueryParamSpec };
+
+const LIST_SEPARATOR = ',';
+
+function parseValue(raw: string, type: QueryParamSpec): unknown {
+  if (typeof type !== 'string') {
+    return type.includes(raw) ? raw : undefined;
+  }
+  switch (type) {
+    case 'string':
+      return raw;
+    case 'number': {
+      const value = Number(raw);
+      return raw.trim() !== '' && Number.isFinite(value) ? value : undefined;
+    }
+    case 'boolean':
+      return raw === 'true' ? true : raw === 'false' ? false : undefined;
+    case 'numberList': {
+      const values = raw.split(LIST_SEPARATOR).filter(Boolean).map(Number);
+      return values.every(Number.isFinite) ? values : undefined;
+    }
+    case 'stringList':
+      return raw.split(LIST_SEPARATOR).filter(Boolean);
+  }
+}
+
+function formatValue(value: unknown, type: QueryParamSpec): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (type === 'numberList' || type === 'stringList') {
+    const values = value as Array<string | number>;
+    return values.length > 0 ? values.join(LIST_SEPARATOR) : undefined;
+  }
+  return String(value);
+}
+
+/**
+ * Read filters from query params, falling back to defaults for missing or malformed values
+ */
+export function parseQueryParams<T extends object>(
+  params: URLSearchParams,
+  schema: QueryParamSchema<T>,
+  defaults: T
+): T {
+  const result = { ...defaults } as Record<string, unknown>;
+  (Object.keys(schema) as Array<keyof T & string>).forEach(key => {
+    const raw = params.get(key);
+    if (raw === null) return;
+    const value = parseValue(raw, schema[key]);
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  });
+  return result as T;
+}
+
+/**
+ * Write filters to query params, omitting empty values and values equal to their default
+ */
+export function serializeQueryParams<T extends object>(
+  values: T,
+  schema: QueryParamSchema<T>,
+  defaults: T
+): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(schema) as Array<keyof T & string>).forEach(key => {
+    const type = schema[key];
+    const formatted = formatValue(values[key], type);
+    if (formatted === undefined || formatted === formatValue(defaults[key], type)) return;
+    params.set(key, formatted);
+  });
+  return params;
+}